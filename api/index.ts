@@ -7,6 +7,12 @@
  * 3. FreeAgent redirects back with auth code
  * 4. We exchange for FreeAgent tokens and issue MCP tokens
  * 5. MCP tokens are mapped to FreeAgent tokens for API calls
+ *
+ * FREEAGENT_OAUTH_MODE picks how MCP tokens map to FreeAgent tokens:
+ * - "jwt" (default): FreeAgent tokens are encoded in signed JWTs; only revoked
+ *   token IDs are stored, in the OAuth store's denylist.
+ * - "proxy": opaque MCP tokens mapped through an OAuth store (Redis, file or
+ *   memory; see src/services/oauth-store.ts), which also keeps registered clients.
  */
 
 import express from "express";
@@ -14,13 +20,17 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { mcpAuthRouter } from "@modelcontextprotocol/sdk/server/auth/router.js";
 import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
-import { createFreeAgentJWTOAuthProvider, getFreeAgentTokenFromJWT } from "../src/services/oauth-jwt.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createFreeAgentJWTOAuthProvider } from "../src/services/oauth-jwt.js";
+import { createFreeAgentOAuthProxyProvider } from "../src/services/oauth-proxy.js";
 import { FreeAgentApiClient } from "../src/services/api-client.js";
 import { getBaseUrl } from "../src/constants.js";
 import { registerAllTools } from "../src/tools/register.js";
+import { SUPPORTED_SCOPES } from "../src/services/scopes.js";
 
 // Configuration
 const USE_SANDBOX = process.env.FREEAGENT_USE_SANDBOX === "true";
+const OAUTH_MODE = process.env.FREEAGENT_OAUTH_MODE === "proxy" ? "proxy" : "jwt";
 
 const BASE_URL = getBaseUrl();
 
@@ -33,8 +43,19 @@ app.set('trust proxy', 1);
 
 app.use(express.json());
 
-// Create JWT-based OAuth provider (stateless)
-const oauthProvider = createFreeAgentJWTOAuthProvider();
+// Create the OAuth provider and the lookup from MCP token to FreeAgent token
+let oauthProvider: ReturnType<typeof createFreeAgentJWTOAuthProvider> | ReturnType<typeof createFreeAgentOAuthProxyProvider>;
+let getFreeAgentToken: (mcpToken: string) => Promise<string | undefined>;
+if (OAUTH_MODE === "proxy") {
+  const proxyProvider = createFreeAgentOAuthProxyProvider();
+  oauthProvider = proxyProvider;
+  getFreeAgentToken = (mcpToken) => proxyProvider.getFreeAgentToken(mcpToken);
+} else {
+  const jwtProvider = createFreeAgentJWTOAuthProvider();
+  oauthProvider = jwtProvider;
+  // Checks the revocation denylist as well as the signature
+  getFreeAgentToken = (mcpToken) => jwtProvider.getFreeAgentToken(mcpToken);
+}
 
 // Add error logging for OAuth token endpoint
 app.use((req: any, res: any, next: any) => {
@@ -68,7 +89,7 @@ app.use(mcpAuthRouter({
   issuerUrl: new URL(BASE_URL),
   baseUrl: new URL(BASE_URL),
   serviceDocumentationUrl: new URL("https://dev.freeagent.com/docs/oauth"),
-  scopesSupported: ["freeagent"],
+  scopesSupported: [...SUPPORTED_SCOPES],
   resourceName: "FreeAgent MCP Server",
   resourceServerUrl: new URL(BASE_URL),
 }));
@@ -103,15 +124,15 @@ app.get("/oauth/callback", async (req: any, res: any) => {
   }
 });
 
-// Create MCP server with tools
-function createMcpServer(freeagentToken: string): McpServer {
+// Create MCP server with the tools the token's scopes permit
+function createMcpServer(freeagentToken: string, auth: AuthInfo | undefined): McpServer {
   const server = new McpServer({
     name: "freeagent-mcp-server",
     version: "1.0.0"
   });
 
   const apiClient = new FreeAgentApiClient(freeagentToken, USE_SANDBOX);
-  registerAllTools(server, apiClient);
+  registerAllTools(server, apiClient, { scopes: auth?.scopes ?? [], clientId: auth?.clientId });
 
   return server;
 }
@@ -129,12 +150,13 @@ async function handleMcpRequest(req: any, res: any) {
       return res.status(401).json({ error: "No authorization token" });
     }
 
-    const freeagentToken = getFreeAgentTokenFromJWT(mcpToken);
+    const freeagentToken = await getFreeAgentToken(mcpToken);
     if (!freeagentToken) {
       return res.status(401).json({ error: "Invalid token" });
     }
 
-    const server = createMcpServer(freeagentToken);
+    // bearerAuth has verified the token and attached its AuthInfo
+    const server = createMcpServer(freeagentToken, req.auth);
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined, // Stateless mode - no sessions needed for serverless
     });
@@ -164,7 +186,7 @@ app.get("/health", (req: any, res: any) => {
     status: "ok",
     service: "freeagent-mcp-server",
     version: "1.0.0",
-    oauth_mode: "jwt-stateless",
+    oauth_mode: OAUTH_MODE === "proxy" ? "proxy-store" : "jwt-stateless",
     freeagent_environment: USE_SANDBOX ? "sandbox" : "production",
   });
 });
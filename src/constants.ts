@@ -14,10 +14,17 @@ export const CHARACTER_LIMIT = 25000;
 export const RATE_LIMIT_REQUESTS = 15;
 export const RATE_LIMIT_WINDOW_SECONDS = 60;
 
+// Retries for idempotent (GET) requests on 429, 5xx and network errors
+export const MAX_RETRIES = 3;
+export const RETRY_BASE_DELAY_MS = 1000;
+
 // Pagination defaults
 export const DEFAULT_PAGE_SIZE = 25;
 export const MAX_PAGE_SIZE = 100;
 
+// Attachments: FreeAgent's per-file upload limit
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
 // Response formats
 export enum ResponseFormat {
   MARKDOWN = "markdown",
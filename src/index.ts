@@ -4,15 +4,29 @@
  * This server provides MCP tools for interacting with the FreeAgent accounting API.
  * It supports OAuth 2.0 authentication and provides access to contacts, invoices,
  * expenses, projects, bank accounts, and company information.
+ *
+ * Authentication, in order of preference:
+ * - FREEAGENT_CLIENT_ID + FREEAGENT_CLIENT_SECRET with a refresh token from the
+ *   credentials file (written by `login`) or FREEAGENT_REFRESH_TOKEN. Access
+ *   tokens are refreshed automatically and rotated refresh tokens saved.
+ * - FREEAGENT_ACCESS_TOKEN, a raw access token that expires after an hour.
+ *
+ * `node dist/index.js login` runs the OAuth authorization-code flow on a
+ * loopback redirect and stores the tokens in the credentials file.
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { FreeAgentApiClient } from "./services/api-client.js";
+import { CredentialsFile, RefreshingTokenProvider, type TokenProvider } from "./services/credentials.js";
+import { DEFAULT_LOGIN_PORT, runLogin } from "./services/oauth-login.js";
 import { registerAllTools } from "./tools/register.js";
 
 // Get configuration from environment
 const ACCESS_TOKEN = process.env.FREEAGENT_ACCESS_TOKEN;
+const CLIENT_ID = process.env.FREEAGENT_CLIENT_ID;
+const CLIENT_SECRET = process.env.FREEAGENT_CLIENT_SECRET;
+const REFRESH_TOKEN = process.env.FREEAGENT_REFRESH_TOKEN;
 const USE_SANDBOX = process.env.FREEAGENT_USE_SANDBOX === "true";
 
 // Logging helper with timestamps
@@ -27,14 +41,78 @@ function log(level: string, message: string, data?: Record<string, unknown>) {
   console.error(JSON.stringify(logEntry));
 }
 
+/**
+ * `login` subcommand: authorize the app in a browser and save the tokens.
+ */
+async function login() {
+  if (!CLIENT_ID || !CLIENT_SECRET) {
+    log("error", "FREEAGENT_CLIENT_ID and FREEAGENT_CLIENT_SECRET are required for login", {
+      documentation: "https://dev.freeagent.com/docs/oauth",
+    });
+    process.exit(1);
+  }
+
+  const port = process.env.FREEAGENT_LOGIN_PORT ? parseInt(process.env.FREEAGENT_LOGIN_PORT, 10) : DEFAULT_LOGIN_PORT;
+  const file = new CredentialsFile();
+  await runLogin({
+    clientId: CLIENT_ID,
+    clientSecret: CLIENT_SECRET,
+    useSandbox: USE_SANDBOX,
+    port,
+    file,
+    onAuthorizeUrl: (url) => {
+      log("info", "Open this URL in a browser to authorize the FreeAgent MCP server", {
+        url,
+        redirectUri: `http://localhost:${port}/callback`,
+      });
+    },
+  });
+  log("info", "Login complete; credentials saved", { credentialsFile: file.filePath });
+}
+
+/**
+ * Pick the API client's credentials: a refreshing provider when client
+ * credentials and a refresh token are available, otherwise the raw access
+ * token. The credentials file wins over FREEAGENT_REFRESH_TOKEN because it
+ * holds the most recently rotated token.
+ */
+async function resolveAuth(): Promise<string | TokenProvider | undefined> {
+  if (CLIENT_ID && CLIENT_SECRET) {
+    const file = new CredentialsFile();
+    const stored = await file.load();
+    const initial = stored ?? (REFRESH_TOKEN ? { refresh_token: REFRESH_TOKEN } : undefined);
+    if (initial) {
+      log("info", "Using OAuth refresh token", {
+        source: stored ? file.filePath : "FREEAGENT_REFRESH_TOKEN",
+      });
+      return new RefreshingTokenProvider(
+        { clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, useSandbox: USE_SANDBOX },
+        initial,
+        file,
+        (credentials) => log("info", "Refreshed FreeAgent access token", {
+          expiresAt: new Date(credentials.expires_at ?? Date.now()).toISOString(),
+        })
+      );
+    }
+  }
+  return ACCESS_TOKEN;
+}
+
 async function main() {
+  if (process.argv[2] === "login") {
+    await login();
+    return;
+  }
+
   // Validate environment variables
-  if (!ACCESS_TOKEN) {
-    log("error", "FREEAGENT_ACCESS_TOKEN environment variable is required", {
+  const auth = await resolveAuth();
+  if (!auth) {
+    log("error", "FreeAgent credentials are required", {
       instructions: [
-        "Create an app at https://dev.freeagent.com",
-        "Use OAuth 2.0 to obtain an access token",
-        "Set FREEAGENT_ACCESS_TOKEN environment variable",
+        `Create an app at https://dev.freeagent.com with redirect URI http://localhost:${DEFAULT_LOGIN_PORT}/callback`,
+        "Set FREEAGENT_CLIENT_ID and FREEAGENT_CLIENT_SECRET environment variables",
+        "Run `node dist/index.js login` once to store a refresh token, or set FREEAGENT_REFRESH_TOKEN",
+        "Alternatively set FREEAGENT_ACCESS_TOKEN (expires after 1 hour)",
         "Optionally set FREEAGENT_USE_SANDBOX=true for sandbox API",
       ],
       documentation: "https://dev.freeagent.com/docs/oauth",
@@ -54,8 +132,9 @@ async function main() {
     version: "1.0.0"
   });
 
-  const apiClient = new FreeAgentApiClient(ACCESS_TOKEN, USE_SANDBOX);
-  registerAllTools(server, apiClient);
+  const apiClient = new FreeAgentApiClient(auth, USE_SANDBOX);
+  // Running as the user, so attachments may be read from their files
+  registerAllTools(server, apiClient, { allowLocalFiles: true });
 
   // Create transport
   const transport = new StdioServerTransport();
@@ -140,11 +219,13 @@ async function main() {
       clearInterval(heartbeatInterval);
     });
 
-    // Warning: Log token expiration concern (tokens typically expire after 1 hour)
-    log("warn", "Note: FreeAgent access tokens typically expire after 1 hour. If you experience disconnects, check token expiration.", {
-      tokenLength: ACCESS_TOKEN.length,
-      suggestion: "Consider implementing OAuth refresh tokens for long-running connections",
-    });
+    // Warning: raw access tokens are not refreshed and expire after 1 hour
+    if (typeof auth === "string") {
+      log("warn", "Note: FreeAgent access tokens typically expire after 1 hour. If you experience disconnects, check token expiration.", {
+        tokenLength: auth.length,
+        suggestion: "Set FREEAGENT_CLIENT_ID and FREEAGENT_CLIENT_SECRET and run `login` for automatic token refresh",
+      });
+    }
   } catch (error) {
     log("error", "Failed to connect server to transport", {
       error: error instanceof Error ? error.message : String(error),
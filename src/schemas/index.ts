@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
+import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, CHARACTER_LIMIT } from "../constants.js";
 
 // Base pagination schema
 export const PaginationSchema = z.object({
@@ -17,7 +17,15 @@ export const PaginationSchema = z.object({
     .min(1)
     .max(MAX_PAGE_SIZE)
     .default(DEFAULT_PAGE_SIZE)
-    .describe(`Number of items per page (max ${MAX_PAGE_SIZE})`)
+    .describe(`Number of items per page (max ${MAX_PAGE_SIZE})`),
+  all_pages: z.boolean()
+    .optional()
+    .describe(`Fetch every page starting at \`page\` instead of a single page (default: false). Stops early at \`max_items\` or when the response would exceed ${CHARACTER_LIMIT} characters, returning a \`next_page\` cursor to continue from.`),
+  max_items: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("With all_pages, stop after collecting this many items.")
 }).strict();
 
 // Response format schema
@@ -25,6 +33,34 @@ export const ResponseFormatSchema = z.nativeEnum(ResponseFormat)
   .default(ResponseFormat.MARKDOWN)
   .describe("Output format: 'markdown' for human-readable or 'json' for machine-readable");
 
+// Dry-run flag shared by write tools
+export const DryRunSchema = z.boolean()
+  .optional()
+  .describe("If true, run every lookup and validation step and return the exact request that would be sent to FreeAgent, without writing anything.");
+
+// Retry protection for create tools
+export const IdempotencyKeySchema = z.string()
+  .min(1)
+  .max(255)
+  .optional()
+  .describe("Any unique string for this create, e.g. a UUID. Retrying with the same key and arguments returns the first call's result instead of creating a second record.");
+
+export const AllowDuplicateSchema = z.boolean()
+  .optional()
+  .describe("Create the record even if one with the same counterparty, amount and date already exists. Leave unset so the user is asked about likely duplicates (or the call is refused when the client cannot ask); set to true only after the user has agreed.");
+
+export const DuplicateWindowSchema = z.number()
+  .int()
+  .min(0)
+  .max(31)
+  .default(3)
+  .describe("Days either side of the date within which an existing record with the same counterparty and amount counts as a likely duplicate (default 3).");
+
+// Confirmation flag for tools that ask a human before changing ledger state
+export const ConfirmSchema = z.boolean()
+  .optional()
+  .describe("Set to true only after the user has approved the action. Needed for cancellations, conversions, write-offs and sending email when the client cannot show a confirmation prompt; ignored when it can.");
+
 // Tool-search schemas (meta-tools used when FREEAGENT_TOOL_SEARCH=true)
 export const SearchToolsInputSchema = z.object({
   query: z.string()
@@ -53,6 +89,8 @@ export const CallToolInputSchema = z.object({
 export const ListContactsInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   sort: z.enum(["created_at", "updated_at", "first_name", "last_name", "organisation_name"])
     .optional()
     .describe("Field to sort by"),
@@ -76,13 +114,16 @@ export const CreateContactInputSchema = z.object({
   address1: z.string().optional().describe("Address line 1"),
   town: z.string().optional().describe("Town/City"),
   postcode: z.string().optional().describe("Postal code"),
-  country: z.string().optional().describe("Country code (e.g., GB, US)")
+  country: z.string().optional().describe("Country code (e.g., GB, US)"),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Invoice schemas
 export const ListInvoicesInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["all", "recent_open_or_overdue", "draft", "scheduled", "sent", "overdue"])
     .optional()
     .describe("Filter invoices by status view"),
@@ -101,6 +142,31 @@ export const GetInvoiceInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
+export const GetInvoicePdfInputSchema = z.object({
+  invoice_id: z.string()
+    .min(1)
+    .describe("The FreeAgent invoice ID (numeric) or full URL")
+}).strict();
+
+export const EmailInvoiceInputSchema = z.object({
+  invoice_id: z.string()
+    .min(1)
+    .describe("The FreeAgent invoice ID (numeric) or full URL"),
+  to: z.string()
+    .min(1)
+    .describe("Recipient email address. Separate several addresses with commas."),
+  cc: z.string()
+    .optional()
+    .describe("Optional CC address(es), comma-separated."),
+  subject: z.string()
+    .optional()
+    .describe("Email subject. Give both subject and body, or neither to use FreeAgent's invoice email template."),
+  body: z.string()
+    .optional()
+    .describe("Email body text. FreeAgent adds the link to view and pay the invoice."),
+  confirm: ConfirmSchema
+}).strict();
+
 export const CreateInvoiceInputSchema = z.object({
   contact: z.string()
     .optional()
@@ -127,13 +193,18 @@ export const CreateInvoiceInputSchema = z.object({
     description: z.string().describe("Item description"),
     price: z.string().describe("Price per unit"),
     quantity: z.string().describe("Quantity")
-  })).min(1).describe("Array of invoice line items")
+  })).min(1).describe("Array of invoice line items"),
+  dry_run: DryRunSchema,
+  idempotency_key: IdempotencyKeySchema,
+  allow_duplicate: AllowDuplicateSchema
 }).strict();
 
 // Expense schemas
 export const ListExpensesInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["recent", "awaiting_receipt", "all"])
     .optional()
     .describe("Filter expenses by view"),
@@ -155,17 +226,32 @@ export const GetExpenseInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
-// Attachment schema for expenses and bank transaction explanations
-// PERFORMANCE NOTE: For large files, use gzip compression before Base64 encoding to significantly reduce size
-// and speed up LLM processing (which processes character-by-character). The server will automatically decompress.
+// Attachment schema for expenses, bills and bank transaction explanations.
+// Give exactly one of path, uri or data. With path or uri the server reads the file,
+// checks its type and size, and does the Base64 encoding, so the file never passes
+// through the LLM's context.
 const AttachmentSchema = z.object({
-  data: z.string().describe("Base64 encoded file content. For large files, gzip compress first then Base64 encode, and set is_gzipped=true"),
+  path: z.string()
+    .min(1)
+    .optional()
+    .describe("Absolute path of the file on the machine running the server, e.g. '/Users/me/Receipts/taxi.pdf' or '~/Receipts/taxi.pdf'. Only the local (stdio) server can read files."),
+  uri: z.string()
+    .min(1)
+    .optional()
+    .describe("file:// or https:// URI of the file, e.g. an MCP resource URI. file:// URIs only work on the local (stdio) server."),
+  data: z.string()
+    .min(1)
+    .optional()
+    .describe("Base64 encoded file content. Prefer path or uri: inline data fills the context window. For large files, gzip compress first then Base64 encode, and set is_gzipped=true"),
   is_gzipped: z.boolean()
     .optional()
-    .describe("Set to true if the data is gzip-compressed before Base64 encoding (default: false). Server will automatically decompress before uploading to FreeAgent."),
-  file_name: z.string().describe("Original filename"),
+    .describe("Set to true if the file is gzip-compressed (default: false). Server will automatically decompress before uploading to FreeAgent."),
+  file_name: z.string()
+    .optional()
+    .describe("Filename shown in FreeAgent. Required with data; defaults to the name at the end of path or uri"),
   content_type: z.enum(["application/pdf", "image/png", "image/jpeg", "image/gif"])
-    .describe("MIME type of the file"),
+    .optional()
+    .describe("MIME type of the file. Detected from the file's contents when omitted; a value that does not match the contents is an error"),
   description: z.string().optional().describe("Optional description of the attachment")
 }).strict();
 
@@ -243,7 +329,10 @@ export const CreateExpenseInputSchema = z.object({
     .min(0)
     .max(1)
     .optional()
-    .describe("Mileage reclaim method: 0 = rebill only (default), 1 = AMAP rate")
+    .describe("Mileage reclaim method: 0 = rebill only (default), 1 = AMAP rate"),
+  idempotency_key: IdempotencyKeySchema,
+  allow_duplicate: AllowDuplicateSchema,
+  duplicate_window_days: DuplicateWindowSchema
 }).strict();
 
 export const UpdateExpenseInputSchema = z.object({
@@ -328,6 +417,8 @@ export const UpdateExpenseInputSchema = z.object({
 export const ListProjectsInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["active", "completed", "cancelled", "all"])
     .optional()
     .describe("Filter projects by status"),
@@ -388,13 +479,16 @@ export const CreateProjectInputSchema = z.object({
     .describe("Hours per working day (decimal string)"),
   include_unbilled_time_in_profitability: z.boolean()
     .optional()
-    .describe("Include unbilled time in profit calculations")
+    .describe("Include unbilled time in profit calculations"),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Task schemas
 export const ListTasksInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["active", "completed", "hidden", "all"])
     .optional()
     .describe("Filter tasks by status"),
@@ -436,7 +530,8 @@ export const CreateTaskInputSchema = z.object({
     .describe("Billing rate (decimal string)"),
   billing_period: z.enum(["hour", "day"])
     .optional()
-    .describe("Billing period (hour or day)")
+    .describe("Billing period (hour or day)"),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Category schemas
@@ -473,6 +568,8 @@ export const ListBankTransactionsInputSchema = z.object({
     .describe("Bank account URL or ID to list transactions for"),
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   from_date: z.string()
     .regex(/^\d{4}-\d{2}-\d{2}$/)
     .optional()
@@ -498,6 +595,8 @@ export const GetBankTransactionInputSchema = z.object({
 export const ListTimeslipsInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   from_date: z.string()
     .regex(/^\d{4}-\d{2}-\d{2}$/)
     .optional()
@@ -542,7 +641,8 @@ export const CreateTimeslipInputSchema = z.object({
     .describe("Hours worked (decimal string, e.g., '7.5')"),
   comment: z.string()
     .optional()
-    .describe("Description or comment about the work performed")
+    .describe("Description or comment about the work performed"),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Bank transaction explanation schemas
@@ -560,6 +660,8 @@ export const ListBankTransactionExplanationsInputSchema = z.object({
     .describe("Filter explanations to this date (YYYY-MM-DD)"),
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -621,7 +723,9 @@ export const CreateBankTransactionExplanationInputSchema = z.object({
   // Attachment
   attachment: AttachmentSchema
     .optional()
-    .describe("Optional file attachment for the explanation")
+    .describe("Optional file attachment for the explanation"),
+  idempotency_key: IdempotencyKeySchema,
+  allow_duplicate: AllowDuplicateSchema
 }).strict();
 
 export const UpdateBankTransactionExplanationInputSchema = z.object({
@@ -705,6 +809,8 @@ export const UpdateTimeslipInputSchema = z.object({
 export const ListBillsInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["recent", "open", "overdue", "paid", "all"])
     .optional()
     .describe("Filter bills by status view."),
@@ -749,6 +855,9 @@ export const CreateBillInputSchema = z.object({
     .optional()
     .describe("Currency code (e.g. 'GBP', 'USD'). Defaults to the company's currency."),
   comments: z.string().optional().describe("Internal comments for the bill."),
+  attachment: AttachmentSchema
+    .optional()
+    .describe("File attachment (the supplier's invoice) for the bill"),
   payment_terms_in_days: z.number().int().optional().describe("Payment terms in days."),
   ec_status: z.enum(["UK/Non-EC", "EC Goods", "EC Services", "Reverse Charge"])
     .optional()
@@ -759,13 +868,19 @@ export const CreateBillInputSchema = z.object({
     price: z.string().describe("Unit price as decimal string."),
     quantity: z.string().describe("Quantity as decimal string."),
     sales_tax_rate: z.string().optional().describe("Sales tax rate as decimal (e.g. '0.20' for 20%).")
-  })).min(1).describe("Array of bill line items.")
+  })).min(1).describe("Array of bill line items."),
+  dry_run: DryRunSchema,
+  idempotency_key: IdempotencyKeySchema,
+  allow_duplicate: AllowDuplicateSchema,
+  duplicate_window_days: DuplicateWindowSchema
 }).strict();
 
 // Estimate schemas
 export const ListEstimatesInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["all", "draft", "sent", "approved", "rejected", "cancelled", "invoiced"])
     .optional()
     .describe("Filter estimates by status."),
@@ -815,7 +930,8 @@ export const CreateEstimateInputSchema = z.object({
     price: z.string().describe("Price per unit."),
     quantity: z.string().describe("Quantity."),
     sales_tax_rate: z.string().optional().describe("Sales tax rate (e.g. '0.20' for 20%).")
-  })).min(1).describe("Array of estimate line items.")
+  })).min(1).describe("Array of estimate line items."),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 export const TransitionEstimateInputSchema = z.object({
@@ -830,13 +946,16 @@ export const TransitionEstimateInputSchema = z.object({
     "mark_as_draft",
     "convert_to_invoice"
   ])
-    .describe("Transition to apply. 'mark_as_sent' Draft→Sent, 'mark_as_approved' after client accepts, 'mark_as_rejected'/'mark_as_cancelled' close the estimate, 'mark_as_draft' rolls back, 'convert_to_invoice' creates an invoice from the approved estimate.")
+    .describe("Transition to apply. 'mark_as_sent' Draft→Sent, 'mark_as_approved' after client accepts, 'mark_as_rejected'/'mark_as_cancelled' close the estimate, 'mark_as_draft' rolls back, 'convert_to_invoice' creates an invoice from the approved estimate."),
+  confirm: ConfirmSchema
 }).strict();
 
 // Recurring invoice schemas (read-only)
 export const ListRecurringInvoicesInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   view: z.enum(["all", "active", "cancelled"])
     .optional()
     .describe("Filter recurring invoices by status."),
@@ -855,6 +974,8 @@ export const GetRecurringInvoiceInputSchema = z.object({
 export const ListPriceListItemsInputSchema = z.object({
   page: PaginationSchema.shape.page,
   per_page: PaginationSchema.shape.per_page,
+  all_pages: PaginationSchema.shape.all_pages,
+  max_items: PaginationSchema.shape.max_items,
   response_format: ResponseFormatSchema
 }).strict();
 
@@ -870,7 +991,8 @@ export const CreatePriceListItemInputSchema = z.object({
   price: z.string().describe("Unit price as decimal string."),
   item_type: z.string().default("Products").describe("Item type (e.g. 'Products', 'Hours', 'Days')."),
   sales_tax_rate: z.string().optional().describe("Sales tax rate as decimal (e.g. '0.20' for 20%)."),
-  category: z.string().optional().describe("Category URL or nominal code.")
+  category: z.string().optional().describe("Category URL or nominal code."),
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Transition a FreeAgent invoice between lifecycle states.
@@ -885,7 +1007,70 @@ export const TransitionInvoiceInputSchema = z.object({
     "mark_as_scheduled",
     "convert_to_credit_note"
   ])
-    .describe("Transition to apply. 'mark_as_sent' moves Draft → Sent, 'mark_as_cancelled' voids a sent invoice, 'mark_as_draft' rolls back to Draft, 'mark_as_scheduled' queues a future send, 'convert_to_credit_note' creates a credit note against the invoice.")
+    .describe("Transition to apply. 'mark_as_sent' moves Draft → Sent, 'mark_as_cancelled' voids a sent invoice, 'mark_as_draft' rolls back to Draft, 'mark_as_scheduled' queues a future send, 'convert_to_credit_note' creates a credit note against the invoice."),
+  confirm: ConfirmSchema
+}).strict();
+
+// Credit notes, refunds and write-offs against an existing invoice.
+const CreditNoteLineSchema = z.object({
+  line: z.number()
+    .int()
+    .min(1)
+    .describe("1-based position of the line on the invoice, in the order freeagent_get_invoice lists them."),
+  quantity: z.string()
+    .regex(/^\d+(\.\d+)?$/, "Quantity must be a positive decimal like '2' or '1.5'")
+    .optional()
+    .describe("Quantity to credit. Defaults to the line's full quantity and may not exceed it.")
+}).strict();
+
+export const CreateCreditNoteInputSchema = z.object({
+  invoice_id: z.string()
+    .min(1)
+    .describe("The FreeAgent invoice ID (numeric) or full URL to credit."),
+  lines: z.array(CreditNoteLineSchema)
+    .min(1)
+    .optional()
+    .describe("Invoice lines to credit, with optional partial quantities. Omit to credit every line in full."),
+  dated_on: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Credit note date (YYYY-MM-DD). Defaults to today."),
+  reason: z.string()
+    .optional()
+    .describe("Why the credit is being issued. Added to the credit note comments after the invoice reference."),
+  apply_to_invoice: z.boolean()
+    .default(true)
+    .describe("Allocate the credit against the invoice's outstanding balance, up to what is still due. Set false to leave it unallocated, e.g. when the customer will be refunded."),
+  dry_run: DryRunSchema,
+  idempotency_key: IdempotencyKeySchema
+}).strict();
+
+export const RefundInvoiceInputSchema = z.object({
+  invoice_id: z.string()
+    .min(1)
+    .describe("The FreeAgent invoice ID (numeric) or full URL being refunded."),
+  bank_transaction_id: z.string()
+    .min(1)
+    .describe("The outgoing bank transaction (ID or URL) that paid the refund. Its amount is the refund amount."),
+  description: z.string()
+    .optional()
+    .describe("Explanation description. Defaults to 'Refund of invoice <reference>'."),
+  dry_run: DryRunSchema
+}).strict();
+
+export const WriteOffInvoiceInputSchema = z.object({
+  invoice_id: z.string()
+    .min(1)
+    .describe("The FreeAgent invoice ID (numeric) or full URL to write off."),
+  dated_on: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Write-off date (YYYY-MM-DD). Defaults to today."),
+  reason: z.string()
+    .optional()
+    .describe("Why the debt is being written off, e.g. 'Customer in liquidation'."),
+  dry_run: DryRunSchema,
+  confirm: ConfirmSchema
 }).strict();
 
 // Intent-bundle: draft an invoice from a contact's unbilled timeslips.
@@ -926,9 +1111,33 @@ export const InvoiceFromTimeslipsInputSchema = z.object({
   discount_percent: z.string()
     .optional()
     .describe("Discount to apply to the drafted invoice, as a decimal string (e.g., '20' for 20%)."),
+  grouping: z.enum(["task", "timeslip", "day", "user", "project"])
+    .default("task")
+    .describe("How timeslips become invoice lines: one line per task (default), per timeslip, per day, per user, or per project. Timeslips at different rates never share a line."),
+  rounding: z.object({
+    increment_minutes: z.union([z.literal(6), z.literal(10), z.literal(15), z.literal(30), z.literal(60)])
+      .describe("Round time to multiples of this many minutes, e.g. 15 or 30."),
+    direction: z.enum(["up", "nearest", "down"])
+      .default("up")
+      .describe("Round up (default), to the nearest increment, or down."),
+    per: z.enum(["timeslip", "line"])
+      .default("timeslip")
+      .describe("Round each timeslip before adding them up (default), or round each line's total.")
+  }).strict()
+    .optional()
+    .describe("Optional rounding of billed time. Omit to bill exact hours."),
+  rate_overrides: z.record(z.string(), z.string().regex(/^\d+(\.\d{1,2})?$/, "Rate must be a decimal like '95.00'"))
+    .optional()
+    .describe("Hourly rates for this call that replace task and project rates, e.g. the rates agreed with this contact. They are not saved: pass them on every call that needs them. Keys are task names, task IDs or URLs, or '*' for every task, e.g. { \"Design\": \"80.00\", \"*\": \"95.00\" }."),
+  description_template: z.string()
+    .min(1)
+    .optional()
+    .describe("Line description template. Placeholders: {task}, {project}, {user}, {date} (a range when the line spans days), {comments} (first 3 distinct), {hours}. A separator left dangling by an empty placeholder is dropped. Defaults depend on grouping, e.g. '{task}: {comments}' or '{date}: {task}'."),
   link_timeslips: z.boolean()
     .default(false)
-    .describe("If true, attempt to link the source timeslips to the new invoice by setting `billed_on_invoice` on each. FreeAgent sometimes rejects these writes — any failures are surfaced in the response.")
+    .describe("If true, attempt to link the source timeslips to the new invoice by setting `billed_on_invoice` on each. FreeAgent sometimes rejects these writes — any failures are surfaced in the response."),
+  dry_run: DryRunSchema,
+  idempotency_key: IdempotencyKeySchema
 }).strict();
 
 // Intent-bundle: log a regular expense with human-friendly inputs.
@@ -967,7 +1176,11 @@ export const LogExpenseInputSchema = z.object({
     .describe("Receipt reference identifier."),
   project: z.string()
     .optional()
-    .describe("Project URL or ID to associate with the expense.")
+    .describe("Project URL or ID to associate with the expense."),
+  dry_run: DryRunSchema,
+  idempotency_key: IdempotencyKeySchema,
+  allow_duplicate: AllowDuplicateSchema,
+  duplicate_window_days: DuplicateWindowSchema
 }).strict();
 
 // Intent-bundle: reconcile a bank transaction in one call.
@@ -992,7 +1205,265 @@ export const ReconcileBankTransactionInputSchema = z.object({
     .describe("Set true to flag the explanation for human review (e.g. when the match is a guess)."),
   receipt_reference: z.string()
     .optional()
-    .describe("Receipt or transaction reference identifier.")
+    .describe("Receipt or transaction reference identifier."),
+  ec_status: z.enum(["UK/Non-EC", "EC Goods", "EC Services", "Reverse Charge"])
+    .optional()
+    .describe("EC status for the explanation. FreeAgent defaults it when omitted."),
+  sales_tax_rate: z.string()
+    .optional()
+    .describe("Sales tax rate as decimal (e.g. '0.20' for 20%). Only used with `category`."),
+  dry_run: DryRunSchema
+}).strict();
+
+// Bulk reconciliation: match a bank account's unexplained transactions to open invoices and bills.
+export const ReconcileBankAccountInputSchema = z.object({
+  bank_account: z.string()
+    .min(1)
+    .describe("Bank account ID (numeric) or full URL whose unexplained transactions should be matched."),
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Only consider transactions on or after this date (YYYY-MM-DD)."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Only consider transactions on or before this date (YYYY-MM-DD)."),
+  date_window_days: z.number()
+    .int()
+    .min(0)
+    .max(365)
+    .default(30)
+    .describe("How many days a transaction may fall outside an invoice's or bill's dated_on → due_on range and still match (default 30)."),
+  min_confidence: z.number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Only propose matches scoring at least this confidence, from 0 to 1 (default 0.5)."),
+  max_transactions: z.number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(100)
+    .describe("Stop after checking this many unexplained transactions (default 100)."),
+  approve: z.array(z.object({
+    bank_transaction: z.string().min(1).describe("Bank transaction ID or URL."),
+    match: z.string().min(1).describe("Invoice or bill URL to explain it against, as proposed."),
+  }).strict())
+    .min(1)
+    .optional()
+    .describe("Matches the user approved. When given, only these are applied and no new proposals are made. Use on clients that cannot show the approval form.")
+}).strict();
+
+// Reconciliation rules: recurring bank lines → category, VAT treatment and description.
+export const ReconciliationRuleSchema = z.object({
+  name: z.string()
+    .min(1)
+    .describe("Unique rule name (e.g. 'AWS'). Saving a rule with an existing name replaces it."),
+  pattern: z.string()
+    .min(1)
+    .describe("Text to find in the bank transaction description, e.g. 'AWS' or 'TFL TRAVEL'."),
+  match_type: z.enum(["contains", "regex"])
+    .optional()
+    .describe("'contains' (default) matches a case-insensitive substring; 'regex' treats `pattern` as a case-insensitive regular expression."),
+  direction: z.enum(["in", "out"])
+    .optional()
+    .describe("Only match money received ('in') or spent ('out'). Matches both when omitted."),
+  min_amount: z.string()
+    .regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive decimal like '12.50'")
+    .optional()
+    .describe("Only match transactions of at least this amount, ignoring sign."),
+  max_amount: z.string()
+    .regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive decimal like '12.50'")
+    .optional()
+    .describe("Only match transactions of at most this amount, ignoring sign."),
+  category: z.string()
+    .min(1)
+    .describe("Category to explain matches against: name (e.g. 'Computer Software'), nominal code, or URL. Resolved when the rule is applied."),
+  ec_status: z.enum(["UK/Non-EC", "EC Goods", "EC Services", "Reverse Charge"])
+    .optional()
+    .describe("EC status to set on the explanation."),
+  sales_tax_rate: z.string()
+    .optional()
+    .describe("Sales tax rate as decimal (e.g. '0.20' for 20%)."),
+  description: z.string()
+    .optional()
+    .describe("Description for the explanation. Omit to keep FreeAgent's default.")
+}).strict();
+
+export const ListReconciliationRulesInputSchema = z.object({
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const SaveReconciliationRuleInputSchema = ReconciliationRuleSchema;
+
+export const DeleteReconciliationRuleInputSchema = z.object({
+  name: z.string()
+    .min(1)
+    .describe("Name of the rule to delete.")
+}).strict();
+
+export const ApplyReconciliationRulesInputSchema = z.object({
+  bank_account: z.string()
+    .min(1)
+    .describe("Bank account ID (numeric) or full URL whose unexplained transactions the rules should be applied to."),
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Only consider transactions on or after this date (YYYY-MM-DD)."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Only consider transactions on or before this date (YYYY-MM-DD)."),
+  max_transactions: z.number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(100)
+    .describe("Stop after checking this many unexplained transactions (default 100)."),
+  dry_run: DryRunSchema
+}).strict();
+
+// Audit log schema
+const AUDIT_TIME_FORMAT = "Use YYYY-MM-DD or an ISO 8601 timestamp with a time zone, e.g. '2026-04-01T09:30:00Z'";
+const AuditTimeSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/, AUDIT_TIME_FORMAT)
+  // The date must exist (no 2026-02-30) and the time must be a real one
+  .refine((value) => {
+    const day = value.slice(0, 10);
+    const midnight = Date.parse(`${day}T00:00:00Z`);
+    return !Number.isNaN(midnight) && new Date(midnight).toISOString().startsWith(day) && !Number.isNaN(Date.parse(value));
+  }, `Not a valid date or time. ${AUDIT_TIME_FORMAT}`);
+
+export const ListAuditEventsInputSchema = z.object({
+  tool: z.string()
+    .optional()
+    .describe("Only events for this tool name, e.g. 'freeagent_create_invoice'."),
+  client_id: z.string()
+    .optional()
+    .describe("Only events from this OAuth client ID. Local (stdio) servers only: over HTTP you always see your own client's events."),
+  outcome: z.enum(["success", "error"])
+    .optional()
+    .describe("Only successful or only failed calls."),
+  since: AuditTimeSchema
+    .optional()
+    .describe("Only events at or after this time (ISO 8601 timestamp or YYYY-MM-DD)."),
+  until: AuditTimeSchema
+    .optional()
+    .describe("Only events at or before this time (ISO 8601 timestamp or YYYY-MM-DD, which includes the whole day)."),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe("Maximum number of events to return, newest first (default 50)."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const UndoInputSchema = z.object({
+  operation_id: z.string()
+    .min(1)
+    .optional()
+    .describe("ID of the write to undo, from freeagent_list_audit_events. Leave out to undo the most recent writes."),
+  last: z.number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(1)
+    .describe("How many of your most recent writes to undo, newest first (default 1). Ignored with operation_id."),
+}).strict();
+
+export const FindDuplicatesInputSchema = z.object({
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe("Start of the date range to scan (YYYY-MM-DD)."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe("End of the date range to scan (YYYY-MM-DD)."),
+  kind: z.enum(["expenses", "bills", "both"])
+    .default("both")
+    .describe("Which records to scan (default both)."),
+  window_days: DuplicateWindowSchema,
+  response_format: ResponseFormatSchema
+}).strict();
+
+// Accounting report schemas
+export const GetProfitAndLossInputSchema = z.object({
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Start of the report period (YYYY-MM-DD). With to_date, instead of accounting_period."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("End of the report period (YYYY-MM-DD)."),
+  accounting_period: z.string()
+    .regex(/^\d{4}\/\d{2}$/)
+    .optional()
+    .describe("Accounting year as FreeAgent names it, e.g. '2025/26'. Leave out the dates and this for the current accounting year to date."),
+  compare_previous: z.boolean()
+    .default(false)
+    .describe("Also report the period of the same length just before, with the change for each category."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const GetBalanceSheetInputSchema = z.object({
+  as_of_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Report the balances at the end of this date (YYYY-MM-DD). Defaults to today."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const GetTrialBalanceInputSchema = z.object({
+  as_of_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Report the balances at the end of this date (YYYY-MM-DD). Defaults to today."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const CashFlowForecastInputSchema = z.object({
+  interval: z.enum(["week", "month"])
+    .default("week")
+    .describe("Group the forecast by calendar week (Monday to Sunday) or calendar month (default week)."),
+  periods: z.number()
+    .int()
+    .min(1)
+    .max(52)
+    .default(13)
+    .describe("How many weeks or months to forecast, starting with the current one (default 13)."),
+  contact_lateness_days: z.record(z.string(), z.number().int().min(-365).max(365))
+    .optional()
+    .describe("Days after the due date each contact usually pays (negative for early). Keys are contact IDs or URLs, or '*' for every customer, e.g. { \"42\": 14, \"*\": 5 }. '*' applies to invoices only; bills are expected on their due date unless their supplier is listed."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const AgedBalancesInputSchema = z.object({
+  response_format: ResponseFormatSchema
+}).strict();
+
+// VAT schemas
+export const ListVatReturnsInputSchema = z.object({
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const GetVatReturnInputSchema = z.object({
+  period_ends_on: z.string()
+    .min(1)
+    .describe("The last day of the VAT period (YYYY-MM-DD), as listed by freeagent_list_vat_returns, or the return's full URL."),
+  response_format: ResponseFormatSchema
+}).strict();
+
+export const PreviewVatLiabilityInputSchema = z.object({
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("Start of the VAT period (YYYY-MM-DD). Leave out both dates for the period that includes today."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe("End of the VAT period (YYYY-MM-DD). Transactions after today are not counted."),
+  response_format: ResponseFormatSchema
 }).strict();
 
 // Company schema
@@ -1005,12 +1476,727 @@ export const ListUsersInputSchema = z.object({
   response_format: ResponseFormatSchema
 }).strict();
 
+// Output schemas
+//
+// Shapes of the structuredContent each tool returns next to its text output.
+// Resource schemas type the fields agents rely on and are loose, so any other
+// fields FreeAgent returns are passed through untouched.
+
+const ResourceUrl = z.string().describe("FreeAgent API URL of the resource; also usable as its ID");
+
+export const ListPaginationOutputSchema = z.object({
+  page: z.number().int().describe("First page included in this response"),
+  per_page: z.number().int(),
+  total_count: z.number().int().optional().describe("Total matching items, when FreeAgent reports it"),
+  has_more: z.boolean(),
+  next_page: z.number().int().optional().describe("Pass as `page` to continue"),
+  pages_fetched: z.number().int(),
+  stopped_at: z.enum(["max_items", "character_limit"]).optional()
+    .describe("Why an all_pages fetch stopped before the last page"),
+});
+
+export const WritePreviewOutputSchema = z.object({
+  method: z.literal("POST"),
+  path: z.string().describe("API path the request would be sent to"),
+  body: z.record(z.string(), z.unknown()).describe("Exact request body that would be sent"),
+  resolved: z.array(z.object({
+    field: z.string(),
+    hint: z.string().describe("Value as given, e.g. a name, nominal code or ID"),
+    url: z.string().describe("FreeAgent URL it resolved to"),
+  })).describe("Hints resolved to FreeAgent URLs while building the request"),
+}).describe("Present only on a dry run, in place of the created resource");
+
+const LineItemOutputSchema = z.looseObject({
+  item_type: z.string().optional(),
+  description: z.string().optional(),
+  price: z.string().optional(),
+  quantity: z.string().optional(),
+  sales_tax_rate: z.string().optional(),
+});
+
+export const ContactResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  organisation_name: z.string().optional(),
+  email: z.string().optional(),
+  phone_number: z.string().optional(),
+  default_payment_terms_in_days: z.number().optional(),
+  active_projects_count: z.number().optional(),
+});
+
+export const InvoiceResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  project: z.string().optional(),
+  reference: z.string().optional(),
+  dated_on: z.string().optional(),
+  due_on: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  net_value: z.string().optional(),
+  sales_tax_value: z.string().optional(),
+  total_value: z.string().optional(),
+  paid_value: z.string().optional(),
+  due_value: z.string().optional(),
+  discount_percent: z.string().optional(),
+  invoice_items: z.array(LineItemOutputSchema).optional(),
+});
+
+export const CreditNoteResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  reference: z.string().optional(),
+  dated_on: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  net_value: z.string().optional(),
+  sales_tax_value: z.string().optional(),
+  total_value: z.string().optional(),
+  comments: z.string().optional(),
+  credit_note_items: z.array(LineItemOutputSchema).optional(),
+});
+
+export const CreditNoteReconciliationResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  invoice: z.string().optional(),
+  credit_note: z.string().optional(),
+  gross_value: z.string().optional(),
+  dated_on: z.string().optional(),
+});
+
+export const EstimateResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  project: z.string().optional(),
+  reference: z.string().optional(),
+  dated_on: z.string().optional(),
+  expires_on: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  net_value: z.string().optional(),
+  total_value: z.string().optional(),
+  estimate_items: z.array(LineItemOutputSchema).optional(),
+});
+
+export const RecurringInvoiceResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  reference: z.string().optional(),
+  frequency: z.string().optional(),
+  next_recurs_on: z.string().optional(),
+  ends_on: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  total_value: z.string().optional(),
+});
+
+export const PriceListItemResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  item_type: z.string().optional(),
+  description: z.string().optional(),
+  price: z.string().optional(),
+  sales_tax_rate: z.string().optional(),
+  category: z.string().optional(),
+});
+
+export const ExpenseResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  user: z.string().optional(),
+  category: z.string().optional(),
+  dated_on: z.string().optional(),
+  gross_value: z.string().optional().describe("Negative for money out, positive for refunds"),
+  currency: z.string().optional(),
+  sales_tax_value: z.string().optional(),
+  description: z.string().optional(),
+  project: z.string().optional(),
+  attachment_count: z.number().optional(),
+});
+
+export const BillResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  reference: z.string().optional(),
+  dated_on: z.string().optional(),
+  due_on: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  total_value: z.string().optional(),
+  paid_value: z.string().optional(),
+  due_value: z.string().optional(),
+  bill_items: z.array(z.looseObject({
+    category: z.string().optional(),
+    description: z.string().optional(),
+    price: z.string().optional(),
+    quantity: z.string().optional(),
+  })).optional(),
+});
+
+export const TimeslipResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  user: z.string().optional(),
+  project: z.string().optional(),
+  task: z.string().optional(),
+  dated_on: z.string().optional(),
+  hours: z.string().optional(),
+  comment: z.string().optional(),
+  billed_on_invoice: z.string().optional(),
+});
+
+export const BankAccountResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  name: z.string().optional(),
+  type: z.string().optional(),
+  currency: z.string().optional(),
+  current_balance: z.string().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const BankTransactionResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  bank_account: z.string().optional(),
+  dated_on: z.string().optional(),
+  amount: z.string().optional(),
+  description: z.string().optional(),
+  unexplained_amount: z.string().optional().describe("Non-zero while the transaction is not fully explained"),
+  is_manual: z.boolean().optional(),
+  bank_transaction_explanations: z.array(z.string()).optional(),
+});
+
+export const BankTransactionExplanationResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  bank_transaction: z.string().optional(),
+  dated_on: z.string().optional(),
+  gross_value: z.string().optional(),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  paid_invoice: z.string().optional(),
+  paid_bill: z.string().optional(),
+  paid_user: z.string().optional(),
+  transfer_bank_account: z.string().optional(),
+  marked_for_review: z.boolean().optional(),
+});
+
+export const ProjectResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  contact: z.string().optional(),
+  name: z.string().optional(),
+  status: z.string().optional(),
+  currency: z.string().optional(),
+  normal_billing_rate: z.string().optional(),
+  billing_period: z.string().optional(),
+});
+
+export const TaskResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  project: z.string().optional(),
+  name: z.string().optional(),
+  status: z.string().optional(),
+  is_billable: z.boolean().optional(),
+  billing_rate: z.string().optional(),
+  billing_period: z.string().optional(),
+});
+
+export const CategoryResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  description: z.string().optional(),
+  nominal_code: z.string().optional(),
+  group_description: z.string().optional(),
+});
+
+export const CompanyResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  name: z.string().optional(),
+  subdomain: z.string().optional(),
+  type: z.string().optional(),
+  currency: z.string().optional(),
+  sales_tax_registration_status: z.string().optional(),
+});
+
+export const UserResourceSchema = z.looseObject({
+  url: ResourceUrl,
+  email: z.string().optional(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  role: z.string().optional(),
+  permission_level: z.number().optional(),
+});
+
+export const ContactListOutputSchema = z.object({
+  contacts: z.array(ContactResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const ContactOutputSchema = z.object({ contact: ContactResourceSchema });
+
+export const InvoiceListOutputSchema = z.object({
+  invoices: z.array(InvoiceResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const InvoiceOutputSchema = z.object({ invoice: InvoiceResourceSchema });
+export const CreateInvoiceOutputSchema = z.object({
+  invoice: InvoiceResourceSchema.optional().describe("Absent on a dry run"),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+export const InvoiceFromTimeslipsOutputSchema = z.object({
+  invoice: InvoiceResourceSchema.optional().describe("Absent on a dry run"),
+  preview: WritePreviewOutputSchema.optional(),
+  total_hours: z.number(),
+  timeslips: z.array(z.string()).describe("URLs of the timeslips that were invoiced"),
+  timeslips_linked: z.number().int().optional().describe("Present when link_timeslips was requested"),
+  link_failures: z.array(z.string()).optional(),
+});
+
+export const InvoicePdfOutputSchema = z.object({
+  invoice: z.string().describe("URL of the invoice"),
+  filename: z.string(),
+  mime_type: z.literal("application/pdf"),
+  size_bytes: z.number().int(),
+  resource_uri: z.string().describe("URI of the embedded resource carrying the PDF"),
+});
+
+export const EmailInvoiceOutputSchema = z.object({
+  invoice: z.string().describe("URL of the invoice that was emailed"),
+  email: z.object({
+    to: z.string(),
+    cc: z.string().optional(),
+    subject: z.string().optional(),
+    body: z.string().optional(),
+    use_template: z.boolean().describe("True when FreeAgent's invoice email template was used"),
+  }),
+});
+
+export const CreditNoteOutputSchema = z.object({
+  invoice: z.string().describe("URL of the invoice that was credited"),
+  credit_note: CreditNoteResourceSchema.optional().describe("Absent on a dry run"),
+  credit_note_reconciliation: CreditNoteReconciliationResourceSchema.optional()
+    .describe("Present when the credit was allocated against the invoice"),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+export const RefundInvoiceOutputSchema = z.object({
+  invoice: z.string().describe("URL of the refunded invoice"),
+  bank_transaction_explanation: BankTransactionExplanationResourceSchema.optional()
+    .describe("Absent on a dry run"),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+export const EstimateListOutputSchema = z.object({
+  estimates: z.array(EstimateResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const EstimateOutputSchema = z.object({ estimate: EstimateResourceSchema });
+
+export const RecurringInvoiceListOutputSchema = z.object({
+  recurring_invoices: z.array(RecurringInvoiceResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const RecurringInvoiceOutputSchema = z.object({ recurring_invoice: RecurringInvoiceResourceSchema });
+
+export const PriceListItemListOutputSchema = z.object({
+  price_list_items: z.array(PriceListItemResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const PriceListItemOutputSchema = z.object({ price_list_item: PriceListItemResourceSchema });
+
+export const ExpenseListOutputSchema = z.object({
+  expenses: z.array(ExpenseResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const ExpenseOutputSchema = z.object({ expense: ExpenseResourceSchema });
+export const LogExpenseOutputSchema = z.object({
+  expense: ExpenseResourceSchema.optional().describe("Absent on a dry run"),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+export const BillListOutputSchema = z.object({
+  bills: z.array(BillResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const BillOutputSchema = z.object({ bill: BillResourceSchema });
+export const CreateBillOutputSchema = z.object({
+  bill: BillResourceSchema.optional().describe("Absent on a dry run"),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+export const TimeslipListOutputSchema = z.object({
+  timeslips: z.array(TimeslipResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const TimeslipOutputSchema = z.object({ timeslip: TimeslipResourceSchema });
+
+export const BankAccountListOutputSchema = z.object({ bank_accounts: z.array(BankAccountResourceSchema) });
+export const BankAccountOutputSchema = z.object({ bank_account: BankAccountResourceSchema });
+
+export const BankTransactionListOutputSchema = z.object({
+  transactions: z.array(BankTransactionResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const BankTransactionOutputSchema = z.object({ bank_transaction: BankTransactionResourceSchema });
+
+export const BankTransactionExplanationListOutputSchema = z.object({
+  explanations: z.array(BankTransactionExplanationResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const BankTransactionExplanationOutputSchema = z.object({
+  bank_transaction_explanation: BankTransactionExplanationResourceSchema,
+});
+
+export const ReconcileBankTransactionOutputSchema = z.object({
+  bank_transaction_explanation: BankTransactionExplanationResourceSchema.optional()
+    .describe("Absent on a dry run"),
+  linked_to: z.object({
+    kind: z.enum(["category", "invoice", "bill"]),
+    url: z.string().describe("Resolved category, invoice or bill URL"),
+  }),
+  preview: WritePreviewOutputSchema.optional(),
+});
+
+const ReconcileMatchOutputSchema = z.object({
+  kind: z.enum(["invoice", "bill"]),
+  url: z.string(),
+  reference: z.string().optional(),
+  dated_on: z.string().optional(),
+  due_on: z.string().optional(),
+  due_value: z.string().describe("Amount outstanding on the invoice or bill"),
+});
+
+export const ReconcileBankAccountOutputSchema = z.object({
+  bank_account: z.string(),
+  proposals: z.array(z.object({
+    bank_transaction: z.string(),
+    dated_on: z.string(),
+    gross_value: z.string(),
+    description: z.string().optional(),
+    match: ReconcileMatchOutputSchema,
+    confidence: z.number().describe("0 to 1"),
+    reasons: z.array(z.string()),
+  })).describe("Suggested matches, best first. Empty when `approve` was passed"),
+  unmatched: z.array(z.string()).describe("URLs of checked transactions with no match above min_confidence"),
+  has_more: z.boolean().describe("True when max_transactions stopped the walk early"),
+  applied: z.array(z.object({
+    bank_transaction: z.string(),
+    match: z.string(),
+    explanation: z.string().describe("URL of the created bank transaction explanation"),
+  })),
+  failures: z.array(z.object({
+    bank_transaction: z.string(),
+    match: z.string(),
+    error: z.string(),
+  })),
+});
+
+const ReconciliationRuleResourceSchema = z.object({
+  name: z.string(),
+  pattern: z.string(),
+  match_type: z.enum(["contains", "regex"]).optional(),
+  direction: z.enum(["in", "out"]).optional(),
+  min_amount: z.string().optional(),
+  max_amount: z.string().optional(),
+  category: z.string(),
+  ec_status: z.string().optional(),
+  sales_tax_rate: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const ReconciliationRuleListOutputSchema = z.object({
+  rules: z.array(ReconciliationRuleResourceSchema).describe("Rules in the order they are tried"),
+});
+
+export const SaveReconciliationRuleOutputSchema = z.object({
+  rule: ReconciliationRuleResourceSchema,
+  replaced: z.boolean().describe("True when a rule with the same name was overwritten"),
+});
+
+export const DeleteReconciliationRuleOutputSchema = z.object({ deleted: z.string() });
+
+export const ApplyReconciliationRulesOutputSchema = z.object({
+  bank_account: z.string(),
+  results: z.array(z.object({
+    bank_transaction: z.string(),
+    rule: z.string().describe("Name of the rule that fired"),
+    explanation: z.string().optional().describe("URL of the created explanation; absent on a dry run or failure"),
+    preview: WritePreviewOutputSchema.optional(),
+    error: z.string().optional(),
+  })),
+  unmatched: z.array(z.string()).describe("URLs of transactions no rule matched"),
+  has_more: z.boolean().describe("True when max_transactions stopped the walk early"),
+});
+
+export const ProjectListOutputSchema = z.object({
+  projects: z.array(ProjectResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const ProjectOutputSchema = z.object({ project: ProjectResourceSchema });
+
+export const TaskListOutputSchema = z.object({
+  tasks: z.array(TaskResourceSchema),
+  pagination: ListPaginationOutputSchema,
+});
+export const TaskOutputSchema = z.object({ task: TaskResourceSchema });
+
+export const CategoryListOutputSchema = z.object({
+  categories: z.array(CategoryResourceSchema.extend({
+    type: z.enum(["Admin Expenses", "Cost of Sales", "Income", "General"]),
+  })),
+  total_count: z.number().int(),
+});
+export const CategoryOutputSchema = z.object({ category: CategoryResourceSchema });
+
+export const CompanyOutputSchema = z.object({ company: CompanyResourceSchema });
+export const UserListOutputSchema = z.object({ users: z.array(UserResourceSchema) });
+
+export const SearchToolsOutputSchema = z.object({
+  tools: z.array(z.object({
+    name: z.string(),
+    title: z.string(),
+    description: z.string(),
+    input_schema: z.record(z.string(), z.unknown()),
+    output_schema: z.record(z.string(), z.unknown()),
+  })),
+});
+
+export const CallToolOutputSchema = z.object({
+  tool: z.string().describe("Name of the catalog tool that was called"),
+  result: z.record(z.string(), z.unknown()).describe("The called tool's structured output, matching its own output schema"),
+});
+
+const CompensatingActionOutputSchema = z.object({
+  method: z.enum(["DELETE", "PUT"]),
+  path: z.string().describe("FreeAgent URL or API path"),
+  body: z.record(z.string(), z.unknown()).optional(),
+  description: z.string(),
+});
+
+export const AuditEventListOutputSchema = z.object({
+  events: z.array(z.object({
+    id: z.string(),
+    timestamp: z.string().describe("ISO 8601 time of the call"),
+    tool: z.string(),
+    client_id: z.string().optional().describe("OAuth client that made the call; absent on the stdio server"),
+    arguments: z.record(z.string(), z.unknown()).describe("Arguments with secrets redacted and long values summarized"),
+    outcome: z.enum(["success", "error"]),
+    resource_urls: z.array(z.string()).describe("FreeAgent URLs of the resources the call created or changed"),
+    error: z.string().optional(),
+    undo: z.array(CompensatingActionOutputSchema).optional()
+      .describe("Requests freeagent_undo would make to reverse the call; absent when it cannot be undone"),
+    reverses: z.string().optional().describe("On freeagent_undo events, the ID of the event that was reversed"),
+  })).describe("Newest first"),
+});
+
+export const UndoOutputSchema = z.object({
+  undone: z.array(z.object({
+    operation_id: z.string().describe("ID of the audit event that was reversed"),
+    tool: z.string(),
+    actions: z.array(CompensatingActionOutputSchema),
+    outcome: z.enum(["success", "error"]),
+    error: z.string().optional(),
+  })),
+  skipped: z.array(z.object({
+    operation_id: z.string(),
+    tool: z.string(),
+    reason: z.string(),
+  })).describe("Writes within `last` that could not be undone"),
+});
+
+const DuplicateMatchOutputSchema = z.object({
+  url: z.string(),
+  dated_on: z.string(),
+  amount: z.string(),
+  reference: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const FindDuplicatesOutputSchema = z.object({
+  from_date: z.string(),
+  to_date: z.string(),
+  window_days: z.number().int(),
+  scanned: z.number().int().describe("Expenses and bills examined"),
+  clusters: z.array(z.object({
+    kind: z.enum(["expense", "bill"]),
+    counterparty: z.string().describe("User (expenses) or contact (bills) URL"),
+    amount: z.string(),
+    records: z.array(DuplicateMatchOutputSchema).describe("Earliest first"),
+  })).describe("Groups of records with the same counterparty and amount, dated within window_days of each other"),
+});
+
+const ProfitAndLossLineOutputSchema = z.object({
+  category: z.string().describe("Category URL"),
+  nominal_code: z.string(),
+  name: z.string(),
+  amount: z.string().describe("Income or cost for the period, positive in the usual direction"),
+  previous_amount: z.string().optional().describe("The same figure for the previous period, with compare_previous"),
+});
+
+const ProfitAndLossTotalsOutputSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  income: z.string(),
+  expenses: z.string(),
+  operating_profit: z.string(),
+  less: z.array(z.object({ title: z.string(), total: z.string() })).describe("Deductions after operating profit, e.g. Corporation Tax"),
+  retained_profit: z.string().optional(),
+});
+
+export const ProfitAndLossOutputSchema = z.object({
+  currency: z.string(),
+  summary: ProfitAndLossTotalsOutputSchema,
+  income: z.array(ProfitAndLossLineOutputSchema),
+  cost_of_sales: z.array(ProfitAndLossLineOutputSchema),
+  admin_expenses: z.array(ProfitAndLossLineOutputSchema),
+  previous: ProfitAndLossTotalsOutputSchema.optional().describe("Totals for the previous period, with compare_previous"),
+});
+
+const AccountRowOutputSchema = z.object({
+  nominal_code: z.string(),
+  name: z.string(),
+  total: z.string().describe("Balance; debits positive, credits negative in the trial balance"),
+  category: z.string().optional().describe("Category URL"),
+  category_description: z.string().optional(),
+  category_group: z.enum(["Income", "Cost of Sales", "Admin Expenses", "General"]).optional(),
+  group_description: z.string().optional(),
+});
+
+export const BalanceSheetOutputSchema = z.object({
+  as_of_date: z.string(),
+  accounting_period_start_date: z.string().optional(),
+  currency: z.string(),
+  sections: z.array(z.object({
+    key: z.string().describe("FreeAgent's name for the section, e.g. current_assets"),
+    title: z.string(),
+    rows: z.array(AccountRowOutputSchema),
+    totals: z.record(z.string(), z.string()).describe("The section's own figures, e.g. total or net_book_value"),
+  })),
+  totals: z.record(z.string(), z.string()).describe("Sheet-wide figures, e.g. total_assets"),
+});
+
+export const TrialBalanceOutputSchema = z.object({
+  as_of_date: z.string(),
+  currency: z.string(),
+  rows: z.array(AccountRowOutputSchema),
+  total_debits: z.string(),
+  total_credits: z.string(),
+});
+
+export const CashFlowForecastOutputSchema = z.object({
+  interval: z.enum(["week", "month"]),
+  start_date: z.string(),
+  end_date: z.string(),
+  currency: z.string(),
+  opening_balance: z.string().describe("Current balance of the bank accounts in the company currency"),
+  bank_accounts: z.array(z.object({ url: z.string(), name: z.string(), balance: z.string() })),
+  periods: z.array(z.object({
+    start: z.string(),
+    end: z.string(),
+    inflows: z.string(),
+    outflows: z.string(),
+    net: z.string(),
+    closing_balance: z.string(),
+    negative: z.boolean().describe("The balance ends the period below zero"),
+  })),
+  items: z.array(z.object({
+    kind: z.enum(["invoice", "bill", "recurring_invoice"]),
+    url: z.string(),
+    contact: z.string(),
+    reference: z.string().optional(),
+    due_on: z.string(),
+    expected_on: z.string().describe("due_on plus the contact's lateness, or the start date if that has passed"),
+    amount: z.string().describe("Positive for money in, negative for money out"),
+  })).describe("Every expected payment, by expected date"),
+  negative_periods: z.array(z.string()).describe("Start dates of the periods that end overdrawn"),
+  notes: z.array(z.string()),
+});
+
+const AgeingTotalsOutputSchema = z.object({
+  current: z.string().describe("Not yet due"),
+  days_1_30: z.string(),
+  days_31_60: z.string(),
+  days_61_90: z.string(),
+  days_over_90: z.string(),
+  total: z.string(),
+});
+
+export const AgedBalancesOutputSchema = z.object({
+  as_of_date: z.string(),
+  currencies: z.array(z.object({
+    currency: z.string(),
+    totals: AgeingTotalsOutputSchema,
+    contacts: z.array(z.object({
+      contact: z.string().describe("Contact URL"),
+      name: z.string(),
+      totals: AgeingTotalsOutputSchema,
+      documents: z.array(z.object({
+        url: z.string(),
+        reference: z.string().optional(),
+        dated_on: z.string(),
+        due_on: z.string(),
+        days_overdue: z.number().int().describe("0 or less when not yet due"),
+        bucket: z.enum(["current", "days_1_30", "days_31_60", "days_61_90", "days_over_90"]),
+        amount: z.string().describe("Amount still outstanding"),
+      })).describe("Oldest first"),
+    })).describe("Largest balance first"),
+  })).describe("One entry per currency; amounts are not converted"),
+});
+
+const VatReturnSummaryOutputSchema = z.object({
+  url: z.string(),
+  period_starts_on: z.string(),
+  period_ends_on: z.string().describe("Identifies the return for freeagent_get_vat_return"),
+  frequency: z.string().optional(),
+  filing_status: z.string().optional(),
+  filing_due_on: z.string().optional(),
+  filed_at: z.string().optional(),
+  payment_due_on: z.string().optional(),
+  amount_due: z.string().optional(),
+  payment_status: z.string().optional(),
+});
+
+const VatBoxOutputSchema = z.object({
+  box: z.number().int().min(1).max(9),
+  label: z.string(),
+  amount: z.string(),
+});
+
+export const VatReturnListOutputSchema = z.object({
+  vat_returns: z.array(VatReturnSummaryOutputSchema).describe("Latest period first"),
+});
+
+export const VatReturnOutputSchema = z.object({
+  vat_return: VatReturnSummaryOutputSchema.extend({
+    boxes: z.array(VatBoxOutputSchema).describe("Empty when FreeAgent has not worked out the figures"),
+  }),
+});
+
+export const VatLiabilityPreviewOutputSchema = z.object({
+  period_starts_on: z.string(),
+  period_ends_on: z.string(),
+  as_of_date: z.string().describe("Transactions up to this date are counted"),
+  currency: z.string(),
+  boxes: z.array(VatBoxOutputSchema),
+  net_vat_due: z.string().describe("Box 3 minus box 4: positive is owed to HMRC, negative is a refund"),
+  counted: z.object({
+    invoices: z.number().int(),
+    credit_notes: z.number().int(),
+    bills: z.number().int(),
+    explanations: z.number().int(),
+  }),
+  for_review: z.array(z.object({
+    url: z.string(),
+    dated_on: z.string(),
+    description: z.string().optional(),
+    gross_value: z.string(),
+  })).describe("Bank transaction explanations still marked for review; they are counted, but may change"),
+  notes: z.array(z.string()),
+});
+
 // Type exports
 export type ListContactsInput = z.infer<typeof ListContactsInputSchema>;
 export type GetContactInput = z.infer<typeof GetContactInputSchema>;
 export type CreateContactInput = z.infer<typeof CreateContactInputSchema>;
 export type ListInvoicesInput = z.infer<typeof ListInvoicesInputSchema>;
 export type GetInvoiceInput = z.infer<typeof GetInvoiceInputSchema>;
+export type GetInvoicePdfInput = z.infer<typeof GetInvoicePdfInputSchema>;
+export type EmailInvoiceInput = z.infer<typeof EmailInvoiceInputSchema>;
 export type CreateInvoiceInput = z.infer<typeof CreateInvoiceInputSchema>;
 export type ListExpensesInput = z.infer<typeof ListExpensesInputSchema>;
 export type GetExpenseInput = z.infer<typeof GetExpenseInputSchema>;
@@ -1039,8 +2225,16 @@ export type UpdateBankTransactionExplanationInput = z.infer<typeof UpdateBankTra
 export type GetCompanyInput = z.infer<typeof GetCompanyInputSchema>;
 export type ListUsersInput = z.infer<typeof ListUsersInputSchema>;
 export type ReconcileBankTransactionInput = z.infer<typeof ReconcileBankTransactionInputSchema>;
+export type ReconcileBankAccountInput = z.infer<typeof ReconcileBankAccountInputSchema>;
+export type ListReconciliationRulesInput = z.infer<typeof ListReconciliationRulesInputSchema>;
+export type SaveReconciliationRuleInput = z.infer<typeof SaveReconciliationRuleInputSchema>;
+export type DeleteReconciliationRuleInput = z.infer<typeof DeleteReconciliationRuleInputSchema>;
+export type ApplyReconciliationRulesInput = z.infer<typeof ApplyReconciliationRulesInputSchema>;
 export type LogExpenseInput = z.infer<typeof LogExpenseInputSchema>;
 export type InvoiceFromTimeslipsInput = z.infer<typeof InvoiceFromTimeslipsInputSchema>;
+export type CreateCreditNoteInput = z.infer<typeof CreateCreditNoteInputSchema>;
+export type RefundInvoiceInput = z.infer<typeof RefundInvoiceInputSchema>;
+export type WriteOffInvoiceInput = z.infer<typeof WriteOffInvoiceInputSchema>;
 export type TransitionInvoiceInput = z.infer<typeof TransitionInvoiceInputSchema>;
 export type ListBillsInput = z.infer<typeof ListBillsInputSchema>;
 export type GetBillInput = z.infer<typeof GetBillInputSchema>;
@@ -1056,3 +2250,15 @@ export type GetPriceListItemInput = z.infer<typeof GetPriceListItemInputSchema>;
 export type CreatePriceListItemInput = z.infer<typeof CreatePriceListItemInputSchema>;
 export type SearchToolsInput = z.infer<typeof SearchToolsInputSchema>;
 export type CallToolInput = z.infer<typeof CallToolInputSchema>;
+export type ListAuditEventsInput = z.infer<typeof ListAuditEventsInputSchema>;
+export type UndoInput = z.infer<typeof UndoInputSchema>;
+export type FindDuplicatesInput = z.infer<typeof FindDuplicatesInputSchema>;
+export type AttachmentInput = z.infer<typeof AttachmentSchema>;
+export type GetProfitAndLossInput = z.infer<typeof GetProfitAndLossInputSchema>;
+export type GetBalanceSheetInput = z.infer<typeof GetBalanceSheetInputSchema>;
+export type GetTrialBalanceInput = z.infer<typeof GetTrialBalanceInputSchema>;
+export type CashFlowForecastInput = z.infer<typeof CashFlowForecastInputSchema>;
+export type AgedBalancesInput = z.infer<typeof AgedBalancesInputSchema>;
+export type ListVatReturnsInput = z.infer<typeof ListVatReturnsInputSchema>;
+export type GetVatReturnInput = z.infer<typeof GetVatReturnInputSchema>;
+export type PreviewVatLiabilityInput = z.infer<typeof PreviewVatLiabilityInputSchema>;
@@ -6,6 +6,7 @@ import {
   CreateContactInputSchema,
   CreateInvoiceInputSchema,
   ListExpensesInputSchema,
+  ListAuditEventsInputSchema,
 } from "./index.js";
 
 describe("PaginationSchema", () => {
@@ -159,3 +160,19 @@ describe("ListExpensesInputSchema", () => {
     ).toThrow();
   });
 });
+
+describe("ListAuditEventsInputSchema", () => {
+  it("accepts dates and timestamps with a time zone", () => {
+    const result = ListAuditEventsInputSchema.parse({ since: "2026-04-01", until: "2026-04-01T09:30:00+01:00" });
+    expect(result.since).toBe("2026-04-01");
+    expect(result.until).toBe("2026-04-01T09:30:00+01:00");
+  });
+
+  it("rejects dates and times that do not exist", () => {
+    for (const since of ["2026-13-45T00:00Z", "2026-02-30", "2026-04-01T25:00Z"]) {
+      const result = ListAuditEventsInputSchema.safeParse({ since });
+      expect(result.success, since).toBe(false);
+      expect(result.error?.issues[0].message).toContain("Not a valid date or time");
+    }
+  });
+});
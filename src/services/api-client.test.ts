@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach, type Mock } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
 import { FreeAgentApiClient, formatErrorForLLM } from "./api-client.js";
 
 interface MockAxiosInstance {
@@ -39,6 +39,11 @@ describe("FreeAgentApiClient", () => {
     client = new FreeAgentApiClient("test-token", true);
   });
 
+  it("builds resource URLs on the host it talks to", () => {
+    expect(client.resourceUrl("/bank_accounts/7")).toBe("https://api.sandbox.freeagent.com/v2/bank_accounts/7");
+    expect(new FreeAgentApiClient("test-token").resourceUrl("/bank_accounts/7")).toBe("https://api.freeagent.com/v2/bank_accounts/7");
+  });
+
   describe("get", () => {
     it("returns data and headers from response", async () => {
       const mockAxios = await getMockAxios();
@@ -66,6 +71,135 @@ describe("FreeAgentApiClient", () => {
     });
   });
 
+  describe("rate limiting and retries", () => {
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      const mockAxios = await getMockAxios();
+      mockAxios.get.mockReset();
+      mockAxios.post.mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function rateLimitError(retryAfter?: string) {
+      return {
+        isAxiosError: true,
+        response: { status: 429, headers: retryAfter ? { "retry-after": retryAfter } : {}, data: {} },
+      };
+    }
+
+    it("retries a GET after a 429, honouring Retry-After, and reports the wait", async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.get
+        .mockRejectedValueOnce(rateLimitError("2"))
+        .mockResolvedValueOnce({ data: { ok: true }, headers: {} });
+
+      const pending = client.get<{ ok: boolean }>("/contacts");
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await pending;
+
+      expect(result.data.ok).toBe(true);
+      expect(result.waitedMs).toBeGreaterThanOrEqual(2000);
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not retry a POST that hit the rate limit", async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.post.mockRejectedValueOnce(rateLimitError("5"));
+
+      await expect(client.post("/contacts", {})).rejects.toThrow(/Rate limit exceeded.*15 requests per 60 seconds/);
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries a GET on 5xx with exponential backoff and gives up after MAX_RETRIES", async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.get.mockRejectedValue({ isAxiosError: true, response: { status: 503, headers: {}, data: {} } });
+
+      const pending = client.get("/contacts");
+      const assertion = expect(pending).rejects.toThrow(/status 503/);
+      await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+      await assertion;
+
+      expect(mockAxios.get).toHaveBeenCalledTimes(4);
+    });
+
+    it("queues requests once the bucket is empty", async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.get.mockResolvedValue({ data: {}, headers: {} });
+
+      const responses = await Promise.all(
+        Array.from({ length: 15 }, () => client.get("/contacts"))
+      );
+      expect(responses.every((r) => r.waitedMs === 0)).toBe(true);
+
+      const queued = client.get("/contacts");
+      await vi.advanceTimersByTimeAsync(4000);
+      const result = await queued;
+      expect(result.waitedMs).toBe(4000);
+    });
+  });
+
+  describe("token provider", () => {
+    const unauthorized = { isAxiosError: true, response: { status: 401, headers: {}, data: {} } };
+
+    beforeEach(async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.get.mockReset();
+      mockAxios.post.mockReset();
+    });
+
+    it("sends the provider's token and retries a write once after refreshing on 401", async () => {
+      const mockAxios = await getMockAxios();
+      const provider = { getAccessToken: vi.fn(async () => "old"), refresh: vi.fn(async () => "new") };
+      const refreshing = new FreeAgentApiClient(provider, true);
+      mockAxios.post
+        .mockRejectedValueOnce(unauthorized)
+        .mockResolvedValueOnce({ data: { ok: true }, headers: {} });
+
+      const result = await refreshing.post<{ ok: boolean }>("/contacts", { contact: {} });
+
+      expect(result.data.ok).toBe(true);
+      expect(provider.refresh).toHaveBeenCalledTimes(1);
+      expect(mockAxios.post.mock.calls.map((c) => c[2])).toEqual([
+        { headers: { Authorization: "Bearer old" } },
+        { headers: { Authorization: "Bearer new" } },
+      ]);
+    });
+
+    it("gives up with the authentication error when the refreshed token is also rejected", async () => {
+      const mockAxios = await getMockAxios();
+      const provider = { getAccessToken: vi.fn(async () => "old"), refresh: vi.fn(async () => "new") };
+      mockAxios.get.mockRejectedValue(unauthorized);
+
+      await expect(new FreeAgentApiClient(provider, true).get("/contacts")).rejects.toThrow(/Authentication failed/);
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+      expect(provider.refresh).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("paginate", () => {
+    it("yields pages until the Link header has no next page", async () => {
+      const mockAxios = await getMockAxios();
+      mockAxios.get
+        .mockResolvedValueOnce({
+          data: { contacts: [{ url: "c/1" }] },
+          headers: { link: '<https://api.freeagent.com/v2/contacts?page=2>; rel="next"' },
+        })
+        .mockResolvedValueOnce({ data: { contacts: [{ url: "c/2" }] }, headers: {} });
+
+      const pages = [];
+      for await (const page of client.paginate<{ url: string }>("/contacts", "contacts", { per_page: 1 })) {
+        pages.push(page);
+      }
+
+      expect(pages.map((p) => p.page)).toEqual([1, 2]);
+      expect(pages.flatMap((p) => p.items.map((i) => i.url))).toEqual(["c/1", "c/2"]);
+      expect(mockAxios.get).toHaveBeenLastCalledWith("/contacts", { params: { per_page: 1, page: 2 } });
+    });
+  });
+
   describe("parsePaginationHeaders", () => {
     it("parses x-total-count header", () => {
       const result = client.parsePaginationHeaders({ "x-total-count": "42" });
@@ -2,30 +2,63 @@
  * FreeAgent API Client Service
  */
 
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from "axios";
-import { API_BASE_URL, SANDBOX_API_BASE_URL, API_VERSION } from "../constants.js";
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import {
+  API_BASE_URL,
+  SANDBOX_API_BASE_URL,
+  API_VERSION,
+  RATE_LIMIT_REQUESTS,
+  RATE_LIMIT_WINDOW_SECONDS,
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS
+} from "../constants.js";
 import type { FreeAgentApiError, FreeAgentApiErrorItem } from "../types.js";
+import { RateLimiter, parseRetryAfter, sleep } from "./rate-limiter.js";
+import type { TokenProvider } from "./credentials.js";
 
 export interface ApiResponse<T> {
   data: T;
   headers: Record<string, string>;
+  /** Milliseconds spent waiting on the rate limiter and retry backoff */
+  waitedMs?: number;
 }
 
+/**
+ * One page of a list endpoint, as yielded by FreeAgentApiClient.paginate()
+ */
+export interface PageResult<T> {
+  items: T[];
+  page: number;
+  totalCount?: number;
+  hasMore: boolean;
+  nextPage?: number;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+type HttpMethod = "get" | "post" | "put" | "delete";
+
 export class FreeAgentApiClient {
   private axiosInstance: AxiosInstance;
-  private accessToken: string;
+  private tokenProvider?: TokenProvider;
   private useSandbox: boolean;
+  private rateLimiter: RateLimiter;
 
-  constructor(accessToken: string, useSandbox: boolean = false) {
-    this.accessToken = accessToken;
+  /**
+   * @param auth - A fixed access token, or a TokenProvider that is asked for
+   *   a token before each request and refreshed once when FreeAgent answers 401
+   */
+  constructor(auth: string | TokenProvider, useSandbox: boolean = false, rateLimiter: RateLimiter = new RateLimiter()) {
+    this.tokenProvider = typeof auth === "string" ? undefined : auth;
     this.useSandbox = useSandbox;
+    this.rateLimiter = rateLimiter;
 
     const baseURL = useSandbox ? SANDBOX_API_BASE_URL : API_BASE_URL;
 
     this.axiosInstance = axios.create({
       baseURL: `${baseURL}/${API_VERSION}`,
       headers: {
-        "Authorization": `Bearer ${accessToken}`,
+        ...(typeof auth === "string" ? { "Authorization": `Bearer ${auth}` } : {}),
         "User-Agent": "FreeAgent-MCP-Server/1.0.0",
         "Accept": "application/json",
         "Content-Type": "application/json"
@@ -37,56 +70,153 @@ export class FreeAgentApiClient {
   /**
    * Make a GET request to the FreeAgent API
    */
-  async get<T>(endpoint: string, params?: Record<string, string | number | boolean | undefined>): Promise<ApiResponse<T>> {
-    try {
-      const config: AxiosRequestConfig = { params };
-      const response = await this.axiosInstance.get<T>(endpoint, config);
-      return { data: response.data, headers: response.headers as Record<string, string> };
-    } catch (error) {
-      throw this.handleError(error);
-    }
+  async get<T>(endpoint: string, params?: QueryParams): Promise<ApiResponse<T>> {
+    return this.request("get", (auth) => this.axiosInstance.get<T>(endpoint, { params, ...auth }));
   }
 
   /**
    * Make a POST request to the FreeAgent API
    */
   async post<T>(endpoint: string, data?: unknown): Promise<ApiResponse<T>> {
-    try {
-      const response = await this.axiosInstance.post<T>(endpoint, data);
-      return { data: response.data, headers: response.headers as Record<string, string> };
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.request("post", (auth) => this.axiosInstance.post<T>(endpoint, data, auth));
   }
 
   /**
    * Make a PUT request to the FreeAgent API
    */
   async put<T>(endpoint: string, data?: unknown): Promise<ApiResponse<T>> {
-    try {
-      const response = await this.axiosInstance.put<T>(endpoint, data);
-      return { data: response.data, headers: response.headers as Record<string, string> };
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.request("put", (auth) => this.axiosInstance.put<T>(endpoint, data, auth));
   }
 
   /**
    * Make a DELETE request to the FreeAgent API
    */
   async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
-    try {
-      const response = await this.axiosInstance.delete<T>(endpoint);
-      return { data: response.data, headers: response.headers as Record<string, string> };
-    } catch (error) {
-      throw this.handleError(error);
+    return this.request("delete", (auth) => this.axiosInstance.delete<T>(endpoint, auth));
+  }
+
+  /**
+   * The URL FreeAgent gives the resource at `endpoint` (e.g.
+   * "/bank_accounts/7"), on the sandbox host when this client uses it
+   */
+  resourceUrl(endpoint: string): string {
+    return `${this.useSandbox ? SANDBOX_API_BASE_URL : API_BASE_URL}/${API_VERSION}${endpoint}`;
+  }
+
+  /**
+   * Iterate over every page of a list endpoint, starting at `params.page`
+   * (default 1) and following the Link header until there is no next page.
+   *
+   * @param endpoint - List endpoint, e.g. "/contacts"
+   * @param collectionKey - Key holding the array in the response body, e.g. "contacts"
+   * @param params - Query parameters sent with every page request
+   */
+  async *paginate<T>(
+    endpoint: string,
+    collectionKey: string,
+    params: QueryParams = {}
+  ): AsyncGenerator<PageResult<T>> {
+    let page = Number(params.page ?? 1);
+
+    for (;;) {
+      const response = await this.get<Record<string, T[] | undefined>>(endpoint, { ...params, page });
+      const items = response.data[collectionKey] ?? [];
+      const pagination = this.parsePaginationHeaders(response.headers);
+
+      yield { items, page, ...pagination };
+
+      if (!pagination.hasMore || !pagination.nextPage || items.length === 0) return;
+      page = pagination.nextPage;
+    }
+  }
+
+  /**
+   * Send a request through the rate limiter.
+   *
+   * Every request waits for a token first. A 429 pauses the limiter for the
+   * server's Retry-After so queued requests back off too. GETs are retried on
+   * 429, 5xx and network errors with exponential backoff; writes are never
+   * retried, since FreeAgent may have applied them before failing.
+   *
+   * With a token provider, a 401 refreshes the token and resends the request
+   * once, whatever the method: FreeAgent rejected it before acting on it.
+   */
+  private async request<T>(
+    method: HttpMethod,
+    send: (auth: AxiosRequestConfig) => Promise<AxiosResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    let waitedMs = 0;
+    let refreshed = false;
+    let auth = await this.authConfig();
+
+    for (let attempt = 0; ; attempt++) {
+      waitedMs += await this.rateLimiter.acquire();
+
+      try {
+        const response = await send(auth);
+        return { data: response.data, headers: response.headers as Record<string, string>, waitedMs };
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+        if (status === 401 && this.tokenProvider && !refreshed) {
+          refreshed = true;
+          auth = this.bearer(await this.tokenProvider.refresh());
+          attempt--;
+          continue;
+        }
+
+        if (status === 429) {
+          const retryAfter = parseRetryAfter(
+            (error as AxiosError).response?.headers?.["retry-after"] as string | undefined
+          );
+          this.rateLimiter.pause(retryAfter ?? RETRY_BASE_DELAY_MS * 2 ** attempt);
+        }
+
+        if (method !== "get" || attempt >= MAX_RETRIES || !this.isRetryable(error)) {
+          throw this.handleError(error, waitedMs);
+        }
+
+        // 429s wait on the paused limiter at the top of the loop; other
+        // transient failures back off here.
+        if (status !== 429) {
+          const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+          await sleep(delay);
+          waitedMs += delay;
+        }
+      }
+    }
+  }
+
+  /**
+   * Per-request Authorization header when tokens come from a provider. A
+   * fixed token is already set on the axios instance.
+   */
+  private async authConfig(): Promise<AxiosRequestConfig> {
+    if (!this.tokenProvider) return {};
+    return this.bearer(await this.tokenProvider.getAccessToken());
+  }
+
+  private bearer(token: string): AxiosRequestConfig {
+    return { headers: { "Authorization": `Bearer ${token}` } };
+  }
+
+  /**
+   * Whether a failed request is worth retrying: rate limits, server errors,
+   * timeouts and connection failures.
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    if (status === undefined) {
+      return ["ECONNABORTED", "ECONNRESET", "ETIMEDOUT", "ECONNREFUSED"].includes(error.code ?? "");
     }
+    return status === 429 || status >= 500;
   }
 
   /**
    * Handle API errors and convert them to user-friendly messages
    */
-  private handleError(error: unknown): Error {
+  private handleError(error: unknown, waitedMs: number = 0): Error {
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError<FreeAgentApiError>;
 
@@ -97,9 +227,12 @@ export class FreeAgentApiClient {
         // Rate limiting
         if (status === 429) {
           const retryAfter = axiosError.response.headers["retry-after"];
+          const waited = waitedMs > 0
+            ? ` Already waited ${Math.round(waitedMs / 1000)} seconds for rate limit slots.`
+            : "";
           return new Error(
-            `Rate limit exceeded. Please retry after ${retryAfter || 60} seconds. ` +
-            `FreeAgent allows 15 requests per 60 seconds.`
+            `Rate limit exceeded. Please retry after ${retryAfter || RATE_LIMIT_WINDOW_SECONDS} seconds. ` +
+            `FreeAgent allows ${RATE_LIMIT_REQUESTS} requests per ${RATE_LIMIT_WINDOW_SECONDS} seconds.${waited}`
           );
         }
 
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { gzipSync } from "zlib";
+import { MAX_ATTACHMENT_BYTES } from "../constants.js";
+import { attachmentPayload, attachmentSummary, loadAttachment, sniffContentType } from "./attachments.js";
+
+const pdf = Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\n%%EOF\n");
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+let dir: string;
+beforeAll(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "attachments-"));
+  writeFileSync(path.join(dir, "taxi receipt.pdf"), pdf);
+  writeFileSync(path.join(dir, "notes.txt"), "not a receipt");
+});
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const local = { allowLocalFiles: true };
+
+describe("sniffContentType", () => {
+  it("recognises the types FreeAgent accepts and nothing else", () => {
+    expect(sniffContentType(pdf)).toBe("application/pdf");
+    expect(sniffContentType(png)).toBe("image/png");
+    expect(sniffContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(sniffContentType(Buffer.from("GIF89a..."))).toBe("image/gif");
+    expect(sniffContentType(Buffer.from("<html>"))).toBeUndefined();
+  });
+});
+
+describe("loadAttachment", () => {
+  it("reads a local path or file:// URI, naming and typing it from the file", async () => {
+    const file = path.join(dir, "taxi receipt.pdf");
+
+    const byPath = await loadAttachment({ path: file, description: "Taxi" }, local);
+    expect(byPath).toEqual({ bytes: pdf, file_name: "taxi receipt.pdf", content_type: "application/pdf", description: "Taxi" });
+    expect(attachmentPayload(byPath)).toEqual({
+      data: pdf.toString("base64"),
+      file_name: "taxi receipt.pdf",
+      content_type: "application/pdf",
+      description: "Taxi",
+    });
+    expect(attachmentSummary(byPath)).toEqual({ file_name: "taxi receipt.pdf", content_type: "application/pdf", size_bytes: pdf.length });
+
+    const byUri = await loadAttachment({ uri: pathToFileURL(file).href }, local);
+    expect(byUri.file_name).toBe("taxi receipt.pdf");
+  });
+
+  it("refuses local files on the HTTP server, relative paths and unsupported types", async () => {
+    const file = path.join(dir, "taxi receipt.pdf");
+    await expect(loadAttachment({ path: file }, { allowLocalFiles: false })).rejects.toThrow("cannot read local files");
+    await expect(loadAttachment({ uri: pathToFileURL(file).href }, { allowLocalFiles: false })).rejects.toThrow("cannot read local files");
+    await expect(loadAttachment({ path: "receipt.pdf" }, local)).rejects.toThrow("not absolute");
+    await expect(loadAttachment({ path: path.join(dir, "missing.pdf") }, local)).rejects.toThrow("not found");
+    await expect(loadAttachment({ path: path.join(dir, "notes.txt") }, local)).rejects.toThrow("not a PDF, PNG, JPEG or GIF");
+  });
+
+  it("needs exactly one source, and file_name with inline data", async () => {
+    await expect(loadAttachment({}, local)).rejects.toThrow("needs a source");
+    await expect(loadAttachment({ path: "/a.pdf", data: "JVBER" }, local)).rejects.toThrow("only one attachment source");
+    await expect(loadAttachment({ data: pdf.toString("base64") }, local)).rejects.toThrow("file_name is required");
+  });
+
+  it("decodes inline data, gunzipping it when asked, and checks content_type against the contents", async () => {
+    const gzipped = await loadAttachment(
+      { data: gzipSync(png).toString("base64"), is_gzipped: true, file_name: "scan.png" },
+      { allowLocalFiles: false }
+    );
+    expect(gzipped).toMatchObject({ bytes: png, content_type: "image/png" });
+
+    await expect(
+      loadAttachment({ data: png.toString("base64"), file_name: "scan.pdf", content_type: "application/pdf" }, local)
+    ).rejects.toThrow("scan.pdf is image/png, but content_type says application/pdf");
+  });
+
+  it("enforces FreeAgent's size limit", async () => {
+    const big = Buffer.alloc(MAX_ATTACHMENT_BYTES + 1);
+    pdf.copy(big);
+    const file = path.join(dir, "big.pdf");
+    writeFileSync(file, big);
+
+    await expect(loadAttachment({ path: file }, local)).rejects.toThrow("FreeAgent accepts attachments up to 5.0 MB");
+  });
+
+  it("downloads https URIs, following redirects but not to private addresses", async () => {
+    const resolve = vi.fn(async (hostname: string) =>
+      hostname === "rebind.example.com"
+        ? [{ address: "93.184.216.34", family: 4 }, { address: "10.0.0.5", family: 4 }]
+        : [{ address: "93.184.216.34", family: 4 }]
+    );
+    const request = vi.fn(async (url: URL, _address: { address: string; family: number }) => {
+      if (url.pathname === "/r") return new Response(null, { status: 302, headers: { location: "/files/invoice%2042.pdf" } });
+      if (url.pathname === "/internal") return new Response(null, { status: 302, headers: { location: "https://169.254.169.254/latest" } });
+      if (url.pathname === "/rebind") return new Response(null, { status: 302, headers: { location: "https://rebind.example.com/a.pdf" } });
+      return new Response(pdf, { status: 200 });
+    });
+    const remote = { allowLocalFiles: false, resolve, request };
+
+    const loaded = await loadAttachment({ uri: "https://files.example.com/r" }, remote);
+    expect(loaded).toMatchObject({ bytes: pdf, file_name: "invoice 42.pdf", content_type: "application/pdf" });
+    // Every hop connects to the address that was checked
+    expect(request.mock.calls.map(([url, address]) => [url.href, address.address])).toEqual([
+      ["https://files.example.com/r", "93.184.216.34"],
+      ["https://files.example.com/files/invoice%2042.pdf", "93.184.216.34"],
+    ]);
+
+    await expect(loadAttachment({ uri: "https://files.example.com/internal" }, remote)).rejects.toThrow("private address");
+    await expect(loadAttachment({ uri: "https://files.example.com/rebind" }, remote)).rejects.toThrow("private address");
+    expect(request.mock.calls.some(([url]) => url.hostname === "rebind.example.com")).toBe(false);
+    await expect(loadAttachment({ uri: "https://localhost/a.pdf" }, remote)).rejects.toThrow("private address");
+  });
+
+  it("refuses IPv4-mapped IPv6, NAT64, benchmarking and multicast addresses", async () => {
+    const remote = { allowLocalFiles: false, resolve: vi.fn(async () => [{ address: "93.184.216.34", family: 4 }]), request: vi.fn() };
+    for (const uri of [
+      "https://[::ffff:127.0.0.1]/a.pdf",
+      "https://[::ffff:a00:1]/a.pdf",
+      "https://[64:ff9b::a00:1]/a.pdf",
+      "https://198.18.0.1/a.pdf",
+      "https://224.0.0.1/a.pdf",
+      "https://255.255.255.255/a.pdf",
+    ]) {
+      await expect(loadAttachment({ uri }, remote)).rejects.toThrow("private address");
+    }
+    expect(remote.request).not.toHaveBeenCalled();
+    await expect(loadAttachment({ uri: "http://files.example.com/a.pdf" }, remote)).rejects.toThrow("must use https://");
+    await expect(loadAttachment({ uri: "s3://bucket/a.pdf" }, local)).rejects.toThrow("Unsupported attachment uri 's3:'");
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Attachment loading for expenses, bills and bank transaction explanations.
+ *
+ * An attachment can be inline Base64 `data`, a local `path`, or a `uri`
+ * (file:// or https://). For paths and URIs the server reads the bytes
+ * itself, so a large receipt never has to pass through the LLM's context.
+ * Whatever the source, the bytes are gunzipped when asked, checked against
+ * FreeAgent's size limit, and sniffed: only PDF, PNG, JPEG and GIF files are
+ * accepted, whatever their name says.
+ *
+ * Local files (path and file:// URIs) are only read when the server runs
+ * on the user's machine (stdio); the HTTP server refuses them.
+ */
+
+import { promises as fs } from "fs";
+import { promises as dns, type LookupAddress } from "dns";
+import https from "https";
+import net from "net";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { fileURLToPath } from "url";
+import { gunzipSync } from "zlib";
+import { MAX_ATTACHMENT_BYTES } from "../constants.js";
+import type { AttachmentInput } from "../schemas/index.js";
+
+export type AttachmentContentType = NonNullable<AttachmentInput["content_type"]>;
+
+export interface LoadedAttachment {
+  bytes: Buffer;
+  file_name: string;
+  content_type: AttachmentContentType;
+  description?: string;
+}
+
+export interface AttachmentOptions {
+  /** Whether `path` and file:// URIs may be read (stdio server only) */
+  allowLocalFiles: boolean;
+  /** Every address a hostname resolves to. Defaults to dns.lookup */
+  resolve?: (hostname: string) => Promise<LookupAddress[]>;
+  /** GET `url` by connecting to `address` only. Defaults to an HTTPS request */
+  request?: (url: URL, address: LookupAddress) => Promise<Response>;
+}
+
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+const EXTENSIONS: Record<AttachmentContentType, string> = {
+  "application/pdf": "pdf",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+};
+
+function formatSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function tooLarge(name: string, bytes: number): Error {
+  return new Error(
+    `${name} is ${formatSize(bytes)}; FreeAgent accepts attachments up to ${formatSize(MAX_ATTACHMENT_BYTES)}. Compress or split the file and try again.`
+  );
+}
+
+/** The attachment type of `bytes`, from their leading bytes */
+export function sniffContentType(bytes: Buffer): AttachmentContentType | undefined {
+  // PDF readers accept a header anywhere in the first 1 KB
+  if (bytes.subarray(0, 1024).includes("%PDF-")) return "application/pdf";
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  const head = bytes.subarray(0, 6).toString("latin1");
+  if (head === "GIF87a" || head === "GIF89a") return "image/gif";
+  return undefined;
+}
+
+/**
+ * Addresses an attachment download may not reach: loopback, private,
+ * link-local, shared (CGNAT), benchmarking, multicast, reserved and
+ * unspecified ranges, and NAT64 (which embeds an IPv4 address).
+ */
+const BLOCKED = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8], ["64:ff9b::", 96]] as const) {
+  BLOCKED.addSubnet(prefix, bits, "ipv6");
+}
+
+/** The IPv4 address inside an IPv4-mapped IPv6 address, dotted (::ffff:a.b.c.d) or hex (::ffff:7f00:1) */
+function mappedIPv4(host: string): string | undefined {
+  const dotted = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return dotted[1];
+  const hex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return undefined;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  if (net.isIPv4(host)) return BLOCKED.check(host, "ipv4");
+  if (net.isIPv6(host)) {
+    const mapped = mappedIPv4(host);
+    return mapped ? isPrivateHost(mapped) : BLOCKED.check(host, "ipv6");
+  }
+  return false;
+}
+
+function localPath(file: string): string {
+  const expanded = file === "~" || file.startsWith("~/") ? path.join(os.homedir(), file.slice(1)) : file;
+  if (!path.isAbsolute(expanded)) {
+    throw new Error(`Attachment path '${file}' is not absolute. Give the full path, e.g. /Users/me/Receipts/taxi.pdf.`);
+  }
+  return expanded;
+}
+
+async function readLocalFile(file: string, options: AttachmentOptions): Promise<Buffer> {
+  if (!options.allowLocalFiles) {
+    throw new Error(
+      "This server cannot read local files: it is not running on your machine. Attach the file with an https:// uri or as Base64 data."
+    );
+  }
+  const stat = await fs.stat(file).catch((error: NodeJS.ErrnoException) => {
+    throw new Error(
+      error.code === "ENOENT" ? `Attachment file not found: ${file}` : `Cannot read attachment ${file}: ${error.message}`
+    );
+  });
+  if (!stat.isFile()) throw new Error(`Attachment path ${file} is not a file.`);
+  if (stat.size > MAX_ATTACHMENT_BYTES) throw tooLarge(path.basename(file), stat.size);
+  return fs.readFile(file);
+}
+
+/** Read a response body, giving up once it passes the size limit */
+async function readCapped(response: Response, name: string): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > MAX_ATTACHMENT_BYTES) throw tooLarge(name, declared);
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_ATTACHMENT_BYTES) {
+      await reader.cancel();
+      throw new Error(`${name} is larger than FreeAgent's ${formatSize(MAX_ATTACHMENT_BYTES)} attachment limit.`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * The address to connect to for `hostname`. Every address the name resolves
+ * to must be public: a name with one private address among several could
+ * otherwise be steered to it.
+ */
+async function resolvePublic(url: URL, options: AttachmentOptions): Promise<LookupAddress> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const refuse = () => new Error(`Attachment URL ${url.origin} points at a private address.`);
+  if (isPrivateHost(host)) throw refuse();
+
+  const family = net.isIP(host);
+  if (family) return { address: host, family };
+  const resolve = options.resolve ?? ((name: string) => dns.lookup(name, { all: true }));
+  const addresses = await resolve(host).catch((error: Error) => {
+    throw new Error(`Cannot resolve attachment host ${url.hostname}: ${error.message}`);
+  });
+  if (addresses.length === 0 || addresses.some((a) => isPrivateHost(a.address))) throw refuse();
+  return addresses[0];
+}
+
+/**
+ * GET over HTTPS, connecting only to the address already checked: the
+ * lookup hook hands the socket that address instead of resolving the name
+ * again, which a DNS rebinding attack could answer differently. The name
+ * is still used for SNI and certificate checks.
+ */
+function pinnedGet(url: URL, address: LookupAddress): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, {
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      lookup: (_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) callback(null, [address]);
+        else callback(null, address.address, address.family);
+      },
+    }, (response) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(response.headers)) {
+        for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) headers.append(name, v);
+      }
+      const status = response.statusCode ?? 502;
+      const empty = status === 204 || status === 304 || (status >= 300 && status < 400);
+      if (empty) response.resume();
+      resolve(new Response(empty ? null : (Readable.toWeb(response) as ReadableStream<Uint8Array>), { status, headers }));
+    });
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Download an https:// URL, following redirects only to other public
+ * https:// URLs. Each hop's host is resolved and checked before connecting.
+ * Returns the bytes and the URL they came from.
+ */
+async function download(uri: string, options: AttachmentOptions): Promise<{ bytes: Buffer; url: URL }> {
+  const get = options.request ?? pinnedGet;
+  let url = new URL(uri);
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== "https:") throw new Error(`Attachment URLs must use https:// (got ${url.protocol}//${url.host}).`);
+    const address = await resolvePublic(url, options);
+
+    let response: Response;
+    try {
+      response = await get(url, address);
+    } catch (error) {
+      throw new Error(`Failed to download attachment from ${url.origin}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects downloading attachment from ${uri}.`);
+      url = new URL(location, url);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to download attachment from ${url.href}: HTTP ${response.status}.`);
+    }
+    return { bytes: await readCapped(response, nameFrom(url) ?? url.hostname), url };
+  }
+}
+
+/** The last segment of a URL's path, if any */
+function nameFrom(url: URL): string | undefined {
+  return decodeURIComponent(path.posix.basename(url.pathname)) || undefined;
+}
+
+/**
+ * Read an attachment from its source and check it can be uploaded.
+ *
+ * @throws Error if not exactly one source is given, the file cannot be read,
+ *   it is over the size limit, or it is not a PDF, PNG, JPEG or GIF
+ */
+export async function loadAttachment(
+  attachment: AttachmentInput,
+  options: AttachmentOptions
+): Promise<LoadedAttachment> {
+  const sources = (["path", "uri", "data"] as const).filter((key) => attachment[key] !== undefined);
+  if (sources.length !== 1) {
+    throw new Error(
+      sources.length === 0
+        ? "The attachment needs a source: a local path, a uri, or Base64 data."
+        : `Give only one attachment source; got ${sources.join(" and ")}.`
+    );
+  }
+
+  let bytes: Buffer;
+  let defaultName: string | undefined;
+  if (attachment.path !== undefined) {
+    const file = localPath(attachment.path);
+    bytes = await readLocalFile(file, options);
+    defaultName = path.basename(file);
+  } else if (attachment.uri !== undefined) {
+    const uri = attachment.uri;
+    if (uri.startsWith("file:")) {
+      const file = fileURLToPath(uri);
+      bytes = await readLocalFile(file, options);
+      defaultName = path.basename(file);
+    } else if (uri.startsWith("https:") || uri.startsWith("http:")) {
+      const downloaded = await download(uri, options);
+      bytes = downloaded.bytes;
+      defaultName = nameFrom(downloaded.url);
+    } else {
+      throw new Error(`Unsupported attachment uri '${uri.split(":")[0]}:'. Use a file:// or https:// uri.`);
+    }
+  } else {
+    if (attachment.file_name === undefined) {
+      throw new Error("file_name is required when the attachment is given as Base64 data.");
+    }
+    bytes = Buffer.from(attachment.data!, "base64");
+  }
+
+  if (attachment.is_gzipped) {
+    try {
+      bytes = gunzipSync(bytes, { maxOutputLength: MAX_ATTACHMENT_BYTES + 1 });
+    } catch (error) {
+      throw new Error(`Failed to decompress gzipped attachment: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+  const label = attachment.file_name ?? defaultName ?? "The attachment";
+  if (bytes.length > MAX_ATTACHMENT_BYTES) throw tooLarge(label, bytes.length);
+
+  const sniffed = sniffContentType(bytes);
+  if (!sniffed) {
+    throw new Error(`${label} is not a PDF, PNG, JPEG or GIF file, which are the only attachment types FreeAgent accepts.`);
+  }
+  if (attachment.content_type && attachment.content_type !== sniffed) {
+    throw new Error(`${label} is ${sniffed}, but content_type says ${attachment.content_type}. Leave content_type out to use the detected type.`);
+  }
+
+  const loaded: LoadedAttachment = {
+    bytes,
+    file_name: attachment.file_name ?? defaultName ?? `attachment.${EXTENSIONS[sniffed]}`,
+    content_type: sniffed,
+  };
+  if (attachment.description) loaded.description = attachment.description;
+  return loaded;
+}
+
+/** The `attachment` object FreeAgent expects in a create request */
+export function attachmentPayload(attachment: LoadedAttachment): Record<string, string> {
+  const payload: Record<string, string> = {
+    data: attachment.bytes.toString("base64"),
+    file_name: attachment.file_name,
+    content_type: attachment.content_type,
+  };
+  if (attachment.description) payload.description = attachment.description;
+  return payload;
+}
+
+/** Stands in for the attachment in a dry-run preview, without the file's contents */
+export function attachmentSummary(attachment: LoadedAttachment): Record<string, string | number> {
+  return {
+    file_name: attachment.file_name,
+    content_type: attachment.content_type,
+    size_bytes: attachment.bytes.length,
+  };
+}
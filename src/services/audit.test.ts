@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { JsonlAuditSink, MemoryAuditSink, sanitizeArguments, urlsAtPaths, type AuditEvent } from "./audit.js";
+
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id: overrides.id ?? "e1",
+    timestamp: overrides.timestamp ?? "2026-04-01T09:00:00.000Z",
+    tool: overrides.tool ?? "freeagent_create_invoice",
+    client_id: overrides.client_id,
+    arguments: overrides.arguments ?? {},
+    outcome: overrides.outcome ?? "success",
+    resource_urls: overrides.resource_urls ?? [],
+    error: overrides.error,
+  };
+}
+
+describe("sanitizeArguments", () => {
+  it("redacts secret-looking keys at any depth and summarizes long strings", () => {
+    const sanitized = sanitizeArguments({
+      contact: "https://api.freeagent.com/v2/contacts/1",
+      access_token: "abc",
+      nested: { clientSecret: "xyz", items: [{ password: "p", note: "ok" }] },
+      attachment: { data: "A".repeat(2000) },
+    });
+
+    expect(sanitized).toEqual({
+      contact: "https://api.freeagent.com/v2/contacts/1",
+      access_token: "[redacted]",
+      nested: { clientSecret: "[redacted]", items: [{ password: "[redacted]", note: "ok" }] },
+      attachment: { data: "[2000 characters]" },
+    });
+  });
+});
+
+describe("urlsAtPaths", () => {
+  it("collects the resources at the given paths but not linked records or line items", () => {
+    const urls = urlsAtPaths(
+      {
+        invoice: {
+          url: "https://api.freeagent.com/v2/invoices/1",
+          contact: "https://api.freeagent.com/v2/contacts/9",
+          invoice_items: [{ url: "https://api.freeagent.com/v2/invoice_items/5" }],
+        },
+        linked_to: { kind: "bill", url: "https://api.freeagent.com/v2/bills/2" },
+        applied: [
+          { bank_transaction: "https://api.freeagent.com/v2/bank_transactions/3", explanation: "https://api.freeagent.com/v2/bank_transaction_explanations/4" },
+          { bank_transaction: "https://api.freeagent.com/v2/bank_transactions/5", explanation: "https://api.freeagent.com/v2/bank_transaction_explanations/6" },
+        ],
+      },
+      ["invoice", "applied.explanation", "credit_note"]
+    );
+
+    expect(urls).toEqual([
+      "https://api.freeagent.com/v2/invoices/1",
+      "https://api.freeagent.com/v2/bank_transaction_explanations/4",
+      "https://api.freeagent.com/v2/bank_transaction_explanations/6",
+    ]);
+  });
+});
+
+describe("MemoryAuditSink", () => {
+  it("returns matching events newest first, up to the limit", async () => {
+    const sink = new MemoryAuditSink();
+    await sink.append(event({ id: "a", timestamp: "2026-04-01T09:00:00.000Z", client_id: "claude" }));
+    await sink.append(event({ id: "b", timestamp: "2026-04-02T09:00:00.000Z", outcome: "error" }));
+    await sink.append(event({ id: "c", timestamp: "2026-04-03T09:00:00.000Z", client_id: "claude", tool: "freeagent_create_bill" }));
+
+    const ids = async (query: Parameters<MemoryAuditSink["query"]>[0]) => (await sink.query(query)).map((e) => e.id);
+    expect(await ids({})).toEqual(["c", "b", "a"]);
+    expect(await ids({ client_id: "claude" })).toEqual(["c", "a"]);
+    expect(await ids({ tool: "freeagent_create_invoice", outcome: "success" })).toEqual(["a"]);
+    expect(await ids({ since: "2026-04-02T00:00:00.000Z", until: "2026-04-02T23:59:59.999Z" })).toEqual(["b"]);
+    expect(await ids({ limit: 1 })).toEqual(["c"]);
+  });
+});
+
+describe("JsonlAuditSink", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "freeagent-audit-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends one line per event and reads them back across instances", async () => {
+    const filePath = path.join(dir, "nested", "audit.jsonl");
+    const sink = new JsonlAuditSink(filePath);
+    await Promise.all(["a", "b", "c"].map((id) => sink.append(event({ id }))));
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => (JSON.parse(line) as AuditEvent).id)).toEqual(["a", "b", "c"]);
+    expect((await new JsonlAuditSink(filePath).query({})).map((e) => e.id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("reads a missing file as no events and skips a truncated last line", async () => {
+    const filePath = path.join(dir, "audit.jsonl");
+    await expect(new JsonlAuditSink(filePath).query({})).resolves.toEqual([]);
+
+    await fs.writeFile(filePath, JSON.stringify(event({ id: "a" })) + '\n{"id":"b","timest');
+    await expect(new JsonlAuditSink(filePath).query({})).resolves.toEqual([event({ id: "a" })]);
+  });
+});
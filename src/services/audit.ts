@@ -0,0 +1,202 @@
+/**
+ * Audit log of the writes performed through the server.
+ *
+ * Every call to a tool that is not read-only is recorded as an AuditEvent:
+ * which tool, its arguments (sanitized), the FreeAgent URLs it created or
+ * changed (declared per tool), the
+ * OAuth client that made the call and when. Dry runs write nothing and are
+ * not recorded; failed calls are, with their error.
+ *
+ * Writes that can be reversed also carry their compensating actions, which
+ * freeagent_undo replays (see tools/undo.ts).
+ *
+ * Events go to an AuditSink. The default sink appends JSON lines to a file
+ * (FREEAGENT_AUDIT_LOG, or ~/.freeagent-mcp/audit.jsonl); serverless
+ * deployments without a writable disk fall back to memory. Other backends
+ * only need to implement `append` and `query`.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+/** A request that reverses (part of) a recorded write */
+export interface CompensatingAction {
+  method: "DELETE" | "PUT";
+  /** FreeAgent URL or API path */
+  path: string;
+  body?: Record<string, unknown>;
+  description: string;
+}
+
+export interface AuditEvent {
+  id: string;
+  /** ISO 8601 */
+  timestamp: string;
+  tool: string;
+  /** OAuth client ID of the caller; absent on the stdio server */
+  client_id?: string;
+  arguments: Record<string, unknown>;
+  outcome: "success" | "error";
+  /** FreeAgent URLs of the resources the call created or changed */
+  resource_urls: string[];
+  error?: string;
+  /** How to reverse this write; absent when it cannot be undone */
+  undo?: CompensatingAction[];
+  /** On freeagent_undo events: the ID of the event that was reversed */
+  reverses?: string;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  client_id?: string;
+  outcome?: AuditEvent["outcome"];
+  /** Inclusive ISO 8601 bounds on the timestamp */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export interface AuditSink {
+  append(event: AuditEvent): Promise<void>;
+  /** Matching events, newest first */
+  query(query: AuditQuery): Promise<AuditEvent[]>;
+}
+
+/** Keys whose values never reach the audit log */
+const SECRET_KEY = /token|secret|password|authorization|api_key/i;
+
+/** Longer strings (attachment data, long descriptions) are summarized */
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * Copy of tool arguments that is safe to store: secret-looking keys are
+ * redacted and long strings replaced by their length.
+ */
+export function sanitizeArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return sanitizeValue(args) as Record<string, unknown>;
+}
+
+function sanitizeValue(value: unknown, key?: string): unknown {
+  if (key !== undefined && SECRET_KEY.test(key)) return "[redacted]";
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `[${value.length} characters]` : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => sanitizeValue(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, sanitizeValue(v, k)]));
+  }
+  return value;
+}
+
+/**
+ * URLs found at dotted paths into a tool's structured output. A path step
+ * over an array covers every item, and a resource object stands for its
+ * `url`: "contact" gives the created contact's URL, "applied.explanation"
+ * every explanation URL in a bulk result. Missing paths give nothing.
+ */
+export function urlsAtPaths(structuredContent: Record<string, unknown>, paths: string[]): string[] {
+  const urls: string[] = [];
+  const visit = (value: unknown, steps: string[]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, steps));
+    } else if (steps.length > 0) {
+      if (value && typeof value === "object") visit((value as Record<string, unknown>)[steps[0]], steps.slice(1));
+    } else if (typeof value === "string") {
+      urls.push(value);
+    } else if (value && typeof value === "object" && typeof (value as { url?: unknown }).url === "string") {
+      urls.push((value as { url: string }).url);
+    }
+  };
+  for (const path of paths) visit(structuredContent, path.split("."));
+  return [...new Set(urls)];
+}
+
+function matches(event: AuditEvent, query: AuditQuery): boolean {
+  return (
+    (query.tool === undefined || event.tool === query.tool) &&
+    (query.client_id === undefined || event.client_id === query.client_id) &&
+    (query.outcome === undefined || event.outcome === query.outcome) &&
+    (query.since === undefined || event.timestamp >= query.since) &&
+    (query.until === undefined || event.timestamp <= query.until)
+  );
+}
+
+/** Filter events (oldest first) down to a query's result, newest first */
+function applyQuery(events: AuditEvent[], query: AuditQuery): AuditEvent[] {
+  const found = events.filter((event) => matches(event, query)).reverse();
+  return query.limit === undefined ? found : found.slice(0, query.limit);
+}
+
+export class MemoryAuditSink implements AuditSink {
+  private readonly events: AuditEvent[] = [];
+
+  async append(event: AuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEvent[]> {
+    return applyQuery(this.events, query);
+  }
+}
+
+/**
+ * Appends one JSON event per line. Appends are serialized, so concurrent
+ * calls never interleave within a line; a line that fails to parse (say, a
+ * write cut short by a crash) is skipped when reading.
+ */
+export class JsonlAuditSink implements AuditSink {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(event: AuditEvent): Promise<void> {
+    const write = this.pending.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(event) + "\n", { encoding: "utf8", mode: 0o600 });
+    });
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEvent[]> {
+    await this.pending;
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const events: AuditEvent[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as AuditEvent);
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+    return applyQuery(events, query);
+  }
+}
+
+let defaultSink: AuditSink | undefined;
+
+/**
+ * The process-wide audit sink, created on first use from the environment.
+ */
+export function getDefaultAuditSink(): AuditSink {
+  if (!defaultSink) {
+    const file = process.env.FREEAGENT_AUDIT_LOG;
+    if (file) {
+      defaultSink = new JsonlAuditSink(file);
+    } else if (process.env.VERCEL) {
+      defaultSink = new MemoryAuditSink();
+    } else {
+      defaultSink = new JsonlAuditSink(path.join(os.homedir(), ".freeagent-mcp", "audit.jsonl"));
+    }
+  }
+  return defaultSink;
+}
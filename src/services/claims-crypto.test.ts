@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { ClaimsKeyring } from "./claims-crypto.js";
+
+const claims = { freeagentAccessToken: "fa-access", freeagentRefreshToken: "fa-refresh" };
+
+describe("ClaimsKeyring", () => {
+  it("round-trips claims without exposing them, tagged with the active key ID", () => {
+    const keyring = new ClaimsKeyring([{ kid: "k2", secret: "new" }, { kid: "k1", secret: "old" }]);
+
+    const enc = keyring.encrypt(claims);
+
+    expect(enc.split(".")[0]).toBe("k2");
+    expect(enc).not.toContain("fa-access");
+    expect(Buffer.from(enc.split(".")[2], "base64url").toString()).not.toContain("fa-access");
+    expect(keyring.decrypt(enc)).toEqual(claims);
+    expect(keyring.encrypt(claims)).not.toBe(enc);
+  });
+
+  it("decrypts with any active key and rejects retired ones", () => {
+    const before = new ClaimsKeyring([{ kid: "k1", secret: "old" }]);
+    const during = new ClaimsKeyring([{ kid: "k2", secret: "new" }, { kid: "k1", secret: "old" }]);
+    const after = new ClaimsKeyring([{ kid: "k2", secret: "new" }]);
+    const sealed = before.encrypt(claims);
+
+    expect(during.decrypt(sealed)).toEqual(claims);
+    expect(() => after.decrypt(sealed)).toThrow(/unknown key ID "k1"/);
+  });
+
+  it("rejects tampered ciphertext and a key ID swapped onto another key's ciphertext", () => {
+    const keyring = new ClaimsKeyring([{ kid: "k1", secret: "a" }, { kid: "k2", secret: "a" }]);
+    const [kid, iv, data, tag] = keyring.encrypt(claims).split(".");
+    const flipped = Buffer.from(data, "base64url");
+    flipped[0] ^= 1;
+
+    expect(() => keyring.decrypt([kid, iv, flipped.toString("base64url"), tag].join("."))).toThrow();
+    expect(() => keyring.decrypt(["k2", iv, data, tag].join("."))).toThrow();
+  });
+
+  it("reads keys from JWT_ENCRYPTION_KEYS and falls back to the signing secret", () => {
+    const rotated = ClaimsKeyring.fromEnv("jwt-secret", "k2:new-secret, k1:old:secret");
+    expect(rotated.encrypt(claims).startsWith("k2.")).toBe(true);
+    expect(rotated.decrypt(new ClaimsKeyring([{ kid: "k1", secret: "old:secret" }]).encrypt(claims))).toEqual(claims);
+
+    const fallback = ClaimsKeyring.fromEnv("jwt-secret", undefined);
+    expect(fallback.encrypt(claims).startsWith("default.")).toBe(true);
+
+    expect(() => ClaimsKeyring.fromEnv("jwt-secret", "no-separator")).toThrow(/"kid:secret"/);
+    expect(() => ClaimsKeyring.fromEnv("jwt-secret", "a:x,a:y")).toThrow(/more than once/);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Encryption for the FreeAgent credentials carried inside MCP JWTs.
+ *
+ * A signed JWT is only base64, so anyone holding an MCP token could read the
+ * FreeAgent tokens inside it. The JWT provider encrypts them into a single
+ * `enc` claim with AES-256-GCM:
+ *
+ *   enc = "<kid>.<iv>.<ciphertext>.<tag>"   (base64url parts)
+ *
+ * Keys are derived with HKDF-SHA256 from a secret per key ID. The keyring
+ * encrypts with its first key and decrypts with any of them, so a key can be
+ * rotated by putting a new one first and dropping the old one once every
+ * token it sealed has expired.
+ */
+
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const HKDF_SALT = "freeagent-mcp-jwt-claims";
+
+export interface ClaimsKey {
+  kid: string;
+  secret: string;
+}
+
+export class ClaimsKeyring {
+  private readonly keys = new Map<string, Buffer>();
+  private readonly activeKid: string;
+
+  constructor(keys: ClaimsKey[]) {
+    if (keys.length === 0) {
+      throw new Error("The claims keyring needs at least one key.");
+    }
+    for (const { kid, secret } of keys) {
+      if (!/^[A-Za-z0-9_-]+$/.test(kid)) {
+        throw new Error(`Key ID "${kid}" may only contain letters, digits, "-" and "_".`);
+      }
+      if (this.keys.has(kid)) {
+        throw new Error(`Key ID "${kid}" appears more than once in the claims keyring.`);
+      }
+      this.keys.set(kid, Buffer.from(crypto.hkdfSync("sha256", secret, HKDF_SALT, `kid:${kid}`, 32)));
+    }
+    this.activeKid = keys[0].kid;
+  }
+
+  /**
+   * Build the keyring from JWT_ENCRYPTION_KEYS ("kid:secret,kid:secret",
+   * active key first). Without it, a single key "default" is derived from
+   * `fallbackSecret` (the JWT signing secret).
+   */
+  static fromEnv(fallbackSecret: string, spec = process.env.JWT_ENCRYPTION_KEYS): ClaimsKeyring {
+    if (!spec?.trim()) {
+      return new ClaimsKeyring([{ kid: "default", secret: fallbackSecret }]);
+    }
+
+    const keys = spec.split(",").map((entry) => {
+      const separator = entry.indexOf(":");
+      const kid = entry.slice(0, separator).trim();
+      const secret = entry.slice(separator + 1).trim();
+      if (separator < 1 || !secret) {
+        throw new Error(`JWT_ENCRYPTION_KEYS entries must look like "kid:secret"; got "${entry.trim()}".`);
+      }
+      return { kid, secret };
+    });
+    return new ClaimsKeyring(keys);
+  }
+
+  encrypt(claims: object): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.activeKid)!, iv);
+    cipher.setAAD(Buffer.from(this.activeKid));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(claims), "utf8"), cipher.final()]);
+
+    return [this.activeKid, iv, ciphertext, cipher.getAuthTag()]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+      .join(".");
+  }
+
+  /**
+   * Decrypt an `enc` claim. Throws when the key ID is not in the keyring or
+   * the ciphertext has been tampered with.
+   */
+  decrypt<T>(enc: string): T {
+    const [kid, iv, ciphertext, tag] = enc.split(".");
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new Error(`Encrypted claims use unknown key ID "${kid}".`);
+    }
+    if (!iv || !ciphertext || !tag) {
+      throw new Error("Encrypted claims are malformed.");
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64url"));
+    decipher.setAAD(Buffer.from(kid));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]);
+    return JSON.parse(plaintext.toString("utf8")) as T;
+  }
+}
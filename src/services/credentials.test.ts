@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { CredentialsFile, RefreshingTokenProvider } from "./credentials.js";
+
+const config = { clientId: "client", clientSecret: "secret", useSandbox: true };
+
+function tokenResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+describe("CredentialsFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "freeagent-credentials-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips credentials and reads a missing file as undefined", async () => {
+    const file = new CredentialsFile(path.join(dir, "nested", "credentials.json"));
+    await expect(file.load()).resolves.toBeUndefined();
+
+    await file.save({ access_token: "a", refresh_token: "r", expires_at: 1 });
+    await expect(file.load()).resolves.toEqual({ access_token: "a", refresh_token: "r", expires_at: 1 });
+    expect((await fs.stat(file.filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it("rejects a file without a refresh token", async () => {
+    const filePath = path.join(dir, "credentials.json");
+    await fs.writeFile(filePath, JSON.stringify({ access_token: "a" }));
+
+    await expect(new CredentialsFile(filePath).load()).rejects.toThrow(/has no refresh_token/);
+  });
+});
+
+describe("RefreshingTokenProvider", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reuses the access token until shortly before it expires", async () => {
+    const provider = new RefreshingTokenProvider(config, {
+      access_token: "current",
+      refresh_token: "r1",
+      expires_at: Date.now() + 10 * 60_000,
+    });
+
+    await expect(provider.getAccessToken()).resolves.toBe("current");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refreshes an expiring token once for concurrent callers and saves the rotated refresh token", async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: "fresh", refresh_token: "r2", expires_in: 3600 }));
+    const file = { save: vi.fn(async () => {}) } as unknown as CredentialsFile;
+    const provider = new RefreshingTokenProvider(
+      config,
+      { access_token: "stale", refresh_token: "r1", expires_at: Date.now() + 30_000 },
+      file
+    );
+
+    const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken(), provider.refresh()]);
+
+    expect(tokens).toEqual(["fresh", "fresh", "fresh"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.sandbox.freeagent.com/v2/token_endpoint");
+    expect(String(init.body)).toBe("grant_type=refresh_token&refresh_token=r1");
+    expect(file.save).toHaveBeenCalledWith(expect.objectContaining({ access_token: "fresh", refresh_token: "r2" }));
+  });
+
+  it("keeps the old refresh token when FreeAgent does not rotate it, and reports failures", async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse({ access_token: "fresh", expires_in: 3600 }))
+      .mockResolvedValueOnce(new Response("invalid_grant", { status: 400 }));
+    const file = { save: vi.fn(async () => {}) } as unknown as CredentialsFile;
+    const provider = new RefreshingTokenProvider(config, { refresh_token: "r1" }, file);
+
+    await provider.refresh();
+    expect(file.save).toHaveBeenCalledWith(expect.objectContaining({ refresh_token: "r1" }));
+
+    await expect(provider.refresh()).rejects.toThrow(/refresh_token\) failed with status 400: invalid_grant/);
+  });
+});
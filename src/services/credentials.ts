@@ -0,0 +1,176 @@
+/**
+ * OAuth credentials for the stdio entry point.
+ *
+ * FreeAgent access tokens last an hour, so long sessions need a refresh
+ * token. RefreshingTokenProvider hands out the current access token,
+ * refreshes it shortly before it expires (or when the API client reports a
+ * 401), and writes the rotated refresh token back to a local credentials
+ * file so the next run starts from it.
+ *
+ * The file defaults to ~/.freeagent-mcp/credentials.json and can be moved
+ * with FREEAGENT_CREDENTIALS_FILE. `freeagent-mcp-server login` fills it in.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { API_BASE_URL, SANDBOX_API_BASE_URL, API_VERSION } from "../constants.js";
+
+/** Refresh this long before the access token's stated expiry */
+const EXPIRY_MARGIN_MS = 60_000;
+
+export interface StoredCredentials {
+  access_token?: string;
+  refresh_token: string;
+  /** Epoch milliseconds after which access_token is no longer valid */
+  expires_at?: number;
+}
+
+/**
+ * Where API requests get their bearer token. `refresh` is called after a
+ * 401 and must return a token FreeAgent has not yet rejected.
+ */
+export interface TokenProvider {
+  getAccessToken(): Promise<string>;
+  refresh(): Promise<string>;
+}
+
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+  useSandbox: boolean;
+}
+
+export function defaultCredentialsPath(): string {
+  return process.env.FREEAGENT_CREDENTIALS_FILE
+    ?? path.join(os.homedir(), ".freeagent-mcp", "credentials.json");
+}
+
+/**
+ * Stores credentials as JSON, readable only by the current user. A missing
+ * file reads as undefined; writes go through a temp file like FileRuleStore.
+ */
+export class CredentialsFile {
+  constructor(readonly filePath: string = defaultCredentialsPath()) {}
+
+  async load(): Promise<StoredCredentials | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StoredCredentials>;
+    if (typeof parsed.refresh_token !== "string" || !parsed.refresh_token) {
+      throw new Error(`Credentials file ${this.filePath} has no refresh_token. Run the login command again.`);
+    }
+    return parsed as StoredCredentials;
+  }
+
+  async save(credentials: StoredCredentials): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(credentials, null, 2) + "\n", { encoding: "utf8", mode: 0o600 });
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+export function oauthBaseUrl(useSandbox: boolean): string {
+  return `${useSandbox ? SANDBOX_API_BASE_URL : API_BASE_URL}/${API_VERSION}`;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * POST a grant to FreeAgent's token endpoint and convert the response into
+ * stored credentials. FreeAgent may omit the refresh token on refresh, in
+ * which case the one we sent stays valid.
+ */
+export async function requestToken(
+  config: OAuthClientConfig,
+  grant: Record<string, string>,
+  fallbackRefreshToken?: string
+): Promise<StoredCredentials> {
+  const response = await fetch(`${oauthBaseUrl(config.useSandbox)}/token_endpoint`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "Authorization": `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64")}`,
+      "Accept": "application/json",
+    },
+    body: new URLSearchParams(grant),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text();
+    throw new Error(
+      `FreeAgent token request (${grant.grant_type}) failed with status ${response.status}: ${detail}`
+    );
+  }
+
+  const tokens = await response.json() as TokenResponse;
+  const refreshToken = tokens.refresh_token ?? fallbackRefreshToken;
+  if (!refreshToken) {
+    throw new Error("FreeAgent did not return a refresh token. Check the app's OAuth settings at https://dev.freeagent.com.");
+  }
+  return {
+    access_token: tokens.access_token,
+    refresh_token: refreshToken,
+    expires_at: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+  };
+}
+
+/**
+ * Token provider backed by a refresh token. Concurrent callers share one
+ * in-flight refresh, so a burst of 401s only spends the refresh token once.
+ */
+export class RefreshingTokenProvider implements TokenProvider {
+  private credentials: StoredCredentials;
+  private pending?: Promise<string>;
+
+  constructor(
+    private readonly config: OAuthClientConfig,
+    initial: StoredCredentials,
+    private readonly file?: CredentialsFile,
+    private readonly onRefresh?: (credentials: StoredCredentials) => void
+  ) {
+    this.credentials = { ...initial };
+  }
+
+  async getAccessToken(): Promise<string> {
+    const { access_token, expires_at } = this.credentials;
+    if (access_token && expires_at !== undefined && Date.now() < expires_at - EXPIRY_MARGIN_MS) {
+      return access_token;
+    }
+    return this.refresh();
+  }
+
+  refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.doRefresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  private async doRefresh(): Promise<string> {
+    const refreshed = await requestToken(
+      this.config,
+      { grant_type: "refresh_token", refresh_token: this.credentials.refresh_token },
+      this.credentials.refresh_token
+    );
+    this.credentials = refreshed;
+    // Persist before handing out the token: FreeAgent may have rotated the
+    // refresh token, and losing it would force a new login.
+    await this.file?.save(refreshed);
+    this.onRefresh?.(refreshed);
+    return refreshed.access_token!;
+  }
+}
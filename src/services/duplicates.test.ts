@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import { FreeAgentApiClient } from "./api-client.js";
+import type { FreeAgentBill, FreeAgentExpense } from "../types.js";
+import {
+  clusterDuplicateBills,
+  clusterDuplicateExpenses,
+  findDuplicateBills,
+  findDuplicateExpenses,
+  findDuplicateInvoices,
+  netValueOfItems,
+} from "./duplicates.js";
+
+describe("netValueOfItems", () => {
+  it("sums price × quantity and applies the discount", () => {
+    expect(netValueOfItems([{ price: "100", quantity: "2" }, { price: "12.5", quantity: "1" }])).toBe("212.50");
+    expect(netValueOfItems([{ price: "100", quantity: "2" }], "10")).toBe("180.00");
+  });
+});
+
+describe("duplicate lookups", () => {
+  it("matches expenses by user ID or URL and amount, dated within the window", async () => {
+    const client = {
+      get: vi.fn(async () => ({
+        data: {
+          expenses: [
+            { url: "https://api.freeagent.com/v2/expenses/1", user: "https://api.freeagent.com/v2/users/3", dated_on: "2026-04-01", gross_value: "-42.0" },
+            { url: "https://api.freeagent.com/v2/expenses/2", user: "https://api.freeagent.com/v2/users/4", dated_on: "2026-04-01", gross_value: "-42.00" },
+            { url: "https://api.freeagent.com/v2/expenses/3", user: "https://api.freeagent.com/v2/users/3", dated_on: "2026-04-01", gross_value: "-24.00" },
+            { url: "https://api.freeagent.com/v2/expenses/4", user: "https://api.freeagent.com/v2/users/3", dated_on: "2026-04-03", gross_value: "-42.00" },
+            { url: "https://api.freeagent.com/v2/expenses/5", user: "https://api.freeagent.com/v2/users/3", dated_on: "2026-04-05", gross_value: "-42.00" },
+          ],
+        },
+        headers: {},
+      })),
+      paginate: FreeAgentApiClient.prototype.paginate,
+      parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+    } as unknown as FreeAgentApiClient;
+
+    const matches = await findDuplicateExpenses(client, { user: "3", dated_on: "2026-04-01", gross_value: "-42.00" });
+
+    expect(client.get).toHaveBeenCalledWith("/expenses", { view: "all", from_date: "2026-03-29", to_date: "2026-04-04", per_page: 100, page: 1 });
+    expect(matches.map((m) => m.url)).toEqual([
+      "https://api.freeagent.com/v2/expenses/1",
+      "https://api.freeagent.com/v2/expenses/4",
+    ]);
+  });
+
+  it("reads every page of bills in the window", async () => {
+    const contact = "https://api.freeagent.com/v2/contacts/5";
+    const bill = (id: number) => ({ url: `https://api.freeagent.com/v2/bills/${id}`, contact, dated_on: "2026-04-01", net_value: id === 9 ? "10.00" : "99.00" });
+    const client = {
+      get: vi.fn(async (_path: string, params: { page: number }) =>
+        params.page === 1
+          ? { data: { bills: [bill(1), bill(2)] }, headers: { link: '<https://api.freeagent.com/v2/bills?page=2>; rel="next"' } }
+          : { data: { bills: [bill(9)] }, headers: {} }
+      ),
+      paginate: FreeAgentApiClient.prototype.paginate,
+      parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+    } as unknown as FreeAgentApiClient;
+
+    const matches = await findDuplicateBills(client, { contact, dated_on: "2026-04-01", net_value: "10.00" });
+
+    expect(client.get).toHaveBeenCalledTimes(2);
+    expect(matches.map((m) => m.url)).toEqual(["https://api.freeagent.com/v2/bills/9"]);
+  });
+
+  it("reads a contact's invoices newest first, back to a back-dated invoice's date", async () => {
+    const contact = "https://api.freeagent.com/v2/contacts/5";
+    const invoice = (id: number, dated_on: string) => ({ url: `https://api.freeagent.com/v2/invoices/${id}`, contact, dated_on, net_value: "10.00" });
+    const pages = [
+      [invoice(4, "2026-05-01"), invoice(3, "2026-04-20")],
+      [invoice(2, "2026-03-01"), invoice(1, "2026-02-01")],
+      [invoice(0, "2026-01-01")],
+    ];
+    const client = {
+      get: vi.fn(async (_path: string, params: { page: number }) => ({
+        data: { invoices: pages[params.page - 1] },
+        headers: params.page < pages.length ? { link: `<https://api.freeagent.com/v2/invoices?page=${params.page + 1}>; rel="next"` } : {},
+      })),
+      paginate: FreeAgentApiClient.prototype.paginate,
+      parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+    } as unknown as FreeAgentApiClient;
+
+    const matches = await findDuplicateInvoices(client, { contact, dated_on: "2026-03-01", net_value: "10.00" });
+
+    expect(client.get).toHaveBeenCalledWith("/invoices", { contact, view: "all", sort: "-dated_on", per_page: 100, page: 1 });
+    expect(client.get).toHaveBeenCalledTimes(2);
+    expect(matches.map((m) => m.url)).toEqual(["https://api.freeagent.com/v2/invoices/2"]);
+  });
+
+  it("compares a bill's net value with the new bill's line items", async () => {
+    const client = {
+      get: vi.fn(async () => ({
+        data: {
+          bills: [{ url: "https://api.freeagent.com/v2/bills/8", contact: "https://api.freeagent.com/v2/contacts/5", reference: "SUP-1", dated_on: "2026-04-01", net_value: "10.00", total_value: "12.00" }],
+        },
+        headers: {},
+      })),
+      paginate: FreeAgentApiClient.prototype.paginate,
+      parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+    } as unknown as FreeAgentApiClient;
+
+    const matches = await findDuplicateBills(client, {
+      contact: "https://api.freeagent.com/v2/contacts/5",
+      dated_on: "2026-04-01",
+      net_value: netValueOfItems([{ price: "10.00", quantity: "1" }]),
+    });
+
+    expect(matches).toEqual([{ url: "https://api.freeagent.com/v2/bills/8", dated_on: "2026-04-01", amount: "10.00", reference: "SUP-1" }]);
+  });
+});
+
+describe("duplicate clusters", () => {
+  const user = "https://api.freeagent.com/v2/users/3";
+  const expense = (id: number, dated_on: string, gross_value: string, owner = user) =>
+    ({ url: `https://api.freeagent.com/v2/expenses/${id}`, user: owner, dated_on, gross_value }) as FreeAgentExpense;
+
+  it("groups expenses by user and amount when their dates chain within the window", () => {
+    const clusters = clusterDuplicateExpenses([
+      expense(1, "2026-04-01", "-42.00"),
+      expense(2, "2026-04-03", "-42.0"),
+      expense(3, "2026-04-06", "-42.00"),
+      expense(4, "2026-04-20", "-42.00"),
+      expense(5, "2026-04-01", "-42.00", "https://api.freeagent.com/v2/users/4"),
+      expense(6, "2026-04-02", "-9.99"),
+    ]);
+
+    expect(clusters).toEqual([
+      {
+        kind: "expense",
+        counterparty: user,
+        amount: "-42.00",
+        records: [
+          expect.objectContaining({ url: "https://api.freeagent.com/v2/expenses/1" }),
+          expect.objectContaining({ url: "https://api.freeagent.com/v2/expenses/2" }),
+          expect.objectContaining({ url: "https://api.freeagent.com/v2/expenses/3" }),
+        ],
+      },
+    ]);
+    expect(clusterDuplicateExpenses([expense(1, "2026-04-01", "-42.00"), expense(2, "2026-04-03", "-42.00")], 1)).toEqual([]);
+  });
+
+  it("groups bills by contact and net value", () => {
+    const contact = "https://api.freeagent.com/v2/contacts/5";
+    const bill = (id: number, dated_on: string, reference: string) =>
+      ({ url: `https://api.freeagent.com/v2/bills/${id}`, contact, reference, dated_on, net_value: "10.00", total_value: "12.00" }) as FreeAgentBill;
+
+    const [cluster] = clusterDuplicateBills([bill(8, "2026-04-01", "SUP-1"), bill(9, "2026-04-02", "SUP-1 copy")]);
+
+    expect(cluster).toMatchObject({ kind: "bill", counterparty: contact, amount: "10.00" });
+    expect(cluster.records.map((r) => r.reference)).toEqual(["SUP-1", "SUP-1 copy"]);
+  });
+});
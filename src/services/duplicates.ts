@@ -0,0 +1,219 @@
+/**
+ * Duplicate detection for invoices, bills, expenses and explanations.
+ *
+ * A client that retries a create after a timeout, without an
+ * idempotency_key, posts the same record twice; a receipt forwarded twice
+ * becomes two expenses. The find* lookups search FreeAgent for existing
+ * records with the same counterparty (contact, user or bank transaction)
+ * and amount, on the same date or, for bills and expenses, within a few
+ * days of it. The create tools run them before posting (see
+ * tools/duplicates.ts); clusterDuplicateExpenses and clusterDuplicateBills
+ * group a whole date range for freeagent_find_duplicates.
+ */
+
+import type { FreeAgentApiClient } from "./api-client.js";
+import type {
+  FreeAgentBankTransaction,
+  FreeAgentBankTransactionExplanation,
+  FreeAgentBill,
+  FreeAgentExpense,
+  FreeAgentInvoice,
+} from "../types.js";
+import { addDays, daysBetween, extractIdFromUrl } from "./formatter.js";
+import { listAll, listDatedSince } from "./pagination.js";
+
+/** Default ± days within which a bill or expense counts as the same one */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+export interface DuplicateMatch {
+  url: string;
+  dated_on: string;
+  amount: string;
+  reference?: string;
+  description?: string;
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(daysBetween(a, b));
+}
+
+/** Amounts are compared to the penny */
+function sameAmount(a: string | undefined, b: string): boolean {
+  if (a === undefined) return false;
+  return Math.abs(parseFloat(a) - parseFloat(b)) < 0.005;
+}
+
+/** Compare two links that may each be an ID or a URL */
+function sameResource(a: string | undefined, b: string): boolean {
+  return a !== undefined && extractIdFromUrl(a) === extractIdFromUrl(b);
+}
+
+/**
+ * Net value of a set of line items after an optional percentage discount,
+ * as FreeAgent reports it in `net_value`.
+ */
+export function netValueOfItems(
+  items: { price: string; quantity: string }[],
+  discountPercent?: string
+): string {
+  const gross = items.reduce((sum, item) => sum + parseFloat(item.price) * parseFloat(item.quantity), 0);
+  const discount = discountPercent ? parseFloat(discountPercent) : 0;
+  return (gross * (1 - (Number.isFinite(discount) ? discount : 0) / 100)).toFixed(2);
+}
+
+export async function findDuplicateInvoices(
+  client: FreeAgentApiClient,
+  invoice: { contact: string; dated_on: string; net_value: string }
+): Promise<DuplicateMatch[]> {
+  // The invoices endpoint has no date filter: read the contact's invoices
+  // newest first, back to the new invoice's date
+  const invoices = await listDatedSince<FreeAgentInvoice>(client, "/invoices", "invoices", invoice.dated_on, {
+    contact: invoice.contact,
+  });
+  return invoices
+    .filter(
+      (i) =>
+        sameResource(i.contact, invoice.contact) &&
+        i.dated_on === invoice.dated_on &&
+        sameAmount(i.net_value, invoice.net_value)
+    )
+    .map((i) => ({ url: i.url, dated_on: i.dated_on, amount: i.net_value, reference: i.reference }));
+}
+
+/**
+ * Bills from the same supplier for the same net amount, dated within
+ * `windowDays` of the new one.
+ */
+export async function findDuplicateBills(
+  client: FreeAgentApiClient,
+  bill: { contact: string; dated_on: string; net_value: string },
+  windowDays = DUPLICATE_WINDOW_DAYS
+): Promise<DuplicateMatch[]> {
+  const bills = await listAll<FreeAgentBill>(client, "/bills", "bills", {
+    contact: bill.contact,
+    view: "all",
+    from_date: addDays(bill.dated_on, -windowDays),
+    to_date: addDays(bill.dated_on, windowDays),
+    per_page: 100,
+  });
+  return bills
+    .filter(
+      (b) =>
+        sameResource(b.contact, bill.contact) &&
+        daysApart(b.dated_on, bill.dated_on) <= windowDays &&
+        sameAmount(b.net_value ?? b.total_value, bill.net_value)
+    )
+    .map(billMatch);
+}
+
+function billMatch(b: FreeAgentBill): DuplicateMatch {
+  return { url: b.url, dated_on: b.dated_on, amount: b.net_value ?? b.total_value, reference: b.reference, description: b.comments };
+}
+
+/**
+ * Expenses claimed by the same user for the same gross amount, dated within
+ * `windowDays` of the new one.
+ */
+export async function findDuplicateExpenses(
+  client: FreeAgentApiClient,
+  expense: { user: string; dated_on: string; gross_value: string },
+  windowDays = DUPLICATE_WINDOW_DAYS
+): Promise<DuplicateMatch[]> {
+  const expenses = await listAll<FreeAgentExpense>(client, "/expenses", "expenses", {
+    view: "all",
+    from_date: addDays(expense.dated_on, -windowDays),
+    to_date: addDays(expense.dated_on, windowDays),
+    per_page: 100,
+  });
+  return expenses
+    .filter(
+      (e) =>
+        sameResource(e.user, expense.user) &&
+        daysApart(e.dated_on, expense.dated_on) <= windowDays &&
+        sameAmount(e.gross_value, expense.gross_value)
+    )
+    .map(expenseMatch);
+}
+
+function expenseMatch(e: FreeAgentExpense): DuplicateMatch {
+  return { url: e.url, dated_on: e.dated_on, amount: e.gross_value, reference: e.receipt_reference, description: e.description };
+}
+
+export async function findDuplicateExplanations(
+  client: FreeAgentApiClient,
+  explanation: { bank_transaction: string; dated_on: string; gross_value: string }
+): Promise<DuplicateMatch[]> {
+  const id = explanation.bank_transaction;
+  const txResponse = await client.get<{ bank_transaction: FreeAgentBankTransaction }>(
+    id.startsWith("http") ? id : `/bank_transactions/${id}`
+  );
+  const existing = await Promise.all(
+    (txResponse.data.bank_transaction.bank_transaction_explanations ?? []).map(async (url) => {
+      const response = await client.get<{ bank_transaction_explanation: FreeAgentBankTransactionExplanation }>(url);
+      return response.data.bank_transaction_explanation;
+    })
+  );
+  return existing
+    .filter((e) => e.dated_on === explanation.dated_on && sameAmount(e.gross_value, explanation.gross_value))
+    .map((e) => ({ url: e.url, dated_on: e.dated_on, amount: e.gross_value, reference: e.receipt_reference }));
+}
+
+export interface DuplicateCluster {
+  kind: "expense" | "bill";
+  /** User (expenses) or contact (bills) URL */
+  counterparty: string;
+  amount: string;
+  records: DuplicateMatch[];
+}
+
+/**
+ * Group records that share a counterparty and amount and whose dates are
+ * chained within `windowDays` of each other. Only groups of two or more are
+ * returned, earliest first.
+ */
+function cluster(
+  kind: DuplicateCluster["kind"],
+  records: { counterparty: string; match: DuplicateMatch }[],
+  windowDays: number
+): DuplicateCluster[] {
+  const groups = new Map<string, { counterparty: string; match: DuplicateMatch }[]>();
+  for (const record of records) {
+    const key = `${extractIdFromUrl(record.counterparty)}|${parseFloat(record.match.amount).toFixed(2)}`;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.match.dated_on.localeCompare(b.match.dated_on));
+    let run = [group[0]];
+    const flush = () => {
+      if (run.length > 1) {
+        clusters.push({ kind, counterparty: run[0].counterparty, amount: run[0].match.amount, records: run.map((r) => r.match) });
+      }
+    };
+    for (const record of group.slice(1)) {
+      if (daysApart(run[run.length - 1].match.dated_on, record.match.dated_on) <= windowDays) {
+        run.push(record);
+      } else {
+        flush();
+        run = [record];
+      }
+    }
+    flush();
+  }
+  return clusters.sort((a, b) => a.records[0].dated_on.localeCompare(b.records[0].dated_on));
+}
+
+/** Suspected duplicate expenses among `expenses` (see cluster) */
+export function clusterDuplicateExpenses(expenses: FreeAgentExpense[], windowDays = DUPLICATE_WINDOW_DAYS): DuplicateCluster[] {
+  return cluster(
+    "expense",
+    expenses.filter((e) => e.gross_value !== undefined).map((e) => ({ counterparty: e.user, match: expenseMatch(e) })),
+    windowDays
+  );
+}
+
+/** Suspected duplicate bills among `bills` (see cluster) */
+export function clusterDuplicateBills(bills: FreeAgentBill[], windowDays = DUPLICATE_WINDOW_DAYS): DuplicateCluster[] {
+  return cluster("bill", bills.map((b) => ({ counterparty: b.contact, match: billMatch(b) })), windowDays);
+}
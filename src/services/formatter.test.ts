@@ -9,6 +9,11 @@ import {
   formatContactName,
   formatResponse,
   createPaginationMetadata,
+  addDays,
+  inCompanyCurrency,
+  addMonths,
+  daysBetween,
+  toNumber,
 } from "./formatter.js";
 import { ResponseFormat } from "../constants.js";
 
@@ -73,6 +78,33 @@ describe("formatCurrency", () => {
   });
 });
 
+describe("date helpers", () => {
+  it("moves dates across month and year ends", () => {
+    expect(addDays("2026-03-01", -3)).toBe("2026-02-26");
+    expect(addDays("2026-12-30", 3)).toBe("2027-01-02");
+    expect(addMonths("2026-11-15", 3)).toBe("2027-02-15");
+  });
+
+  it("counts the days between two dates, negative when the second is earlier", () => {
+    expect(daysBetween("2026-02-26", "2026-03-01")).toBe(3);
+    expect(daysBetween("2026-03-01", "2026-02-26")).toBe(-3);
+  });
+});
+
+describe("toNumber", () => {
+  it("reads numbers and decimal strings, treating anything else as zero", () => {
+    expect([12.5, "-3.20", undefined, "n/a"].map(toNumber)).toEqual([12.5, -3.2, 0, 0]);
+  });
+});
+
+describe("inCompanyCurrency", () => {
+  it("converts foreign-currency amounts at the document's exchange rate", () => {
+    expect(inCompanyCurrency("100.0", { currency: "USD", exchange_rate: "0.8" }, "GBP")).toBeCloseTo(80);
+    expect(inCompanyCurrency("100.0", { currency: "GBP", exchange_rate: "0.8" }, "GBP")).toBe(100);
+    expect(inCompanyCurrency("100.0", { currency: "USD" }, "GBP")).toBe(100);
+  });
+});
+
 describe("extractIdFromUrl", () => {
   it("extracts ID from FreeAgent URL", () => {
     expect(extractIdFromUrl("https://api.freeagent.com/v2/contacts/12345")).toBe("12345");
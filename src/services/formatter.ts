@@ -4,6 +4,25 @@
 
 import { CHARACTER_LIMIT, ResponseFormat } from "../constants.js";
 
+/**
+ * What every tool handler returns: the text shown to the model (markdown or
+ * JSON, per response_format) and the same result as structured data matching
+ * the tool's output schema.
+ */
+export interface ToolResult<T extends Record<string, unknown> = Record<string, unknown>> {
+  text: string;
+  structuredContent: T;
+  /** Files (e.g. an invoice PDF) sent after the text as MCP embedded resources */
+  resources?: ToolResource[];
+}
+
+/** A base64-encoded file returned as an embedded resource. */
+export interface ToolResource {
+  uri: string;
+  mimeType: string;
+  blob: string;
+}
+
 /**
  * Truncate text if it exceeds the character limit
  */
@@ -59,6 +78,69 @@ export function formatCurrency(amount: string, currency: string = "GBP"): string
   return `${currency} ${num.toFixed(2)}`;
 }
 
+/**
+ * Parse an amount FreeAgent sends as a number or a decimal string. Anything
+ * missing or unparseable counts as zero.
+ */
+export function toNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : parseFloat(typeof value === "string" ? value : "0");
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Format a computed amount the way FreeAgent sends amounts: two decimal places
+ */
+export function toAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Convert an amount on an invoice, credit note or bill to the company
+ * currency at the document's own exchange rate
+ */
+export function inCompanyCurrency(
+  value: unknown,
+  doc: { currency?: string; exchange_rate?: string },
+  currency: string
+): number {
+  const amount = toNumber(value);
+  if (!doc.currency || doc.currency === currency || !doc.exchange_rate) return amount;
+  return amount * toNumber(doc.exchange_rate);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Today's date (UTC) as YYYY-MM-DD
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days, forwards or back
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of calendar months. A day past the end
+ * of the target month rolls over into the next, as Date does.
+ */
+export function addMonths(date: string, months: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another; negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
 /**
  * Compute the discount amount taken off an invoice/estimate given the
  * post-discount net value and the discount percentage. FreeAgent only
@@ -122,17 +204,25 @@ export function createPaginationMetadata(params: {
   totalCount?: number;
   hasMore: boolean;
   nextPage?: number;
+  pagesFetched?: number;
+  stoppedAt?: "max_items" | "character_limit";
 }): string {
-  const { page, perPage, totalCount, hasMore, nextPage } = params;
+  const { page, perPage, totalCount, hasMore, nextPage, pagesFetched = 1, stoppedAt } = params;
   
   const parts: string[] = [
-    `Page ${page}`,
+    pagesFetched > 1 ? `Pages ${page}-${page + pagesFetched - 1}` : `Page ${page}`,
     `Showing up to ${perPage} items per page`
   ];
   
   if (totalCount !== undefined) {
     parts.push(`Total: ${totalCount}`);
   }
+
+  if (stoppedAt === "character_limit") {
+    parts.push(`Stopped at the ${CHARACTER_LIMIT}-character response limit`);
+  } else if (stoppedAt === "max_items") {
+    parts.push("Stopped at max_items");
+  }
   
   if (hasMore && nextPage) {
     parts.push(`More results available - use page=${nextPage} to continue`);
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import jwt from "jsonwebtoken";
+import type { Response } from "express";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { FreeAgentJWTOAuthProvider, getFreeAgentTokenFromJWT } from "./oauth-jwt.js";
+import { MemoryOAuthStore } from "./oauth-store.js";
+
+vi.hoisted(() => {
+  process.env.JWT_SECRET = "test-signing-secret";
+});
+
+const client: OAuthClientInformationFull = {
+  client_id: "claude",
+  redirect_uris: ["https://claude.ai/api/mcp/auth_callback"],
+};
+
+function tokenResponse(body: Record<string, unknown>): globalThis.Response {
+  return new globalThis.Response(JSON.stringify(body), { status: 200 });
+}
+
+/** Run the authorization-code flow and return the issued MCP tokens. */
+async function issueTokens(provider: FreeAgentJWTOAuthProvider, scopes?: string[]) {
+  const res = { redirect: vi.fn() } as unknown as Response;
+  await provider.authorize(client, { codeChallenge: "challenge", redirectUri: client.redirect_uris[0], scopes }, res);
+  const state = new URL((res.redirect as ReturnType<typeof vi.fn>).mock.calls[0][0] as string).searchParams.get("state")!;
+  const { code } = await provider.handleFreeAgentCallback(state, "freeagent-code");
+  return provider.exchangeAuthorizationCode(client, code);
+}
+
+describe("FreeAgentJWTOAuthProvider revocation", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: "fa-access", refresh_token: "fa-refresh", expires_in: 3600 }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("issues tokens with a jti", async () => {
+    const provider = new FreeAgentJWTOAuthProvider(new MemoryOAuthStore());
+    const tokens = await issueTokens(provider);
+
+    expect(jwt.decode(tokens.access_token)).toMatchObject({ jti: expect.any(String) });
+    expect(jwt.decode(tokens.refresh_token!)).toMatchObject({ jti: expect.any(String), type: "refresh" });
+  });
+
+  it("denylists a revoked access token until it expires and revokes the FreeAgent grant", async () => {
+    const denylist = new MemoryOAuthStore();
+    const provider = new FreeAgentJWTOAuthProvider(denylist);
+    const tokens = await issueTokens(provider);
+    await expect(provider.getFreeAgentToken(tokens.access_token)).resolves.toBe("fa-access");
+
+    fetchMock.mockResolvedValueOnce(new globalThis.Response("", { status: 200 }));
+    const setSpy = vi.spyOn(denylist, "set");
+    await provider.revokeToken(client, { token: tokens.access_token });
+
+    const { jti } = jwt.decode(tokens.access_token) as { jti: string };
+    expect(setSpy).toHaveBeenCalledWith(`revoked-jwt:${jti}`, expect.anything(), expect.any(Number));
+    expect(setSpy.mock.calls[0][2]).toBeLessThanOrEqual(3600 * 1000);
+
+    const [url, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect(url).toMatch(/\/v2\/revoke$/);
+    expect(String(init.body)).toBe("token=fa-refresh&token_type_hint=refresh_token");
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow(/revoked/);
+    await expect(provider.getFreeAgentToken(tokens.access_token)).resolves.toBeUndefined();
+
+    // The denylist is shared: a second instance (another serverless invocation) sees it too.
+    await expect(new FreeAgentJWTOAuthProvider(denylist).verifyAccessToken(tokens.access_token)).rejects.toThrow(/revoked/);
+  });
+
+  it("rejects a revoked refresh token and keeps revoking locally when FreeAgent fails", async () => {
+    const provider = new FreeAgentJWTOAuthProvider(new MemoryOAuthStore());
+    const tokens = await issueTokens(provider);
+
+    fetchMock.mockResolvedValueOnce(new globalThis.Response("nope", { status: 500 }));
+    await provider.revokeToken(client, { token: tokens.refresh_token! });
+
+    await expect(provider.exchangeRefreshToken(client, tokens.refresh_token!)).rejects.toThrow(/revoked/);
+    // The access token was not revoked itself
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toMatchObject({ clientId: "claude" });
+  });
+
+  it("ignores tokens issued to another client", async () => {
+    const denylist = new MemoryOAuthStore();
+    const provider = new FreeAgentJWTOAuthProvider(denylist);
+    const tokens = await issueTokens(provider);
+    const setSpy = vi.spyOn(denylist, "set");
+
+    await provider.revokeToken({ ...client, client_id: "someone-else" }, { token: tokens.access_token });
+
+    expect(setSpy).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toMatchObject({ clientId: "claude" });
+  });
+
+  it("ignores tokens it did not sign", async () => {
+    const denylist = new MemoryOAuthStore();
+    const setSpy = vi.spyOn(denylist, "set");
+    const provider = new FreeAgentJWTOAuthProvider(denylist);
+
+    await provider.revokeToken(client, { token: jwt.sign({ jti: "x" }, "another-secret") });
+
+    expect(setSpy).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("FreeAgentJWTOAuthProvider claim encryption", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      tokenResponse({ access_token: "fa-access", refresh_token: "fa-refresh", expires_in: 3600 })
+    ));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("seals the FreeAgent tokens and decrypts them transparently", async () => {
+    const tokens = await issueTokens(new FreeAgentJWTOAuthProvider(new MemoryOAuthStore()));
+
+    for (const token of [tokens.access_token, tokens.refresh_token!]) {
+      const payload = jwt.decode(token) as Record<string, unknown>;
+      expect(payload).toMatchObject({ enc: expect.stringMatching(/^default\./) });
+      expect(payload).not.toHaveProperty("freeagentAccessToken");
+      expect(payload).not.toHaveProperty("freeagentRefreshToken");
+      expect(JSON.stringify(payload)).not.toMatch(/fa-access|fa-refresh/);
+    }
+    expect(getFreeAgentTokenFromJWT(tokens.access_token)).toBe("fa-access");
+  });
+
+  it("still accepts tokens issued with plaintext claims", async () => {
+    const legacy = jwt.sign(
+      { freeagentAccessToken: "fa-legacy", freeagentRefreshToken: "fa-r", clientId: "claude", scopes: ["freeagent"] },
+      "test-signing-secret",
+      { expiresIn: 600 }
+    );
+
+    expect(getFreeAgentTokenFromJWT(legacy)).toBe("fa-legacy");
+    await expect(new FreeAgentJWTOAuthProvider(new MemoryOAuthStore()).verifyAccessToken(legacy)).resolves.toMatchObject({
+      clientId: "claude",
+    });
+  });
+});
+
+describe("FreeAgentJWTOAuthProvider scopes", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      tokenResponse({ access_token: "fa-access", refresh_token: "fa-refresh", expires_in: 3600 })
+    ));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("grants every scope when none are requested", async () => {
+    const provider = new FreeAgentJWTOAuthProvider(new MemoryOAuthStore());
+    const tokens = await issueTokens(provider);
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toMatchObject({
+      scopes: ["freeagent:read", "freeagent:write", "freeagent:banking"],
+    });
+  });
+
+  it("keeps the requested scopes across refreshes, which may narrow but not widen them", async () => {
+    const provider = new FreeAgentJWTOAuthProvider(new MemoryOAuthStore());
+    const tokens = await issueTokens(provider, ["freeagent:banking", "freeagent:read"]);
+    await expect(provider.verifyAccessToken(tokens.access_token)).resolves.toMatchObject({
+      scopes: ["freeagent:read", "freeagent:banking"],
+    });
+
+    const refreshed = await provider.exchangeRefreshToken(client, tokens.refresh_token!);
+    await expect(provider.verifyAccessToken(refreshed.access_token)).resolves.toMatchObject({
+      scopes: ["freeagent:read", "freeagent:banking"],
+    });
+
+    const narrowed = await provider.exchangeRefreshToken(client, refreshed.refresh_token!, ["freeagent:read"]);
+    await expect(provider.verifyAccessToken(narrowed.access_token)).resolves.toMatchObject({ scopes: ["freeagent:read"] });
+    expect(jwt.decode(narrowed.refresh_token!)).toMatchObject({ scopes: ["freeagent:read", "freeagent:banking"] });
+
+    await expect(
+      provider.exchangeRefreshToken(client, narrowed.refresh_token!, ["freeagent:write"])
+    ).rejects.toThrow(/not part of the original grant/);
+  });
+
+  it("rejects unknown scopes at authorization", async () => {
+    const res = { redirect: vi.fn() } as unknown as Response;
+    await expect(
+      new FreeAgentJWTOAuthProvider(new MemoryOAuthStore()).authorize(
+        client,
+        { codeChallenge: "challenge", redirectUri: client.redirect_uris[0], scopes: ["freeagent:admin"] },
+        res
+      )
+    ).rejects.toThrow(/Unsupported scope: freeagent:admin/);
+    expect(res.redirect).not.toHaveBeenCalled();
+  });
+});
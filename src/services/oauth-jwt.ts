@@ -10,6 +10,17 @@
  * 2. Encode FreeAgent tokens into a signed JWT
  * 3. Return JWT as the MCP access token
  * 4. On each request: Verify JWT signature → Extract FreeAgent token
+ *
+ * Every JWT carries a `jti`. Revoking a token adds its jti to a denylist in
+ * an OAuthStore (Redis in production; see oauth-store.ts) until the token
+ * would have expired anyway, and revokes the grant upstream at FreeAgent.
+ *
+ * The FreeAgent tokens themselves are encrypted into an `enc` claim (see
+ * claims-crypto.ts), so a captured MCP token does not reveal them. Tokens
+ * issued before encryption carry them in plaintext and are still accepted.
+ *
+ * Access and refresh JWTs carry the granted scopes (see scopes.ts), so a
+ * refreshed token keeps the grant of the authorization it came from.
  */
 
 import jwt from "jsonwebtoken";
@@ -20,6 +31,9 @@ import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import crypto from "crypto";
 import type { Response } from "express";
 import { getBaseUrl } from "../constants.js";
+import { getDefaultOAuthStore, type OAuthStore } from "./oauth-store.js";
+import { ClaimsKeyring } from "./claims-crypto.js";
+import { LEGACY_SCOPE, grantScopes, narrowScopes, type Scope } from "./scopes.js";
 
 // Configuration
 const FREEAGENT_CLIENT_ID = process.env.FREEAGENT_CLIENT_ID!;
@@ -27,6 +41,9 @@ const FREEAGENT_CLIENT_SECRET = process.env.FREEAGENT_CLIENT_SECRET!;
 const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
 const USE_SANDBOX = process.env.FREEAGENT_USE_SANDBOX === "true";
 
+// Encrypts the FreeAgent tokens inside JWTs; JWT_ENCRYPTION_KEYS enables rotation
+const CLAIMS_KEYRING = ClaimsKeyring.fromEnv(JWT_SECRET);
+
 // Testing: Override token expiry for testing OAuth refresh
 // Set MCP_TOKEN_EXPIRY_SECONDS=60 to test 1-minute expiry
 const MCP_TOKEN_EXPIRY_SECONDS = process.env.MCP_TOKEN_EXPIRY_SECONDS
@@ -43,14 +60,48 @@ const FREEAGENT_BASE = USE_SANDBOX
   ? "https://api.sandbox.freeagent.com"
   : "https://api.freeagent.com";
 
+// Denylist key prefix in the OAuth store
+const REVOKED = "revoked-jwt:";
+
+/** FreeAgent tokens, sealed into the JWT's `enc` claim */
+interface FreeAgentCredentials {
+  freeagentAccessToken?: string;
+  freeagentRefreshToken?: string;
+}
+
+/**
+ * Where a JWT keeps its FreeAgent tokens: `enc`, or plaintext fields on
+ * tokens issued before encryption
+ */
+interface CredentialClaims extends FreeAgentCredentials {
+  enc?: string;
+}
+
 // JWT payload structure
-interface JWTPayload {
-  freeagentAccessToken: string;
-  freeagentRefreshToken: string;
+interface JWTPayload extends CredentialClaims {
   clientId: string;
   scopes: string[];
   iat: number;
   exp: number;
+  /** Absent on tokens issued before revocation support */
+  jti?: string;
+}
+
+/** Claims shared by access and refresh JWTs, as far as revocation needs them */
+interface RevocableClaims extends CredentialClaims {
+  clientId?: string;
+  type?: string;
+  exp?: number;
+  jti?: string;
+}
+
+/**
+ * The FreeAgent tokens carried by a verified JWT. Throws when the `enc`
+ * claim was sealed with a key that is no longer in the keyring.
+ */
+function readCredentials(claims: CredentialClaims): FreeAgentCredentials {
+  if (claims.enc) return CLAIMS_KEYRING.decrypt<FreeAgentCredentials>(claims.enc);
+  return { freeagentAccessToken: claims.freeagentAccessToken, freeagentRefreshToken: claims.freeagentRefreshToken };
 }
 
 // In-memory storage only for auth codes (short-lived, cleaned up after exchange)
@@ -59,6 +110,7 @@ interface AuthCodeData {
   clientId: string;
   redirectUri: string;
   state?: string;
+  scopes: Scope[];
   freeagentCode?: string;
 }
 
@@ -114,7 +166,7 @@ class JWTClientsStore implements OAuthRegisteredClientsStore {
 export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
   clientsStore: OAuthRegisteredClientsStore;
 
-  constructor() {
+  constructor(private readonly denylist: OAuthStore = getDefaultOAuthStore()) {
     this.clientsStore = new JWTClientsStore();
 
     if (!JWT_SECRET) {
@@ -130,6 +182,9 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
     params: AuthorizationParams,
     res: Response
   ): Promise<void> {
+    // Unknown scopes are rejected with invalid_scope by the SDK's handler
+    const scopes = grantScopes(params.scopes);
+
     try {
       const ourAuthCode = crypto.randomBytes(32).toString('base64url');
 
@@ -138,6 +193,7 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
         clientId: client.client_id,
         redirectUri: params.redirectUri,
         state: params.state,
+        scopes,
       });
 
       const freeagentAuthUrl = new URL(`${FREEAGENT_BASE}/v2/approve_app`);
@@ -239,10 +295,12 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       const expiresAt = now + expiresIn;
 
       const payload: JWTPayload = {
-        freeagentAccessToken: freeagentTokens.access_token,
-        freeagentRefreshToken: freeagentTokens.refresh_token,
+        enc: CLAIMS_KEYRING.encrypt({
+          freeagentAccessToken: freeagentTokens.access_token,
+          freeagentRefreshToken: freeagentTokens.refresh_token,
+        }),
         clientId: client.client_id,
-        scopes: ["freeagent"],
+        scopes: authData.scopes,
         iat: now,
         exp: expiresAt,
       };
@@ -250,13 +308,15 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       // Sign the JWT
       const mcpAccessToken = jwt.sign(payload, JWT_SECRET, {
         algorithm: 'HS256',
+        jwtid: crypto.randomUUID(),
       });
 
       // Create refresh token (also a JWT)
       // IMPORTANT: Embed full client metadata to survive serverless cold starts
       const refreshPayload = {
-        freeagentRefreshToken: freeagentTokens.refresh_token,
+        enc: CLAIMS_KEYRING.encrypt({ freeagentRefreshToken: freeagentTokens.refresh_token }),
         clientId: client.client_id,
+        scopes: authData.scopes,
         type: 'refresh',
         // Store full client info so we can reconstruct it after cold start
         clientMetadata: {
@@ -276,6 +336,7 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       const mcpRefreshToken = jwt.sign(refreshPayload, JWT_SECRET, {
         algorithm: 'HS256',
         expiresIn: refreshExpiresIn,
+        jwtid: crypto.randomUUID(),
       });
 
       // Log token creation (simplified)
@@ -314,14 +375,16 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
   async exchangeRefreshToken(
     client: OAuthClientInformationFull,
     refreshToken: string,
-    _scopes?: string[],
+    requestedScopes?: string[],
     _resource?: URL
   ): Promise<OAuthTokens> {
     try {
 
       // Verify and decode the refresh token JWT
-      const decoded = jwt.verify(refreshToken, JWT_SECRET) as JWTPayload & {
+      const decoded = jwt.verify(refreshToken, JWT_SECRET) as Omit<JWTPayload, "scopes"> & {
         type: string;
+        /** Absent on refresh tokens issued before scopes were split */
+        scopes?: string[];
         clientMetadata?: OAuthClientInformationFull;
       };
 
@@ -339,6 +402,10 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
         throw new Error("Invalid refresh token");
       }
 
+      if (await this.isRevoked(refreshToken, decoded)) {
+        throw new Error("Refresh token has been revoked");
+      }
+
       // Validate client_id matches (with flexibility for cold starts)
       if (decoded.clientId !== client.client_id) {
         console.error(JSON.stringify({
@@ -371,7 +438,14 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
         clients.set(restoredClient.client_id, restoredClient);
       }
 
+      // Keep the original grant, or the subset of it the client asks for
+      const scopes = narrowScopes(decoded.scopes ?? [LEGACY_SCOPE], requestedScopes);
+
       // Use FreeAgent refresh token to get new FreeAgent tokens
+      const { freeagentRefreshToken } = readCredentials(decoded);
+      if (!freeagentRefreshToken) {
+        throw new Error("Invalid refresh token - no FreeAgent refresh token");
+      }
       const tokenResponse = await fetch(`${FREEAGENT_BASE}/v2/token_endpoint`, {
         method: "POST",
         headers: {
@@ -380,7 +454,7 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
         },
         body: new URLSearchParams({
           grant_type: "refresh_token",
-          refresh_token: decoded.freeagentRefreshToken,
+          refresh_token: freeagentRefreshToken,
         }),
       });
 
@@ -409,16 +483,19 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       const expiresAt = now + expiresIn;
 
       const payload: JWTPayload = {
-        freeagentAccessToken: freeagentTokens.access_token,
-        freeagentRefreshToken: freeagentTokens.refresh_token,
+        enc: CLAIMS_KEYRING.encrypt({
+          freeagentAccessToken: freeagentTokens.access_token,
+          freeagentRefreshToken: freeagentTokens.refresh_token,
+        }),
         clientId: client.client_id,
-        scopes: ["freeagent"],
+        scopes,
         iat: now,
         exp: expiresAt,
       };
 
       const newMcpAccessToken = jwt.sign(payload, JWT_SECRET, {
         algorithm: 'HS256',
+        jwtid: crypto.randomUUID(),
       });
 
       // Rolling refresh: issue a new refresh token with a fresh expiry window
@@ -426,8 +503,10 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       // This means our MCP refresh token mirrors FreeAgent's actual expiry,
       // so users only re-authenticate when FreeAgent itself requires it.
       const newRefreshPayload = {
-        freeagentRefreshToken: freeagentTokens.refresh_token,
+        enc: CLAIMS_KEYRING.encrypt({ freeagentRefreshToken: freeagentTokens.refresh_token }),
         clientId: client.client_id,
+        // The refresh token keeps the original grant even if this access token narrowed it
+        scopes: decoded.scopes,
         type: 'refresh',
         clientMetadata: {
           client_id: client.client_id,
@@ -444,6 +523,7 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       const newMcpRefreshToken = jwt.sign(newRefreshPayload, JWT_SECRET, {
         algorithm: 'HS256',
         expiresIn: refreshExpiresIn,
+        jwtid: crypto.randomUUID(),
       });
 
       // Log successful refresh (simplified)
@@ -486,15 +566,11 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
    * Verify JWT and return auth info
    */
   async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let decoded: JWTPayload;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-
-      return {
-        token,
-        clientId: decoded.clientId,
-        scopes: decoded.scopes,
-        expiresAt: decoded.exp,
-      };
+      decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+      // A token sealed with a retired encryption key is no longer usable
+      readCredentials(decoded);
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         console.error("Access token expired");
@@ -503,29 +579,128 @@ export class FreeAgentJWTOAuthProvider implements OAuthServerProvider {
       console.error("Invalid access token:", error);
       throw new Error("Invalid access token");
     }
+
+    if (await this.isRevoked(token, decoded)) {
+      throw new Error("Access token has been revoked");
+    }
+
+    return {
+      token,
+      clientId: decoded.clientId,
+      scopes: decoded.scopes,
+      expiresAt: decoded.exp,
+    };
   }
 
   /**
-   * Revoke token (JWT is stateless, so we can't revoke, but we fulfill the interface)
+   * Revoke an access or refresh token: denylist its jti until it expires and
+   * revoke the FreeAgent grant behind it, so neither this JWT nor any other
+   * JWT carrying the same FreeAgent tokens keeps working. Tokens that fail
+   * verification, and tokens issued to another client than the one asking,
+   * are ignored, as RFC 7009 asks.
    */
   async revokeToken(
-    _client: OAuthClientInformationFull,
-    _request: OAuthTokenRevocationRequest
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest
   ): Promise<void> {
-    // JWTs are stateless - once issued, they're valid until expiration
-    // In a production system, you might maintain a revocation list in Redis
-    // For now, we just acknowledge the revocation request
-    return;
+    let decoded: RevocableClaims;
+    try {
+      decoded = jwt.verify(request.token, JWT_SECRET) as RevocableClaims;
+    } catch {
+      return;
+    }
+    if (decoded.clientId !== client.client_id) {
+      console.error(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        level: "warn",
+        component: "oauth-revoke",
+        message: "Ignoring revocation of a token issued to another client",
+        data: { requestingClientId: client.client_id, tokenClientId: decoded.clientId },
+      }));
+      return;
+    }
+
+    const ttlMs = decoded.exp !== undefined ? decoded.exp * 1000 - Date.now() : undefined;
+    await this.denylist.set(REVOKED + this.denylistId(request.token, decoded), { revokedAt: Date.now() }, ttlMs);
+
+    await this.revokeUpstream(decoded);
+  }
+
+  /**
+   * Get the FreeAgent access token an MCP access token carries, unless the
+   * token has been revoked
+   */
+  async getFreeAgentToken(mcpToken: string): Promise<string | undefined> {
+    const freeagentToken = getFreeAgentTokenFromJWT(mcpToken);
+    if (!freeagentToken) return undefined;
+    const decoded = jwt.decode(mcpToken) as JWTPayload;
+    if (await this.isRevoked(mcpToken, decoded)) return undefined;
+    return freeagentToken;
+  }
+
+  /** The jti, or a hash of the token for JWTs issued before jti was added */
+  private denylistId(token: string, decoded: RevocableClaims): string {
+    return decoded.jti ?? crypto.createHash("sha256").update(token).digest("base64url");
+  }
+
+  private async isRevoked(token: string, decoded: RevocableClaims): Promise<boolean> {
+    return (await this.denylist.get(REVOKED + this.denylistId(token, decoded))) !== undefined;
+  }
+
+  /**
+   * Ask FreeAgent to revoke the grant. Revoking the refresh token ends every
+   * access token issued from it. A failure is logged rather than thrown: the
+   * JWT is already denylisted, and FreeAgent access tokens lapse within an hour.
+   */
+  private async revokeUpstream(decoded: RevocableClaims): Promise<void> {
+    let credentials: FreeAgentCredentials;
+    try {
+      credentials = readCredentials(decoded);
+    } catch {
+      // Sealed with a retired key: the token is unusable anyway
+      return;
+    }
+    const token = credentials.freeagentRefreshToken ?? credentials.freeagentAccessToken;
+    if (!token) return;
+
+    try {
+      const response = await fetch(`${FREEAGENT_BASE}/v2/revoke`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Authorization": `Basic ${Buffer.from(`${FREEAGENT_CLIENT_ID}:${FREEAGENT_CLIENT_SECRET}`).toString('base64')}`,
+        },
+        body: new URLSearchParams({
+          token,
+          token_type_hint: credentials.freeagentRefreshToken ? "refresh_token" : "access_token",
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+    } catch (error) {
+      console.error(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        level: "warn",
+        component: "oauth-revoke",
+        message: "FreeAgent token revocation failed; the MCP token is still denylisted",
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }));
+    }
   }
 }
 
 /**
- * Extract FreeAgent token from MCP JWT
+ * Extract FreeAgent token from MCP JWT, decrypting the `enc` claim. Checks the
+ * signature and expiry only; use FreeAgentJWTOAuthProvider.getFreeAgentToken
+ * to honour revocation.
  */
 export function getFreeAgentTokenFromJWT(mcpToken: string): string | undefined {
   try {
     const decoded = jwt.verify(mcpToken, JWT_SECRET) as JWTPayload;
-    return decoded.freeagentAccessToken;
+    return readCredentials(decoded).freeagentAccessToken;
   } catch {
     return undefined;
   }
@@ -534,9 +709,9 @@ export function getFreeAgentTokenFromJWT(mcpToken: string): string | undefined {
 /**
  * Create the provider instance
  */
-export function createFreeAgentJWTOAuthProvider(): FreeAgentJWTOAuthProvider {
+export function createFreeAgentJWTOAuthProvider(denylist?: OAuthStore): FreeAgentJWTOAuthProvider {
   if (!FREEAGENT_CLIENT_ID || !FREEAGENT_CLIENT_SECRET) {
     throw new Error("FREEAGENT_CLIENT_ID and FREEAGENT_CLIENT_SECRET are required");
   }
-  return new FreeAgentJWTOAuthProvider();
+  return new FreeAgentJWTOAuthProvider(denylist);
 }
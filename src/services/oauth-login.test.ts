@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import net from "net";
+import type { CredentialsFile } from "./credentials.js";
+import { runLogin } from "./oauth-login.js";
+
+/** A port that was free a moment ago, for the loopback server. */
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+describe("runLogin", () => {
+  const realFetch = globalThis.fetch;
+  const tokenFetch = vi.fn();
+
+  beforeEach(() => {
+    tokenFetch.mockReset();
+    // Loopback requests go through the real fetch; token requests are mocked.
+    vi.stubGlobal("fetch", (url: string, init?: RequestInit) =>
+      url.includes("freeagent.com") ? tokenFetch(url, init) : realFetch(url, init)
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("exchanges the code from the loopback redirect and saves the tokens", async () => {
+    const port = await freePort();
+    tokenFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ access_token: "a", refresh_token: "r", expires_in: 3600 }), { status: 200 })
+    );
+    const file = { save: vi.fn(async () => {}), filePath: "creds.json" } as unknown as CredentialsFile;
+
+    let authorizeUrl: URL | undefined;
+    const pending = runLogin({
+      clientId: "client",
+      clientSecret: "secret",
+      useSandbox: false,
+      port,
+      file,
+      onAuthorizeUrl: (url) => {
+        authorizeUrl = new URL(url);
+      },
+    });
+
+    await vi.waitFor(() => expect(authorizeUrl).toBeDefined());
+    expect(authorizeUrl!.origin + authorizeUrl!.pathname).toBe("https://api.freeagent.com/v2/approve_app");
+    expect(authorizeUrl!.searchParams.get("redirect_uri")).toBe(`http://localhost:${port}/callback`);
+
+    const state = authorizeUrl!.searchParams.get("state");
+    const callback = await realFetch(`http://127.0.0.1:${port}/callback?code=abc&state=${state}`);
+    expect(callback.status).toBe(200);
+
+    await expect(pending).resolves.toMatchObject({ access_token: "a", refresh_token: "r" });
+    expect(String((tokenFetch.mock.calls[0][1] as RequestInit).body)).toContain("grant_type=authorization_code&code=abc");
+    expect(file.save).toHaveBeenCalledWith(expect.objectContaining({ refresh_token: "r" }));
+  });
+
+  it("rejects a redirect whose state does not match", async () => {
+    const port = await freePort();
+    const file = { save: vi.fn(async () => {}) } as unknown as CredentialsFile;
+
+    let started = false;
+    const pending = runLogin({
+      clientId: "client",
+      clientSecret: "secret",
+      useSandbox: true,
+      port,
+      file,
+      onAuthorizeUrl: () => {
+        started = true;
+      },
+    });
+    const assertion = expect(pending).rejects.toThrow(/state mismatch/);
+
+    await vi.waitFor(() => expect(started).toBe(true));
+    const callback = await realFetch(`http://127.0.0.1:${port}/callback?code=abc&state=forged`);
+    expect(callback.status).toBe(400);
+
+    await assertion;
+    expect(tokenFetch).not.toHaveBeenCalled();
+    expect(file.save).not.toHaveBeenCalled();
+  });
+});
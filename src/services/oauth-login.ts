@@ -0,0 +1,113 @@
+/**
+ * `login` subcommand for the stdio entry point.
+ *
+ * Runs FreeAgent's authorization-code flow against a loopback redirect:
+ * start a one-shot HTTP server on 127.0.0.1, send the user to FreeAgent's
+ * approve_app page, wait for the redirect to /callback, exchange the code
+ * and save the resulting tokens to the credentials file.
+ *
+ * The redirect URI (http://localhost:<port>/callback) must be registered on
+ * the app at https://dev.freeagent.com.
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { CredentialsFile, oauthBaseUrl, requestToken, type OAuthClientConfig, type StoredCredentials } from "./credentials.js";
+
+export const DEFAULT_LOGIN_PORT = 8976;
+
+/** How long to wait for the user to approve the app */
+const LOGIN_TIMEOUT_MS = 5 * 60_000;
+
+export interface LoginOptions extends OAuthClientConfig {
+  port?: number;
+  file?: CredentialsFile;
+  /** Called with the URL the user should open in a browser */
+  onAuthorizeUrl: (url: string) => void;
+  timeoutMs?: number;
+}
+
+export function buildAuthorizeUrl(config: OAuthClientConfig, redirectUri: string, state: string): string {
+  const url = new URL(`${oauthBaseUrl(config.useSandbox)}/approve_app`);
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+function respond(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(message);
+}
+
+/**
+ * Wait on the loopback server for FreeAgent's redirect and return the
+ * authorization code. Requests to other paths are answered with 404 and
+ * ignored; a mismatched state or an `error` parameter ends the login.
+ */
+function waitForCode(server: http.Server, state: string, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)} seconds waiting for FreeAgent to redirect back.`));
+    }, timeoutMs);
+
+    server.on("request", (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== "/callback") {
+        respond(res, 404, "Not found");
+        return;
+      }
+
+      clearTimeout(timer);
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+      if (error) {
+        respond(res, 400, `FreeAgent login failed: ${error}. You can close this window.`);
+        reject(new Error(`FreeAgent returned an error instead of a code: ${error}`));
+      } else if (url.searchParams.get("state") !== state) {
+        respond(res, 400, "Login state did not match. Start the login again.");
+        reject(new Error("OAuth state mismatch on the loopback redirect; the login was not started by this process."));
+      } else if (!code) {
+        respond(res, 400, "No authorization code received.");
+        reject(new Error("FreeAgent redirected back without an authorization code."));
+      } else {
+        respond(res, 200, "FreeAgent MCP server is authorized. You can close this window.");
+        resolve(code);
+      }
+    });
+  });
+}
+
+/**
+ * Run the authorization-code flow and persist the tokens. Resolves with the
+ * saved credentials once the code has been exchanged.
+ */
+export async function runLogin(options: LoginOptions): Promise<StoredCredentials> {
+  const port = options.port ?? DEFAULT_LOGIN_PORT;
+  const file = options.file ?? new CredentialsFile();
+  const redirectUri = `http://localhost:${port}/callback`;
+  const state = crypto.randomBytes(16).toString("base64url");
+
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve());
+  });
+
+  try {
+    options.onAuthorizeUrl(buildAuthorizeUrl(options, redirectUri, state));
+    const code = await waitForCode(server, state, options.timeoutMs ?? LOGIN_TIMEOUT_MS);
+
+    const credentials = await requestToken(options, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+    });
+    await file.save(credentials);
+    return credentials;
+  } finally {
+    server.close();
+    server.closeAllConnections();
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Response } from "express";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { FreeAgentOAuthProxyProvider } from "./oauth-proxy.js";
+import { MemoryOAuthStore } from "./oauth-store.js";
+
+const client: OAuthClientInformationFull = {
+  client_id: "claude",
+  redirect_uris: ["https://claude.ai/api/mcp/auth_callback"],
+};
+
+function tokenResponse(body: Record<string, unknown>): globalThis.Response {
+  return new globalThis.Response(JSON.stringify(body), { status: 200 });
+}
+
+/** Run /authorize and the FreeAgent callback, returning our authorization code. */
+async function authorize(provider: FreeAgentOAuthProxyProvider, scopes?: string[]): Promise<string> {
+  const res = { redirect: vi.fn() } as unknown as Response;
+  await provider.authorize(client, {
+    codeChallenge: "challenge",
+    redirectUri: client.redirect_uris[0],
+    state: "client-state",
+    scopes,
+  }, res);
+
+  const redirect = new URL((res.redirect as ReturnType<typeof vi.fn>).mock.calls[0][0] as string);
+  const ourCode = redirect.searchParams.get("state")!;
+  const callback = await provider.handleFreeAgentCallback(ourCode, "freeagent-code");
+  expect(callback).toEqual({ redirectUri: client.redirect_uris[0], code: ourCode, state: "client-state" });
+  return ourCode;
+}
+
+describe("FreeAgentOAuthProxyProvider", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps clients and tokens in the store, so a fresh provider instance can use them", async () => {
+    const store = new MemoryOAuthStore();
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: "fa-access", refresh_token: "fa-refresh", expires_in: 3600 }));
+
+    const first = new FreeAgentOAuthProxyProvider(store);
+    await first.clientsStore.registerClient!(client);
+    const code = await authorize(first);
+    await expect(first.challengeForAuthorizationCode(client, code)).resolves.toBe("challenge");
+    const tokens = await first.exchangeAuthorizationCode(client, code);
+
+    // A cold start: same store, new provider.
+    const second = new FreeAgentOAuthProxyProvider(store);
+    await expect(second.clientsStore.getClient("claude")).resolves.toEqual(client);
+    await expect(second.verifyAccessToken(tokens.access_token)).resolves.toMatchObject({ clientId: "claude" });
+    await expect(second.getFreeAgentToken(tokens.access_token)).resolves.toBe("fa-access");
+
+    // Authorization codes are single-use.
+    await expect(second.exchangeAuthorizationCode(client, code)).rejects.toThrow(/Invalid or expired/);
+  });
+
+  it("expires authorization codes after ten minutes", async () => {
+    const provider = new FreeAgentOAuthProxyProvider(new MemoryOAuthStore());
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    try {
+      const code = await authorize(provider);
+      clock.mockReturnValue(now + 10 * 60 * 1000 + 1);
+      await expect(provider.challengeForAuthorizationCode(client, code)).rejects.toThrow(/Invalid authorization code/);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it("refreshes with the MCP refresh token, rotating FreeAgent's and retiring the old access token", async () => {
+    const provider = new FreeAgentOAuthProxyProvider(new MemoryOAuthStore());
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse({ access_token: "fa-1", refresh_token: "fa-r1", expires_in: 3600 }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: "fa-2", refresh_token: "fa-r2", expires_in: 3600 }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: "fa-3", expires_in: 3600 }));
+
+    const issued = await provider.exchangeAuthorizationCode(client, await authorize(provider));
+    const refreshed = await provider.exchangeRefreshToken(client, issued.refresh_token!);
+
+    expect(refreshed.refresh_token).toBe(issued.refresh_token);
+    expect(String((fetchMock.mock.calls[1][1] as RequestInit).body)).toContain("refresh_token=fa-r1");
+    await expect(provider.getFreeAgentToken(issued.access_token)).resolves.toBeUndefined();
+    await expect(provider.getFreeAgentToken(refreshed.access_token)).resolves.toBe("fa-2");
+
+    await provider.exchangeRefreshToken(client, issued.refresh_token!);
+    expect(String((fetchMock.mock.calls[2][1] as RequestInit).body)).toContain("refresh_token=fa-r2");
+
+    await expect(
+      provider.exchangeRefreshToken({ ...client, client_id: "other" }, issued.refresh_token!)
+    ).rejects.toThrow(/Invalid refresh token/);
+  });
+
+  it("issues the requested scopes and lets a refresh narrow them without losing the grant", async () => {
+    const provider = new FreeAgentOAuthProxyProvider(new MemoryOAuthStore());
+    fetchMock.mockImplementation(async () => tokenResponse({ access_token: "fa", refresh_token: "fa-r", expires_in: 3600 }));
+
+    const issued = await provider.exchangeAuthorizationCode(client, await authorize(provider, ["freeagent:read", "freeagent:write"]));
+    await expect(provider.verifyAccessToken(issued.access_token)).resolves.toMatchObject({
+      scopes: ["freeagent:read", "freeagent:write"],
+    });
+
+    const narrowed = await provider.exchangeRefreshToken(client, issued.refresh_token!, ["freeagent:read"]);
+    await expect(provider.verifyAccessToken(narrowed.access_token)).resolves.toMatchObject({ scopes: ["freeagent:read"] });
+
+    const restored = await provider.exchangeRefreshToken(client, issued.refresh_token!);
+    await expect(provider.verifyAccessToken(restored.access_token)).resolves.toMatchObject({
+      scopes: ["freeagent:read", "freeagent:write"],
+    });
+    await expect(
+      provider.exchangeRefreshToken(client, issued.refresh_token!, ["freeagent:banking"])
+    ).rejects.toThrow(/not part of the original grant/);
+  });
+
+  it("revoking a refresh token also revokes its access token", async () => {
+    const provider = new FreeAgentOAuthProxyProvider(new MemoryOAuthStore());
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: "fa-1", refresh_token: "fa-r1" }));
+    const issued = await provider.exchangeAuthorizationCode(client, await authorize(provider));
+
+    await provider.revokeToken(client, { token: issued.refresh_token! });
+
+    await expect(provider.verifyAccessToken(issued.access_token)).rejects.toThrow(/Invalid access token/);
+    await expect(provider.exchangeRefreshToken(client, issued.refresh_token!)).rejects.toThrow(/Invalid refresh token/);
+  });
+
+  it("ignores revocation of another client's tokens", async () => {
+    const provider = new FreeAgentOAuthProxyProvider(new MemoryOAuthStore());
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: "fa-1", refresh_token: "fa-r1" }));
+    const issued = await provider.exchangeAuthorizationCode(client, await authorize(provider));
+    const other = { ...client, client_id: "someone-else" };
+
+    await provider.revokeToken(other, { token: issued.access_token });
+    await provider.revokeToken(other, { token: issued.refresh_token! });
+
+    await expect(provider.verifyAccessToken(issued.access_token)).resolves.toMatchObject({ clientId: client.client_id });
+  });
+});
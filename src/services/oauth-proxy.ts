@@ -8,6 +8,10 @@
  * 3. FreeAgent → Redirects back to us with auth code
  * 4. We → Exchange FreeAgent code for FreeAgent tokens
  * 5. We → Issue MCP tokens to Claude (mapped to FreeAgent tokens)
+ *
+ * Registered clients, authorization codes and token mappings live in an
+ * OAuthStore (see oauth-store.ts). With the Redis or file store they survive
+ * restarts and serverless cold starts; with the memory store they do not.
  */
 
 import { Response } from "express";
@@ -16,50 +20,81 @@ import { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/au
 import { OAuthClientInformationFull, OAuthTokens, OAuthTokenRevocationRequest } from "@modelcontextprotocol/sdk/shared/auth.js";
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import crypto from "crypto";
+import { getBaseUrl } from "../constants.js";
+import { getDefaultOAuthStore, type OAuthStore } from "./oauth-store.js";
+import { LEGACY_SCOPE, grantScopes, narrowScopes, type Scope } from "./scopes.js";
 
 // Configuration
 const FREEAGENT_CLIENT_ID = process.env.FREEAGENT_CLIENT_ID!;
 const FREEAGENT_CLIENT_SECRET = process.env.FREEAGENT_CLIENT_SECRET!;
 const USE_SANDBOX = process.env.FREEAGENT_USE_SANDBOX === "true";
-const VERCEL_URL = process.env.VERCEL_URL;
-const BASE_URL = VERCEL_URL ? `https://${VERCEL_URL}` : (process.env.BASE_URL || "http://localhost:3000");
+const BASE_URL = getBaseUrl();
 
 const FREEAGENT_BASE = USE_SANDBOX
   ? "https://api.sandbox.freeagent.com"
   : "https://api.freeagent.com";
 
-// In-memory stores (in production, use Redis/PostgreSQL)
+/** Authorization codes must be exchanged within this window */
+const AUTH_CODE_TTL_MS = 10 * 60 * 1000;
+
+/** MCP refresh tokens are dropped after this long without being used */
+const REFRESH_TOKEN_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Store key prefixes
+const CLIENT = "client:";
+const CODE = "code:";
+const TOKEN = "token:";
+const REFRESH = "refresh:";
+
 interface AuthCodeData {
   codeChallenge: string;
   clientId: string;
   redirectUri: string;
   state?: string;
+  /** Absent on codes stored before scopes were split */
+  scopes?: Scope[];
   freeagentCode?: string; // FreeAgent's auth code
+  expiresAt: number;
 }
 
+/** Keyed by MCP access token */
 interface TokenData {
-  mcpToken: string;
   freeagentAccessToken: string;
-  freeagentRefreshToken: string;
   clientId: string;
   scopes: string[];
   expiresAt: number;
+  /** The MCP refresh token this access token was issued with */
+  refreshToken: string;
 }
 
-const authCodes = new Map<string, AuthCodeData>();
-const tokens = new Map<string, TokenData>();
-const clients = new Map<string, OAuthClientInformationFull>();
+/** Keyed by MCP refresh token */
+interface RefreshData {
+  freeagentRefreshToken: string;
+  clientId: string;
+  /** The original grant; refreshed access tokens may narrow it */
+  scopes: string[];
+  /** The MCP access token currently issued for this refresh token */
+  accessToken: string;
+}
+
+interface FreeAgentTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
 
 /**
- * Simple client store for dynamic client registration
+ * Client store for dynamic client registration
  */
 class ProxyClientsStore implements OAuthRegisteredClientsStore {
+  constructor(private readonly store: OAuthStore) {}
+
   async getClient(clientId: string): Promise<OAuthClientInformationFull | undefined> {
-    return clients.get(clientId);
+    return this.store.get<OAuthClientInformationFull>(CLIENT + clientId);
   }
 
   async registerClient(clientMetadata: OAuthClientInformationFull): Promise<OAuthClientInformationFull> {
-    clients.set(clientMetadata.client_id, clientMetadata);
+    await this.store.set(CLIENT + clientMetadata.client_id, clientMetadata);
     return clientMetadata;
   }
 }
@@ -70,8 +105,8 @@ class ProxyClientsStore implements OAuthRegisteredClientsStore {
 export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
   clientsStore: OAuthRegisteredClientsStore;
 
-  constructor() {
-    this.clientsStore = new ProxyClientsStore();
+  constructor(private readonly store: OAuthStore = getDefaultOAuthStore()) {
+    this.clientsStore = new ProxyClientsStore(store);
   }
 
   /**
@@ -82,17 +117,23 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
     params: AuthorizationParams,
     res: Response
   ): Promise<void> {
+    // Unknown scopes are rejected with invalid_scope by the SDK's handler
+    const scopes = grantScopes(params.scopes);
+
     try {
       // Generate our authorization code
       const ourAuthCode = crypto.randomBytes(32).toString('base64url');
 
       // Store the authorization request details
-      authCodes.set(ourAuthCode, {
+      const authData: AuthCodeData = {
         codeChallenge: params.codeChallenge,
         clientId: client.client_id,
         redirectUri: params.redirectUri,
         state: params.state,
-      });
+        scopes,
+        expiresAt: Date.now() + AUTH_CODE_TTL_MS,
+      };
+      await this.store.set(CODE + ourAuthCode, authData, AUTH_CODE_TTL_MS);
 
       // Build FreeAgent authorization URL
       const freeagentAuthUrl = new URL(`${FREEAGENT_BASE}/v2/approve_app`);
@@ -126,14 +167,14 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
     code: string;
     state?: string;
   }> {
-    const authData = authCodes.get(ourAuthCode);
+    const authData = await this.store.get<AuthCodeData>(CODE + ourAuthCode);
     if (!authData) {
       throw new Error("Invalid authorization code");
     }
 
-    // Store the FreeAgent code
+    // Store the FreeAgent code, keeping the original expiry
     authData.freeagentCode = freeagentCode;
-    authCodes.set(ourAuthCode, authData);
+    await this.store.set(CODE + ourAuthCode, authData, authData.expiresAt - Date.now());
 
     return {
       redirectUri: authData.redirectUri,
@@ -149,7 +190,7 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
     _client: OAuthClientInformationFull,
     authorizationCode: string
   ): Promise<string> {
-    const authData = authCodes.get(authorizationCode);
+    const authData = await this.store.get<AuthCodeData>(CODE + authorizationCode);
     if (!authData) {
       throw new Error("Invalid authorization code");
     }
@@ -166,60 +207,26 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
     _redirectUri?: string,
     _resource?: URL
   ): Promise<OAuthTokens> {
-    const authData = authCodes.get(authorizationCode);
-    if (!authData || !authData.freeagentCode) {
+    const authData = await this.store.get<AuthCodeData>(CODE + authorizationCode);
+    if (!authData || !authData.freeagentCode || authData.clientId !== client.client_id) {
       throw new Error("Invalid or expired authorization code");
     }
 
     try {
       // Exchange FreeAgent code for FreeAgent tokens
-      const tokenResponse = await fetch(`${FREEAGENT_BASE}/v2/token_endpoint`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          "Authorization": `Basic ${Buffer.from(`${FREEAGENT_CLIENT_ID}:${FREEAGENT_CLIENT_SECRET}`).toString('base64')}`,
-        },
-        body: new URLSearchParams({
-          grant_type: "authorization_code",
-          code: authData.freeagentCode,
-          redirect_uri: `${BASE_URL}/oauth/callback`,
-        }),
+      const freeagentTokens = await this.requestFreeAgentTokens({
+        grant_type: "authorization_code",
+        code: authData.freeagentCode,
+        redirect_uri: `${BASE_URL}/oauth/callback`,
       });
-
-      if (!tokenResponse.ok) {
-        const error = await tokenResponse.text();
-        throw new Error(`FreeAgent token exchange failed: ${error}`);
+      if (!freeagentTokens.refresh_token) {
+        throw new Error("FreeAgent token exchange returned no refresh token");
       }
 
-      const freeagentTokens = await tokenResponse.json();
-
-      // Generate our MCP tokens
-      const mcpAccessToken = crypto.randomBytes(32).toString('base64url');
-      const mcpRefreshToken = crypto.randomBytes(32).toString('base64url');
-
-      // Store the token mapping
-      const expiresAt = Date.now() + ((freeagentTokens.expires_in || 3600) * 1000);
-      tokens.set(mcpAccessToken, {
-        mcpToken: mcpAccessToken,
-        freeagentAccessToken: freeagentTokens.access_token,
-        freeagentRefreshToken: freeagentTokens.refresh_token,
-        clientId: client.client_id,
-        scopes: ["freeagent"],
-        expiresAt,
-      });
-
-      // Clean up auth code
-      authCodes.delete(authorizationCode);
-
-      return {
-        access_token: mcpAccessToken,
-        token_type: "bearer",
-        expires_in: freeagentTokens.expires_in || 3600,
-        refresh_token: mcpRefreshToken,
-      };
-    } catch (error) {
-      authCodes.delete(authorizationCode);
-      throw error;
+      return await this.issueTokens(client.client_id, authData.scopes ?? [LEGACY_SCOPE], freeagentTokens, freeagentTokens.refresh_token);
+    } finally {
+      // Authorization codes are single-use
+      await this.store.delete(CODE + authorizationCode);
     }
   }
 
@@ -229,74 +236,46 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
   async exchangeRefreshToken(
     client: OAuthClientInformationFull,
     refreshToken: string,
-    _scopes?: string[],
+    requestedScopes?: string[],
     _resource?: URL
   ): Promise<OAuthTokens> {
-    // Find the token data by refresh token
-    const tokenData = Array.from(tokens.values()).find(t =>
-      t.freeagentRefreshToken === refreshToken && t.clientId === client.client_id
-    );
-
-    if (!tokenData) {
+    const refreshData = await this.store.get<RefreshData>(REFRESH + refreshToken);
+    if (!refreshData || refreshData.clientId !== client.client_id) {
       throw new Error("Invalid refresh token");
     }
+    const scopes = narrowScopes(refreshData.scopes, requestedScopes);
 
     // Refresh with FreeAgent
-    const tokenResponse = await fetch(`${FREEAGENT_BASE}/v2/token_endpoint`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        "Authorization": `Basic ${Buffer.from(`${FREEAGENT_CLIENT_ID}:${FREEAGENT_CLIENT_SECRET}`).toString('base64')}`,
-      },
-      body: new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: tokenData.freeagentRefreshToken,
-      }),
+    const freeagentTokens = await this.requestFreeAgentTokens({
+      grant_type: "refresh_token",
+      refresh_token: refreshData.freeagentRefreshToken,
     });
 
-    if (!tokenResponse.ok) {
-      throw new Error("FreeAgent refresh failed");
-    }
-
-    const freeagentTokens = await tokenResponse.json();
-
-    // Generate new MCP tokens
-    const newMcpAccessToken = crypto.randomBytes(32).toString('base64url');
-    const newExpiresAt = Date.now() + ((freeagentTokens.expires_in || 3600) * 1000);
-
-    // Remove old token
-    tokens.delete(tokenData.mcpToken);
-
-    // Store new token mapping
-    tokens.set(newMcpAccessToken, {
-      mcpToken: newMcpAccessToken,
-      freeagentAccessToken: freeagentTokens.access_token,
-      freeagentRefreshToken: freeagentTokens.refresh_token,
-      clientId: client.client_id,
-      scopes: tokenData.scopes,
-      expiresAt: newExpiresAt,
-    });
+    // Remove old access token
+    await this.store.delete(TOKEN + refreshData.accessToken);
 
-    return {
-      access_token: newMcpAccessToken,
-      token_type: "bearer",
-      expires_in: freeagentTokens.expires_in || 3600,
-      refresh_token: refreshToken,
-    };
+    return this.issueTokens(
+      refreshData.clientId,
+      scopes,
+      freeagentTokens,
+      freeagentTokens.refresh_token ?? refreshData.freeagentRefreshToken,
+      refreshToken,
+      refreshData.scopes
+    );
   }
 
   /**
    * Verify an MCP access token
    */
   async verifyAccessToken(token: string): Promise<AuthInfo> {
-    const tokenData = tokens.get(token);
+    const tokenData = await this.store.get<TokenData>(TOKEN + token);
 
     if (!tokenData) {
       throw new Error("Invalid access token");
     }
 
     if (Date.now() >= tokenData.expiresAt) {
-      tokens.delete(token);
+      await this.store.delete(TOKEN + token);
       throw new Error("Access token expired");
     }
 
@@ -309,30 +288,106 @@ export class FreeAgentOAuthProxyProvider implements OAuthServerProvider {
   }
 
   /**
-   * Revoke a token
+   * Revoke a token. Revoking a refresh token also revokes the access token
+   * issued with it. Tokens issued to another client than the one asking are
+   * ignored, as RFC 7009 asks.
    */
   async revokeToken(
-    _client: OAuthClientInformationFull,
+    client: OAuthClientInformationFull,
     request: OAuthTokenRevocationRequest
   ): Promise<void> {
-    tokens.delete(request.token);
+    const refreshData = await this.store.get<RefreshData>(REFRESH + request.token);
+    if (refreshData) {
+      if (refreshData.clientId !== client.client_id) return;
+      await this.store.delete(TOKEN + refreshData.accessToken);
+      await this.store.delete(REFRESH + request.token);
+      return;
+    }
+    const tokenData = await this.store.get<TokenData>(TOKEN + request.token);
+    if (tokenData?.clientId !== client.client_id) return;
+    await this.store.delete(TOKEN + request.token);
   }
-}
 
-/**
- * Get FreeAgent access token for an MCP token
- */
-export function getFreeAgentTokenForMcpToken(mcpToken: string): string | undefined {
-  const tokenData = tokens.get(mcpToken);
-  return tokenData?.freeagentAccessToken;
+  /**
+   * Get the FreeAgent access token an MCP access token maps to
+   */
+  async getFreeAgentToken(mcpToken: string): Promise<string | undefined> {
+    const tokenData = await this.store.get<TokenData>(TOKEN + mcpToken);
+    if (!tokenData || Date.now() >= tokenData.expiresAt) return undefined;
+    return tokenData.freeagentAccessToken;
+  }
+
+  private async requestFreeAgentTokens(grant: Record<string, string>): Promise<FreeAgentTokenResponse> {
+    const tokenResponse = await fetch(`${FREEAGENT_BASE}/v2/token_endpoint`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Authorization": `Basic ${Buffer.from(`${FREEAGENT_CLIENT_ID}:${FREEAGENT_CLIENT_SECRET}`).toString('base64')}`,
+      },
+      body: new URLSearchParams(grant),
+    });
+
+    if (!tokenResponse.ok) {
+      const error = await tokenResponse.text();
+      throw new Error(
+        grant.grant_type === "refresh_token"
+          ? `FreeAgent refresh failed: ${error}`
+          : `FreeAgent token exchange failed: ${error}`
+      );
+    }
+
+    return await tokenResponse.json() as FreeAgentTokenResponse;
+  }
+
+  /**
+   * Store a new MCP access token (and refresh token, unless an existing one
+   * is being reused) mapped to the FreeAgent tokens. The refresh token keeps
+   * `grantedScopes` when the access token's `scopes` narrow them.
+   */
+  private async issueTokens(
+    clientId: string,
+    scopes: string[],
+    freeagentTokens: FreeAgentTokenResponse,
+    freeagentRefreshToken: string,
+    existingRefreshToken?: string,
+    grantedScopes: string[] = scopes
+  ): Promise<OAuthTokens> {
+    const mcpAccessToken = crypto.randomBytes(32).toString('base64url');
+    const mcpRefreshToken = existingRefreshToken ?? crypto.randomBytes(32).toString('base64url');
+    const expiresIn = freeagentTokens.expires_in || 3600;
+    const expiresAt = Date.now() + expiresIn * 1000;
+
+    const tokenData: TokenData = {
+      freeagentAccessToken: freeagentTokens.access_token,
+      clientId,
+      scopes,
+      expiresAt,
+      refreshToken: mcpRefreshToken,
+    };
+    const refreshData: RefreshData = {
+      freeagentRefreshToken,
+      clientId,
+      scopes: grantedScopes,
+      accessToken: mcpAccessToken,
+    };
+    await this.store.set(TOKEN + mcpAccessToken, tokenData, expiresIn * 1000);
+    await this.store.set(REFRESH + mcpRefreshToken, refreshData, REFRESH_TOKEN_TTL_MS);
+
+    return {
+      access_token: mcpAccessToken,
+      token_type: "bearer",
+      expires_in: expiresIn,
+      refresh_token: mcpRefreshToken,
+    };
+  }
 }
 
 /**
  * Create the provider instance
  */
-export function createFreeAgentOAuthProxyProvider(): FreeAgentOAuthProxyProvider {
+export function createFreeAgentOAuthProxyProvider(store?: OAuthStore): FreeAgentOAuthProxyProvider {
   if (!FREEAGENT_CLIENT_ID || !FREEAGENT_CLIENT_SECRET) {
     throw new Error("FREEAGENT_CLIENT_ID and FREEAGENT_CLIENT_SECRET are required");
   }
-  return new FreeAgentOAuthProxyProvider();
+  return new FreeAgentOAuthProxyProvider(store);
 }
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { FileOAuthStore, MemoryOAuthStore, RedisOAuthStore, encodeResp, parseResp, type OAuthStore } from "./oauth-store.js";
+
+/**
+ * Minimal Redis-protocol server: AUTH, SELECT, GET, SET [NX] [PX ms] and DEL
+ * against a Map, recording every command it receives.
+ */
+async function fakeRedis(password?: string) {
+  const data = new Map<string, { value: string; expiresAt?: number }>();
+  const commands: string[][] = [];
+
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer: Buffer = Buffer.alloc(0);
+    let authed = !password;
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (let parsed = parseResp(buffer); parsed; parsed = parseResp(buffer)) {
+        buffer = buffer.subarray(parsed.next);
+        const [name, ...args] = parsed.value as string[];
+        commands.push([name, ...args]);
+
+        if (name === "AUTH") {
+          authed = args[args.length - 1] === password;
+          socket.write(authed ? "+OK\r\n" : "-WRONGPASS invalid username-password pair\r\n");
+        } else if (!authed) {
+          socket.write("-NOAUTH Authentication required.\r\n");
+        } else if (name === "SELECT") {
+          socket.write("+OK\r\n");
+        } else if (name === "GET") {
+          const entry = data.get(args[0]);
+          const live = entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now());
+          socket.write(live ? `$${Buffer.byteLength(entry.value)}\r\n${entry.value}\r\n` : "$-1\r\n");
+        } else if (name === "SET") {
+          const options = args.slice(2);
+          const pxAt = options.indexOf("PX");
+          const px = pxAt >= 0 ? Number(options[pxAt + 1]) : undefined;
+          const existing = data.get(args[0]);
+          if (options.includes("NX") && existing && (existing.expiresAt === undefined || existing.expiresAt > Date.now())) {
+            socket.write("$-1\r\n");
+          } else {
+            data.set(args[0], { value: args[1], expiresAt: px === undefined ? undefined : Date.now() + px });
+            socket.write("+OK\r\n");
+          }
+        } else if (name === "DEL") {
+          socket.write(`:${data.delete(args[0]) ? 1 : 0}\r\n`);
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    port,
+    commands,
+    close: () => new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      sockets.forEach((socket) => socket.destroy());
+    }),
+  };
+}
+
+function behavesLikeAStore(makeStore: () => OAuthStore) {
+  it("round-trips values and deletes them", async () => {
+    const store = makeStore();
+    await store.set("client:abc", { client_id: "abc", redirect_uris: ["https://example.com/cb"] });
+
+    await expect(store.get("client:abc")).resolves.toEqual({ client_id: "abc", redirect_uris: ["https://example.com/cb"] });
+    await expect(store.get("client:missing")).resolves.toBeUndefined();
+
+    await store.delete("client:abc");
+    await expect(store.get("client:abc")).resolves.toBeUndefined();
+  });
+
+  it("sets a value only when the key has none", async () => {
+    const store = makeStore();
+    const [first, second] = await Promise.all([
+      store.setIfAbsent("marker:1", { owner: "a" }, 60_000),
+      store.setIfAbsent("marker:1", { owner: "b" }, 60_000),
+    ]);
+
+    expect([first, second]).toEqual([true, false]);
+    await expect(store.get("marker:1")).resolves.toEqual({ owner: "a" });
+  });
+
+  it("expires values after their TTL", async () => {
+    const store = makeStore();
+    const now = Date.now();
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    try {
+      await store.set("code:1", { clientId: "abc" }, 60_000);
+      await expect(store.get("code:1")).resolves.toEqual({ clientId: "abc" });
+
+      clock.mockReturnValue(now + 60_001);
+      await expect(store.get("code:1")).resolves.toBeUndefined();
+    } finally {
+      clock.mockRestore();
+    }
+  });
+}
+
+describe("MemoryOAuthStore", () => {
+  behavesLikeAStore(() => new MemoryOAuthStore());
+});
+
+describe("FileOAuthStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "freeagent-oauth-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  behavesLikeAStore(() => new FileOAuthStore(path.join(dir, "store.json")));
+
+  it("keeps entries across instances and prunes expired ones on write", async () => {
+    const filePath = path.join(dir, "store.json");
+    const first = new FileOAuthStore(filePath);
+    await Promise.all([first.set("client:a", { n: 1 }), first.set("code:x", { n: 2 }, -1), first.set("client:b", { n: 3 })]);
+
+    const second = new FileOAuthStore(filePath);
+    await expect(second.get("client:a")).resolves.toEqual({ n: 1 });
+    await second.set("client:c", { n: 4 });
+
+    const written = JSON.parse(await fs.readFile(filePath, "utf8")) as { entries: Record<string, unknown> };
+    expect(Object.keys(written.entries).sort()).toEqual(["client:a", "client:b", "client:c"]);
+  });
+});
+
+describe("RedisOAuthStore", () => {
+  let redis: Awaited<ReturnType<typeof fakeRedis>>;
+  const stores: RedisOAuthStore[] = [];
+
+  beforeEach(async () => {
+    redis = await fakeRedis("s3cret");
+  });
+
+  afterEach(async () => {
+    stores.splice(0).forEach((store) => store.close());
+    await redis.close();
+  });
+
+  function connect(auth = "user:s3cret@"): RedisOAuthStore {
+    const store = new RedisOAuthStore(`redis://${auth}127.0.0.1:${redis.port}/2`);
+    stores.push(store);
+    return store;
+  }
+
+  behavesLikeAStore(() => connect());
+
+  it("authenticates, selects the database and prefixes keys, with TTLs as PX", async () => {
+    const store = connect();
+    await store.set("code:1", { a: 1 }, 1500.2);
+
+    expect(redis.commands).toEqual([
+      ["AUTH", "user", "s3cret"],
+      ["SELECT", "2"],
+      ["SET", "freeagent-mcp:oauth:code:1", '{"a":1}', "PX", "1501"],
+    ]);
+  });
+
+  it("fails commands when authentication is rejected", async () => {
+    await expect(connect("user:wrong@").get("client:a")).rejects.toThrow(/WRONGPASS/);
+  });
+
+  it("rejects URLs that are not redis:// or rediss://", () => {
+    expect(() => new RedisOAuthStore("http://localhost:6379")).toThrow(/redis:\/\/ or rediss:\/\//);
+  });
+});
+
+describe("parseResp", () => {
+  it("waits for a complete reply and parses nested arrays", () => {
+    const full = Buffer.from(encodeResp(["SET", "k", "välue"]));
+    expect(parseResp(full.subarray(0, full.length - 3))).toBeUndefined();
+    expect(parseResp(full)).toEqual({ value: ["SET", "k", "välue"], next: full.length });
+    expect(parseResp(Buffer.from("$-1\r\n"))).toEqual({ value: null, next: 5 });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { FreeAgentApiClient } from "./api-client.js";
+import { fetchList, listUpTo } from "./pagination.js";
+import { CHARACTER_LIMIT } from "../constants.js";
+
+interface Row {
+  url: string;
+  note?: string;
+}
+
+/**
+ * Build a client whose GET /things serves `pages` (1-based) with Link headers
+ * pointing at the next page, using the real paginate/parsePaginationHeaders.
+ */
+function makeClient(pages: Row[][]): { client: FreeAgentApiClient; requested: number[] } {
+  const requested: number[] = [];
+  const client = {
+    get: vi.fn(async (_path: string, params?: Record<string, unknown>) => {
+      const page = Number(params?.page ?? 1);
+      requested.push(page);
+      const headers: Record<string, string> = { "x-total-count": String(pages.flat().length) };
+      if (page < pages.length) {
+        headers.link = `<https://api.freeagent.com/v2/things?page=${page + 1}>; rel="next"`;
+      }
+      return { data: { things: pages[page - 1] ?? [] }, headers };
+    }),
+    paginate: FreeAgentApiClient.prototype.paginate,
+    parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+  } as unknown as FreeAgentApiClient;
+  return { client, requested };
+}
+
+const rows = (prefix: string, n: number): Row[] =>
+  Array.from({ length: n }, (_, i) => ({ url: `https://api.freeagent.com/v2/things/${prefix}${i}` }));
+
+describe("fetchList", () => {
+  it("returns a single page by default", async () => {
+    const { client, requested } = makeClient([rows("a", 2), rows("b", 2)]);
+    const result = await fetchList<Row>(client, "/things", "things", { page: 1, per_page: 2 });
+
+    expect(requested).toEqual([1]);
+    expect(result.items).toHaveLength(2);
+    expect(result.pagination).toMatchObject({ hasMore: true, nextPage: 2, pagesFetched: 1, totalCount: 4 });
+  });
+
+  it("follows the Link header through every page with allPages", async () => {
+    const { client, requested } = makeClient([rows("a", 2), rows("b", 2), rows("c", 1)]);
+    const result = await fetchList<Row>(client, "/things", "things", { page: 1, per_page: 2 }, { allPages: true });
+
+    expect(requested).toEqual([1, 2, 3]);
+    expect(result.items).toHaveLength(5);
+    expect(result.pagination).toMatchObject({ hasMore: false, pagesFetched: 3 });
+    expect(result.pagination.stoppedAt).toBeUndefined();
+  });
+
+  it("stops at maxItems and points the cursor at the page that was cut short", async () => {
+    const { client, requested } = makeClient([rows("a", 2), rows("b", 2), rows("c", 2)]);
+    const result = await fetchList<Row>(
+      client, "/things", "things", { page: 1, per_page: 2 }, { allPages: true, maxItems: 3 }
+    );
+
+    expect(requested).toEqual([1, 2]);
+    expect(result.items.map((r) => r.url.split("/").pop())).toEqual(["a0", "a1", "b0"]);
+    expect(result.pagination).toMatchObject({ hasMore: true, nextPage: 2, stoppedAt: "max_items" });
+  });
+
+  it("stops before the page that would exceed CHARACTER_LIMIT and leaves a cursor", async () => {
+    const big = (prefix: string): Row[] => [{ url: `u/${prefix}`, note: "x".repeat(CHARACTER_LIMIT * 0.6) }];
+    const { client } = makeClient([big("a"), big("b"), big("c")]);
+    const result = await fetchList<Row>(client, "/things", "things", { page: 1, per_page: 1 }, { allPages: true });
+
+    expect(result.items).toHaveLength(1);
+    expect(result.pagination).toMatchObject({
+      hasMore: true,
+      nextPage: 2,
+      pagesFetched: 1,
+      stoppedAt: "character_limit",
+    });
+  });
+});
+
+describe("listUpTo", () => {
+  it("reads pages until it has enough rows and says whether there were more", async () => {
+    const { client, requested } = makeClient([rows("a", 2), rows("b", 2), rows("c", 2)]);
+
+    const some = await listUpTo<Row>(client, "/things", "things", { per_page: 2 }, 3);
+    expect(requested).toEqual([1, 2]);
+    expect(some).toMatchObject({ items: rows("a", 2).concat(rows("b", 1)), hasMore: true });
+
+    const all = await listUpTo<Row>(client, "/things", "things", { per_page: 2 }, 6);
+    expect(all).toMatchObject({ hasMore: false });
+    expect(all.items).toHaveLength(6);
+  });
+});
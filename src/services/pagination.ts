@@ -0,0 +1,149 @@
+/**
+ * Shared list fetching for the list_* tools.
+ *
+ * By default a list tool returns the single page it was asked for. With
+ * `all_pages` it walks the endpoint through FreeAgentApiClient.paginate()
+ * until it runs out of pages, reaches `max_items`, or the collected items
+ * would push the response past CHARACTER_LIMIT. In the last two cases the
+ * result carries a continuation cursor (`nextPage`) that can be passed back
+ * as `page` to pick up where it stopped.
+ */
+
+import { CHARACTER_LIMIT } from "../constants.js";
+import type { FreeAgentApiClient } from "./api-client.js";
+
+export interface ListOptions {
+  /** Follow the Link header and collect every page */
+  allPages?: boolean;
+  /** Stop collecting once this many items have been gathered (all_pages only) */
+  maxItems?: number;
+}
+
+export interface ListPagination {
+  totalCount?: number;
+  hasMore: boolean;
+  nextPage?: number;
+  pagesFetched: number;
+  /** Why an all_pages fetch stopped before the last page */
+  stoppedAt?: "max_items" | "character_limit";
+}
+
+export interface ListResult<T> {
+  items: T[];
+  pagination: ListPagination;
+}
+
+/**
+ * Fetch one page, or every page, of a FreeAgent list endpoint.
+ *
+ * When `max_items` cuts a page short the cursor points at that same page, so
+ * resuming from it repeats the items already returned from that page.
+ */
+export async function fetchList<T>(
+  client: FreeAgentApiClient,
+  endpoint: string,
+  collectionKey: string,
+  params: Record<string, string | number | boolean | undefined>,
+  options: ListOptions = {}
+): Promise<ListResult<T>> {
+  if (!options.allPages) {
+    const response = await client.get<Record<string, T[] | undefined>>(endpoint, params);
+    const items = response.data[collectionKey] ?? [];
+    const pagination = client.parsePaginationHeaders(response.headers);
+    return { items, pagination: { ...pagination, pagesFetched: 1 } };
+  }
+
+  const items: T[] = [];
+  let size = 0;
+  const pagination: ListPagination = { hasMore: false, pagesFetched: 0 };
+
+  for await (const page of client.paginate<T>(endpoint, collectionKey, params)) {
+    pagination.totalCount = page.totalCount;
+
+    const pageSize = JSON.stringify(page.items).length;
+    if (items.length > 0 && size + pageSize > CHARACTER_LIMIT) {
+      pagination.hasMore = true;
+      pagination.nextPage = page.page;
+      pagination.stoppedAt = "character_limit";
+      break;
+    }
+
+    pagination.pagesFetched++;
+
+    if (options.maxItems !== undefined && items.length + page.items.length >= options.maxItems) {
+      const take = options.maxItems - items.length;
+      items.push(...page.items.slice(0, take));
+      if (take < page.items.length) {
+        pagination.hasMore = true;
+        pagination.nextPage = page.page;
+      } else {
+        pagination.hasMore = page.hasMore;
+        pagination.nextPage = page.nextPage;
+      }
+      if (pagination.hasMore) pagination.stoppedAt = "max_items";
+      break;
+    }
+
+    items.push(...page.items);
+    size += pageSize;
+    pagination.hasMore = page.hasMore;
+    pagination.nextPage = page.nextPage;
+  }
+
+  return { items, pagination };
+}
+
+/**
+ * Collect every row of a list endpoint, for callers that need the full set
+ * (resolvers matching by name, reports adding up totals) rather than a page.
+ */
+export async function listAll<T>(
+  client: FreeAgentApiClient,
+  endpoint: string,
+  collectionKey: string,
+  params: Record<string, string | number>
+): Promise<T[]> {
+  return (await listUpTo<T>(client, endpoint, collectionKey, params, Infinity)).items;
+}
+
+/**
+ * Collect rows of a list endpoint until there are `limit` of them;
+ * `hasMore` says whether the endpoint had more.
+ */
+export async function listUpTo<T>(
+  client: FreeAgentApiClient,
+  endpoint: string,
+  collectionKey: string,
+  params: Record<string, string | number>,
+  limit: number
+): Promise<{ items: T[]; hasMore: boolean }> {
+  const items: T[] = [];
+  for await (const page of client.paginate<T>(endpoint, collectionKey, params)) {
+    items.push(...page.items);
+    if (items.length >= limit) {
+      return { items: items.slice(0, limit), hasMore: items.length > limit || page.hasMore };
+    }
+  }
+  return { items, hasMore: false };
+}
+
+/**
+ * Rows of a list endpoint dated on or after `from`, for endpoints with no
+ * date filter: pages are read newest first and reading stops at the first
+ * page that goes back past `from`.
+ */
+export async function listDatedSince<T extends { dated_on: string }>(
+  client: FreeAgentApiClient,
+  endpoint: string,
+  collectionKey: string,
+  from: string,
+  params: Record<string, string | number> = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  const query = { view: "all", ...params, sort: "-dated_on", per_page: 100 };
+  for await (const page of client.paginate<T>(endpoint, collectionKey, query)) {
+    items.push(...page.items.filter((item) => item.dated_on >= from));
+    if (page.items.some((item) => item.dated_on < from)) break;
+  }
+  return items;
+}
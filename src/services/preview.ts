@@ -0,0 +1,47 @@
+/**
+ * Dry-run previews for write tools.
+ *
+ * A write tool called with `dry_run: true` runs its resolvers and validation
+ * as normal, then returns a WritePreview instead of posting. The preview is
+ * the exact request the tool would have sent, plus a record of each
+ * human-friendly hint that was resolved to a FreeAgent URL on the way.
+ */
+
+/** One hint → URL lookup performed while building a write request. */
+export interface Resolution {
+  field: string;
+  hint: string;
+  url: string;
+}
+
+export interface WritePreview {
+  method: "POST";
+  path: string;
+  body: Record<string, unknown>;
+  resolved: Resolution[];
+}
+
+/**
+ * Render a preview as markdown. `notes` are appended as extra lines, for
+ * follow-up writes the real call would also have made.
+ */
+export function formatWritePreview(preview: WritePreview, notes: string[] = []): string {
+  const lines: string[] = [
+    "🔍 Dry run — nothing was sent to FreeAgent.",
+    "",
+    `**Request**: ${preview.method} ${preview.path}`,
+  ];
+
+  if (preview.resolved.length > 0) {
+    lines.push("", "**Resolved**:");
+    for (const r of preview.resolved) {
+      lines.push(r.hint === r.url ? `- ${r.field}: ${r.url}` : `- ${r.field}: "${r.hint}" → ${r.url}`);
+    }
+  }
+
+  lines.push("", "**Payload**:", "```json", JSON.stringify(preview.body, null, 2), "```");
+
+  if (notes.length > 0) lines.push("", ...notes);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter, parseRetryAfter } from "./rate-limiter.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-04-23T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("grants a burst up to capacity without waiting", async () => {
+    const limiter = new RateLimiter({ capacity: 3, windowMs: 3000 });
+    const waits = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(waits).toEqual([0, 0, 0]);
+  });
+
+  it("queues callers in order once the bucket is empty", async () => {
+    const limiter = new RateLimiter({ capacity: 2, windowMs: 2000 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const order: number[] = [];
+    const first = limiter.acquire().then((ms) => { order.push(1); return ms; });
+    const second = limiter.acquire().then((ms) => { order.push(2); return ms; });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await first).toBe(1000);
+    expect(await second).toBe(2000);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it("blocks every caller while paused", async () => {
+    const limiter = new RateLimiter({ capacity: 5, windowMs: 5000 });
+    limiter.pause(3000);
+
+    const pending = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(await pending).toBe(3000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("30")).toBe(30000);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    const now = Date.parse("2026-04-23T12:00:00Z");
+    expect(parseRetryAfter("Thu, 23 Apr 2026 12:00:10 GMT", now)).toBe(10000);
+  });
+
+  it("returns undefined for missing or garbage headers", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Client-side rate limiter for the FreeAgent API.
+ *
+ * A token bucket sized to FreeAgent's published limit. Callers `acquire()` a
+ * token before each request; when the bucket is empty they are queued in FIFO
+ * order until a token refills. A 429 from the server can `pause()` the bucket
+ * so every queued request honours the server's Retry-After, not just the one
+ * that was rejected.
+ */
+
+import { RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_SECONDS } from "../constants.js";
+
+export interface RateLimiterOptions {
+  /** Maximum number of requests that can be sent in a burst */
+  capacity?: number;
+  /** Window over which `capacity` tokens are refilled, in milliseconds */
+  windowMs?: number;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header into milliseconds. Accepts either delta-seconds
+ * or an HTTP date. Returns undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | undefined, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(header.trim())) {
+    return Math.ceil(parseFloat(header) * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly windowMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.capacity = options.capacity ?? RATE_LIMIT_REQUESTS;
+    this.windowMs = options.windowMs ?? RATE_LIMIT_WINDOW_SECONDS * 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a request slot. Resolves with the number of milliseconds the
+   * caller spent queued (0 when a token was immediately available).
+   */
+  async acquire(): Promise<number> {
+    const start = Date.now();
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    await turn;
+    return Date.now() - start;
+  }
+
+  /**
+   * Block all callers for `ms` milliseconds, e.g. after a 429 with Retry-After.
+   * The bucket is left with a single token so one request goes out when the
+   * pause ends and the rest resume at the refill rate, instead of bursting
+   * straight back into the limit.
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = Math.min(this.capacity, 1);
+    this.lastRefill = this.pausedUntil;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now <= this.lastRefill) return;
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.windowMs);
+    this.lastRefill = now;
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const msPerToken = this.windowMs / this.capacity;
+      await sleep(Math.ceil((1 - this.tokens) * msPerToken));
+    }
+  }
+}
@@ -9,6 +9,7 @@
 
 import type { FreeAgentApiClient } from "./api-client.js";
 import type { FreeAgentBill, FreeAgentCategory, FreeAgentContact, FreeAgentUser } from "../types.js";
+import { listAll } from "./pagination.js";
 
 interface CategoryListResponse {
   admin_expenses_categories?: FreeAgentCategory[];
@@ -146,11 +147,9 @@ export async function resolveContact(
     return response.data.contact.url;
   }
 
-  const response = await client.get<{ contacts: FreeAgentContact[] }>(
-    "/contacts",
-    { per_page: 100 }
-  );
-  const contacts = response.data.contacts ?? [];
+  const contacts = await listAll<FreeAgentContact>(client, "/contacts", "contacts", {
+    per_page: 100,
+  });
   const lower = hint.toLowerCase();
 
   const exact = contacts.filter((c) => contactLabel(c).toLowerCase() === lower);
@@ -195,11 +194,11 @@ export async function resolveBill(
     return response.data.bill.url;
   }
 
-  const response = await client.get<{ bills: FreeAgentBill[] }>("/bills", {
+  const bills = await listAll<FreeAgentBill>(client, "/bills", "bills", {
     per_page: 100,
     view: "open",
   });
-  const matches = (response.data.bills ?? []).filter((b) => b.reference === hint);
+  const matches = bills.filter((b) => b.reference === hint);
 
   if (matches.length === 1) return matches[0].url;
   if (matches.length > 1) {
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { FreeAgentBankTransaction } from "../types.js";
+import { MemoryOAuthStore } from "./oauth-store.js";
+import {
+  FileRuleStore,
+  findMatchingRule,
+  getDefaultRuleStore,
+  OAuthStoreRuleStore,
+  validateRule,
+  type ReconciliationRule,
+} from "./rules.js";
+
+function tx(gross_value: string, description: string): FreeAgentBankTransaction {
+  return {
+    url: "https://api.freeagent.com/v2/bank_transactions/1",
+    bank_account: "https://api.freeagent.com/v2/bank_accounts/1",
+    dated_on: "2026-04-01",
+    gross_value,
+    description,
+  };
+}
+
+const aws: ReconciliationRule = { name: "AWS", pattern: "aws", direction: "out", category: "Computer Software" };
+const tfl: ReconciliationRule = {
+  name: "TfL",
+  pattern: "^TFL\\b",
+  match_type: "regex",
+  max_amount: "50",
+  category: "Travel",
+};
+
+describe("findMatchingRule", () => {
+  it("matches descriptions case-insensitively by substring or regex", () => {
+    expect(findMatchingRule([aws, tfl], tx("-12.00", "AMAZON WEB SERVICES AWS.AMAZON.CO"))).toBe(aws);
+    expect(findMatchingRule([aws, tfl], tx("-4.50", "TfL Travel Charge"))).toBe(tfl);
+    expect(findMatchingRule([aws, tfl], tx("-4.50", "PRET A MANGER"))).toBeUndefined();
+  });
+
+  it("honours direction and amount bounds", () => {
+    expect(findMatchingRule([aws], tx("12.00", "AWS REFUND"))).toBeUndefined();
+    expect(findMatchingRule([tfl], tx("-50.00", "TFL TRAVEL"))).toBe(tfl);
+    expect(findMatchingRule([tfl], tx("-50.01", "TFL TRAVEL"))).toBeUndefined();
+  });
+
+  it("returns the first matching rule in stored order", () => {
+    const broad: ReconciliationRule = { name: "Amazon", pattern: "amazon", category: "Office Costs" };
+    expect(findMatchingRule([broad, aws], tx("-12.00", "AMAZON AWS"))).toBe(broad);
+  });
+});
+
+describe("validateRule", () => {
+  it("rejects invalid regexes and inverted amount ranges", () => {
+    expect(() => validateRule({ ...tfl, pattern: "(" })).toThrow(/not a valid regular expression/);
+    expect(() => validateRule({ ...aws, min_amount: "20", max_amount: "10" })).toThrow(/greater than `max_amount`/);
+    expect(() => validateRule(tfl)).not.toThrow();
+  });
+});
+
+describe("FileRuleStore", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("reads a missing file as no rules and round-trips saved rules", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "freeagent-rules-"));
+    const store = new FileRuleStore(path.join(dir, "nested", "rules.json"));
+
+    expect(await store.load()).toEqual([]);
+    await store.save([aws, tfl]);
+    expect(await store.load()).toEqual([aws, tfl]);
+    expect(JSON.parse(await fs.readFile(path.join(dir, "nested", "rules.json"), "utf8"))).toEqual({ rules: [aws, tfl] });
+  });
+
+  it("rejects files without a rules array", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "freeagent-rules-"));
+    const file = path.join(dir, "rules.json");
+    await fs.writeFile(file, "[]", "utf8");
+
+    await expect(new FileRuleStore(file).load()).rejects.toThrow(/"rules" array/);
+  });
+});
+
+describe("OAuthStoreRuleStore", () => {
+  it("keeps each key's rules apart", async () => {
+    const store = new MemoryOAuthStore();
+    const a = new OAuthStoreRuleStore(store, "reconciliation-rules:a");
+    const b = new OAuthStoreRuleStore(store, "reconciliation-rules:b");
+
+    expect(await a.load()).toEqual([]);
+    await a.save([aws]);
+    await b.save([tfl]);
+    expect(await a.load()).toEqual([aws]);
+    expect(await b.load()).toEqual([tfl]);
+  });
+});
+
+describe("getDefaultRuleStore", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("gives each OAuth client its own rules", async () => {
+    await getDefaultRuleStore("client-a").save([aws]);
+
+    expect(await getDefaultRuleStore("client-a").load()).toEqual([aws]);
+    expect(await getDefaultRuleStore("client-b").load()).toEqual([]);
+  });
+
+  it("refuses to save rules on Vercel without a durable store", async () => {
+    vi.stubEnv("VERCEL", "1");
+    const store = getDefaultRuleStore("client-a");
+
+    expect(await store.load()).toEqual([]);
+    await expect(store.save([aws])).rejects.toThrow("Set REDIS_URL");
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Reconciliation rules: user-defined mappings from recurring bank lines to
+ * the category, VAT treatment and description they should be explained with
+ * (e.g. "AWS" → Computer Software, "TfL" → Travel).
+ *
+ * Rules live behind the RuleStore interface. The local (stdio) server keeps
+ * them in a JSON file (FREEAGENT_RULES_FILE, or ~/.freeagent-mcp/rules.json).
+ * Over HTTP each OAuth client has its own rules in the OAuth store (see
+ * oauth-store.ts), so they survive cold starts when that store is Redis;
+ * on Vercel without one, rules can be read but not saved. Other backends
+ * only need to implement `load` and `save`.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { FreeAgentBankTransaction } from "../types.js";
+import { getDefaultOAuthStore, MemoryOAuthStore, type OAuthStore } from "./oauth-store.js";
+
+export interface ReconciliationRule {
+  /** Unique name; saving a rule with an existing name replaces it */
+  name: string;
+  /** Text to look for in the bank transaction description */
+  pattern: string;
+  /** "contains" (default) is a case-insensitive substring; "regex" is a case-insensitive RegExp */
+  match_type?: "contains" | "regex";
+  /** "out" for money spent, "in" for money received; any direction when omitted */
+  direction?: "in" | "out";
+  /** Inclusive bounds on the absolute transaction amount, as decimal strings */
+  min_amount?: string;
+  max_amount?: string;
+  /** Category name, nominal code or URL, resolved when the rule is applied */
+  category: string;
+  ec_status?: "UK/Non-EC" | "EC Goods" | "EC Services" | "Reverse Charge";
+  sales_tax_rate?: string;
+  /** Description for the explanation; the bank description is kept when omitted */
+  description?: string;
+}
+
+export interface RuleStore {
+  load(): Promise<ReconciliationRule[]>;
+  save(rules: ReconciliationRule[]): Promise<void>;
+}
+
+export class MemoryRuleStore implements RuleStore {
+  private rules: ReconciliationRule[];
+
+  constructor(rules: ReconciliationRule[] = []) {
+    this.rules = [...rules];
+  }
+
+  async load(): Promise<ReconciliationRule[]> {
+    return [...this.rules];
+  }
+
+  async save(rules: ReconciliationRule[]): Promise<void> {
+    this.rules = [...rules];
+  }
+}
+
+/**
+ * Stores rules as `{ "rules": [...] }` in a JSON file. A missing file reads
+ * as no rules; writes go through a temp file so a crash never leaves a
+ * half-written file behind.
+ */
+export class FileRuleStore implements RuleStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<ReconciliationRule[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as { rules?: unknown };
+    if (!Array.isArray(parsed.rules)) {
+      throw new Error(`Rules file ${this.filePath} must contain a JSON object with a "rules" array.`);
+    }
+    return parsed.rules as ReconciliationRule[];
+  }
+
+  async save(rules: ReconciliationRule[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ rules }, null, 2) + "\n", "utf8");
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+/** Stores rules as `{ rules: [...] }` under one key of an OAuthStore */
+export class OAuthStoreRuleStore implements RuleStore {
+  constructor(
+    private readonly store: OAuthStore,
+    private readonly key: string
+  ) {}
+
+  async load(): Promise<ReconciliationRule[]> {
+    return (await this.store.get<{ rules: ReconciliationRule[] }>(this.key))?.rules ?? [];
+  }
+
+  async save(rules: ReconciliationRule[]): Promise<void> {
+    await this.store.set(this.key, { rules });
+  }
+}
+
+/**
+ * A store with nowhere durable to write: it reads as no rules and refuses
+ * to save, rather than keeping rules that vanish on the next cold start.
+ */
+export class UnavailableRuleStore implements RuleStore {
+  constructor(private readonly reason: string) {}
+
+  async load(): Promise<ReconciliationRule[]> {
+    return [];
+  }
+
+  async save(): Promise<void> {
+    throw new Error(this.reason);
+  }
+}
+
+let defaultFileStore: RuleStore | undefined;
+
+/**
+ * The rule store for a caller, created from the environment.
+ *
+ * With an OAuth `clientId` (the HTTP server) the rules are that client's own,
+ * kept in the process-wide OAuth store. On Vercel that store must be durable
+ * (REDIS_URL); otherwise rule writes are refused. Without one (the stdio
+ * server) they are the process-wide rules file.
+ */
+export function getDefaultRuleStore(clientId?: string): RuleStore {
+  if (clientId !== undefined) {
+    const store = getDefaultOAuthStore();
+    if (process.env.VERCEL && store instanceof MemoryOAuthStore) {
+      return new UnavailableRuleStore(
+        "Reconciliation rules cannot be saved: this server has no durable store. Set REDIS_URL so they survive between requests."
+      );
+    }
+    return new OAuthStoreRuleStore(store, `reconciliation-rules:${clientId}`);
+  }
+  defaultFileStore ??= new FileRuleStore(
+    process.env.FREEAGENT_RULES_FILE ?? path.join(os.homedir(), ".freeagent-mcp", "rules.json")
+  );
+  return defaultFileStore;
+}
+
+/**
+ * Check a rule is usable before it is stored. Throws with a message naming
+ * the offending field.
+ */
+export function validateRule(rule: ReconciliationRule): void {
+  if (rule.match_type === "regex") {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch (error) {
+      throw new Error(`Rule "${rule.name}": \`pattern\` is not a valid regular expression (${(error as Error).message}).`);
+    }
+  }
+
+  const min = rule.min_amount !== undefined ? parseFloat(rule.min_amount) : undefined;
+  const max = rule.max_amount !== undefined ? parseFloat(rule.max_amount) : undefined;
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(`Rule "${rule.name}": \`min_amount\` (${rule.min_amount}) is greater than \`max_amount\` (${rule.max_amount}).`);
+  }
+}
+
+function ruleMatches(rule: ReconciliationRule, tx: FreeAgentBankTransaction): boolean {
+  const description = tx.description ?? "";
+  const textMatches = rule.match_type === "regex"
+    ? new RegExp(rule.pattern, "i").test(description)
+    : description.toLowerCase().includes(rule.pattern.toLowerCase());
+  if (!textMatches) return false;
+
+  const value = parseFloat(tx.gross_value);
+  if (rule.direction === "in" && !(value > 0)) return false;
+  if (rule.direction === "out" && !(value < 0)) return false;
+
+  const amount = Math.abs(value);
+  if (rule.min_amount !== undefined && amount < parseFloat(rule.min_amount)) return false;
+  if (rule.max_amount !== undefined && amount > parseFloat(rule.max_amount)) return false;
+
+  return true;
+}
+
+/**
+ * First rule, in stored order, that matches the transaction.
+ */
+export function findMatchingRule(
+  rules: ReconciliationRule[],
+  tx: FreeAgentBankTransaction
+): ReconciliationRule | undefined {
+  return rules.find((rule) => ruleMatches(rule, tx));
+}
@@ -0,0 +1,73 @@
+/**
+ * OAuth scopes carried by MCP access tokens.
+ *
+ *   freeagent:read     read-only tools
+ *   freeagent:write    tools that create or change records, except banking
+ *   freeagent:banking  tools that explain or reconcile bank transactions
+ *
+ * Scopes are independent: a bookkeeper can hand an agent `freeagent:read`
+ * alone, or `freeagent:read freeagent:banking` for reconciliation work
+ * without invoice or expense writes. Tokens issued before scopes were split
+ * carry the single scope "freeagent", which grants all three.
+ */
+
+import { InvalidScopeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+
+export const SCOPE_READ = "freeagent:read";
+export const SCOPE_WRITE = "freeagent:write";
+export const SCOPE_BANKING = "freeagent:banking";
+
+export type Scope = typeof SCOPE_READ | typeof SCOPE_WRITE | typeof SCOPE_BANKING;
+
+/** Advertised in the OAuth metadata, in the order they are granted by default */
+export const SUPPORTED_SCOPES: readonly Scope[] = [SCOPE_READ, SCOPE_WRITE, SCOPE_BANKING];
+
+/** The single scope issued before read/write/banking existed */
+export const LEGACY_SCOPE = "freeagent";
+
+function isScope(scope: string): scope is Scope {
+  return (SUPPORTED_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * The scopes a token's scope list grants, expanding the legacy scope.
+ * Unknown scopes grant nothing.
+ */
+export function effectiveScopes(scopes: readonly string[]): Set<Scope> {
+  if (scopes.includes(LEGACY_SCOPE)) return new Set(SUPPORTED_SCOPES);
+  return new Set(scopes.filter(isScope));
+}
+
+/**
+ * Scopes to grant for an authorization request: those requested, or all of
+ * them when the client asks for none. Throws InvalidScopeError on a scope
+ * this server does not know.
+ */
+export function grantScopes(requested: readonly string[] = []): Scope[] {
+  const unknown = requested.filter((scope) => !isScope(scope) && scope !== LEGACY_SCOPE);
+  if (unknown.length > 0) {
+    throw new InvalidScopeError(`Unsupported scope: ${unknown.join(" ")}. Supported: ${SUPPORTED_SCOPES.join(" ")}.`);
+  }
+  if (requested.length === 0) return [...SUPPORTED_SCOPES];
+  const granted = effectiveScopes(requested);
+  return SUPPORTED_SCOPES.filter((scope) => granted.has(scope));
+}
+
+/**
+ * Scopes for a refreshed token. A refresh may ask for fewer scopes than the
+ * original grant (RFC 6749 §6) but never more; without a request it keeps
+ * the original grant.
+ */
+export function narrowScopes(granted: readonly string[], requested?: readonly string[]): Scope[] {
+  const original = effectiveScopes(granted);
+  if (!requested || requested.length === 0) {
+    return SUPPORTED_SCOPES.filter((scope) => original.has(scope));
+  }
+
+  const narrowed = grantScopes(requested);
+  const exceeding = narrowed.filter((scope) => !original.has(scope));
+  if (exceeding.length > 0) {
+    throw new InvalidScopeError(`Scope was not part of the original grant: ${exceeding.join(" ")}.`);
+  }
+  return narrowed;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { ageBucket, agedCreditors, agedDebtors } from "./aged-balances.js";
+
+const contact = (id: number) => `https://api.freeagent.com/v2/contacts/${id}`;
+
+const contacts = [
+  { url: contact(7), organisation_name: "Acme Ltd" },
+  { url: contact(8), first_name: "Jo", last_name: "Bloggs" },
+];
+
+function mockClient(lists: Record<string, object[]>) {
+  const get = vi.fn(async (path: string) => {
+    if (path === "/company") return { data: { company: { currency: "GBP" } }, headers: {} };
+    throw new Error(`Unexpected GET ${path}`);
+  });
+  const paginate = vi.fn(async function* (endpoint: string, _key: string, _params: Record<string, unknown>) {
+    yield { items: lists[endpoint] ?? (endpoint === "/contacts" ? contacts : []), page: 1, hasMore: false };
+  });
+  return { client: { get, paginate } as unknown as FreeAgentApiClient, paginate };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-05-20T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ageBucket", () => {
+  it("puts each number of days overdue in its bucket", () => {
+    expect([-5, 0, 1, 30, 31, 60, 61, 90, 91].map(ageBucket)).toEqual([
+      "current", "current", "days_1_30", "days_1_30", "days_31_60", "days_31_60", "days_61_90", "days_61_90", "days_over_90",
+    ]);
+  });
+});
+
+describe("agedDebtors", () => {
+  it("buckets open invoices per currency and contact, largest balance first, with each contact's invoices", async () => {
+    const { client, paginate } = mockClient({
+      "/invoices": [
+        { url: "https://api.freeagent.com/v2/invoices/1", contact: contact(7), reference: "INV-001", dated_on: "2026-04-30", due_on: "2026-05-30", currency: "GBP", total_value: "100.0" },
+        { url: "https://api.freeagent.com/v2/invoices/2", contact: contact(7), reference: "INV-002", dated_on: "2026-03-31", due_on: "2026-04-30", currency: "GBP", total_value: "250.0", due_value: "200.0" },
+        { url: "https://api.freeagent.com/v2/invoices/3", contact: contact(8), reference: "INV-003", dated_on: "2025-12-01", due_on: "2026-01-01", currency: "GBP", total_value: "50.0" },
+        { url: "https://api.freeagent.com/v2/invoices/4", contact: contact(8), reference: "INV-004", dated_on: "2026-03-01", due_on: "2026-03-31", currency: "USD", total_value: "300.0" },
+        { url: "https://api.freeagent.com/v2/invoices/5", contact: contact(7), dated_on: "2026-03-01", due_on: "2026-03-31", currency: "GBP", total_value: "80.0", due_value: "0.0" },
+      ],
+    });
+
+    const result = await agedDebtors(client, { response_format: ResponseFormat.MARKDOWN });
+
+    expect(paginate).toHaveBeenCalledWith("/invoices", "invoices", expect.objectContaining({ view: "open_or_overdue" }));
+    expect(paginate).toHaveBeenCalledWith("/contacts", "contacts", expect.objectContaining({ view: "all", per_page: 100 }));
+    expect(result.structuredContent).toMatchObject({
+      as_of_date: "2026-05-20",
+      currencies: [
+        {
+          currency: "GBP",
+          totals: { current: "100.00", days_1_30: "200.00", days_31_60: "0.00", days_61_90: "0.00", days_over_90: "50.00", total: "350.00" },
+          contacts: [
+            {
+              contact: contact(7),
+              name: "Acme Ltd",
+              totals: { current: "100.00", days_1_30: "200.00", total: "300.00" },
+              documents: [
+                { reference: "INV-002", due_on: "2026-04-30", days_overdue: 20, bucket: "days_1_30", amount: "200.00" },
+                { reference: "INV-001", due_on: "2026-05-30", days_overdue: -10, bucket: "current", amount: "100.00" },
+              ],
+            },
+            { name: "Jo Bloggs", totals: { days_over_90: "50.00", total: "50.00" }, documents: [{ reference: "INV-003", days_overdue: 139 }] },
+          ],
+        },
+        {
+          currency: "USD",
+          totals: { days_31_60: "300.00", total: "300.00" },
+          contacts: [{ name: "Jo Bloggs", documents: [{ reference: "INV-004", days_overdue: 50, bucket: "days_31_60" }] }],
+        },
+      ],
+    });
+    expect(result.text).toContain("| Acme Ltd | GBP 100.00 | GBP 200.00 | GBP 0.00 | GBP 0.00 | GBP 0.00 | GBP 300.00 |");
+    expect(result.text).toContain("- INV-002: GBP 200.00, due 2026-04-30 (20 days overdue)");
+  });
+});
+
+describe("agedCreditors", () => {
+  it("ages open bills in the company currency and names contacts missing from the list by URL", async () => {
+    const { client, paginate } = mockClient({
+      "/bills": [
+        { url: "https://api.freeagent.com/v2/bills/1", contact: contact(99), dated_on: "2026-02-01", due_on: "2026-03-01", total_value: "400.0" },
+      ],
+    });
+
+    const result = await agedCreditors(client, { response_format: ResponseFormat.JSON });
+
+    expect(paginate).toHaveBeenCalledWith("/bills", "bills", expect.objectContaining({ view: "open_or_overdue" }));
+    expect(result.structuredContent).toMatchObject({
+      currencies: [{ currency: "GBP", totals: { days_61_90: "400.00" }, contacts: [{ contact: contact(99), name: contact(99) }] }],
+    });
+  });
+
+  it("fails when the contacts cannot be listed", async () => {
+    const bill = { url: "https://api.freeagent.com/v2/bills/1", contact: contact(7), dated_on: "2026-02-01", due_on: "2026-03-01", total_value: "400.0" };
+    const { client, paginate } = mockClient({});
+    paginate.mockImplementation(async function* (endpoint: string) {
+      if (endpoint === "/contacts") throw new Error("FreeAgent API error: 500");
+      yield { items: [bill], page: 1, hasMore: false };
+    });
+
+    await expect(agedCreditors(client, { response_format: ResponseFormat.JSON })).rejects.toThrow("FreeAgent API error: 500");
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Aged Debtors and Creditors
+ *
+ * Buckets what customers owe (open invoices) and what the company owes
+ * suppliers (open bills) by how far past the due date each one is: not yet
+ * due, 1-30, 31-60, 61-90 and over 90 days. Balances are grouped by
+ * currency, then by contact, and every contact carries the documents behind
+ * its figures.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { FreeAgentBill, FreeAgentCompany, FreeAgentContact, FreeAgentInvoice } from "../types.js";
+import type { AgedBalancesInput } from "../schemas/index.js";
+import {
+  addDays,
+  daysBetween,
+  formatContactName,
+  formatCurrency,
+  formatResponse,
+  today,
+  toAmount,
+  toNumber,
+  truncateIfNeeded,
+  type ToolResult,
+} from "../services/formatter.js";
+import { listAll } from "../services/pagination.js";
+
+const BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "days_1_30", label: "1–30" },
+  { key: "days_31_60", label: "31–60" },
+  { key: "days_61_90", label: "61–90" },
+  { key: "days_over_90", label: "90+" },
+] as const;
+
+type Bucket = (typeof BUCKETS)[number]["key"];
+
+/** The ageing bucket for a document `days` past its due date */
+export function ageBucket(days: number): Bucket {
+  if (days <= 0) return "current";
+  if (days <= 30) return "days_1_30";
+  if (days <= 60) return "days_31_60";
+  if (days <= 90) return "days_61_90";
+  return "days_over_90";
+}
+
+type AgeingTotals = Record<Bucket | "total", string>;
+
+interface AgedDocument {
+  url: string;
+  reference?: string;
+  dated_on: string;
+  due_on: string;
+  days_overdue: number;
+  bucket: Bucket;
+  amount: string;
+}
+
+interface AgedContact {
+  contact: string;
+  name: string;
+  totals: AgeingTotals;
+  documents: AgedDocument[];
+}
+
+interface AgedCurrency {
+  currency: string;
+  totals: AgeingTotals;
+  contacts: AgedContact[];
+}
+
+/** An open invoice or bill, as far as ageing is concerned */
+interface OpenDocument {
+  url: string;
+  contact: string;
+  reference?: string;
+  dated_on: string;
+  due_on?: string;
+  payment_terms_in_days?: number;
+  currency?: string;
+  total_value: string;
+  due_value?: string;
+}
+
+function sumBuckets(documents: AgedDocument[]): AgeingTotals {
+  const sums = Object.fromEntries([...BUCKETS.map((b) => b.key), "total"].map((key) => [key, 0])) as Record<Bucket | "total", number>;
+  for (const doc of documents) {
+    const amount = toNumber(doc.amount);
+    sums[doc.bucket] += amount;
+    sums.total += amount;
+  }
+  return Object.fromEntries(Object.entries(sums).map(([key, value]) => [key, toAmount(value)])) as AgeingTotals;
+}
+
+/**
+ * Display names for every contact, from one walk of the contacts list
+ * rather than a request per contact, which the rate limit would make slow.
+ * Hidden contacts are included: they can still have open invoices and bills.
+ */
+async function fetchContactNames(client: FreeAgentApiClient): Promise<Map<string, string>> {
+  const contacts = await listAll<FreeAgentContact>(client, "/contacts", "contacts", { view: "all", per_page: 100 });
+  return new Map(contacts.map((contact) => [contact.url, formatContactName(contact)]));
+}
+
+async function agedBalances(
+  client: FreeAgentApiClient,
+  documents: OpenDocument[],
+  defaultCurrency: string
+): Promise<{ as_of_date: string; currencies: AgedCurrency[] }> {
+  const asOf = today();
+
+  const byCurrency = new Map<string, Map<string, AgedDocument[]>>();
+  for (const doc of documents) {
+    const amount = toNumber(doc.due_value ?? doc.total_value);
+    if (!(amount > 0)) continue;
+    const dueOn = doc.due_on ?? addDays(doc.dated_on, doc.payment_terms_in_days ?? 0);
+    const daysOverdue = daysBetween(dueOn, asOf);
+    const aged: AgedDocument = {
+      url: doc.url,
+      dated_on: doc.dated_on,
+      due_on: dueOn,
+      days_overdue: daysOverdue,
+      bucket: ageBucket(daysOverdue),
+      amount: toAmount(amount),
+    };
+    if (doc.reference) aged.reference = doc.reference;
+
+    const currency = doc.currency || defaultCurrency;
+    const contacts = byCurrency.get(currency) ?? new Map<string, AgedDocument[]>();
+    byCurrency.set(currency, contacts);
+    contacts.set(doc.contact, [...(contacts.get(doc.contact) ?? []), aged]);
+  }
+
+  const names = byCurrency.size > 0 ? await fetchContactNames(client) : new Map<string, string>();
+
+  const currencies = [...byCurrency.entries()]
+    .sort(([a], [b]) => (a === defaultCurrency ? -1 : b === defaultCurrency ? 1 : a.localeCompare(b)))
+    .map(([currency, contacts]): AgedCurrency => {
+      const rows = [...contacts.entries()]
+        .map(([contact, docs]): AgedContact => {
+          const sorted = [...docs].sort((a, b) => a.due_on.localeCompare(b.due_on));
+          return { contact, name: names.get(contact) ?? contact, totals: sumBuckets(sorted), documents: sorted };
+        })
+        .sort((a, b) => parseFloat(b.totals.total) - parseFloat(a.totals.total));
+      return { currency, totals: sumBuckets(rows.flatMap((r) => r.documents)), contacts: rows };
+    });
+
+  return { as_of_date: asOf, currencies };
+}
+
+function formatAged(title: string, empty: string, data: { as_of_date: string; currencies: AgedCurrency[] }): string {
+  const lines = [`# ${title} as at ${data.as_of_date}`, ""];
+  if (data.currencies.length === 0) {
+    lines.push(empty);
+    return lines.join("\n");
+  }
+  const cells = (totals: AgeingTotals, currency: string) =>
+    [...BUCKETS.map((b) => totals[b.key]), totals.total].map((amount) => formatCurrency(amount, currency));
+
+  for (const { currency, totals, contacts } of data.currencies) {
+    lines.push(`## ${currency}`, "");
+    lines.push(`| Contact | ${BUCKETS.map((b) => b.label).join(" | ")} | Total |`, `|---------|${BUCKETS.map(() => "---:").join("|")}|---:|`);
+    for (const row of contacts) lines.push(`| ${row.name} | ${cells(row.totals, currency).join(" | ")} |`);
+    lines.push(`| **Total** | ${cells(totals, currency).map((c) => `**${c}**`).join(" | ")} |`, "");
+
+    for (const row of contacts) {
+      lines.push(`### ${row.name}`, "");
+      for (const doc of row.documents) {
+        const age = doc.days_overdue > 0 ? `${doc.days_overdue} days overdue` : "not yet due";
+        lines.push(`- ${doc.reference ?? doc.url}: ${formatCurrency(doc.amount, currency)}, due ${doc.due_on} (${age})`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n").trimEnd();
+}
+
+async function companyCurrency(client: FreeAgentApiClient): Promise<string> {
+  const response = await client.get<{ company: FreeAgentCompany }>("/company");
+  return response.data.company.currency || "GBP";
+}
+
+/**
+ * Aged debtors: what each customer still owes on open invoices, by how
+ * overdue it is.
+ */
+export async function agedDebtors(
+  client: FreeAgentApiClient,
+  params: AgedBalancesInput
+): Promise<ToolResult> {
+  const [currency, invoices] = await Promise.all([
+    companyCurrency(client),
+    listAll<FreeAgentInvoice>(client, "/invoices", "invoices", { view: "open_or_overdue", per_page: 100 }),
+  ]);
+  const data = await agedBalances(client, invoices, currency);
+  const text = formatResponse(data, params.response_format, () =>
+    formatAged("Aged Debtors", "No customer owes anything: there are no open invoices.", data)
+  );
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
+
+/**
+ * Aged creditors: what the company still owes each supplier on open bills,
+ * by how overdue it is.
+ */
+export async function agedCreditors(
+  client: FreeAgentApiClient,
+  params: AgedBalancesInput
+): Promise<ToolResult> {
+  const [currency, bills] = await Promise.all([
+    companyCurrency(client),
+    listAll<FreeAgentBill>(client, "/bills", "bills", { view: "open_or_overdue", per_page: 100 }),
+  ]);
+  const data = await agedBalances(client, bills, currency);
+  const text = formatResponse(data, params.response_format, () =>
+    formatAged("Aged Creditors", "Nothing is owed to suppliers: there are no open bills.", data)
+  );
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -0,0 +1,135 @@
+/**
+ * Audit hook and the freeagent_list_audit_events tool.
+ *
+ * runAudited wraps a tool's handler: calls to tools that are not read-only
+ * are recorded in ctx.auditSink (see services/audit.ts) whether they succeed
+ * or fail. Both the registerAllTools wrapper and freeagent_call_tool run
+ * handlers through it. Tools with an UndoSpec also get their compensating
+ * actions recorded (see undo.ts).
+ */
+
+import crypto from "crypto";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { ListAuditEventsInput } from "../schemas/index.js";
+import { formatDateTime, formatResponse, truncateIfNeeded, type ToolResult } from "../services/formatter.js";
+import { sanitizeArguments, urlsAtPaths, type AuditEvent } from "../services/audit.js";
+import type { ToolContext, ToolDefinition } from "./register.js";
+
+/**
+ * Run `tool`'s handler, recording the call when it may write. A failure to
+ * record is logged rather than thrown: the write has already happened.
+ */
+export async function runAudited(
+  tool: ToolDefinition,
+  apiClient: FreeAgentApiClient,
+  params: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  if (tool.annotations.readOnlyHint || tool.audit === false || params.dry_run === true) {
+    return tool.handler(apiClient, params, ctx);
+  }
+
+  // Without a snapshot an update is recorded but cannot be undone
+  const snapshot = tool.undo?.snapshot
+    ? await tool.undo.snapshot(apiClient, params).catch(() => undefined)
+    : undefined;
+
+  const event: AuditEvent = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    tool: tool.name,
+    client_id: ctx.clientId,
+    arguments: sanitizeArguments(params),
+    outcome: "success",
+    resource_urls: [],
+  };
+
+  try {
+    const result = await tool.handler(apiClient, params, ctx);
+    event.resource_urls = urlsAtPaths(result.structuredContent, tool.resources ?? []);
+    const undo = tool.undo?.actions(params, result.structuredContent, snapshot) ?? [];
+    if (undo.length > 0) event.undo = undo;
+    await record(ctx, event);
+    return result;
+  } catch (error) {
+    event.outcome = "error";
+    event.error = error instanceof Error ? error.message : String(error);
+    await record(ctx, event);
+    throw error;
+  }
+}
+
+async function record(ctx: ToolContext, event: AuditEvent): Promise<void> {
+  try {
+    await ctx.auditSink.append(event);
+  } catch (error) {
+    console.error(JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: "error",
+      component: "audit",
+      message: "Failed to record audit event",
+      data: {
+        tool: event.tool,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    }));
+  }
+}
+
+function describeEvent(event: AuditEvent): string {
+  const lines = [`## ${event.tool} — ${event.outcome === "success" ? "succeeded" : "failed"}`, ""];
+  lines.push(`- **When**: ${formatDateTime(event.timestamp)}`);
+  lines.push(`- **Client**: ${event.client_id ?? "local (stdio)"}`);
+  lines.push(`- **Event ID**: ${event.id}`);
+  if (event.resource_urls.length > 0) lines.push(`- **Resources**: ${event.resource_urls.join(", ")}`);
+  if (event.error) lines.push(`- **Error**: ${event.error}`);
+  lines.push(`- **Arguments**: \`${JSON.stringify(event.arguments)}\``);
+  return lines.join("\n");
+}
+
+/**
+ * A time filter as an ISO timestamp in UTC, comparable with event
+ * timestamps. A bare date covers the whole day.
+ */
+function timeBound(value: string | undefined, endOfDay: boolean): string | undefined {
+  if (value === undefined) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`;
+  return new Date(value).toISOString();
+}
+
+/**
+ * List recorded writes. An OAuth client only ever sees its own events; the
+ * `client_id` filter is for the operator of a local (stdio) server, whose
+ * calls carry no client ID.
+ */
+export async function listAuditEvents(
+  _client: FreeAgentApiClient,
+  params: ListAuditEventsInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  if (ctx.clientId !== undefined && params.client_id !== undefined && params.client_id !== ctx.clientId) {
+    throw new Error("client_id can only be given on a local (stdio) server. Over HTTP you see the events of your own OAuth client.");
+  }
+  const events = await ctx.auditSink.query({
+    tool: params.tool,
+    client_id: ctx.clientId ?? params.client_id,
+    outcome: params.outcome,
+    since: timeBound(params.since, false),
+    until: timeBound(params.until, true),
+    limit: params.limit,
+  });
+  const data = { events };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = ["# Audit Events", ""];
+    if (events.length === 0) {
+      lines.push("No matching writes have been recorded.");
+      return lines.join("\n");
+    }
+    lines.push(`${events.length} event(s), newest first.`, "");
+    events.forEach((event) => lines.push(describeEvent(event), ""));
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -5,6 +5,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentBankAccount, FreeAgentBankTransaction } from "../types.js";
 import type {
   ListBankAccountsInput,
@@ -15,7 +16,8 @@ import type {
 import {
   formatResponse,
   createPaginationMetadata,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 
 /**
@@ -24,15 +26,17 @@ import {
 export async function listBankAccounts(
   client: FreeAgentApiClient,
   params: ListBankAccountsInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { response_format } = params;
 
   const response = await client.get<{ bank_accounts: FreeAgentBankAccount[] }>("/bank_accounts");
   const bankAccounts = response.data.bank_accounts || [];
 
+  const data = { bank_accounts: bankAccounts };
+
   // Format response
-  return formatResponse(
-    { bank_accounts: bankAccounts },
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Bank Accounts", ""];
@@ -69,6 +73,8 @@ export async function listBankAccounts(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 /**
@@ -77,7 +83,7 @@ export async function listBankAccounts(
 export async function getBankAccount(
   client: FreeAgentApiClient,
   params: GetBankAccountInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { bank_account_id, response_format } = params;
   const accountUrl = bank_account_id.startsWith('http')
     ? bank_account_id
@@ -87,7 +93,7 @@ export async function getBankAccount(
   const account = response.data.bank_account;
 
   // Format response
-  return formatResponse(
+  const text = formatResponse(
     account,
     response_format,
     () => {
@@ -130,6 +136,8 @@ export async function getBankAccount(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { bank_account: account } };
 }
 
 /**
@@ -138,8 +146,8 @@ export async function getBankAccount(
 export async function listBankTransactions(
   client: FreeAgentApiClient,
   params: ListBankTransactionsInput
-): Promise<string> {
-  const { bank_account, page, per_page, from_date, to_date, view, response_format } = params;
+): Promise<ToolResult> {
+  const { bank_account, page, per_page, all_pages, max_items, from_date, to_date, view, response_format } = params;
 
   // Build query parameters
   const queryParams: Record<string, string> = {
@@ -152,46 +160,53 @@ export async function listBankTransactions(
   if (to_date) queryParams.to_date = to_date;
   if (view) queryParams.view = view;
 
-  const response = await client.get<{ bank_transactions: FreeAgentBankTransaction[] }>(
+  const { items: transactions, pagination } = await fetchList<FreeAgentBankTransaction>(
+    client,
     "/bank_transactions",
-    queryParams
+    "bank_transactions",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
   );
-  const transactions = response.data.bank_transactions || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
   // Format response
-  return formatResponse(
-    {
-      transactions: transactions.map((txn: FreeAgentBankTransaction) => ({
-        url: txn.url,
-        dated_on: txn.dated_on,
-        description: txn.description,
-        amount: txn.amount,
-        unexplained_amount: txn.unexplained_amount,
-        is_manual: txn.is_manual,
-        bank_account: txn.bank_account,
-        bank_transaction_explanations: txn.bank_transaction_explanations || []
-      })),
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+  const data = {
+    transactions: transactions.map((txn: FreeAgentBankTransaction) => ({
+      url: txn.url,
+      dated_on: txn.dated_on,
+      description: txn.description,
+      amount: txn.amount,
+      unexplained_amount: txn.unexplained_amount,
+      is_manual: txn.is_manual,
+      bank_account: txn.bank_account,
+      bank_transaction_explanations: txn.bank_transaction_explanations || []
+    })),
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# Bank Transactions", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
             perPage: per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -227,6 +242,8 @@ export async function listBankTransactions(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 /**
@@ -235,7 +252,7 @@ export async function listBankTransactions(
 export async function getBankTransaction(
   client: FreeAgentApiClient,
   params: GetBankTransactionInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { bank_transaction_id, response_format } = params;
   const transactionUrl = bank_transaction_id.startsWith('http')
     ? bank_transaction_id
@@ -245,7 +262,7 @@ export async function getBankTransaction(
   const txn = response.data.bank_transaction;
 
   // Format response
-  return formatResponse(
+  const text = formatResponse(
     txn,
     response_format,
     () => {
@@ -290,4 +307,6 @@ export async function getBankTransaction(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { bank_transaction: txn } };
 }
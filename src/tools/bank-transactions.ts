@@ -5,8 +5,12 @@
  * expenses, and other accounting entries.
  */
 
-import { gunzipSync } from "zlib";
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { attachmentPayload, loadAttachment } from "../services/attachments.js";
+import { fetchList } from "../services/pagination.js";
+import { findDuplicateExplanations } from "../services/duplicates.js";
+import { confirmNotDuplicate } from "./duplicates.js";
+import type { ToolContext } from "./register.js";
 import type { FreeAgentBankTransactionExplanation } from "../types.js";
 import type {
   ListBankTransactionExplanationsInput,
@@ -17,7 +21,8 @@ import type {
 import {
   formatResponse,
   createPaginationMetadata,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 
 /**
@@ -26,8 +31,8 @@ import {
 export async function listBankTransactionExplanations(
   client: FreeAgentApiClient,
   params: ListBankTransactionExplanationsInput
-): Promise<string> {
-  const { page, per_page, bank_account, from_date, to_date, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, bank_account, from_date, to_date, response_format } = params;
 
   // Build query parameters
   const queryParams: Record<string, string> = {
@@ -39,51 +44,58 @@ export async function listBankTransactionExplanations(
   if (from_date) queryParams.from_date = from_date;
   if (to_date) queryParams.to_date = to_date;
 
-  const response = await client.get<{ bank_transaction_explanations: FreeAgentBankTransactionExplanation[] }>(
+  const { items: explanations, pagination } = await fetchList<FreeAgentBankTransactionExplanation>(
+    client,
     "/bank_transaction_explanations",
-    queryParams
+    "bank_transaction_explanations",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
   );
-  const explanations = response.data.bank_transaction_explanations || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
   // Format response
-  return formatResponse(
-    {
-      explanations: explanations.map((exp: FreeAgentBankTransactionExplanation) => ({
-        url: exp.url,
-        dated_on: exp.dated_on,
-        description: exp.description,
-        gross_value: exp.gross_value,
-        bank_transaction: exp.bank_transaction,
-        category: exp.category,
-        ec_status: exp.ec_status,
-        receipt_reference: exp.receipt_reference,
-        marked_for_review: exp.marked_for_review,
-        paid_invoice: exp.paid_invoice,
-        paid_bill: exp.paid_bill,
-        paid_user: exp.paid_user,
-        transfer_bank_account: exp.transfer_bank_account
-      })),
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+  const data = {
+    explanations: explanations.map((exp: FreeAgentBankTransactionExplanation) => ({
+      url: exp.url,
+      dated_on: exp.dated_on,
+      description: exp.description,
+      gross_value: exp.gross_value,
+      bank_transaction: exp.bank_transaction,
+      category: exp.category,
+      ec_status: exp.ec_status,
+      receipt_reference: exp.receipt_reference,
+      marked_for_review: exp.marked_for_review,
+      paid_invoice: exp.paid_invoice,
+      paid_bill: exp.paid_bill,
+      paid_user: exp.paid_user,
+      transfer_bank_account: exp.transfer_bank_account
+    })),
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# Bank Transaction Explanations", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
             perPage: per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -113,6 +125,8 @@ export async function listBankTransactionExplanations(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 /**
@@ -121,7 +135,7 @@ export async function listBankTransactionExplanations(
 export async function getBankTransactionExplanation(
   client: FreeAgentApiClient,
   params: GetBankTransactionExplanationInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { bank_transaction_explanation_id, response_format } = params;
   const explanationUrl = bank_transaction_explanation_id.startsWith('http')
     ? bank_transaction_explanation_id
@@ -131,7 +145,7 @@ export async function getBankTransactionExplanation(
   const exp = response.data.bank_transaction_explanation;
 
   // Format response
-  return formatResponse(
+  const text = formatResponse(
     exp,
     response_format,
     () => {
@@ -195,6 +209,8 @@ export async function getBankTransactionExplanation(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { bank_transaction_explanation: exp } };
 }
 
 /**
@@ -209,8 +225,9 @@ export async function getBankTransactionExplanation(
  */
 export async function createBankTransactionExplanation(
   client: FreeAgentApiClient,
-  params: CreateBankTransactionExplanationInput
-): Promise<string> {
+  params: CreateBankTransactionExplanationInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
   // Build explanation payload
   const explanationPayload: Record<string, unknown> = {
     bank_transaction: params.bank_transaction,
@@ -241,32 +258,19 @@ export async function createBankTransactionExplanation(
   }
 
   // Add attachment if provided
-  if (params.attachment) {
-    let attachmentData = params.attachment.data;
-
-    // If attachment is gzipped, decompress it before sending to FreeAgent
-    if (params.attachment.is_gzipped) {
-      try {
-        // Decode Base64 to Buffer
-        const compressedBuffer = Buffer.from(attachmentData, 'base64');
-        // Decompress using gunzip
-        const decompressedBuffer = gunzipSync(compressedBuffer);
-        // Re-encode to Base64
-        attachmentData = decompressedBuffer.toString('base64');
-      } catch (error) {
-        throw new Error(`Failed to decompress gzipped attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-
-    const attachmentPayload: Record<string, string> = {
-      data: attachmentData,
-      file_name: params.attachment.file_name,
-      content_type: params.attachment.content_type
-    };
-    if (params.attachment.description) {
-      attachmentPayload.description = params.attachment.description;
-    }
-    explanationPayload.attachment = attachmentPayload;
+  const attachment = params.attachment
+    ? await loadAttachment(params.attachment, { allowLocalFiles: ctx.allowLocalFiles ?? false })
+    : undefined;
+  if (attachment) explanationPayload.attachment = attachmentPayload(attachment);
+
+  if (!params.allow_duplicate) {
+    await confirmNotDuplicate(ctx, "bank transaction explanation", () =>
+      findDuplicateExplanations(client, {
+        bank_transaction: params.bank_transaction,
+        dated_on: params.dated_on,
+        gross_value: params.gross_value,
+      })
+    );
   }
 
   const response = await client.post<{ bank_transaction_explanation: FreeAgentBankTransactionExplanation }>(
@@ -284,15 +288,17 @@ export async function createBankTransactionExplanation(
   else if (params.paid_user) explanationType = "user payment";
   else if (params.transfer_bank_account) explanationType = "bank transfer";
 
-  const attachmentInfo = params.attachment ? ` with attachment (${params.attachment.file_name})` : '';
+  const attachmentInfo = attachment ? ` with attachment (${attachment.file_name})` : '';
 
-  return `✅ Successfully explained bank transaction as ${explanationType}${attachmentInfo}\n\n` +
+  const text = `✅ Successfully explained bank transaction as ${explanationType}${attachmentInfo}\n\n` +
     `**Explanation ID**: ${explanationId}\n` +
     `**Date**: ${explanation.dated_on}\n` +
     `**Amount**: ${explanation.gross_value}\n` +
     (explanation.description ? `**Description**: ${explanation.description}\n` : '') +
     `**URL**: ${explanation.url}\n\n` +
     `The bank transaction has been categorized and will now appear as explained in your FreeAgent account.`;
+
+  return { text, structuredContent: { bank_transaction_explanation: explanation } };
 }
 
 /**
@@ -304,7 +310,7 @@ export async function createBankTransactionExplanation(
 export async function updateBankTransactionExplanation(
   client: FreeAgentApiClient,
   params: UpdateBankTransactionExplanationInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { bank_transaction_explanation_id, ...updateFields } = params;
   const explanationUrl = bank_transaction_explanation_id.startsWith('http')
     ? bank_transaction_explanation_id
@@ -352,11 +358,13 @@ export async function updateBankTransactionExplanation(
   else if (explanation.paid_user) explanationType = "user payment";
   else if (explanation.transfer_bank_account) explanationType = "bank transfer";
 
-  return `✅ Successfully updated bank transaction explanation (${explanationType})\n\n` +
+  const text = `✅ Successfully updated bank transaction explanation (${explanationType})\n\n` +
     `**Explanation ID**: ${explanationId}\n` +
     `**Date**: ${explanation.dated_on}\n` +
     `**Amount**: ${explanation.gross_value}\n` +
     (explanation.description ? `**Description**: ${explanation.description}\n` : '') +
     (explanation.category ? `**Category**: ${explanation.category}\n` : '') +
     `**URL**: ${explanation.url}`;
+
+  return { text, structuredContent: { bank_transaction_explanation: explanation } };
 }
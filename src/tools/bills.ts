@@ -6,6 +6,12 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { attachmentPayload, attachmentSummary, loadAttachment } from "../services/attachments.js";
+import { fetchList } from "../services/pagination.js";
+import { formatWritePreview, type WritePreview } from "../services/preview.js";
+import { findDuplicateBills, netValueOfItems } from "../services/duplicates.js";
+import { confirmNotDuplicate } from "./duplicates.js";
+import type { ToolContext } from "./register.js";
 import type { FreeAgentBill } from "../types.js";
 import type {
   ListBillsInput,
@@ -16,13 +22,14 @@ import {
   formatResponse,
   createPaginationMetadata,
   extractIdFromUrl,
+  type ToolResult,
 } from "../services/formatter.js";
 
 export async function listBills(
   client: FreeAgentApiClient,
   params: ListBillsInput
-): Promise<string> {
-  const { page, per_page, view, contact, from_date, to_date, sort, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, view, contact, from_date, to_date, sort, response_format } = params;
 
   const queryParams: Record<string, string> = {
     page: page.toString(),
@@ -34,26 +41,34 @@ export async function listBills(
   if (to_date) queryParams.to_date = to_date;
   if (sort) queryParams.sort = sort;
 
-  const response = await client.get<{ bills: FreeAgentBill[] }>("/bills", queryParams);
-  const bills = response.data.bills ?? [];
-  const pagination = client.parsePaginationHeaders(response.headers);
-
-  return formatResponse(
-    {
-      bills,
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage,
-      },
+  const { items: bills, pagination } = await fetchList<FreeAgentBill>(
+    client,
+    "/bills",
+    "bills",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
+  );
+
+  const data = {
+    bills,
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
     },
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Bills", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
@@ -61,6 +76,8 @@ export async function listBills(
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
             nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt,
           })
         );
         lines.push("");
@@ -84,19 +101,21 @@ export async function listBills(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 export async function getBill(
   client: FreeAgentApiClient,
   params: GetBillInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { bill_id, response_format } = params;
   const url = bill_id.startsWith("http") ? bill_id : `/bills/${bill_id}`;
 
   const response = await client.get<{ bill: FreeAgentBill }>(url);
   const bill = response.data.bill;
 
-  return formatResponse(
+  const text = formatResponse(
     bill,
     response_format,
     () => {
@@ -118,12 +137,15 @@ export async function getBill(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { bill } };
 }
 
 export async function createBill(
   client: FreeAgentApiClient,
-  params: CreateBillInput
-): Promise<string> {
+  params: CreateBillInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
   const payload: Record<string, unknown> = {
     contact: params.contact,
     dated_on: params.dated_on,
@@ -137,17 +159,42 @@ export async function createBill(
   if (params.payment_terms_in_days !== undefined) {
     payload.payment_terms_in_days = params.payment_terms_in_days;
   }
+  const attachment = params.attachment
+    ? await loadAttachment(params.attachment, { allowLocalFiles: ctx.allowLocalFiles ?? false })
+    : undefined;
 
+  if (params.dry_run) {
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/bills",
+      body: { bill: attachment ? { ...payload, attachment: attachmentSummary(attachment) } : payload },
+      resolved: [],
+    };
+    return { text: formatWritePreview(preview), structuredContent: { preview } };
+  }
+
+  if (!params.allow_duplicate) {
+    await confirmNotDuplicate(ctx, "bill", () =>
+      findDuplicateBills(
+        client,
+        { contact: params.contact, dated_on: params.dated_on, net_value: netValueOfItems(params.bill_items) },
+        params.duplicate_window_days
+      )
+    );
+  }
+
+  if (attachment) payload.attachment = attachmentPayload(attachment);
   const response = await client.post<{ bill: FreeAgentBill }>("/bills", { bill: payload });
   const bill = response.data.bill;
   const billId = extractIdFromUrl(bill.url);
 
-  return (
-    `✅ Created bill ${billId}\n\n` +
+  const text =
+    `✅ Created bill ${billId}${attachment ? ` with attachment (${attachment.file_name})` : ""}\n\n` +
     `**Date**: ${bill.dated_on}\n` +
     `**Total**: ${bill.currency ?? "GBP"} ${bill.total_value}\n` +
     (bill.reference ? `**Reference**: ${bill.reference}\n` : "") +
     `**Contact**: ${bill.contact}\n` +
-    `**URL**: ${bill.url}`
-  );
+    `**URL**: ${bill.url}`;
+
+  return { text, structuredContent: { bill } };
 }
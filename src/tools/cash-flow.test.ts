@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { cashFlowForecast, forecastPeriods } from "./cash-flow.js";
+
+const contact = (id: number) => `https://api.freeagent.com/v2/contacts/${id}`;
+
+function mockClient(lists: Record<string, object[]>) {
+  const get = vi.fn(async (path: string) => {
+    if (path === "/company") return { data: { company: { currency: "GBP" } }, headers: {} };
+    if (path === "/bank_accounts") {
+      return {
+        data: {
+          bank_accounts: [
+            { url: "https://api.freeagent.com/v2/bank_accounts/1", name: "Current", currency: "GBP", current_balance: "1000.0" },
+            { url: "https://api.freeagent.com/v2/bank_accounts/2", name: "Dollar", currency: "USD", current_balance: "500.0" },
+            { url: "https://api.freeagent.com/v2/bank_accounts/3", name: "Old", currency: "GBP", current_balance: "99.0", is_active: false },
+          ],
+        },
+        headers: {},
+      };
+    }
+    throw new Error(`Unexpected GET ${path}`);
+  });
+  const paginate = vi.fn(async function* (endpoint: string, _key: string, _params: Record<string, unknown>) {
+    yield { items: lists[endpoint] ?? [], page: 1, hasMore: false };
+  });
+  return { client: { get, paginate } as unknown as FreeAgentApiClient, paginate };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("forecastPeriods", () => {
+  it("starts on the given day and then follows calendar weeks or months", () => {
+    expect(forecastPeriods("week", "2026-05-20", 2)).toEqual([
+      { start: "2026-05-20", end: "2026-05-24" },
+      { start: "2026-05-25", end: "2026-05-31" },
+    ]);
+    expect(forecastPeriods("month", "2026-05-20", 2)).toEqual([
+      { start: "2026-05-20", end: "2026-05-31" },
+      { start: "2026-06-01", end: "2026-06-30" },
+    ]);
+  });
+});
+
+describe("cashFlowForecast", () => {
+  it("projects the balance from open invoices, bills and recurring invoices and flags negative weeks", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-20T12:00:00Z"));
+    const { client, paginate } = mockClient({
+      "/invoices": [
+        { url: "https://api.freeagent.com/v2/invoices/1", contact: contact(7), reference: "INV-001", dated_on: "2026-04-10", due_on: "2026-05-10", total_value: "500.0", due_value: "300.0" },
+        { url: "https://api.freeagent.com/v2/invoices/2", contact: contact(8), dated_on: "2026-04-26", due_on: "2026-05-26", total_value: "600.0" },
+        { url: "https://api.freeagent.com/v2/invoices/3", contact: contact(7), dated_on: "2026-05-20", due_on: "2026-06-20", total_value: "900.0" },
+      ],
+      "/bills": [
+        { url: "https://api.freeagent.com/v2/bills/1", contact: contact(9), dated_on: "2026-04-27", due_on: "2026-05-27", total_value: "2000.0", due_value: "2000.0" },
+      ],
+      "/recurring_invoices": [
+        { url: "https://api.freeagent.com/v2/recurring_invoices/1", contact: contact(7), frequency: "Weekly", next_recurs_on: "2026-05-21", payment_terms_in_days: 7, total_value: "100.0" },
+      ],
+    });
+
+    const result = await cashFlowForecast(client, {
+      interval: "week",
+      periods: 3,
+      contact_lateness_days: { "8": 7, "*": 5 },
+      response_format: ResponseFormat.MARKDOWN,
+    });
+
+    expect(paginate).toHaveBeenCalledWith("/invoices", "invoices", expect.objectContaining({ view: "open_or_overdue" }));
+    expect(result.structuredContent).toMatchObject({
+      start_date: "2026-05-20",
+      end_date: "2026-06-07",
+      opening_balance: "1000.00",
+      bank_accounts: [{ name: "Current", balance: "1000.00" }],
+      periods: [
+        { start: "2026-05-20", inflows: "300.00", outflows: "0.00", closing_balance: "1300.00", negative: false },
+        { start: "2026-05-25", inflows: "0.00", outflows: "2000.00", closing_balance: "-700.00", negative: true },
+        { start: "2026-06-01", inflows: "700.00", outflows: "0.00", closing_balance: "0.00", negative: false },
+      ],
+      items: [
+        { kind: "invoice", reference: "INV-001", due_on: "2026-05-10", expected_on: "2026-05-20", amount: "300.00" },
+        { kind: "bill", due_on: "2026-05-27", expected_on: "2026-05-27", amount: "-2000.00" },
+        { kind: "invoice", due_on: "2026-05-26", expected_on: "2026-06-02", amount: "600.00" },
+        { kind: "recurring_invoice", due_on: "2026-05-28", expected_on: "2026-06-02", amount: "100.00" },
+      ],
+      negative_periods: ["2026-05-25"],
+      notes: ["Bank accounts in other currencies are not included: Dollar (USD)."],
+    });
+    expect(result.text).toContain("⚠️ The balance goes negative in 1 week(s), first in the week of 2026-05-25 (GBP -700.00).");
+    expect(result.text).toContain("| 2026-05-25 – 2026-05-31 | GBP 0.00 | GBP 2000.00 | GBP -2000.00 | GBP -700.00 ⚠️ |");
+  });
+
+  it("leaves out recurring invoices with a schedule it does not know, saying so", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-20T12:00:00Z"));
+    const { client } = mockClient({
+      "/recurring_invoices": [
+        { url: "https://api.freeagent.com/v2/recurring_invoices/2", contact: contact(7), frequency: "Fortnightly-ish", next_recurs_on: "2026-05-21", total_value: "100.0" },
+      ],
+    });
+
+    const result = await cashFlowForecast(client, { interval: "month", periods: 2, response_format: ResponseFormat.JSON });
+
+    const data = result.structuredContent as { items: unknown[]; notes: string[] };
+    expect(data.items).toEqual([]);
+    expect(data.notes).toContainEqual(expect.stringContaining("recurring_invoices/2 (Fortnightly-ish)"));
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Cash Flow Forecast
+ *
+ * Projects the bank balance forward, week by week or month by month, from
+ * the money already in play: open invoices coming in, open bills going out,
+ * and the invoices that active recurring invoice templates will raise. Each
+ * payment is expected on its due date, moved by however late its contact
+ * usually pays; anything already overdue is expected at the start.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type {
+  FreeAgentBankAccount,
+  FreeAgentBill,
+  FreeAgentCompany,
+  FreeAgentInvoice,
+  FreeAgentRecurringInvoice,
+} from "../types.js";
+import type { CashFlowForecastInput } from "../schemas/index.js";
+import {
+  addDays,
+  addMonths,
+  extractIdFromUrl,
+  formatCurrency,
+  formatResponse,
+  inCompanyCurrency,
+  toAmount,
+  today,
+  toNumber,
+  truncateIfNeeded,
+  type ToolResult,
+} from "../services/formatter.js";
+import { listAll } from "../services/pagination.js";
+
+/** Payment terms assumed for invoices raised from a template that has none */
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+/** FreeAgent's recurring invoice frequencies */
+const RECURRENCE: Record<string, { days?: number; months?: number }> = {
+  "weekly": { days: 7 },
+  "two weekly": { days: 14 },
+  "four weekly": { days: 28 },
+  "monthly": { months: 1 },
+  "two monthly": { months: 2 },
+  "quarterly": { months: 3 },
+  "biannually": { months: 6 },
+  "annually": { months: 12 },
+  "2-yearly": { months: 24 },
+};
+
+interface Period {
+  start: string;
+  end: string;
+}
+
+/**
+ * `count` calendar weeks (Monday to Sunday) or months, the first starting
+ * on `start` and ending with its week or month.
+ */
+export function forecastPeriods(interval: "week" | "month", start: string, count: number): Period[] {
+  const periods: Period[] = [];
+  let from = start;
+  for (let i = 0; i < count; i++) {
+    let to: string;
+    if (interval === "week") {
+      const weekday = new Date(`${from}T00:00:00Z`).getUTCDay();
+      to = addDays(from, (7 - weekday) % 7);
+    } else {
+      to = addDays(addMonths(`${from.slice(0, 7)}-01`, 1), -1);
+    }
+    periods.push({ start: from, end: to });
+    from = addDays(to, 1);
+  }
+  return periods;
+}
+
+/**
+ * Days after the due date a contact is expected to pay: the contact's own
+ * figure, else '*' for customers. Bills fall back to on time.
+ */
+function latenessOf(overrides: Record<string, number> | undefined, contact: string, kind: ForecastItem["kind"]): number {
+  if (!overrides) return 0;
+  return overrides[contact] ?? overrides[extractIdFromUrl(contact)] ?? (kind === "bill" ? undefined : overrides["*"]) ?? 0;
+}
+
+/** The gross value of an invoice a template will raise */
+function templateValue(template: FreeAgentRecurringInvoice): number {
+  if (template.total_value !== undefined) return toNumber(template.total_value);
+  const items = template.recurring_invoice_items ?? template.invoice_items ?? [];
+  return items.reduce((sum, item) => {
+    const rate = toNumber(item.sales_tax_rate);
+    return sum + toNumber(item.price) * toNumber(item.quantity) * (1 + (rate > 1 ? rate / 100 : rate));
+  }, 0);
+}
+
+/** The dates a template will raise invoices on, up to `until` */
+function occurrences(template: FreeAgentRecurringInvoice, until: string): string[] | undefined {
+  if (!template.next_recurs_on) return [];
+  const step = RECURRENCE[(template.frequency ?? "").toLowerCase()];
+  if (!step) return undefined;
+  const last = template.ends_on && template.ends_on < until ? template.ends_on : until;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = step.days ? addDays(template.next_recurs_on, n * step.days) : addMonths(template.next_recurs_on, n * step.months!);
+    if (date > last) return dates;
+    dates.push(date);
+  }
+}
+
+interface ForecastItem {
+  kind: "invoice" | "bill" | "recurring_invoice";
+  url: string;
+  contact: string;
+  reference?: string;
+  due_on: string;
+  expected_on: string;
+  amount: string;
+}
+
+/**
+ * Forecast the bank balance over the coming weeks or months from open
+ * invoices, open bills and active recurring invoices, flagging the periods
+ * that end overdrawn.
+ */
+export async function cashFlowForecast(
+  client: FreeAgentApiClient,
+  params: CashFlowForecastInput
+): Promise<ToolResult> {
+  const start = today();
+  const periods = forecastPeriods(params.interval, start, params.periods);
+  const end = periods[periods.length - 1].end;
+
+  const [companyResponse, accountsResponse, invoices, bills, templates] = await Promise.all([
+    client.get<{ company: FreeAgentCompany }>("/company"),
+    client.get<{ bank_accounts?: FreeAgentBankAccount[] }>("/bank_accounts"),
+    listAll<FreeAgentInvoice>(client, "/invoices", "invoices", { view: "open_or_overdue", per_page: 100 }),
+    listAll<FreeAgentBill>(client, "/bills", "bills", { view: "open_or_overdue", per_page: 100 }),
+    listAll<FreeAgentRecurringInvoice>(client, "/recurring_invoices", "recurring_invoices", { view: "active", per_page: 100 }),
+  ]);
+  const currency = companyResponse.data.company.currency || "GBP";
+  const notes: string[] = [];
+
+  const bankAccounts: { url: string; name: string; balance: string }[] = [];
+  const otherCurrency: string[] = [];
+  for (const account of accountsResponse.data.bank_accounts ?? []) {
+    if (account.is_active === false) continue;
+    if (account.currency && account.currency !== currency) {
+      otherCurrency.push(`${account.name} (${account.currency})`);
+      continue;
+    }
+    bankAccounts.push({ url: account.url, name: account.name, balance: toAmount(toNumber(account.current_balance)) });
+  }
+  if (otherCurrency.length > 0) {
+    notes.push(`Bank accounts in other currencies are not included: ${otherCurrency.join(", ")}.`);
+  }
+  const openingBalance = bankAccounts.reduce((sum, a) => sum + parseFloat(a.balance), 0);
+
+  const items: ForecastItem[] = [];
+  const expect = (item: Omit<ForecastItem, "expected_on" | "amount">, amount: number) => {
+    const shifted = addDays(item.due_on, latenessOf(params.contact_lateness_days, item.contact, item.kind));
+    const expected_on = shifted < start ? start : shifted;
+    if (expected_on > end || amount === 0) return;
+    items.push({ ...item, expected_on, amount: toAmount(amount) });
+  };
+  let converted = 0;
+  const due = (doc: { due_on?: string; dated_on: string; payment_terms_in_days?: number }) =>
+    doc.due_on ?? addDays(doc.dated_on, doc.payment_terms_in_days ?? 0);
+
+  for (const invoice of invoices) {
+    if (invoice.currency && invoice.currency !== currency) converted++;
+    const item = { kind: "invoice" as const, url: invoice.url, contact: invoice.contact, due_on: due(invoice) };
+    expect(invoice.reference ? { ...item, reference: invoice.reference } : item,
+      inCompanyCurrency(invoice.due_value ?? invoice.total_value, invoice, currency));
+  }
+  for (const bill of bills) {
+    if (bill.currency && bill.currency !== currency) converted++;
+    const item = { kind: "bill" as const, url: bill.url, contact: bill.contact, due_on: due(bill) };
+    expect(bill.reference ? { ...item, reference: bill.reference } : item,
+      -inCompanyCurrency(bill.due_value ?? bill.total_value, bill, currency));
+  }
+  if (converted > 0) {
+    notes.push(`${converted} invoice(s) or bill(s) in other currencies were converted to ${currency} at their own exchange rates.`);
+  }
+
+  const unknownFrequency: string[] = [];
+  for (const template of templates) {
+    if (template.status && !/active/i.test(template.status)) continue;
+    const dates = occurrences(template, end);
+    if (!dates) {
+      unknownFrequency.push(`${template.url} (${template.frequency ?? "no frequency"})`);
+      continue;
+    }
+    const value = templateValue(template);
+    for (const date of dates) {
+      const item = {
+        kind: "recurring_invoice" as const,
+        url: template.url,
+        contact: template.contact,
+        due_on: addDays(date, template.payment_terms_in_days ?? DEFAULT_PAYMENT_TERMS_DAYS),
+      };
+      expect(template.reference ? { ...item, reference: template.reference } : item, value);
+    }
+  }
+  if (unknownFrequency.length > 0) {
+    notes.push(`Recurring invoices with a schedule this forecast does not understand are left out: ${unknownFrequency.join(", ")}.`);
+  }
+  items.sort((a, b) => a.expected_on.localeCompare(b.expected_on));
+
+  let balance = openingBalance;
+  const rows = periods.map((period) => {
+    const inPeriod = items.filter((i) => i.expected_on >= period.start && i.expected_on <= period.end);
+    const inflows = inPeriod.reduce((sum, i) => sum + Math.max(parseFloat(i.amount), 0), 0);
+    const outflows = inPeriod.reduce((sum, i) => sum + Math.max(-parseFloat(i.amount), 0), 0);
+    balance += inflows - outflows;
+    return {
+      ...period,
+      inflows: toAmount(inflows),
+      outflows: toAmount(outflows),
+      net: toAmount(inflows - outflows),
+      closing_balance: toAmount(balance),
+      negative: balance < -0.005,
+    };
+  });
+  const negativePeriods = rows.filter((r) => r.negative).map((r) => r.start);
+
+  const data = {
+    interval: params.interval,
+    start_date: start,
+    end_date: end,
+    currency,
+    opening_balance: toAmount(openingBalance),
+    bank_accounts: bankAccounts,
+    periods: rows,
+    items,
+    negative_periods: negativePeriods,
+    notes,
+  };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = [`# Cash Flow Forecast: ${start} to ${end}`, ""];
+    lines.push(`**Opening balance**: ${formatCurrency(data.opening_balance, currency)} across ${bankAccounts.length} bank account(s)`, "");
+    if (negativePeriods.length > 0) {
+      const first = rows.find((r) => r.negative)!;
+      lines.push(
+        `⚠️ The balance goes negative in ${negativePeriods.length} ${params.interval}(s), first in the ${params.interval} of ${first.start} (${formatCurrency(first.closing_balance, currency)}).`,
+        ""
+      );
+    }
+    lines.push(`| ${params.interval === "week" ? "Week" : "Month"} | In | Out | Net | Balance |`, "|------|---:|----:|----:|--------:|");
+    for (const row of rows) {
+      const flag = row.negative ? " ⚠️" : "";
+      lines.push(
+        `| ${row.start} – ${row.end} | ${formatCurrency(row.inflows, currency)} | ${formatCurrency(row.outflows, currency)} | ` +
+          `${formatCurrency(row.net, currency)} | ${formatCurrency(row.closing_balance, currency)}${flag} |`
+      );
+    }
+    if (items.length > 0) {
+      lines.push("", "## Expected payments", "");
+      for (const item of items) {
+        const late = item.expected_on !== item.due_on ? ` (due ${item.due_on})` : "";
+        const label = item.kind.replace("_", " ") + (item.reference ? ` ${item.reference}` : "");
+        lines.push(`- ${item.expected_on}${late}: ${formatCurrency(item.amount, currency)} — ${label} (${item.url})`);
+      }
+    }
+    if (notes.length > 0) lines.push("", ...notes.map((note) => `_${note}_`));
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -1,5 +1,6 @@
 import { FreeAgentApiClient } from "../services/api-client.js";
 import { ResponseFormat } from "../constants.js";
+import type { ToolResult } from "../services/formatter.js";
 import type { FreeAgentCategory } from "../types.js";
 import type { ListCategoriesInput, GetCategoryInput } from "../schemas/index.js";
 
@@ -9,7 +10,7 @@ import type { ListCategoriesInput, GetCategoryInput } from "../schemas/index.js"
 export async function listCategories(
   apiClient: FreeAgentApiClient,
   params: ListCategoriesInput
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await apiClient.get<Record<string, FreeAgentCategory[]>>("/categories");
 
   // Categories are returned in four separate arrays
@@ -40,18 +41,21 @@ export async function listCategories(
     allCategories = general.map((c: FreeAgentCategory) => ({ ...c, type: "General" }));
   }
 
+  const data = { categories: allCategories, total_count: allCategories.length };
+
   if (allCategories.length === 0) {
-    return "No categories found.";
+    return { text: "No categories found.", structuredContent: data };
   }
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify({
+    const text = JSON.stringify({
       admin_expenses_categories: adminExpenses,
       cost_of_sales_categories: costOfSales,
       income_categories: income,
       general_categories: general,
       total_count: allCategories.length
     }, null, 2);
+    return { text, structuredContent: data };
   }
 
   const categoryList = allCategories
@@ -83,7 +87,7 @@ export async function listCategories(
     })
     .join("\n\n");
 
-  return `Found ${allCategories.length} category(ies):\n\n${categoryList}`;
+  return { text: `Found ${allCategories.length} category(ies):\n\n${categoryList}`, structuredContent: data };
 }
 
 /**
@@ -92,13 +96,13 @@ export async function listCategories(
 export async function getCategory(
   apiClient: FreeAgentApiClient,
   params: GetCategoryInput
-): Promise<string> {
+): Promise<ToolResult> {
   const nominalCode = params.nominal_code.replace(/^.*\/categories\//, "");
   const response = await apiClient.get<{ category: FreeAgentCategory }>(`/categories/${nominalCode}`);
   const category = response.data.category;
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify(category, null, 2);
+    return { text: JSON.stringify(category, null, 2), structuredContent: { category } };
   }
 
   const details = [
@@ -139,5 +143,5 @@ export async function getCategory(
   details.push(`  Created: ${category.created_at}`);
   details.push(`  Updated: ${category.updated_at}`);
 
-  return details.join("\n");
+  return { text: details.join("\n"), structuredContent: { category } };
 }
@@ -7,7 +7,8 @@ import type { FreeAgentCompany, FreeAgentUser } from "../types.js";
 import {
   formatDate,
   formatResponse,
-  truncateIfNeeded
+  truncateIfNeeded,
+  type ToolResult
 } from "../services/formatter.js";
 import type { GetCompanyInput, ListUsersInput } from "../schemas/index.js";
 
@@ -17,7 +18,7 @@ import type { GetCompanyInput, ListUsersInput } from "../schemas/index.js";
 export async function getCompany(
   client: FreeAgentApiClient,
   params: GetCompanyInput
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ company: FreeAgentCompany }>("/company");
   const company = response.data.company;
 
@@ -51,7 +52,7 @@ export async function getCompany(
     }
   );
 
-  return formattedResponse;
+  return { text: formattedResponse, structuredContent: { company } };
 }
 
 /**
@@ -60,7 +61,7 @@ export async function getCompany(
 export async function listUsers(
   client: FreeAgentApiClient,
   params: ListUsersInput
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.get<{ users: FreeAgentUser[] }>("/users");
   const users = response.data.users || [];
 
@@ -88,5 +89,8 @@ export async function listUsers(
     }
   );
 
-  return truncateIfNeeded(formattedResponse, { count: users.length });
+  return {
+    text: truncateIfNeeded(formattedResponse, { count: users.length }),
+    structuredContent: { users }
+  };
 }
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { ToolContext, ToolDefinition } from "./register.js";
+import { toolDefinitions } from "./register.js";
+import { confirmToolCall } from "./confirmation.js";
+import { makeCtx } from "./test-context.js";
+
+const invoice = {
+  url: "https://api.freeagent.com/v2/invoices/42",
+  reference: "INV-042",
+  contact: "https://api.freeagent.com/v2/contacts/1",
+  status: "Sent",
+  dated_on: "2026-04-01",
+  currency: "GBP",
+  total_value: "500.00",
+  net_value: "500.00",
+  sales_tax_value: "0.00",
+};
+
+const transitionInvoiceTool = toolDefinitions.find(
+  (t) => t.name === "freeagent_transition_invoice"
+) as ToolDefinition;
+
+function makeClient(): FreeAgentApiClient {
+  return {
+    get: vi.fn(async () => ({ data: { invoice }, headers: {} })),
+  } as unknown as FreeAgentApiClient;
+}
+
+function confirmingCtx(overrides: Partial<ToolContext> = {}): ToolContext {
+  return makeCtx({
+    clientSupportsElicitation: true,
+    elicit: vi.fn(async () => ({ action: "accept" as const, content: { confirm: true } })),
+    ...overrides,
+  });
+}
+
+describe("confirmToolCall", () => {
+  it("skips tools and actions that need no confirmation", async () => {
+    const client = makeClient();
+    const ctx = confirmingCtx();
+
+    await confirmToolCall(transitionInvoiceTool, client, { invoice_id: "42", action: "mark_as_sent" }, ctx);
+
+    expect(ctx.elicit).not.toHaveBeenCalled();
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it("elicits with a summary of the invoice and proceeds on approval", async () => {
+    const ctx = confirmingCtx();
+
+    await confirmToolCall(transitionInvoiceTool, makeClient(), { invoice_id: "42", action: "mark_as_cancelled" }, ctx);
+
+    expect(ctx.elicit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining("**Invoice**: INV-042 (ID: 42)"),
+      })
+    );
+  });
+
+  it("throws when the user declines or leaves the box unticked", async () => {
+    const declined = confirmingCtx({ elicit: vi.fn(async () => ({ action: "decline" as const })) });
+    await expect(
+      confirmToolCall(transitionInvoiceTool, makeClient(), { invoice_id: "42", action: "mark_as_cancelled" }, declined)
+    ).rejects.toThrow(/declined; freeagent_transition_invoice was not run/);
+
+    const unticked = confirmingCtx({
+      elicit: vi.fn(async () => ({ action: "accept" as const, content: { confirm: false } })),
+    });
+    await expect(
+      confirmToolCall(transitionInvoiceTool, makeClient(), { invoice_id: "42", action: "convert_to_credit_note" }, unticked)
+    ).rejects.toThrow(/nothing was changed/);
+  });
+
+  it("requires confirm: true when the client cannot elicit", async () => {
+    const ctx = confirmingCtx({ clientSupportsElicitation: false });
+    const params = { invoice_id: "42", action: "mark_as_cancelled" };
+
+    await expect(confirmToolCall(transitionInvoiceTool, makeClient(), params, ctx)).rejects.toThrow(
+      /Cancel this invoice[\s\S]*`confirm: true`/
+    );
+    await expect(
+      confirmToolCall(transitionInvoiceTool, makeClient(), { ...params, confirm: true }, ctx)
+    ).resolves.toBeUndefined();
+    expect(ctx.elicit).not.toHaveBeenCalled();
+  });
+});
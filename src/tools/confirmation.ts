@@ -0,0 +1,56 @@
+/**
+ * Human-in-the-loop confirmation for tools that change ledger state.
+ *
+ * A ToolDefinition opts in with a `confirmation` summarizer. Before its
+ * handler runs, the summary is shown to the user through form elicitation
+ * and the call only proceeds if they approve. Clients that cannot elicit
+ * get an error carrying the summary instead, and must repeat the call with
+ * `confirm: true` once the user has agreed.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { ToolContext, ToolDefinition } from "./register.js";
+
+/**
+ * Ask for confirmation when `tool` needs it for these params. Resolves when
+ * the call may proceed; throws when it was declined or is unconfirmed.
+ */
+export async function confirmToolCall(
+  tool: ToolDefinition,
+  apiClient: FreeAgentApiClient,
+  params: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<void> {
+  if (!tool.confirmation) return;
+
+  const summary = await tool.confirmation(apiClient, params);
+  if (!summary) return;
+
+  if (!ctx.clientSupportsElicitation) {
+    if (params.confirm === true) return;
+    throw new Error(
+      `${tool.title} needs confirmation before it runs.\n\n${summary}\n\n` +
+        `Show this to the user. If they agree, call ${tool.name} again with the same arguments plus \`confirm: true\`.`
+    );
+  }
+
+  const result = await ctx.elicit({
+    message: summary,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirm: {
+          type: "boolean",
+          title: "Go ahead",
+          description: "Tick to apply this change in FreeAgent.",
+        },
+      },
+      required: ["confirm"],
+    },
+  });
+
+  if (result.action !== "accept" || result.content?.confirm !== true) {
+    const outcome = result.action === "cancel" ? "cancelled" : "declined";
+    throw new Error(`Confirmation ${outcome}; ${tool.name} was not run and nothing was changed.`);
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentContact } from "../types.js";
 import {
   formatDate,
@@ -10,7 +11,8 @@ import {
   formatResponse,
   truncateIfNeeded,
   createPaginationMetadata,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 import type {
   ListContactsInput,
@@ -24,7 +26,7 @@ import type {
 export async function listContacts(
   client: FreeAgentApiClient,
   params: ListContactsInput
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams: Record<string, string | number> = {
     page: params.page,
     per_page: params.per_page
@@ -34,38 +36,44 @@ export async function listContacts(
     queryParams.sort = params.sort;
   }
 
-  const response = await client.get<{ contacts: FreeAgentContact[] }>(
+  const { items: contacts, pagination } = await fetchList<FreeAgentContact>(
+    client,
     "/contacts",
-    queryParams
+    "contacts",
+    queryParams,
+    { allPages: params.all_pages, maxItems: params.max_items }
   );
 
-  const contacts = response.data.contacts || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
-
   // Format response
+  const data = {
+    contacts,
+    pagination: {
+      page: params.page,
+      per_page: params.per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
+
   const formattedResponse = formatResponse(
-    {
-      contacts,
-      pagination: {
-        page: params.page,
-        per_page: params.per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+    data,
     params.response_format,
     () => {
       const lines: string[] = ["# FreeAgent Contacts", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page: params.page,
             perPage: params.per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -106,10 +114,13 @@ export async function listContacts(
     }
   );
 
-  return truncateIfNeeded(formattedResponse, {
-    count: contacts.length,
-    total: pagination.totalCount
-  });
+  return {
+    text: truncateIfNeeded(formattedResponse, {
+      count: contacts.length,
+      total: pagination.totalCount
+    }),
+    structuredContent: data
+  };
 }
 
 /**
@@ -118,7 +129,7 @@ export async function listContacts(
 export async function getContact(
   client: FreeAgentApiClient,
   params: GetContactInput
-): Promise<string> {
+): Promise<ToolResult> {
   // Normalize contact ID - handle both numeric IDs and full URLs
   const endpoint = params.contact_id.startsWith("http")
     ? params.contact_id.replace(/^https?:\/\/[^/]+\/v2/, "")
@@ -202,7 +213,7 @@ export async function getContact(
     }
   );
 
-  return formattedResponse;
+  return { text: formattedResponse, structuredContent: { contact } };
 }
 
 /**
@@ -211,7 +222,7 @@ export async function getContact(
 export async function createContact(
   client: FreeAgentApiClient,
   params: CreateContactInput
-): Promise<string> {
+): Promise<ToolResult> {
   const response = await client.post<{ contact: FreeAgentContact }>(
     "/contacts",
     { contact: params }
@@ -220,5 +231,7 @@ export async function createContact(
   const contact = response.data.contact;
   const name = formatContactName(contact);
 
-  return `✅ Contact created successfully: ${name} (ID: ${extractIdFromUrl(contact.url)})\n\nURL: ${contact.url}`;
+  const text = `✅ Contact created successfully: ${name} (ID: ${extractIdFromUrl(contact.url)})\n\nURL: ${contact.url}`;
+
+  return { text, structuredContent: { contact } };
 }
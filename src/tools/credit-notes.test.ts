@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import type { FreeAgentInvoice } from "../types.js";
+import {
+  createCreditNote,
+  refundInvoice,
+  writeOffInvoice,
+  writeOffLines,
+  summarizeInvoiceWriteOff,
+} from "./credit-notes.js";
+import { makeClient } from "./test-context.js";
+
+const API = "https://api.freeagent.com/v2";
+
+const invoice: FreeAgentInvoice = {
+  url: `${API}/invoices/42`,
+  contact: `${API}/contacts/1`,
+  reference: "INV-042",
+  dated_on: "2026-03-01",
+  currency: "GBP",
+  net_value: "600.00",
+  sales_tax_value: "100.00",
+  total_value: "700.00",
+  paid_value: "0.00",
+  due_value: "700.00",
+  status: "Open",
+  invoice_items: [
+    {
+      url: `${API}/invoice_items/81`,
+      position: 1,
+      item_type: "Days",
+      description: "Consulting",
+      price: "100.00",
+      quantity: "5",
+      sales_tax_rate: "20.0",
+      category: `${API}/categories/001`,
+    },
+    { item_type: "Products", description: "Book", price: "100.00", quantity: "1", sales_tax_rate: "0.0" },
+  ],
+};
+
+function invoiceClient(inv: FreeAgentInvoice = invoice) {
+  return makeClient({
+    get: (path) => {
+      if (path === "/invoices/42") return { invoice: inv };
+      if (path.endsWith("/bank_transactions/9")) {
+        return {
+          bank_transaction: {
+            url: `${API}/bank_transactions/9`,
+            bank_account: `${API}/bank_accounts/1`,
+            dated_on: "2026-04-10",
+            gross_value: "-120.00",
+          },
+        };
+      }
+    },
+    post: (path, body) => {
+      if (path === "/credit_notes") {
+        const note = (body as { credit_note: Record<string, unknown> }).credit_note;
+        return { credit_note: { url: `${API}/credit_notes/7`, reference: "CN-007", total_value: "-240.00", ...note } };
+      }
+      if (path === "/credit_note_reconciliations") {
+        const rec = (body as { credit_note_reconciliation: Record<string, unknown> }).credit_note_reconciliation;
+        return { credit_note_reconciliation: { url: `${API}/credit_note_reconciliations/3`, ...rec } };
+      }
+      if (path === "/bank_transaction_explanations") {
+        const exp = (body as { bank_transaction_explanation: Record<string, unknown> }).bank_transaction_explanation;
+        return { bank_transaction_explanation: { url: `${API}/bank_transaction_explanations/11`, ...exp } };
+      }
+    },
+  });
+}
+
+describe("createCreditNote", () => {
+  it("credits a partial quantity of one line and allocates it against the invoice", async () => {
+    const { client, calls } = invoiceClient();
+
+    const result = await createCreditNote(client, {
+      invoice_id: "42",
+      lines: [{ line: 1, quantity: "2" }],
+      dated_on: "2026-04-01",
+      reason: "Two days not delivered",
+      apply_to_invoice: true,
+    });
+
+    const posts = calls.filter((c) => c.method === "post");
+    expect(posts.map((c) => c.path)).toEqual(["/credit_notes", "/credit_note_reconciliations"]);
+    expect(posts[0].body).toEqual({
+      credit_note: {
+        contact: invoice.contact,
+        dated_on: "2026-04-01",
+        currency: "GBP",
+        comments: "Credit against invoice INV-042: Two days not delivered",
+        // The invoice line's url and position are not copied
+        credit_note_items: [
+          { item_type: "Days", description: "Consulting", price: "100.00", quantity: "2", sales_tax_rate: "20.0", category: `${API}/categories/001` },
+        ],
+      },
+    });
+    expect(posts[1].body).toEqual({
+      credit_note_reconciliation: {
+        invoice: invoice.url,
+        credit_note: `${API}/credit_notes/7`,
+        gross_value: "240.00",
+        dated_on: "2026-04-01",
+      },
+    });
+    expect(result.structuredContent).toMatchObject({
+      invoice: invoice.url,
+      credit_note: { url: `${API}/credit_notes/7` },
+      credit_note_reconciliation: { invoice: invoice.url },
+    });
+    expect(result.text).toContain("**Allocated**: GBP 240.00 against invoice INV-042");
+  });
+
+  it("rejects unknown lines and quantities above the original", async () => {
+    const { client, calls } = invoiceClient();
+    const base = { invoice_id: "42", apply_to_invoice: true };
+
+    await expect(createCreditNote(client, { ...base, lines: [{ line: 3 }] })).rejects.toThrow(/there is no line 3/);
+    await expect(createCreditNote(client, { ...base, lines: [{ line: 1, quantity: "6" }] })).rejects.toThrow(
+      /has quantity 5; cannot credit 6/
+    );
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+  });
+
+  it("leaves the credit unallocated on a paid invoice and previews on dry_run", async () => {
+    const paid = { ...invoice, paid_value: "700.00", due_value: "0.00" };
+
+    const live = invoiceClient(paid);
+    const result = await createCreditNote(live.client, { invoice_id: "42", apply_to_invoice: true });
+    expect(live.calls.filter((c) => c.method === "post").map((c) => c.path)).toEqual(["/credit_notes"]);
+    expect(result.text).toContain("has nothing left to pay");
+
+    const dry = invoiceClient(paid);
+    const preview = await createCreditNote(dry.client, { invoice_id: "42", apply_to_invoice: true, dry_run: true });
+    expect(dry.calls.some((c) => c.method === "post")).toBe(false);
+    expect(preview.structuredContent).toMatchObject({ invoice: invoice.url, preview: { path: "/credit_notes" } });
+  });
+});
+
+describe("refundInvoice", () => {
+  it("explains the outgoing transaction against the original invoice", async () => {
+    const { client, calls } = invoiceClient({ ...invoice, paid_value: "700.00", due_value: "0.00" });
+
+    const result = await refundInvoice(client, { invoice_id: "42", bank_transaction_id: "9" });
+
+    const post = calls.find((c) => c.method === "post");
+    expect(post?.body).toEqual({
+      bank_transaction_explanation: {
+        bank_transaction: `${API}/bank_transactions/9`,
+        dated_on: "2026-04-10",
+        gross_value: "-120.00",
+        description: "Refund of invoice INV-042",
+        paid_invoice: invoice.url,
+      },
+    });
+    expect(result.structuredContent).toMatchObject({
+      invoice: invoice.url,
+      bank_transaction_explanation: { paid_invoice: invoice.url },
+    });
+  });
+
+  it("refuses refunds larger than what was paid", async () => {
+    const { client, calls } = invoiceClient({ ...invoice, paid_value: "100.00" });
+
+    await expect(refundInvoice(client, { invoice_id: "42", bank_transaction_id: "9" })).rejects.toThrow(
+      /more than the GBP 100.00 paid on invoice INV-042/
+    );
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+  });
+});
+
+describe("writeOffInvoice", () => {
+  it("splits the outstanding balance by VAT rate in the invoice's proportions", () => {
+    expect(writeOffLines({ ...invoice, due_value: "350.00" }, 350)).toEqual([
+      expect.objectContaining({ description: "Bad debt write-off of invoice INV-042 (20.0% VAT)", price: "250.00", sales_tax_rate: "20.0" }),
+      expect.objectContaining({ description: "Bad debt write-off of invoice INV-042 (0.0% VAT)", price: "50.00", sales_tax_rate: "0.0" }),
+    ]);
+  });
+
+  it("credits and allocates the full outstanding amount", async () => {
+    const { client, calls } = invoiceClient();
+
+    await writeOffInvoice(client, { invoice_id: "42", dated_on: "2026-05-01", reason: "Customer dissolved" });
+
+    const posts = calls.filter((c) => c.method === "post");
+    expect(posts[0].body).toMatchObject({
+      credit_note: { comments: "Bad debt write-off of invoice INV-042: Customer dissolved" },
+    });
+    expect(posts[1].path).toBe("/credit_note_reconciliations");
+  });
+
+  it("summarizes the write-off for confirmation, except on a dry run", async () => {
+    const { client } = invoiceClient();
+
+    await expect(summarizeInvoiceWriteOff(client, { invoice_id: "42" })).resolves.toContain(
+      "**Outstanding**: GBP 700.00"
+    );
+    await expect(summarizeInvoiceWriteOff(client, { invoice_id: "42", dry_run: true })).resolves.toBeUndefined();
+  });
+
+  it("refuses invoices with nothing outstanding", async () => {
+    const { client } = invoiceClient({ ...invoice, paid_value: "700.00", due_value: "0.00" });
+
+    await expect(writeOffInvoice(client, { invoice_id: "42" })).rejects.toThrow(/nothing outstanding/);
+  });
+});
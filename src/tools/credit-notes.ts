@@ -0,0 +1,325 @@
+/**
+ * Credit notes, refunds and bad-debt write-offs against an existing invoice.
+ *
+ * - create_credit_note credits whole invoice lines or part of their
+ *   quantity, then allocates the credit against the invoice through a
+ *   credit note reconciliation.
+ * - refund_invoice explains an outgoing bank transaction as a refund with
+ *   `paid_invoice` pointing at the original invoice, via reconcile.ts.
+ * - write_off_invoice credits the unpaid balance, split by VAT rate in the
+ *   same proportions as the invoice, and allocates it against the invoice.
+ *   It changes the ledger, so registration asks the user to confirm first.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type {
+  FreeAgentBankTransaction,
+  FreeAgentCreditNote,
+  FreeAgentCreditNoteReconciliation,
+  FreeAgentInvoice,
+  FreeAgentInvoiceItem,
+} from "../types.js";
+import type { CreateCreditNoteInput, RefundInvoiceInput, WriteOffInvoiceInput } from "../schemas/index.js";
+import { extractIdFromUrl, formatCurrency, toAmount, today, toNumber, type ToolResult } from "../services/formatter.js";
+import { formatWritePreview, type WritePreview } from "../services/preview.js";
+import { reconcileBankTransaction } from "./reconcile.js";
+
+async function fetchInvoice(client: FreeAgentApiClient, invoiceId: string): Promise<FreeAgentInvoice> {
+  const id = invoiceId.startsWith("http") ? extractIdFromUrl(invoiceId) : invoiceId;
+  const response = await client.get<{ invoice: FreeAgentInvoice }>(`/invoices/${id}`);
+  return response.data.invoice;
+}
+
+function invoiceLabel(invoice: FreeAgentInvoice): string {
+  return invoice.reference || extractIdFromUrl(invoice.url);
+}
+
+/** What is still owed on the invoice, falling back to the total when FreeAgent omits due_value. */
+function outstanding(invoice: FreeAgentInvoice): number {
+  return toNumber(invoice.due_value ?? invoice.total_value);
+}
+
+/**
+ * A credit note item with the content of an invoice line. The line's own
+ * `url` and `position` stay behind: they belong to the invoice.
+ */
+function creditItem(item: FreeAgentInvoiceItem): FreeAgentInvoiceItem {
+  const copy: FreeAgentInvoiceItem = {
+    item_type: item.item_type,
+    description: item.description,
+    quantity: item.quantity,
+    price: item.price,
+  };
+  if (item.sales_tax_rate !== undefined) copy.sales_tax_rate = item.sales_tax_rate;
+  if (item.category !== undefined) copy.category = item.category;
+  return copy;
+}
+
+/**
+ * Copy the requested invoice lines onto credit note items, checking each
+ * partial quantity against the original.
+ */
+export function creditLines(
+  invoice: FreeAgentInvoice,
+  lines: CreateCreditNoteInput["lines"]
+): FreeAgentInvoiceItem[] {
+  const items = invoice.invoice_items ?? [];
+  if (items.length === 0) {
+    throw new Error(`Invoice ${invoiceLabel(invoice)} has no line items to credit.`);
+  }
+  if (!lines) return items.map(creditItem);
+
+  const seen = new Set<number>();
+  return lines.map(({ line, quantity }) => {
+    const item = items[line - 1];
+    if (!item) {
+      throw new Error(`Invoice ${invoiceLabel(invoice)} has ${items.length} line(s); there is no line ${line}.`);
+    }
+    if (seen.has(line)) {
+      throw new Error(`Line ${line} is listed more than once. Give each line once with the total quantity to credit.`);
+    }
+    seen.add(line);
+
+    if (quantity === undefined) return creditItem(item);
+    const requested = toNumber(quantity);
+    if (!(requested > 0)) {
+      throw new Error(`Line ${line}: \`quantity\` must be greater than zero.`);
+    }
+    if (requested > toNumber(item.quantity)) {
+      throw new Error(
+        `Line ${line} ("${item.description}") has quantity ${item.quantity}; cannot credit ${quantity}.`
+      );
+    }
+    return { ...creditItem(item), quantity };
+  });
+}
+
+/**
+ * One credit note line per VAT rate on the invoice, together worth `amount`
+ * gross. Each rate's share follows its share of the invoice's gross value,
+ * so the VAT reclaimed matches what was charged.
+ */
+export function writeOffLines(invoice: FreeAgentInvoice, amount: number): FreeAgentInvoiceItem[] {
+  const grossByRate = new Map<string, number>();
+  for (const item of invoice.invoice_items ?? []) {
+    const rate = item.sales_tax_rate ?? "";
+    const net = toNumber(item.price) * toNumber(item.quantity);
+    const gross = net * (1 + toNumber(rate) / 100);
+    grossByRate.set(rate, (grossByRate.get(rate) ?? 0) + gross);
+  }
+  const total = [...grossByRate.values()].reduce((sum, v) => sum + v, 0);
+
+  const description = `Bad debt write-off of invoice ${invoiceLabel(invoice)}`;
+  if (!(total > 0)) {
+    return [{ item_type: "Services", description, quantity: "1", price: toAmount(amount) }];
+  }
+
+  return [...grossByRate].map(([rate, gross]) => {
+    const share = (amount * gross) / total;
+    const price = share / (1 + toNumber(rate) / 100);
+    const item: FreeAgentInvoiceItem = {
+      item_type: "Services",
+      description: grossByRate.size > 1 && rate ? `${description} (${rate}% VAT)` : description,
+      quantity: "1",
+      price: toAmount(price),
+    };
+    if (rate) item.sales_tax_rate = rate;
+    return item;
+  });
+}
+
+interface IssueOptions {
+  datedOn: string;
+  comments: string;
+  allocate: boolean;
+  dryRun?: boolean;
+  heading: string;
+}
+
+/**
+ * Create a credit note for `items` against `invoice` and, when asked,
+ * allocate it against what is still due on the invoice.
+ */
+async function issueCreditNote(
+  client: FreeAgentApiClient,
+  invoice: FreeAgentInvoice,
+  items: FreeAgentInvoiceItem[],
+  options: IssueOptions
+): Promise<ToolResult> {
+  const payload: Record<string, unknown> = {
+    contact: invoice.contact,
+    dated_on: options.datedOn,
+    currency: invoice.currency,
+    comments: options.comments,
+    credit_note_items: items,
+  };
+  if (invoice.ec_status) payload.ec_status = invoice.ec_status;
+
+  const due = outstanding(invoice);
+  const allocate = options.allocate && due > 0;
+
+  if (options.dryRun) {
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/credit_notes",
+      body: { credit_note: payload },
+      resolved: [{ field: "invoice", hint: invoiceLabel(invoice), url: invoice.url }],
+    };
+    const notes = [
+      allocate
+        ? `The credit would then be allocated against invoice ${invoiceLabel(invoice)}, up to the ${formatCurrency(toAmount(due), invoice.currency)} still due.`
+        : "The credit would be left unallocated.",
+    ];
+    return {
+      text: formatWritePreview(preview, notes),
+      structuredContent: { invoice: invoice.url, preview },
+    };
+  }
+
+  const created = await client.post<{ credit_note: FreeAgentCreditNote }>("/credit_notes", {
+    credit_note: payload,
+  });
+  const creditNote = created.data.credit_note;
+
+  let reconciliation: FreeAgentCreditNoteReconciliation | undefined;
+  if (allocate) {
+    const credit = Math.abs(toNumber(creditNote.total_value));
+    const response = await client.post<{ credit_note_reconciliation: FreeAgentCreditNoteReconciliation }>(
+      "/credit_note_reconciliations",
+      {
+        credit_note_reconciliation: {
+          invoice: invoice.url,
+          credit_note: creditNote.url,
+          gross_value: toAmount(Math.min(credit, due)),
+          dated_on: options.datedOn,
+        },
+      }
+    );
+    reconciliation = response.data.credit_note_reconciliation;
+  }
+
+  const allocationLine = reconciliation
+    ? `**Allocated**: ${formatCurrency(reconciliation.gross_value, invoice.currency)} against invoice ${invoiceLabel(invoice)}\n`
+    : `**Allocated**: nothing${options.allocate ? ` (invoice ${invoiceLabel(invoice)} has nothing left to pay)` : ""}\n`;
+
+  const text =
+    `✅ ${options.heading}\n\n` +
+    `**Credit note**: ${creditNote.reference || extractIdFromUrl(creditNote.url)}\n` +
+    `**Date**: ${creditNote.dated_on}\n` +
+    `**Total**: ${formatCurrency(creditNote.total_value, creditNote.currency)}\n` +
+    `**Lines**: ${items.length}\n` +
+    allocationLine +
+    `**URL**: ${creditNote.url}`;
+
+  return {
+    text,
+    structuredContent: {
+      invoice: invoice.url,
+      credit_note: creditNote,
+      ...(reconciliation ? { credit_note_reconciliation: reconciliation } : {}),
+    },
+  };
+}
+
+export async function createCreditNote(
+  client: FreeAgentApiClient,
+  params: CreateCreditNoteInput
+): Promise<ToolResult> {
+  const invoice = await fetchInvoice(client, params.invoice_id);
+  const items = creditLines(invoice, params.lines);
+
+  const comments = `Credit against invoice ${invoiceLabel(invoice)}${params.reason ? `: ${params.reason}` : ""}`;
+  return issueCreditNote(client, invoice, items, {
+    datedOn: params.dated_on ?? today(),
+    comments,
+    allocate: params.apply_to_invoice,
+    dryRun: params.dry_run,
+    heading: `Credit note created against invoice ${invoiceLabel(invoice)}`,
+  });
+}
+
+export async function refundInvoice(
+  client: FreeAgentApiClient,
+  params: RefundInvoiceInput
+): Promise<ToolResult> {
+  const invoice = await fetchInvoice(client, params.invoice_id);
+
+  const txPath = params.bank_transaction_id.startsWith("http")
+    ? params.bank_transaction_id
+    : `/bank_transactions/${params.bank_transaction_id}`;
+  const txResponse = await client.get<{ bank_transaction: FreeAgentBankTransaction }>(txPath);
+  const tx = txResponse.data.bank_transaction;
+
+  const amount = -toNumber(tx.gross_value);
+  if (!(amount > 0)) {
+    throw new Error(
+      `Bank transaction ${extractIdFromUrl(tx.url)} is money in (${tx.gross_value}). A refund must be explained against an outgoing transaction.`
+    );
+  }
+  if (invoice.paid_value !== undefined && amount > toNumber(invoice.paid_value)) {
+    throw new Error(
+      `Refund of ${formatCurrency(toAmount(amount), invoice.currency)} is more than the ${formatCurrency(invoice.paid_value, invoice.currency)} paid on invoice ${invoiceLabel(invoice)}.`
+    );
+  }
+
+  const result = await reconcileBankTransaction(client, {
+    bank_transaction_id: tx.url,
+    paid_invoice: invoice.url,
+    description: params.description ?? `Refund of invoice ${invoiceLabel(invoice)}`,
+    dry_run: params.dry_run,
+  });
+  const { bank_transaction_explanation, preview } = result.structuredContent as {
+    bank_transaction_explanation?: Record<string, unknown>;
+    preview?: WritePreview;
+  };
+
+  return {
+    text: result.text,
+    structuredContent: {
+      invoice: invoice.url,
+      ...(bank_transaction_explanation ? { bank_transaction_explanation } : {}),
+      ...(preview ? { preview } : {}),
+    },
+  };
+}
+
+/**
+ * Summary shown to the user before a write-off. Dry runs change nothing
+ * and go ahead without asking.
+ */
+export async function summarizeInvoiceWriteOff(
+  client: FreeAgentApiClient,
+  params: WriteOffInvoiceInput
+): Promise<string | undefined> {
+  if (params.dry_run) return undefined;
+
+  const invoice = await fetchInvoice(client, params.invoice_id);
+  return (
+    "Write off the unpaid balance of this invoice as a bad debt. A credit note for the outstanding amount will be issued and allocated against it.\n\n" +
+    `**Invoice**: ${invoiceLabel(invoice)} (ID: ${extractIdFromUrl(invoice.url)})\n` +
+    `**Status**: ${invoice.status}\n` +
+    `**Outstanding**: ${formatCurrency(toAmount(outstanding(invoice)), invoice.currency)}\n` +
+    `**Contact**: ${invoice.contact}` +
+    (params.reason ? `\n**Reason**: ${params.reason}` : "")
+  );
+}
+
+export async function writeOffInvoice(
+  client: FreeAgentApiClient,
+  params: WriteOffInvoiceInput
+): Promise<ToolResult> {
+  const invoice = await fetchInvoice(client, params.invoice_id);
+  const due = outstanding(invoice);
+  if (!(due > 0)) {
+    throw new Error(`Invoice ${invoiceLabel(invoice)} has nothing outstanding to write off.`);
+  }
+
+  const comments = `Bad debt write-off of invoice ${invoiceLabel(invoice)}${params.reason ? `: ${params.reason}` : ""}`;
+  return issueCreditNote(client, invoice, writeOffLines(invoice, due), {
+    datedOn: params.dated_on ?? today(),
+    comments,
+    allocate: true,
+    dryRun: params.dry_run,
+    heading: `Wrote off ${formatCurrency(toAmount(due), invoice.currency)} on invoice ${invoiceLabel(invoice)}`,
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { confirmNotDuplicate, findDuplicates } from "./duplicates.js";
+import { makeCtx } from "./test-context.js";
+
+const match = { url: "https://api.freeagent.com/v2/bills/8", dated_on: "2026-04-01", amount: "10.00", reference: "SUP-1" };
+
+describe("confirmNotDuplicate", () => {
+  it("refuses the create when a match exists and the client cannot ask, naming it", async () => {
+    await expect(confirmNotDuplicate(makeCtx(), "bill", async () => [match])).rejects.toThrow(
+      /SUP-1 \(https:\/\/api\.freeagent\.com\/v2\/bills\/8.*allow_duplicate: true/s
+    );
+    await expect(confirmNotDuplicate(makeCtx(), "bill", async () => [])).resolves.toBeUndefined();
+  });
+
+  it("asks the user when the client supports elicitation", async () => {
+    const elicit = vi.fn()
+      .mockResolvedValueOnce({ action: "accept", content: { create_anyway: true } })
+      .mockResolvedValueOnce({ action: "accept", content: { create_anyway: false } });
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
+
+    await expect(confirmNotDuplicate(ctx, "bill", async () => [match])).resolves.toBeUndefined();
+    expect(elicit.mock.calls[0][0].message).toContain("SUP-1");
+
+    await expect(confirmNotDuplicate(ctx, "bill", async () => [match])).rejects.toThrow(
+      "the user chose not to add a likely duplicate bill"
+    );
+  });
+
+  it("lets the create through when the lookup fails", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(confirmNotDuplicate(makeCtx(), "bill", async () => { throw new Error("429"); })).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("Duplicate check for a new bill failed"));
+    error.mockRestore();
+  });
+});
+
+describe("findDuplicates", () => {
+  it("scans every page of expenses in the range and reports clusters", async () => {
+    const user = "https://api.freeagent.com/v2/users/3";
+    const pages = [
+      [{ url: "https://api.freeagent.com/v2/expenses/1", user, dated_on: "2026-04-01", gross_value: "-42.00", description: "Train" }],
+      [
+        { url: "https://api.freeagent.com/v2/expenses/2", user, dated_on: "2026-04-02", gross_value: "-42.00", description: "Train" },
+        { url: "https://api.freeagent.com/v2/expenses/3", user, dated_on: "2026-04-02", gross_value: "-8.00" },
+      ],
+    ];
+    const client = {
+      async *paginate(endpoint: string, _key: string, params: Record<string, unknown>) {
+        expect(endpoint).toBe("/expenses");
+        expect(params).toMatchObject({ view: "all", from_date: "2026-04-01", to_date: "2026-04-30" });
+        for (const [i, items] of pages.entries()) yield { items, page: i + 1, hasMore: i < pages.length - 1 };
+      },
+    } as unknown as FreeAgentApiClient;
+
+    const result = await findDuplicates(client, {
+      from_date: "2026-04-01",
+      to_date: "2026-04-30",
+      kind: "expenses",
+      window_days: 3,
+      response_format: ResponseFormat.MARKDOWN,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      scanned: 3,
+      clusters: [{ kind: "expense", counterparty: user, amount: "-42.00", records: [{ dated_on: "2026-04-01" }, { dated_on: "2026-04-02" }] }],
+    });
+    expect(result.text).toContain("## 2 expenses of -42.00");
+  });
+
+  it("rejects a reversed date range", async () => {
+    await expect(
+      findDuplicates({} as FreeAgentApiClient, {
+        from_date: "2026-04-30",
+        to_date: "2026-04-01",
+        kind: "both",
+        window_days: 3,
+        response_format: ResponseFormat.MARKDOWN,
+      })
+    ).rejects.toThrow("after to_date");
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Duplicate checks before a create, and the freeagent_find_duplicates tool.
+ *
+ * confirmNotDuplicate runs a lookup from services/duplicates.ts before a
+ * create posts. When it finds a likely duplicate, clients with form
+ * elicitation ask the user whether to create the record anyway; other
+ * clients get an error naming the match, and must repeat the call with
+ * `allow_duplicate: true` once the user has agreed.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { FreeAgentBill, FreeAgentExpense } from "../types.js";
+import type { FindDuplicatesInput } from "../schemas/index.js";
+import { formatResponse, truncateIfNeeded, type ToolResult } from "../services/formatter.js";
+import {
+  clusterDuplicateBills,
+  clusterDuplicateExpenses,
+  type DuplicateCluster,
+  type DuplicateMatch,
+} from "../services/duplicates.js";
+import { listAll } from "../services/pagination.js";
+import type { ToolContext } from "./register.js";
+
+function describeMatch(m: DuplicateMatch): string {
+  const label = [m.reference, m.description].filter(Boolean).join(" — ");
+  return `${m.dated_on} ${m.amount}${label ? ` ${label}` : ""} (${m.url})`;
+}
+
+/**
+ * Resolve when no likely duplicate of the new `kind` exists, or the user
+ * chose to create it anyway. The check is best effort: when the lookup
+ * itself fails, the create goes ahead.
+ *
+ * @param kind - What is being created, e.g. "bill"
+ * @param lookup - Finds existing records with the same counterparty, amount and date
+ */
+export async function confirmNotDuplicate(
+  ctx: ToolContext,
+  kind: string,
+  lookup: () => Promise<DuplicateMatch[]>
+): Promise<void> {
+  let matches: DuplicateMatch[];
+  try {
+    matches = await lookup();
+  } catch (error) {
+    console.error(JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: "warn",
+      component: "duplicates",
+      message: `Duplicate check for a new ${kind} failed; creating it anyway`,
+      data: { error: error instanceof Error ? error.message : String(error) },
+    }));
+    return;
+  }
+  if (matches.length === 0) return;
+
+  const summary =
+    `This ${kind} looks like a duplicate of ${matches.length === 1 ? "an existing one" : `${matches.length} existing ones`} ` +
+    `with the same counterparty and amount:\n${matches.map((m) => `- ${describeMatch(m)}`).join("\n")}`;
+
+  if (!ctx.clientSupportsElicitation) {
+    throw new Error(
+      `${summary}\n\nThis call may repeat one that already succeeded, or the same receipt may have been sent twice. ` +
+        "Show this to the user. If it really is a separate record, call again with `allow_duplicate: true`."
+    );
+  }
+
+  const result = await ctx.elicit({
+    message: `${summary}\n\nCreate it anyway?`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        create_anyway: {
+          type: "boolean",
+          title: "Create anyway",
+          description: `Tick if this is a separate ${kind}, not a copy of the one above.`,
+        },
+      },
+      required: ["create_anyway"],
+    },
+  });
+
+  if (result.action !== "accept" || result.content?.create_anyway !== true) {
+    throw new Error(`Not created: the user chose not to add a likely duplicate ${kind}.`);
+  }
+}
+
+function describeCluster(c: DuplicateCluster): string {
+  const lines = [`## ${c.records.length} ${c.kind}s of ${c.amount}`, ""];
+  lines.push(`- **${c.kind === "expense" ? "User" : "Contact"}**: ${c.counterparty}`);
+  c.records.forEach((r) => lines.push(`- ${describeMatch(r)}`));
+  return lines.join("\n");
+}
+
+/**
+ * Scan expenses and/or bills dated in a range for clusters of suspected
+ * duplicates: same user or contact, same amount, dates within
+ * `window_days` of each other.
+ */
+export async function findDuplicates(
+  client: FreeAgentApiClient,
+  params: FindDuplicatesInput
+): Promise<ToolResult> {
+  if (params.from_date > params.to_date) {
+    throw new Error(`from_date (${params.from_date}) is after to_date (${params.to_date}).`);
+  }
+  const range = { view: "all", from_date: params.from_date, to_date: params.to_date, per_page: 100 };
+
+  const clusters: DuplicateCluster[] = [];
+  let scanned = 0;
+  if (params.kind !== "bills") {
+    const items = await listAll<FreeAgentExpense>(client, "/expenses", "expenses", range);
+    scanned += items.length;
+    clusters.push(...clusterDuplicateExpenses(items, params.window_days));
+  }
+  if (params.kind !== "expenses") {
+    const items = await listAll<FreeAgentBill>(client, "/bills", "bills", range);
+    scanned += items.length;
+    clusters.push(...clusterDuplicateBills(items, params.window_days));
+  }
+  clusters.sort((a, b) => a.records[0].dated_on.localeCompare(b.records[0].dated_on));
+
+  const data = {
+    from_date: params.from_date,
+    to_date: params.to_date,
+    window_days: params.window_days,
+    scanned,
+    clusters,
+  };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = ["# Suspected Duplicates", ""];
+    lines.push(`Scanned ${scanned} record(s) dated ${params.from_date} to ${params.to_date}, matching dates within ${params.window_days} day(s).`, "");
+    if (clusters.length === 0) {
+      lines.push("No suspected duplicates found.");
+      return lines.join("\n");
+    }
+    clusters.forEach((c) => lines.push(describeCluster(c), ""));
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -1,42 +1,11 @@
-import { describe, it, expect, vi } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
+import { describe, it, expect } from "vitest";
 import {
   createEstimate,
   listEstimates,
   transitionEstimate,
 } from "./estimates.js";
 import { ResponseFormat } from "../constants.js";
-
-interface Call {
-  method: "get" | "post" | "put";
-  path: string;
-  body?: unknown;
-  params?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-  put?: (path: string) => unknown;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string, params?: unknown) => {
-      calls.push({ method: "get", path, params });
-      return { data: handlers.get?.(path), headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      return { data: handlers.post?.(path, body), headers: {} };
-    }),
-    put: vi.fn(async (path: string) => {
-      calls.push({ method: "put", path });
-      return { data: handlers.put?.(path), headers: {} };
-    }),
-    parsePaginationHeaders: () => ({ hasMore: false }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+import { makeClient } from "./test-context.js";
 
 describe("estimates tools", () => {
   it("createEstimate POSTs a normalized contact URL and the line items", async () => {
@@ -63,7 +32,7 @@ describe("estimates tools", () => {
       ],
     });
 
-    expect(result).toContain("Drafted estimate 5");
+    expect(result.text).toContain("Drafted estimate 5");
     const post = calls.find((c) => c.method === "post");
     expect(post?.path).toBe("/estimates");
     expect(post?.body).toMatchObject({
@@ -6,6 +6,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentEstimate } from "../types.js";
 import type {
   ListEstimatesInput,
@@ -19,13 +20,14 @@ import {
   computeDiscountAmount,
   formatCurrency,
   extractIdFromUrl,
+  type ToolResult,
 } from "../services/formatter.js";
 
 export async function listEstimates(
   client: FreeAgentApiClient,
   params: ListEstimatesInput
-): Promise<string> {
-  const { page, per_page, view, contact, project, sort, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, view, contact, project, sort, response_format } = params;
 
   const queryParams: Record<string, string> = {
     page: page.toString(),
@@ -36,26 +38,34 @@ export async function listEstimates(
   if (project) queryParams.project = project;
   if (sort) queryParams.sort = sort;
 
-  const response = await client.get<{ estimates: FreeAgentEstimate[] }>("/estimates", queryParams);
-  const estimates = response.data.estimates ?? [];
-  const pagination = client.parsePaginationHeaders(response.headers);
-
-  return formatResponse(
-    {
-      estimates,
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage,
-      },
+  const { items: estimates, pagination } = await fetchList<FreeAgentEstimate>(
+    client,
+    "/estimates",
+    "estimates",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
+  );
+
+  const data = {
+    estimates,
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
     },
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Estimates", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
@@ -63,6 +73,8 @@ export async function listEstimates(
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
             nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt,
           })
         );
         lines.push("");
@@ -86,19 +98,21 @@ export async function listEstimates(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 export async function getEstimate(
   client: FreeAgentApiClient,
   params: GetEstimateInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { estimate_id, response_format } = params;
   const url = estimate_id.startsWith("http") ? estimate_id : `/estimates/${estimate_id}`;
 
   const response = await client.get<{ estimate: FreeAgentEstimate }>(url);
   const est = response.data.estimate;
 
-  return formatResponse(
+  const text = formatResponse(
     est,
     response_format,
     () => {
@@ -128,12 +142,14 @@ export async function getEstimate(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { estimate: est } };
 }
 
 export async function createEstimate(
   client: FreeAgentApiClient,
   params: CreateEstimateInput
-): Promise<string> {
+): Promise<ToolResult> {
   const contactUrl = params.contact.startsWith("http")
     ? params.contact
     : `https://api.freeagent.com/v2/contacts/${params.contact}`;
@@ -160,33 +176,69 @@ export async function createEstimate(
   const est = response.data.estimate;
   const id = extractIdFromUrl(est.url);
 
-  return (
+  const text =
     `✅ Drafted estimate ${id}\n\n` +
     `**Date**: ${est.dated_on}\n` +
     (est.reference ? `**Reference**: ${est.reference}\n` : "") +
     (est.total_value ? `**Total**: ${est.currency ?? "GBP"} ${est.total_value}\n` : "") +
     `**Contact**: ${est.contact}\n` +
-    `**URL**: ${est.url}`
+    `**URL**: ${est.url}`;
+
+  return { text, structuredContent: { estimate: est } };
+}
+
+/** Transitions that change the ledger, and what they do in plain words. */
+const CONFIRMED_ACTIONS: Partial<Record<TransitionEstimateInput["action"], string>> = {
+  convert_to_invoice: "Convert this estimate into an invoice for the same amount.",
+};
+
+function estimateId(params: TransitionEstimateInput): string {
+  return params.estimate_id.startsWith("http")
+    ? extractIdFromUrl(params.estimate_id)
+    : params.estimate_id;
+}
+
+/**
+ * Summary shown to the user before a ledger-changing transition, or
+ * undefined when the action can go ahead without asking.
+ */
+export async function summarizeEstimateTransition(
+  client: FreeAgentApiClient,
+  params: TransitionEstimateInput
+): Promise<string | undefined> {
+  const effect = CONFIRMED_ACTIONS[params.action];
+  if (!effect) return undefined;
+
+  const id = estimateId(params);
+  const response = await client.get<{ estimate: FreeAgentEstimate }>(`/estimates/${id}`);
+  const est = response.data.estimate;
+
+  return (
+    `${effect}\n\n` +
+    `**Estimate**: ${est.reference || id} (ID: ${id})\n` +
+    (est.status ? `**Status**: ${est.status}\n` : "") +
+    `**Date**: ${est.dated_on}\n` +
+    (est.total_value ? `**Total**: ${formatCurrency(est.total_value, est.currency)}\n` : "") +
+    `**Contact**: ${est.contact}`
   );
 }
 
 export async function transitionEstimate(
   client: FreeAgentApiClient,
   params: TransitionEstimateInput
-): Promise<string> {
-  const id = params.estimate_id.startsWith("http")
-    ? extractIdFromUrl(params.estimate_id)
-    : params.estimate_id;
+): Promise<ToolResult> {
+  const id = estimateId(params);
 
   const path = `/estimates/${id}/transitions/${params.action}`;
   const response = await client.put<{ estimate: FreeAgentEstimate }>(path);
   const est = response.data.estimate;
 
-  return (
+  const text =
     `✅ ${params.action} applied to estimate ${extractIdFromUrl(est.url)}\n\n` +
     (est.status ? `**Status**: ${est.status}\n` : "") +
     `**Date**: ${est.dated_on}\n` +
     (est.total_value ? `**Total**: ${est.currency ?? "GBP"} ${est.total_value}\n` : "") +
-    `**URL**: ${est.url}`
-  );
+    `**URL**: ${est.url}`;
+
+  return { text, structuredContent: { estimate: est } };
 }
@@ -5,8 +5,12 @@
  * with support for file attachments.
  */
 
-import { gunzipSync } from "zlib";
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { attachmentPayload, loadAttachment } from "../services/attachments.js";
+import { fetchList } from "../services/pagination.js";
+import { findDuplicateExpenses } from "../services/duplicates.js";
+import { confirmNotDuplicate } from "./duplicates.js";
+import type { ToolContext } from "./register.js";
 import type { FreeAgentExpense } from "../types.js";
 import type {
   ListExpensesInput,
@@ -17,7 +21,8 @@ import type {
 import {
   formatResponse,
   createPaginationMetadata,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 
 /**
@@ -26,8 +31,8 @@ import {
 export async function listExpenses(
   client: FreeAgentApiClient,
   params: ListExpensesInput
-): Promise<string> {
-  const { page, per_page, view, from_date, to_date, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, view, from_date, to_date, response_format } = params;
 
   // Build query parameters
   const queryParams: Record<string, string> = {
@@ -39,38 +44,45 @@ export async function listExpenses(
   if (from_date) queryParams.from_date = from_date;
   if (to_date) queryParams.to_date = to_date;
 
-  const response = await client.get<{ expenses: FreeAgentExpense[] }>(
+  const { items: expenses, pagination } = await fetchList<FreeAgentExpense>(
+    client,
     "/expenses",
-    queryParams
+    "expenses",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
   );
-  const expenses = response.data.expenses || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
   // Format response - return full expense objects like get_expense does
   // This ensures consistency and includes all fields from the API
-  return formatResponse(
-    {
-      expenses: expenses,
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+  const data = {
+    expenses: expenses,
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Expenses", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
             perPage: per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -130,6 +142,8 @@ export async function listExpenses(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 /**
@@ -138,7 +152,7 @@ export async function listExpenses(
 export async function getExpense(
   client: FreeAgentApiClient,
   params: GetExpenseInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { expense_id, response_format } = params;
   const expenseUrl = expense_id.startsWith('http')
     ? expense_id
@@ -148,7 +162,7 @@ export async function getExpense(
   const expense = response.data.expense;
 
   // Format response
-  return formatResponse(
+  const text = formatResponse(
     expense,
     response_format,
     () => {
@@ -190,6 +204,8 @@ export async function getExpense(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { expense } };
 }
 
 /**
@@ -197,8 +213,9 @@ export async function getExpense(
  */
 export async function createExpense(
   client: FreeAgentApiClient,
-  params: CreateExpenseInput
-): Promise<string> {
+  params: CreateExpenseInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
   const isMileage = params.miles !== undefined;
 
   // Build expense payload
@@ -249,32 +266,21 @@ export async function createExpense(
   }
 
   // Add attachment if provided
-  if (params.attachment) {
-    let attachmentData = params.attachment.data;
-
-    // If attachment is gzipped, decompress it before sending to FreeAgent
-    if (params.attachment.is_gzipped) {
-      try {
-        // Decode Base64 to Buffer
-        const compressedBuffer = Buffer.from(attachmentData, 'base64');
-        // Decompress using gunzip
-        const decompressedBuffer = gunzipSync(compressedBuffer);
-        // Re-encode to Base64
-        attachmentData = decompressedBuffer.toString('base64');
-      } catch (error) {
-        throw new Error(`Failed to decompress gzipped attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-
-    const attachmentPayload: Record<string, string> = {
-      data: attachmentData,
-      file_name: params.attachment.file_name,
-      content_type: params.attachment.content_type
-    };
-    if (params.attachment.description) {
-      attachmentPayload.description = params.attachment.description;
-    }
-    expensePayload.attachment = attachmentPayload;
+  const attachment = params.attachment
+    ? await loadAttachment(params.attachment, { allowLocalFiles: ctx.allowLocalFiles ?? false })
+    : undefined;
+  if (attachment) expensePayload.attachment = attachmentPayload(attachment);
+
+  // Mileage claims without a gross value are priced by FreeAgent
+  if (params.gross_value && !params.allow_duplicate) {
+    const gross_value = params.gross_value;
+    await confirmNotDuplicate(ctx, "expense", () =>
+      findDuplicateExpenses(
+        client,
+        { user: params.user, dated_on: params.dated_on, gross_value },
+        params.duplicate_window_days
+      )
+    );
   }
 
   const response = await client.post<{ expense: FreeAgentExpense }>("/expenses", { expense: expensePayload });
@@ -282,14 +288,16 @@ export async function createExpense(
   const expenseId = extractIdFromUrl(expense.url);
 
   const type = isMileage ? "mileage expense" : "expense";
-  const attachmentInfo = params.attachment ? ` with attachment (${params.attachment.file_name})` : '';
+  const attachmentInfo = attachment ? ` with attachment (${attachment.file_name})` : '';
 
-  return `✅ Successfully created ${type}${attachmentInfo}\n\n` +
+  const text = `✅ Successfully created ${type}${attachmentInfo}\n\n` +
     `**Expense ID**: ${expenseId}\n` +
     `**Date**: ${expense.dated_on}\n` +
     `**Amount**: ${expense.currency || 'GBP'} ${expense.gross_value}\n` +
     (isMileage ? `**Miles**: ${expense.miles}\n` : '') +
     `**URL**: ${expense.url}`;
+
+  return { text, structuredContent: { expense } };
 }
 
 /**
@@ -298,7 +306,7 @@ export async function createExpense(
 export async function updateExpense(
   client: FreeAgentApiClient,
   params: UpdateExpenseInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { expense_id, ...updateFields } = params;
   const expenseUrl = expense_id.startsWith('http')
     ? expense_id
@@ -355,11 +363,13 @@ export async function updateExpense(
   const isMileage = expense.miles !== null && expense.miles !== undefined;
   const type = isMileage ? "mileage expense" : "expense";
 
-  return `✅ Successfully updated ${type}\n\n` +
+  const text = `✅ Successfully updated ${type}\n\n` +
     `**Expense ID**: ${expenseId}\n` +
     `**Date**: ${expense.dated_on}\n` +
     `**Amount**: ${expense.currency || 'GBP'} ${expense.gross_value}\n` +
     (expense.description ? `**Description**: ${expense.description}\n` : '') +
     (isMileage ? `**Miles**: ${expense.miles}\n` : '') +
     `**URL**: ${expense.url}`;
+
+  return { text, structuredContent: { expense } };
 }
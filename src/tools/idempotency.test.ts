@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { toolDefinitions } from "./register.js";
+import { runIdempotent } from "./idempotency.js";
+import { makeCtx } from "./test-context.js";
+
+const createBill = toolDefinitions.find((t) => t.name === "freeagent_create_bill")!;
+const bill = { url: "https://api.freeagent.com/v2/bills/9", dated_on: "2026-04-01", total_value: "12.00" };
+const params = { contact: "5", dated_on: "2026-04-01", bill_items: [{ category: "285", price: "10.00", quantity: "1" }] };
+
+describe("runIdempotent", () => {
+  it("runs a create once per key and replays its result, whatever the argument order", async () => {
+    const ctx = makeCtx({ clientId: "claude" });
+    const run = vi.fn(async () => ({ text: "✅ Created bill 9", structuredContent: { bill } }));
+
+    const first = await runIdempotent(createBill, { ...params, idempotency_key: "k1" }, ctx, run);
+    const retry = await runIdempotent(
+      createBill,
+      { idempotency_key: "k1", bill_items: params.bill_items, dated_on: params.dated_on, contact: params.contact },
+      ctx,
+      run
+    );
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(retry.structuredContent).toEqual(first.structuredContent);
+    expect(retry.text).toContain("nothing new was created");
+
+    // Keys are per client
+    await runIdempotent(createBill, { ...params, idempotency_key: "k1" }, makeCtx({ clientId: "other", idempotencyStore: ctx.idempotencyStore }), run);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses a reused key with other arguments, or while the first call is running", async () => {
+    const ctx = makeCtx();
+    let finish!: () => void;
+    const slow = new Promise<void>((resolve) => (finish = resolve));
+    const run = vi.fn(async () => {
+      await slow;
+      return { text: "✅ Created bill 9", structuredContent: { bill } };
+    });
+
+    const first = runIdempotent(createBill, { ...params, idempotency_key: "k2" }, ctx, run);
+    await vi.waitFor(() => expect(run).toHaveBeenCalled());
+    await expect(
+      runIdempotent(createBill, { ...params, idempotency_key: "k2" }, ctx, run)
+    ).rejects.toThrow("still in progress");
+    finish();
+    await first;
+
+    await expect(
+      runIdempotent(createBill, { ...params, dated_on: "2026-04-02", idempotency_key: "k2" }, ctx, run)
+    ).rejects.toThrow("different arguments");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs only one of two calls that arrive together with the same key", async () => {
+    const ctx = makeCtx();
+    const run = vi.fn(async () => ({ text: "✅ Created bill 9", structuredContent: { bill } }));
+
+    const results = await Promise.allSettled([
+      runIdempotent(createBill, { ...params, idempotency_key: "k4" }, ctx, run),
+      runIdempotent(createBill, { ...params, idempotency_key: "k4" }, ctx, run),
+    ]);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("does not cache failures, so the same key can be retried", async () => {
+    const ctx = makeCtx();
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockResolvedValueOnce({ text: "✅ Created bill 9", structuredContent: { bill } });
+
+    await expect(runIdempotent(createBill, { ...params, idempotency_key: "k3" }, ctx, run)).rejects.toThrow("timeout");
+    await expect(runIdempotent(createBill, { ...params, idempotency_key: "k3" }, ctx, run)).resolves.toMatchObject({
+      structuredContent: { bill },
+    });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Idempotency keys for create tools.
+ *
+ * A create called with `idempotency_key` has its result cached for
+ * IDEMPOTENCY_TTL_MS in ctx.idempotencyStore, keyed by OAuth client, tool and
+ * key. A retry with the same key and arguments gets the cached result back
+ * instead of creating a second record; the same key with other arguments is
+ * an error. While the first call is still running, a retry is told to wait.
+ * Failed calls are not cached, so they can be retried with the same key.
+ */
+
+import crypto from "crypto";
+import type { ToolResult } from "../services/formatter.js";
+import type { ToolContext, ToolDefinition } from "./register.js";
+
+/** How long a create's result is replayed for a repeated key */
+export const IDEMPOTENCY_TTL_MS = 60 * 60 * 1000;
+
+/** Longest a call may hold its key before a retry may run it again */
+const IN_PROGRESS_TTL_MS = 5 * 60 * 1000;
+
+interface CachedCall {
+  fingerprint: string;
+  /** Absent while the first call is still running */
+  result?: ToolResult;
+}
+
+/** JSON with object keys sorted, so argument order does not matter */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fingerprintOf(params: Record<string, unknown>): string {
+  return crypto.createHash("sha256").update(canonicalJson({ ...params, idempotency_key: undefined })).digest("hex");
+}
+
+/**
+ * Run `run` at most once per idempotency key. Calls without a key, and dry
+ * runs, always run.
+ */
+export async function runIdempotent(
+  tool: ToolDefinition,
+  params: Record<string, unknown>,
+  ctx: ToolContext,
+  run: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  const key = params.idempotency_key;
+  if (typeof key !== "string" || params.dry_run === true) return run();
+
+  const storeKey = `idempotency:${ctx.clientId ?? "local"}:${tool.name}:${key}`;
+  const fingerprint = fingerprintOf(params);
+  // Claim the key atomically, so two concurrent calls cannot both run
+  const claimed = await ctx.idempotencyStore.setIfAbsent<CachedCall>(storeKey, { fingerprint }, IN_PROGRESS_TTL_MS);
+  if (!claimed) {
+    const cached = await ctx.idempotencyStore.get<CachedCall>(storeKey);
+    if (cached && cached.fingerprint !== fingerprint) {
+      throw new Error(
+        `idempotency_key '${key}' was already used for a ${tool.name} call with different arguments. Use a new key for a new record.`
+      );
+    }
+    if (!cached?.result) {
+      throw new Error(
+        `A ${tool.name} call with idempotency_key '${key}' is still in progress. Wait a moment, then retry with the same key to get its result.`
+      );
+    }
+    return {
+      ...cached.result,
+      text: `ℹ️ Returning the result of the earlier call with idempotency_key '${key}'; nothing new was created.\n\n${cached.result.text}`,
+    };
+  }
+
+  let result: ToolResult;
+  try {
+    result = await run();
+  } catch (error) {
+    await ctx.idempotencyStore.delete(storeKey);
+    throw error;
+  }
+
+  try {
+    await ctx.idempotencyStore.set<CachedCall>(storeKey, { fingerprint, result }, IDEMPOTENCY_TTL_MS);
+  } catch (error) {
+    // The record was created; only the replay protection is lost
+    console.error(JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: "error",
+      component: "idempotency",
+      message: "Failed to cache result for idempotency key",
+      data: { tool: tool.name, error: error instanceof Error ? error.message : String(error) },
+    }));
+  }
+  return result;
+}
@@ -1,42 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
-import { invoiceFromTimeslips } from "./invoice-from-timeslips.js";
-
-interface Call {
-  method: "get" | "post" | "put";
-  path: string;
-  params?: unknown;
-  body?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string, params?: unknown) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-  put?: (path: string, body?: unknown) => unknown | Error;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string, params?: unknown) => {
-      calls.push({ method: "get", path, params });
-      const data = handlers.get?.(path, params);
-      return { data, headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      const data = handlers.post?.(path, body);
-      return { data, headers: {} };
-    }),
-    put: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "put", path, body });
-      const data = handlers.put?.(path, body);
-      if (data instanceof Error) throw data;
-      return { data, headers: {} };
-    }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+import { invoiceFromTimeslips, roundHours } from "./invoice-from-timeslips.js";
+import { makeClient } from "./test-context.js";
 
 const contactUrl = "https://api.freeagent.com/v2/contacts/1";
+const API_TS = "https://api.freeagent.com/v2/timeslips";
 const projectUrl = "https://api.freeagent.com/v2/projects/10";
 const taskAUrl = "https://api.freeagent.com/v2/tasks/100";
 const taskBUrl = "https://api.freeagent.com/v2/tasks/101";
@@ -108,10 +75,10 @@ describe("invoiceFromTimeslips", () => {
       }),
     });
 
-    const result = await invoiceFromTimeslips(client, { contact: "Acme Ltd", link_timeslips: false });
+    const result = await invoiceFromTimeslips(client, { contact: "Acme Ltd", grouping: "task", link_timeslips: false });
 
-    expect(result).toContain("Drafted invoice 999");
-    expect(result).toContain("11.00");
+    expect(result.text).toContain("Drafted invoice 999");
+    expect(result.text).toContain("11.00");
 
     const post = calls.find((c) => c.method === "post");
     const body = post?.body as { invoice: { invoice_items: unknown[] } };
@@ -141,7 +108,7 @@ describe("invoiceFromTimeslips", () => {
     });
 
     await expect(
-      invoiceFromTimeslips(client, { contact: "Acme Ltd", link_timeslips: false })
+      invoiceFromTimeslips(client, { contact: "Acme Ltd", grouping: "task", link_timeslips: false })
     ).rejects.toThrow(/No unbilled timeslips/);
 
     const timeslipCall = calls.find((c) => c.path === "/timeslips");
@@ -152,6 +119,27 @@ describe("invoiceFromTimeslips", () => {
     });
   });
 
+  it("reads every page of unbilled timeslips", async () => {
+    const slip = (id: number) => ({ url: `/timeslips/${id}`, user: "u/1", project: projectUrl, task: taskBUrl, dated_on: "2026-04-01", hours: "1.0" });
+    const { client, calls } = makeClient({
+      get: (path, params) => {
+        if (path === "/contacts") return { contacts: [contact] };
+        if (path === "/projects") return { projects: [project] };
+        if (path === "/timeslips") return { timeslips: (params as { page: number }).page === 1 ? [slip(1), slip(2)] : [slip(3)] };
+        if (path === taskBUrl) return { task: { url: taskBUrl, project: projectUrl, name: "Implementation", is_billable: true, status: "Active" } };
+      },
+      headers: (path, params): Record<string, string> =>
+        path === "/timeslips" && (params as { page: number }).page === 1 ? { link: `<${API_TS}?page=2>; rel="next"` } : {},
+      post: (_path, body) => ({ invoice: { url: "https://api.freeagent.com/v2/invoices/999", ...(body as { invoice: object }).invoice } }),
+    });
+
+    await invoiceFromTimeslips(client, { contact: "Acme Ltd", grouping: "task", link_timeslips: false });
+
+    expect(calls.filter((c) => c.path === "/timeslips")).toHaveLength(2);
+    const body = calls.find((c) => c.method === "post")?.body as { invoice: { invoice_items: { quantity: string }[] } };
+    expect(body.invoice.invoice_items).toEqual([expect.objectContaining({ quantity: "3.00" })]);
+  });
+
   it("errors when all timeslips are on non-billable tasks", async () => {
     const { client } = makeClient({
       get: (path) => {
@@ -171,7 +159,7 @@ describe("invoiceFromTimeslips", () => {
     });
 
     await expect(
-      invoiceFromTimeslips(client, { contact: "Acme Ltd", link_timeslips: false })
+      invoiceFromTimeslips(client, { contact: "Acme Ltd", grouping: "task", link_timeslips: false })
     ).rejects.toThrow(/non-billable/);
   });
 
@@ -188,7 +176,7 @@ describe("invoiceFromTimeslips", () => {
     });
 
     await expect(
-      invoiceFromTimeslips(client, { contact: "Acme Ltd", project: "10", link_timeslips: false })
+      invoiceFromTimeslips(client, { contact: "Acme Ltd", project: "10", grouping: "task", link_timeslips: false })
     ).rejects.toThrow(/different contact/);
   });
 
@@ -226,7 +214,7 @@ describe("invoiceFromTimeslips", () => {
 
     const result = await invoiceFromTimeslips(client, {
       contact: "Acme Ltd",
-      link_timeslips: true,
+      grouping: "task", link_timeslips: true,
     });
 
     const puts = calls.filter((c) => c.method === "put");
@@ -235,7 +223,8 @@ describe("invoiceFromTimeslips", () => {
     expect(puts[0].body).toMatchObject({
       timeslip: { billed_on_invoice: "https://api.freeagent.com/v2/invoices/777" },
     });
-    expect(result).toContain("Linked 2 timeslip(s)");
+    expect(result.text).toContain("Linked 2 timeslip(s)");
+    expect(result.structuredContent).toMatchObject({ timeslips_linked: 2, link_failures: [] });
   });
 
   it("surfaces timeslip link failures without failing the whole tool", async () => {
@@ -278,11 +267,11 @@ describe("invoiceFromTimeslips", () => {
 
     const result = await invoiceFromTimeslips(client, {
       contact: "Acme Ltd",
-      link_timeslips: true,
+      grouping: "task", link_timeslips: true,
     });
 
-    expect(result).toContain("Linked 1 of 2 timeslip(s)");
-    expect(result).toContain("read-only");
+    expect(result.text).toContain("Linked 1 of 2 timeslip(s)");
+    expect(result.text).toContain("read-only");
   });
 
   it("passes discount_percent through to the invoice payload", async () => {
@@ -318,7 +307,7 @@ describe("invoiceFromTimeslips", () => {
 
     await invoiceFromTimeslips(client, {
       contact: "Acme Ltd",
-      link_timeslips: false,
+      grouping: "task", link_timeslips: false,
       discount_percent: "20",
     });
 
@@ -349,7 +338,168 @@ describe("invoiceFromTimeslips", () => {
     });
 
     await expect(
-      invoiceFromTimeslips(client, { contact: "Acme Ltd", link_timeslips: false })
+      invoiceFromTimeslips(client, { contact: "Acme Ltd", grouping: "task", link_timeslips: false })
     ).rejects.toThrow(/no billing rate/);
   });
+
+  it("previews the draft invoice without posting or linking on a dry run", async () => {
+    const { client, calls } = makeClient({
+      get: (path) => {
+        if (path === "/contacts") return { contacts: [contact] };
+        if (path === "/projects/10") return { project };
+        if (path === "/timeslips") {
+          return {
+            timeslips: [
+              { url: "https://api.freeagent.com/v2/timeslips/1", user: "u/1", project: projectUrl, task: taskAUrl, dated_on: "2026-04-01", hours: "3.0" },
+            ],
+          };
+        }
+        if (path === taskAUrl) {
+          return { task: { url: taskAUrl, project: projectUrl, name: "Discovery", is_billable: true, billing_rate: "100.00", status: "Active" } };
+        }
+      },
+    });
+
+    const result = await invoiceFromTimeslips(client, {
+      contact: "Acme Ltd",
+      project: "10",
+      grouping: "task", link_timeslips: true,
+      dry_run: true,
+    });
+
+    expect(calls.filter((c) => c.method !== "get")).toEqual([]);
+    expect(result.text).toContain("Would then link 1 timeslip(s)");
+    expect(result.structuredContent).toMatchObject({
+      total_hours: 3,
+      timeslips: ["https://api.freeagent.com/v2/timeslips/1"],
+      preview: {
+        method: "POST",
+        path: "/invoices",
+        body: {
+          invoice: {
+            contact: contactUrl,
+            dated_on: "2026-04-23",
+            invoice_items: [{ item_type: "Hours", description: "Discovery", price: "100.00", quantity: "3.00" }],
+          },
+        },
+        resolved: [
+          { field: "contact", hint: "Acme Ltd", url: contactUrl },
+          { field: "project", hint: "10", url: projectUrl },
+        ],
+      },
+    });
+    expect(result.structuredContent).not.toHaveProperty("invoice");
+  });
+});
+
+describe("invoiceFromTimeslips line layout", () => {
+  const userAUrl = "https://api.freeagent.com/v2/users/1";
+  const userBUrl = "https://api.freeagent.com/v2/users/2";
+  const timeslips = [
+    { url: `${API_TS}/4`, user: userBUrl, project: projectUrl, task: taskBUrl, dated_on: "2026-04-02", hours: "0.1", comment: "Deploy" },
+    { url: `${API_TS}/1`, user: userAUrl, project: projectUrl, task: taskAUrl, dated_on: "2026-04-01", hours: "1.1", comment: "Kickoff" },
+    { url: `${API_TS}/3`, user: userAUrl, project: projectUrl, task: taskBUrl, dated_on: "2026-04-02", hours: "2.0" },
+    { url: `${API_TS}/2`, user: userAUrl, project: projectUrl, task: taskAUrl, dated_on: "2026-04-01", hours: "0.6" },
+  ];
+
+  function layoutClient() {
+    return makeClient({
+      get: (path) => {
+        if (path === "/contacts") return { contacts: [contact] };
+        if (path === "/projects") return { projects: [project] };
+        if (path === "/timeslips") return { timeslips };
+        if (path === taskAUrl) {
+          return { task: { url: taskAUrl, project: projectUrl, name: "Discovery", is_billable: true, billing_rate: "120.00", status: "Active" } };
+        }
+        if (path === taskBUrl) {
+          return { task: { url: taskBUrl, project: projectUrl, name: "Implementation", is_billable: true, status: "Active" } };
+        }
+        if (path === userAUrl) return { user: { url: userAUrl, first_name: "Ada", last_name: "Lovelace" } };
+        if (path === userBUrl) return { user: { url: userBUrl, first_name: "Alan", last_name: "Turing" } };
+      },
+      post: () => ({
+        invoice: { url: "https://api.freeagent.com/v2/invoices/1", contact: contactUrl, dated_on: "2026-04-30", currency: "GBP", total_value: "0.00" },
+      }),
+    });
+  }
+
+  const base = {
+    contact: "Acme Ltd",
+    from_date: "2026-04-01",
+    to_date: "2026-04-30",
+    dated_on: "2026-04-30",
+    link_timeslips: false,
+    dry_run: true,
+  };
+
+  async function lines(params: Partial<Parameters<typeof invoiceFromTimeslips>[1]>) {
+    const { client } = layoutClient();
+    const result = await invoiceFromTimeslips(client, { ...base, grouping: "task", ...params });
+    const preview = result.structuredContent.preview as { body: { invoice: { invoice_items: unknown[] } } };
+    return preview.body.invoice.invoice_items;
+  }
+
+  it("groups by day in date order, splitting lines whose rates differ", async () => {
+    expect(await lines({ grouping: "day" })).toEqual([
+      { item_type: "Hours", description: "2026-04-01: Discovery", price: "120.00", quantity: "1.70" },
+      { item_type: "Hours", description: "2026-04-02: Implementation", price: "100.00", quantity: "2.10" },
+    ]);
+  });
+
+  it("rounds each timeslip up to the increment and fills a custom template", async () => {
+    expect(
+      await lines({
+        grouping: "user",
+        rounding: { increment_minutes: 15, direction: "up", per: "timeslip" },
+        description_template: "{user} ({date}): {task}",
+      })
+    ).toEqual([
+      { item_type: "Hours", description: "Ada Lovelace (2026-04-01): Discovery", price: "120.00", quantity: "2.00" },
+      { item_type: "Hours", description: "Ada Lovelace (2026-04-02): Implementation", price: "100.00", quantity: "2.00" },
+      { item_type: "Hours", description: "Alan Turing (2026-04-02): Implementation", price: "100.00", quantity: "0.25" },
+    ]);
+  });
+
+  it("rounds line totals when asked and applies rate overrides by task name or wildcard", async () => {
+    expect(
+      await lines({
+        grouping: "project",
+        rounding: { increment_minutes: 30, direction: "nearest", per: "line" },
+        rate_overrides: { discovery: "90.00", "*": "80.00" },
+      })
+    ).toEqual([
+      { item_type: "Hours", description: "Website Redesign: Discovery", price: "90.00", quantity: "1.50" },
+      { item_type: "Hours", description: "Website Redesign: Implementation", price: "80.00", quantity: "2.00" },
+    ]);
+  });
+
+  it("rejects unknown template placeholders", async () => {
+    await expect(lines({ description_template: "{task} for {client}" })).rejects.toThrow(/Unknown placeholder\(s\).*\{client\}/);
+  });
+
+  it("posts exactly the lines the dry run previewed", async () => {
+    const params = { grouping: "timeslip" as const, rounding: { increment_minutes: 6 as const, direction: "up" as const, per: "timeslip" as const } };
+    const previewed = await lines(params);
+
+    const { client, calls } = layoutClient();
+    await invoiceFromTimeslips(client, { ...base, ...params, dry_run: false });
+
+    expect((calls.find((c) => c.method === "post")?.body as { invoice: { invoice_items: unknown[] } }).invoice.invoice_items).toEqual(previewed);
+    expect(previewed.map((item) => (item as { description: string }).description)).toEqual([
+      "2026-04-01 Discovery: Kickoff",
+      "2026-04-01 Discovery",
+      "2026-04-02 Implementation",
+      "2026-04-02 Implementation: Deploy",
+    ]);
+  });
+});
+
+describe("roundHours", () => {
+  it("rounds in whole increments without float drift", () => {
+    expect(roundHours(0.75, { increment_minutes: 15, direction: "up", per: "timeslip" })).toBe(0.75);
+    expect(roundHours(0.76, { increment_minutes: 15, direction: "up", per: "timeslip" })).toBe(1);
+    expect(roundHours(0.76, { increment_minutes: 30, direction: "down", per: "timeslip" })).toBe(0.5);
+    expect(roundHours(1.24, { increment_minutes: 30, direction: "nearest", per: "timeslip" })).toBe(1);
+    expect(roundHours(1.3, undefined)).toBe(1.3);
+  });
 });
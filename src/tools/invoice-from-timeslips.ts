@@ -2,8 +2,9 @@
  * Intent-bundle tool: create a draft invoice from a contact's unbilled timeslips.
  *
  * Collapses the common contractor-billing workflow into one call:
- *   resolve contact → list projects → list unbilled timeslips → group by task
- *   (fetching task billing rates as needed) → POST /invoices.
+ *   resolve contact → list projects → list unbilled timeslips → group into
+ *   lines (by task, timeslip, day, user or project, with optional rounding
+ *   and rate overrides) → POST /invoices.
  *
  * Writes a DRAFT invoice. The timeslips themselves are NOT marked as billed
  * (FreeAgent requires a separate link step), and that's called out in the
@@ -16,9 +17,12 @@ import type {
   FreeAgentProject,
   FreeAgentTask,
   FreeAgentTimeslip,
+  FreeAgentUser,
 } from "../types.js";
 import type { InvoiceFromTimeslipsInput } from "../schemas/index.js";
-import { extractIdFromUrl } from "../services/formatter.js";
+import { extractIdFromUrl, type ToolResult } from "../services/formatter.js";
+import { listAll } from "../services/pagination.js";
+import { formatWritePreview, type Resolution, type WritePreview } from "../services/preview.js";
 import { resolveContact } from "../services/resolvers.js";
 
 interface InvoiceItem {
@@ -56,11 +60,11 @@ async function findProjectsForContact(
     return [project];
   }
 
-  const response = await client.get<{ projects: FreeAgentProject[] }>(
-    "/projects",
-    { contact: contactUrl, view: "active", per_page: 100 }
-  );
-  const projects = response.data.projects ?? [];
+  const projects = await listAll<FreeAgentProject>(client, "/projects", "projects", {
+    contact: contactUrl,
+    view: "active",
+    per_page: 100,
+  });
   if (projects.length === 0) {
     throw new Error(
       `No active projects found for this contact. Create a project first, or pass \`project\` explicitly.`
@@ -75,33 +79,143 @@ async function collectUnbilledTimeslips(
   fromDate: string,
   toDate: string
 ): Promise<FreeAgentTimeslip[]> {
-  const response = await client.get<{ timeslips: FreeAgentTimeslip[] }>(
-    "/timeslips",
-    {
-      project: project.url,
-      view: "unbilled",
-      from_date: fromDate,
-      to_date: toDate,
-      per_page: 100,
-    }
+  return listAll<FreeAgentTimeslip>(client, "/timeslips", "timeslips", {
+    project: project.url,
+    view: "unbilled",
+    from_date: fromDate,
+    to_date: toDate,
+    per_page: 100,
+  });
+}
+
+type Grouping = InvoiceFromTimeslipsInput["grouping"];
+type Rounding = NonNullable<InvoiceFromTimeslipsInput["rounding"]>;
+
+/** Line description used for each grouping when no template is given. */
+const DEFAULT_TEMPLATES: Record<Grouping, string> = {
+  task: "{task}: {comments}",
+  timeslip: "{date} {task}: {comments}",
+  day: "{date}: {task}",
+  user: "{user}: {task}",
+  project: "{project}: {task}",
+};
+
+const PLACEHOLDERS = ["task", "project", "user", "date", "comments", "hours"];
+
+interface PricedTimeslip {
+  timeslip: FreeAgentTimeslip;
+  project: FreeAgentProject;
+  task: FreeAgentTask;
+  rate: string;
+}
+
+/**
+ * Round hours to the configured increment. Works in whole increments so
+ * float noise (e.g. 0.75 / 0.25 = 2.9999…) cannot tip a value over.
+ */
+export function roundHours(hours: number, rounding?: Rounding): number {
+  if (!rounding) return hours;
+  const step = rounding.increment_minutes / 60;
+  const units = Math.round((hours / step) * 1e6) / 1e6;
+  const rounded =
+    rounding.direction === "down" ? Math.floor(units)
+      : rounding.direction === "nearest" ? Math.round(units)
+        : Math.ceil(units);
+  return rounded * step;
+}
+
+function validateTemplate(template: string): void {
+  const unknown = [...template.matchAll(/\{(\w+)\}/g)]
+    .map((m) => m[1])
+    .filter((name) => !PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown placeholder(s) in description_template: ${unknown.map((n) => `{${n}}`).join(", ")}. ` +
+        `Available: ${PLACEHOLDERS.map((n) => `{${n}}`).join(", ")}.`
+    );
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/**
+ * Fill a description template for one line. Placeholders with nothing to
+ * show become empty, and any separator left dangling at the end is dropped,
+ * so "{task}: {comments}" renders as just the task name when there are no
+ * comments.
+ */
+function renderDescription(
+  template: string,
+  slips: PricedTimeslip[],
+  hours: number,
+  userNames: Map<string, string>
+): string {
+  const dates = slips.map((s) => s.timeslip.dated_on);
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  const values: Record<string, string> = {
+    task: unique(slips.map((s) => s.task.name)).join(", "),
+    project: unique(slips.map((s) => s.project.name)).join(", "),
+    user: unique(slips.map((s) => userNames.get(s.timeslip.user) ?? "")).join(", "),
+    date: first === last ? first : `${first} – ${last}`,
+    comments: unique(slips.map((s) => s.timeslip.comment ?? "")).slice(0, 3).join("; "),
+    hours: hours.toFixed(2),
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (_match, name: string) => values[name])
+    .replace(/[\s:;,–-]+$/, "")
+    .trim();
+}
+
+function overrideRate(
+  overrides: Record<string, string> | undefined,
+  task: FreeAgentTask
+): string | undefined {
+  if (!overrides) return undefined;
+  const byName = Object.entries(overrides).find(
+    ([key]) => key.toLowerCase() === task.name.toLowerCase()
+  );
+  return overrides[task.url] ?? overrides[extractIdFromUrl(task.url)] ?? byName?.[1] ?? overrides["*"];
+}
+
+async function fetchUserNames(
+  client: FreeAgentApiClient,
+  userUrls: string[]
+): Promise<Map<string, string>> {
+  const users = await Promise.all(
+    userUrls.map((url) => client.get<{ user: FreeAgentUser }>(url).then((r) => r.data.user))
+  );
+  return new Map(
+    users.map((u, i) => [userUrls[i], [u.first_name, u.last_name].filter(Boolean).join(" ")] as const)
   );
-  return response.data.timeslips ?? [];
 }
 
+function groupKey(slip: PricedTimeslip, grouping: Grouping): string {
+  switch (grouping) {
+    case "timeslip": return slip.timeslip.url;
+    case "day": return slip.timeslip.dated_on;
+    case "user": return slip.timeslip.user;
+    case "project": return slip.project.url;
+    default: return slip.task.url;
+  }
+}
+
+/**
+ * Turn timeslips into invoice lines. Timeslips are sorted by date (then
+ * URL) before grouping and lines keep that order, so the same input always
+ * produces the same invoice — a dry run and the real call match.
+ */
 async function buildInvoiceItems(
   client: FreeAgentApiClient,
-  project: FreeAgentProject,
-  timeslips: FreeAgentTimeslip[]
+  batches: { project: FreeAgentProject; timeslips: FreeAgentTimeslip[] }[],
+  params: InvoiceFromTimeslipsInput
 ): Promise<InvoiceItem[]> {
-  const byTask = new Map<string, { hours: number; comments: Set<string> }>();
-  for (const ts of timeslips) {
-    const entry = byTask.get(ts.task) ?? { hours: 0, comments: new Set<string>() };
-    entry.hours += parseFloat(ts.hours) || 0;
-    if (ts.comment) entry.comments.add(ts.comment);
-    byTask.set(ts.task, entry);
-  }
+  const template = params.description_template ?? DEFAULT_TEMPLATES[params.grouping];
+  validateTemplate(template);
 
-  const taskUrls = [...byTask.keys()];
+  const taskUrls = unique(batches.flatMap((b) => b.timeslips.map((ts) => ts.task)));
   const tasks = await Promise.all(
     taskUrls.map((url) =>
       client.get<{ task: FreeAgentTask }>(url).then((r) => r.data.task)
@@ -109,29 +223,48 @@ async function buildInvoiceItems(
   );
   const taskByUrl = new Map(tasks.map((t) => [t.url, t] as const));
 
-  const projectRate = project.normal_billing_rate;
-  const items: InvoiceItem[] = [];
+  const priced: PricedTimeslip[] = [];
+  for (const { project, timeslips } of batches) {
+    for (const timeslip of timeslips) {
+      const task = taskByUrl.get(timeslip.task);
+      if (!task || !task.is_billable) continue;
 
-  for (const [taskUrl, { hours, comments }] of byTask) {
-    const task = taskByUrl.get(taskUrl);
-    if (!task) continue;
-    if (!task.is_billable) continue;
-
-    const rate = task.billing_rate ?? projectRate;
-    if (!rate) {
-      throw new Error(
-        `Task "${task.name}" has no billing rate and project "${project.name}" has no normal_billing_rate. Set one before invoicing.`
-      );
+      const rate = overrideRate(params.rate_overrides, task) ?? task.billing_rate ?? project.normal_billing_rate;
+      if (!rate) {
+        throw new Error(
+          `Task "${task.name}" has no billing rate and project "${project.name}" has no normal_billing_rate. Set one, or pass it in \`rate_overrides\`.`
+        );
+      }
+      priced.push({ timeslip, project, task, rate });
     }
+  }
+  priced.sort((a, b) =>
+    a.timeslip.dated_on.localeCompare(b.timeslip.dated_on) || a.timeslip.url.localeCompare(b.timeslip.url)
+  );
+
+  const userNames = template.includes("{user}")
+    ? await fetchUserNames(client, unique(priced.map((p) => p.timeslip.user)))
+    : new Map<string, string>();
 
-    const description = comments.size > 0
-      ? `${task.name}: ${[...comments].slice(0, 3).join("; ")}`
-      : task.name;
+  // Lines with different rates cannot share a price, so the rate is part of the key.
+  const groups = new Map<string, PricedTimeslip[]>();
+  for (const slip of priced) {
+    const key = `${groupKey(slip, params.grouping)}|${slip.rate}`;
+    groups.set(key, [...(groups.get(key) ?? []), slip]);
+  }
+
+  const hoursOf = (slip: PricedTimeslip) => parseFloat(slip.timeslip.hours) || 0;
+  const items: InvoiceItem[] = [];
+  for (const slips of groups.values()) {
+    const hours = params.rounding?.per === "line"
+      ? roundHours(slips.reduce((sum, s) => sum + hoursOf(s), 0), params.rounding)
+      : slips.reduce((sum, s) => sum + roundHours(hoursOf(s), params.rounding), 0);
+    if (hours <= 0) continue;
 
     items.push({
       item_type: "Hours",
-      description,
-      price: rate,
+      description: renderDescription(template, slips, hours, userNames),
+      price: slips[0].rate,
       quantity: hours.toFixed(2),
     });
   }
@@ -169,7 +302,7 @@ async function linkTimeslipsToInvoice(
 export async function invoiceFromTimeslips(
   client: FreeAgentApiClient,
   params: InvoiceFromTimeslipsInput
-): Promise<string> {
+): Promise<ToolResult> {
   const contactUrl = await resolveContact(client, params.contact);
   const fromDate = params.from_date ?? startOfPreviousMonthIso();
   const toDate = params.to_date ?? todayIso();
@@ -199,11 +332,7 @@ export async function invoiceFromTimeslips(
     );
   }
 
-  const items: InvoiceItem[] = [];
-  for (const { project, timeslips } of allTimeslips) {
-    const projectItems = await buildInvoiceItems(client, project, timeslips);
-    items.push(...projectItems);
-  }
+  const items = await buildInvoiceItems(client, allTimeslips, params);
 
   if (items.length === 0) {
     throw new Error(
@@ -226,17 +355,51 @@ export async function invoiceFromTimeslips(
     invoicePayload.discount_percent = params.discount_percent;
   }
 
+  const totalHours = items.reduce((sum, i) => sum + parseFloat(i.quantity), 0);
+  const allTs = allTimeslips.flatMap((p) => p.timeslips);
+
+  if (params.dry_run) {
+    const resolved: Resolution[] = [{ field: "contact", hint: params.contact, url: contactUrl }];
+    if (params.project) {
+      resolved.push({ field: "project", hint: params.project, url: projects[0].url });
+    }
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/invoices",
+      body: { invoice: invoicePayload },
+      resolved,
+    };
+    const notes = [`**Total hours**: ${totalHours.toFixed(2)} from ${allTs.length} timeslip(s)`];
+    if (params.link_timeslips) {
+      notes.push(`🔗 Would then link ${allTs.length} timeslip(s) to the new invoice.`);
+    }
+    return {
+      text: formatWritePreview(preview, notes),
+      structuredContent: {
+        preview,
+        total_hours: Number(totalHours.toFixed(2)),
+        timeslips: allTs.map((ts) => ts.url),
+      },
+    };
+  }
+
   const response = await client.post<{ invoice: FreeAgentInvoice }>("/invoices", {
     invoice: invoicePayload,
   });
   const invoice = response.data.invoice;
   const invoiceId = extractIdFromUrl(invoice.url);
-  const totalHours = items.reduce((sum, i) => sum + parseFloat(i.quantity), 0);
-  const allTs = allTimeslips.flatMap((p) => p.timeslips);
+
+  const structuredContent: Record<string, unknown> = {
+    invoice,
+    total_hours: Number(totalHours.toFixed(2)),
+    timeslips: allTs.map((ts) => ts.url),
+  };
 
   let linkSummary = `ℹ️ The invoice is a DRAFT. Timeslips remain unbilled until linked to the invoice in FreeAgent.`;
   if (params.link_timeslips) {
     const { linked, failures } = await linkTimeslipsToInvoice(client, allTs, invoice.url);
+    structuredContent.timeslips_linked = linked;
+    structuredContent.link_failures = failures;
     if (failures.length === 0) {
       linkSummary = `🔗 Linked ${linked} timeslip(s) to the invoice.`;
     } else {
@@ -246,13 +409,14 @@ export async function invoiceFromTimeslips(
     }
   }
 
-  return (
+  const text =
     `✅ Drafted invoice ${invoiceId} for ${items.length} line item(s)\n\n` +
     `**Contact**: ${invoice.contact}\n` +
     `**Date**: ${invoice.dated_on}\n` +
     `**Total hours**: ${totalHours.toFixed(2)}\n` +
     `**Total value**: ${invoice.currency} ${invoice.total_value}\n` +
     `**URL**: ${invoice.url}\n\n` +
-    linkSummary
-  );
+    linkSummary;
+
+  return { text, structuredContent };
 }
@@ -1,31 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
-import type { ToolContext } from "./register.js";
-import { createInvoice } from "./invoices.js";
-
-interface Call {
-  method: "get" | "post";
-  path: string;
-  body?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string) => {
-      calls.push({ method: "get", path });
-      return { data: handlers.get?.(path), headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      return { data: handlers.post?.(path, body), headers: {} };
-    }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+import { createInvoice, getInvoicePdf, emailInvoice, summarizeInvoiceEmail } from "./invoices.js";
+import { makeClient, makeCtx } from "./test-context.js";
 
 const baseInvoiceResponse = {
   invoice: {
@@ -51,7 +26,7 @@ const baseParams = {
 describe("createInvoice elicitation", () => {
   it("passes a provided contact straight through without eliciting", async () => {
     const elicit = vi.fn();
-    const ctx: ToolContext = { clientSupportsElicitation: true, elicit };
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
     const { client, calls } = makeClient({
       post: () => baseInvoiceResponse,
     });
@@ -74,7 +49,7 @@ describe("createInvoice elicitation", () => {
       action: "accept" as const,
       content: { contact_url: "https://api.freeagent.com/v2/contacts/7" },
     }));
-    const ctx: ToolContext = { clientSupportsElicitation: true, elicit };
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
     const { client, calls } = makeClient({
       get: (path) => {
         if (path === "/contacts") {
@@ -114,14 +89,11 @@ describe("createInvoice elicitation", () => {
     expect(post?.body).toMatchObject({
       invoice: { contact: "https://api.freeagent.com/v2/contacts/7" },
     });
-    expect(result).toContain("Invoice created successfully");
+    expect(result.text).toContain("Invoice created successfully");
   });
 
   it("errors clearly when elicitation is unsupported and contact is missing", async () => {
-    const ctx: ToolContext = {
-      clientSupportsElicitation: false,
-      elicit: vi.fn(),
-    };
+    const ctx = makeCtx();
     const { client } = makeClient({});
 
     await expect(
@@ -131,7 +103,7 @@ describe("createInvoice elicitation", () => {
 
   it("errors when the user cancels the elicitation", async () => {
     const elicit = vi.fn(async () => ({ action: "cancel" as const, content: undefined }));
-    const ctx: ToolContext = { clientSupportsElicitation: true, elicit };
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
     const { client } = makeClient({
       get: () => ({
         contacts: [
@@ -147,7 +119,7 @@ describe("createInvoice elicitation", () => {
 
   it("passes discount_percent through to the invoice payload", async () => {
     const elicit = vi.fn();
-    const ctx: ToolContext = { clientSupportsElicitation: true, elicit };
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
     const { client, calls } = makeClient({
       post: () => baseInvoiceResponse,
     });
@@ -172,7 +144,7 @@ describe("createInvoice elicitation", () => {
         other_url: "https://api.freeagent.com/v2/contacts/42",
       },
     }));
-    const ctx: ToolContext = { clientSupportsElicitation: true, elicit };
+    const ctx = makeCtx({ clientSupportsElicitation: true, elicit });
     const { client, calls } = makeClient({
       get: () => ({
         contacts: [
@@ -190,3 +162,110 @@ describe("createInvoice elicitation", () => {
     });
   });
 });
+
+describe("createInvoice dry run", () => {
+  it("returns the invoice payload without posting", async () => {
+    const ctx = makeCtx();
+    const { client, calls } = makeClient({});
+
+    const result = await createInvoice(client, { ...baseParams, contact: "1", dry_run: true }, ctx);
+
+    expect(calls).toEqual([]);
+    expect(result.structuredContent).toEqual({
+      preview: {
+        method: "POST",
+        path: "/invoices",
+        body: { invoice: { ...baseParams, contact: "https://api.freeagent.com/v2/contacts/1" } },
+        resolved: [{ field: "contact", hint: "1", url: "https://api.freeagent.com/v2/contacts/1" }],
+      },
+    });
+  });
+});
+
+describe("getInvoicePdf", () => {
+  it("returns the PDF as an embedded resource and only metadata as structured content", async () => {
+    const pdf = Buffer.from("%PDF-1.4 test").toString("base64");
+    const { client, calls } = makeClient({
+      get: (path) => {
+        if (path === "/invoices/100") return { invoice: { ...baseInvoiceResponse.invoice, reference: "INV 001" } };
+        if (path === "/invoices/100/pdf") return { pdf: { content: pdf } };
+      },
+    });
+
+    const result = await getInvoicePdf(client, { invoice_id: "https://api.freeagent.com/v2/invoices/100" });
+
+    expect(calls.map((c) => c.path)).toEqual(["/invoices/100", "/invoices/100/pdf"]);
+    expect(result.resources).toEqual([
+      { uri: "https://api.freeagent.com/v2/invoices/100/pdf", mimeType: "application/pdf", blob: pdf },
+    ]);
+    expect(result.structuredContent).toEqual({
+      invoice: "https://api.freeagent.com/v2/invoices/100",
+      filename: "INV_001.pdf",
+      mime_type: "application/pdf",
+      size_bytes: 13,
+      resource_uri: "https://api.freeagent.com/v2/invoices/100/pdf",
+    });
+  });
+});
+
+describe("emailInvoice", () => {
+  const sentInvoice = { invoice: { ...baseInvoiceResponse.invoice, reference: "INV-001", status: "Sent" } };
+
+  it("sends to/cc/subject/body through FreeAgent's send_email endpoint", async () => {
+    const { client, calls } = makeClient({ get: () => sentInvoice, post: () => ({}) });
+
+    const result = await emailInvoice(client, {
+      invoice_id: "100",
+      to: "ap@acme.test, finance@acme.test",
+      cc: "me@example.test",
+      subject: "Invoice INV-001",
+      body: "Hi,\nPlease find attached.",
+    });
+
+    expect(calls[0]).toEqual({
+      method: "post",
+      path: "/invoices/100/send_email",
+      body: {
+        invoice: {
+          email: {
+            to: "ap@acme.test, finance@acme.test",
+            cc: "me@example.test",
+            subject: "Invoice INV-001",
+            body: "Hi,\nPlease find attached.",
+            use_template: false,
+          },
+        },
+      },
+    });
+    expect(result.text).toContain("emailed to ap@acme.test, finance@acme.test");
+    expect(result.structuredContent).toMatchObject({ invoice: sentInvoice.invoice.url });
+  });
+
+  it("uses FreeAgent's template when subject and body are omitted, and rejects half of them", async () => {
+    const { client, calls } = makeClient({ get: () => sentInvoice, post: () => ({}) });
+
+    await emailInvoice(client, { invoice_id: "100", to: "ap@acme.test" });
+    expect(calls[0].body).toEqual({ invoice: { email: { to: "ap@acme.test", use_template: true } } });
+
+    await expect(emailInvoice(client, { invoice_id: "100", to: "ap@acme.test", subject: "Hi" })).rejects.toThrow(
+      /both `subject` and `body`/
+    );
+    await expect(emailInvoice(client, { invoice_id: "100", to: "not-an-email" })).rejects.toThrow(
+      /not valid: not-an-email/
+    );
+  });
+
+  it("previews the email for confirmation", async () => {
+    const { client } = makeClient({ get: () => baseInvoiceResponse });
+
+    const summary = await summarizeInvoiceEmail(client, {
+      invoice_id: "100",
+      to: "ap@acme.test",
+      subject: "Invoice",
+      body: "Line one\nLine two",
+    });
+
+    expect(summary).toContain("**To**: ap@acme.test");
+    expect(summary).toContain("**Subject**: Invoice\n\n> Line one\n> Line two");
+  });
+});
@@ -3,6 +3,10 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
+import { formatWritePreview, type WritePreview } from "../services/preview.js";
+import { findDuplicateInvoices, netValueOfItems } from "../services/duplicates.js";
+import { confirmNotDuplicate } from "./duplicates.js";
 import type { FreeAgentContact, FreeAgentInvoice } from "../types.js";
 import type { ToolContext } from "./register.js";
 import {
@@ -12,21 +16,33 @@ import {
   truncateIfNeeded,
   createPaginationMetadata,
   computeDiscountAmount,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 import type {
   ListInvoicesInput,
   GetInvoiceInput,
+  GetInvoicePdfInput,
+  EmailInvoiceInput,
   CreateInvoiceInput
 } from "../schemas/index.js";
 
+/**
+ * API path for an invoice given its numeric ID or full URL
+ */
+function invoicePath(invoiceId: string): string {
+  return invoiceId.startsWith("http")
+    ? invoiceId.replace(/^https?:\/\/[^/]+\/v2/, "")
+    : `/invoices/${invoiceId}`;
+}
+
 /**
  * List invoices with pagination and filters
  */
 export async function listInvoices(
   client: FreeAgentApiClient,
   params: ListInvoicesInput
-): Promise<string> {
+): Promise<ToolResult> {
   const queryParams: Record<string, string | number> = {
     page: params.page,
     per_page: params.per_page
@@ -54,25 +70,29 @@ export async function listInvoices(
     queryParams.sort = params.sort;
   }
 
-  const response = await client.get<{ invoices: FreeAgentInvoice[] }>(
+  const { items: invoices, pagination } = await fetchList<FreeAgentInvoice>(
+    client,
     "/invoices",
-    queryParams
+    "invoices",
+    queryParams,
+    { allPages: params.all_pages, maxItems: params.max_items }
   );
 
-  const invoices = response.data.invoices || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
+  const data = {
+    invoices,
+    pagination: {
+      page: params.page,
+      per_page: params.per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
 
   const formattedResponse = formatResponse(
-    {
-      invoices,
-      pagination: {
-        page: params.page,
-        per_page: params.per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+    data,
     params.response_format,
     () => {
       const lines: string[] = ["# FreeAgent Invoices", ""];
@@ -81,14 +101,16 @@ export async function listInvoices(
         lines.push(`**View**: ${params.view}`, "");
       }
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page: params.page,
             perPage: params.per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -130,10 +152,13 @@ export async function listInvoices(
     }
   );
 
-  return truncateIfNeeded(formattedResponse, {
-    count: invoices.length,
-    total: pagination.totalCount
-  });
+  return {
+    text: truncateIfNeeded(formattedResponse, {
+      count: invoices.length,
+      total: pagination.totalCount
+    }),
+    structuredContent: data
+  };
 }
 
 /**
@@ -142,13 +167,8 @@ export async function listInvoices(
 export async function getInvoice(
   client: FreeAgentApiClient,
   params: GetInvoiceInput
-): Promise<string> {
-  // Normalize invoice ID
-  const endpoint = params.invoice_id.startsWith("http")
-    ? params.invoice_id.replace(/^https?:\/\/[^/]+\/v2/, "")
-    : `/invoices/${params.invoice_id}`;
-
-  const response = await client.get<{ invoice: FreeAgentInvoice }>(endpoint);
+): Promise<ToolResult> {
+  const response = await client.get<{ invoice: FreeAgentInvoice }>(invoicePath(params.invoice_id));
   const invoice = response.data.invoice;
 
   const formattedResponse = formatResponse(
@@ -250,7 +270,7 @@ export async function getInvoice(
     }
   );
 
-  return formattedResponse;
+  return { text: formattedResponse, structuredContent: { invoice } };
 }
 
 function contactLabel(c: FreeAgentContact): string {
@@ -333,7 +353,7 @@ export async function createInvoice(
   client: FreeAgentApiClient,
   params: CreateInvoiceInput,
   ctx: ToolContext
-): Promise<string> {
+): Promise<ToolResult> {
   const rawContact =
     params.contact ?? (await elicitContact(client, ctx));
 
@@ -369,6 +389,26 @@ export async function createInvoice(
     invoiceData.discount_percent = params.discount_percent;
   }
 
+  if (params.dry_run) {
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/invoices",
+      body: { invoice: invoiceData },
+      resolved: [{ field: "contact", hint: rawContact, url: contact }],
+    };
+    return { text: formatWritePreview(preview), structuredContent: { preview } };
+  }
+
+  if (!params.allow_duplicate) {
+    await confirmNotDuplicate(ctx, "invoice", () =>
+      findDuplicateInvoices(client, {
+        contact,
+        dated_on: params.dated_on,
+        net_value: netValueOfItems(params.invoice_items, params.discount_percent),
+      })
+    );
+  }
+
   const response = await client.post<{ invoice: FreeAgentInvoice }>(
     "/invoices",
     { invoice: invoiceData }
@@ -378,11 +418,147 @@ export async function createInvoice(
   const id = extractIdFromUrl(invoice.url);
   const ref = invoice.reference || id;
 
-  return (
+  const text =
     `✅ Invoice created successfully: ${ref} (ID: ${id})\n\n` +
     `Status: ${invoice.status}\n` +
     `Total: ${formatCurrency(invoice.total_value, invoice.currency)}\n` +
     `URL: ${invoice.url}\n\n` +
-    `Note: Invoice is created in Draft status. Use status transition endpoints to mark as Sent.`
-  );
+    `Note: Invoice is created in Draft status. Use status transition endpoints to mark as Sent.`;
+
+  return { text, structuredContent: { invoice } };
+}
+
+/**
+ * Fetch the rendered PDF of an invoice as an embedded resource
+ */
+export async function getInvoicePdf(
+  client: FreeAgentApiClient,
+  params: GetInvoicePdfInput
+): Promise<ToolResult> {
+  const path = invoicePath(params.invoice_id);
+  const [invoiceResponse, pdfResponse] = await Promise.all([
+    client.get<{ invoice: FreeAgentInvoice }>(path),
+    client.get<{ pdf?: { content?: string } }>(`${path}/pdf`)
+  ]);
+
+  const invoice = invoiceResponse.data.invoice;
+  const id = extractIdFromUrl(invoice.url);
+  const ref = invoice.reference || id;
+
+  const content = pdfResponse.data.pdf?.content;
+  if (!content) {
+    throw new Error(`FreeAgent returned no PDF for invoice ${ref}. Draft invoices may need a contact and at least one line before they can be rendered.`);
+  }
+
+  const filename = `${ref.replace(/[^\w.-]+/g, "_")}.pdf`;
+  const uri = `${invoice.url}/pdf`;
+  const sizeBytes = Buffer.from(content, "base64").length;
+
+  const text =
+    `📄 Invoice ${ref} (ID: ${id}) as PDF\n\n` +
+    `**File**: ${filename} (${(sizeBytes / 1024).toFixed(1)} KB)\n` +
+    `**Status**: ${invoice.status}\n` +
+    `**Total**: ${formatCurrency(invoice.total_value, invoice.currency)}\n\n` +
+    `The PDF is attached as an embedded resource (${uri}).`;
+
+  return {
+    text,
+    structuredContent: {
+      invoice: invoice.url,
+      filename,
+      mime_type: "application/pdf",
+      size_bytes: sizeBytes,
+      resource_uri: uri
+    },
+    resources: [{ uri, mimeType: "application/pdf", blob: content }]
+  };
+}
+
+interface InvoiceEmail {
+  to: string;
+  cc?: string;
+  subject?: string;
+  body?: string;
+  use_template: boolean;
+}
+
+function parseAddresses(field: string, value: string): string {
+  const addresses = value.split(",").map((a) => a.trim()).filter(Boolean);
+  const invalid = addresses.filter((a) => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(a));
+  if (addresses.length === 0 || invalid.length > 0) {
+    throw new Error(
+      `\`${field}\` must be one or more email addresses separated by commas${invalid.length > 0 ? ` (not valid: ${invalid.join(", ")})` : ""}.`
+    );
+  }
+  return addresses.join(", ");
+}
+
+function buildInvoiceEmail(params: EmailInvoiceInput): InvoiceEmail {
+  if (Boolean(params.subject) !== Boolean(params.body)) {
+    throw new Error("Give both `subject` and `body`, or neither to use FreeAgent's invoice email template.");
+  }
+
+  const email: InvoiceEmail = { to: parseAddresses("to", params.to), use_template: !params.subject };
+  if (params.cc) email.cc = parseAddresses("cc", params.cc);
+  if (params.subject && params.body) {
+    email.subject = params.subject;
+    email.body = params.body;
+  }
+  return email;
+}
+
+/**
+ * Preview of the email shown to the user before it is sent
+ */
+export async function summarizeInvoiceEmail(
+  client: FreeAgentApiClient,
+  params: EmailInvoiceInput
+): Promise<string> {
+  const email = buildInvoiceEmail(params);
+  const response = await client.get<{ invoice: FreeAgentInvoice }>(invoicePath(params.invoice_id));
+  const invoice = response.data.invoice;
+  const id = extractIdFromUrl(invoice.url);
+
+  const lines = [
+    "Send this invoice to the client by email from FreeAgent. A draft invoice is marked as sent.",
+    "",
+    `**Invoice**: ${invoice.reference || id} (ID: ${id})`,
+    `**Status**: ${invoice.status}`,
+    `**Total**: ${formatCurrency(invoice.total_value, invoice.currency)}`,
+    `**To**: ${email.to}`
+  ];
+  if (email.cc) lines.push(`**Cc**: ${email.cc}`);
+  if (email.use_template) {
+    lines.push("**Message**: FreeAgent's invoice email template");
+  } else {
+    lines.push(`**Subject**: ${email.subject}`, "", ...email.body!.split("\n").map((line) => `> ${line}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Email an invoice to the client through FreeAgent
+ */
+export async function emailInvoice(
+  client: FreeAgentApiClient,
+  params: EmailInvoiceInput
+): Promise<ToolResult> {
+  const email = buildInvoiceEmail(params);
+  const path = invoicePath(params.invoice_id);
+
+  await client.post(`${path}/send_email`, { invoice: { email } });
+
+  const response = await client.get<{ invoice: FreeAgentInvoice }>(path);
+  const invoice = response.data.invoice;
+  const id = extractIdFromUrl(invoice.url);
+
+  const text =
+    `✅ Invoice ${invoice.reference || id} (ID: ${id}) emailed to ${email.to}\n\n` +
+    (email.cc ? `**Cc**: ${email.cc}\n` : "") +
+    `**Subject**: ${email.use_template ? "FreeAgent template" : email.subject}\n` +
+    `**Status**: ${invoice.status}\n` +
+    `**URL**: ${invoice.url}`;
+
+  return { text, structuredContent: { invoice: invoice.url, email } };
 }
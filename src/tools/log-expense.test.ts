@@ -1,33 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
 import { logExpense } from "./log-expense.js";
+import { makeClient, makeCtx } from "./test-context.js";
 
-interface Call {
-  method: "get" | "post";
-  path: string;
-  params?: unknown;
-  body?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string, params?: unknown) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string, params?: unknown) => {
-      calls.push({ method: "get", path, params });
-      const data = handlers.get?.(path, params);
-      return { data, headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      const data = handlers.post?.(path, body);
-      return { data, headers: {} };
-    }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+const ctx = makeCtx();
 
 const soleUser = {
   url: "https://api.freeagent.com/v2/users/1",
@@ -75,9 +50,10 @@ describe("logExpense", () => {
       amount: "12.50",
       kind: "expense",
       category: "285",
-    });
+      duplicate_window_days: 3,
+    }, ctx);
 
-    expect(result).toContain("Logged expense 500");
+    expect(result.text).toContain("Logged expense 500");
 
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
@@ -112,7 +88,8 @@ describe("logExpense", () => {
       amount: "8.00",
       kind: "refund",
       category: "285",
-    });
+      duplicate_window_days: 3,
+    }, ctx);
 
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
@@ -149,8 +126,9 @@ describe("logExpense", () => {
       amount: "5.00",
       kind: "expense",
       category: "285",
+      duplicate_window_days: 3,
       user: "bob@example.com",
-    });
+    }, ctx);
 
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
@@ -170,17 +148,17 @@ describe("logExpense", () => {
     });
 
     await expect(
-      logExpense(client, { amount: "5.00", kind: "expense", category: "285" })
+      logExpense(client, { amount: "5.00", kind: "expense", category: "285", duplicate_window_days: 3 }, ctx)
     ).rejects.toThrow(/pass the `user` parameter/);
   });
 
   it("rejects a negative or zero amount with actionable guidance", async () => {
     const { client } = makeClient({});
     await expect(
-      logExpense(client, { amount: "-5.00", kind: "expense", category: "285" })
+      logExpense(client, { amount: "-5.00", kind: "expense", category: "285", duplicate_window_days: 3 }, ctx)
     ).rejects.toThrow(/positive decimal/);
     await expect(
-      logExpense(client, { amount: "0", kind: "expense", category: "285" })
+      logExpense(client, { amount: "0", kind: "expense", category: "285", duplicate_window_days: 3 }, ctx)
     ).rejects.toThrow(/positive decimal/);
   });
 
@@ -205,12 +183,50 @@ describe("logExpense", () => {
       amount: "1.00",
       kind: "expense",
       category: "285",
+      duplicate_window_days: 3,
       dated_on: "2026-01-15",
-    });
+    }, ctx);
 
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
       expense: { dated_on: "2026-01-15" },
     });
   });
+
+  it("previews the payload and resolved hints without posting on a dry run", async () => {
+    const { client, calls } = makeClient({
+      get: (path) => {
+        if (path === "/categories/285") return { category: travelCategory };
+        if (path === "/users") return { users: [soleUser] };
+      },
+    });
+
+    const result = await logExpense(client, {
+      amount: "12.50",
+      kind: "expense",
+      category: "285",
+      duplicate_window_days: 3,
+      dry_run: true,
+    }, ctx);
+
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+    expect(result.text).toContain("POST /expenses");
+    expect(result.structuredContent.preview).toEqual({
+      method: "POST",
+      path: "/expenses",
+      body: {
+        expense: {
+          user: soleUser.url,
+          category: travelCategory.url,
+          dated_on: "2026-04-23",
+          gross_value: "-12.50",
+          ec_status: "UK/Non-EC",
+        },
+      },
+      resolved: [
+        { field: "category", hint: "285", url: travelCategory.url },
+        { field: "user", hint: "(sole user on the account)", url: soleUser.url },
+      ],
+    });
+  });
 });
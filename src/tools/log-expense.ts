@@ -17,8 +17,12 @@
 import type { FreeAgentApiClient } from "../services/api-client.js";
 import type { FreeAgentExpense } from "../types.js";
 import type { LogExpenseInput } from "../schemas/index.js";
-import { extractIdFromUrl } from "../services/formatter.js";
+import { extractIdFromUrl, type ToolResult } from "../services/formatter.js";
+import { formatWritePreview, type WritePreview } from "../services/preview.js";
 import { resolveCategory, resolveUser } from "../services/resolvers.js";
+import { findDuplicateExpenses } from "../services/duplicates.js";
+import { confirmNotDuplicate } from "./duplicates.js";
+import type { ToolContext } from "./register.js";
 
 function todayIso(): string {
   return new Date().toISOString().slice(0, 10);
@@ -36,8 +40,9 @@ function toGrossValue(amount: string, kind: "expense" | "refund"): string {
 
 export async function logExpense(
   client: FreeAgentApiClient,
-  params: LogExpenseInput
-): Promise<string> {
+  params: LogExpenseInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
   const kind = params.kind ?? "expense";
   const grossValue = toGrossValue(params.amount, kind);
   const datedOn = params.dated_on ?? todayIso();
@@ -60,18 +65,42 @@ export async function logExpense(
   if (params.receipt_reference) payload.receipt_reference = params.receipt_reference;
   if (params.project) payload.project = params.project;
 
+  if (params.dry_run) {
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/expenses",
+      body: { expense: payload },
+      resolved: [
+        { field: "category", hint: params.category, url: categoryUrl },
+        { field: "user", hint: params.user ?? "(sole user on the account)", url: userUrl },
+      ],
+    };
+    return { text: formatWritePreview(preview), structuredContent: { preview } };
+  }
+
+  if (!params.allow_duplicate) {
+    await confirmNotDuplicate(ctx, "expense", () =>
+      findDuplicateExpenses(
+        client,
+        { user: userUrl, dated_on: datedOn, gross_value: grossValue },
+        params.duplicate_window_days
+      )
+    );
+  }
+
   const response = await client.post<{ expense: FreeAgentExpense }>("/expenses", {
     expense: payload,
   });
   const expense = response.data.expense;
   const expenseId = extractIdFromUrl(expense.url);
 
-  return (
+  const text =
     `✅ Logged ${kind} ${expenseId}\n\n` +
     `**Date**: ${expense.dated_on}\n` +
     `**Amount**: ${expense.currency ?? "GBP"} ${expense.gross_value}\n` +
     `**Category**: ${expense.category}\n` +
     (expense.description ? `**Description**: ${expense.description}\n` : "") +
-    `**URL**: ${expense.url}`
-  );
+    `**URL**: ${expense.url}`;
+
+  return { text, structuredContent: { expense } };
 }
@@ -0,0 +1,25 @@
+/**
+ * Which tools an MCP token's scopes allow.
+ *
+ * Read-only tools (annotations.readOnlyHint) need freeagent:read and
+ * everything else freeagent:write, unless the ToolDefinition names another
+ * scope: the bank explanation and reconciliation tools need freeagent:banking.
+ * See ../services/scopes.ts for the scopes themselves.
+ */
+
+import { SCOPE_READ, SCOPE_WRITE, effectiveScopes, type Scope } from "../services/scopes.js";
+import type { ToolDefinition } from "./register.js";
+
+export function requiredScope(tool: ToolDefinition): Scope {
+  return tool.scope ?? (tool.annotations.readOnlyHint ? SCOPE_READ : SCOPE_WRITE);
+}
+
+/** Whether `scopes` allow calling `tool`. Undefined scopes allow everything. */
+export function isToolPermitted(tool: ToolDefinition, scopes: readonly string[] | undefined): boolean {
+  return scopes === undefined || effectiveScopes(scopes).has(requiredScope(tool));
+}
+
+/** The tools in `catalog` that `scopes` allow */
+export function permittedTools(catalog: ToolDefinition[], scopes: readonly string[] | undefined): ToolDefinition[] {
+  return scopes === undefined ? catalog : catalog.filter((tool) => isToolPermitted(tool, scopes));
+}
@@ -1,35 +1,11 @@
-import { describe, it, expect, vi } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
+import { describe, it, expect } from "vitest";
 import {
   createPriceListItem,
   listPriceListItems,
 } from "./price-list-items.js";
 import { ResponseFormat } from "../constants.js";
-
-interface Call {
-  method: "get" | "post";
-  path: string;
-  body?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string) => {
-      calls.push({ method: "get", path });
-      return { data: handlers.get?.(path), headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      return { data: handlers.post?.(path, body), headers: {} };
-    }),
-    parsePaginationHeaders: () => ({ hasMore: false }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+import { PriceListItemListOutputSchema } from "../schemas/index.js";
+import { makeClient } from "./test-context.js";
 
 describe("price list item tools", () => {
   it("createPriceListItem POSTs the payload under the price_list_item key", async () => {
@@ -80,8 +56,12 @@ describe("price list item tools", () => {
       per_page: 25,
       response_format: ResponseFormat.MARKDOWN,
     });
-    expect(result).toContain("Consulting hour");
-    expect(result).toContain("Hours");
-    expect(result).toContain("120.00");
+    expect(result.text).toContain("Consulting hour");
+    expect(result.text).toContain("Hours");
+    expect(result.text).toContain("120.00");
+    expect(PriceListItemListOutputSchema.parse(result.structuredContent)).toMatchObject({
+      price_list_items: [{ description: "Consulting hour", price: "120.00" }],
+      pagination: { page: 1, per_page: 25, has_more: false },
+    });
   });
 });
@@ -5,6 +5,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentPriceListItem } from "../types.js";
 import type {
   ListPriceListItemsInput,
@@ -15,36 +16,42 @@ import {
   formatResponse,
   createPaginationMetadata,
   extractIdFromUrl,
+  type ToolResult,
 } from "../services/formatter.js";
 
 export async function listPriceListItems(
   client: FreeAgentApiClient,
   params: ListPriceListItemsInput
-): Promise<string> {
-  const { page, per_page, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, response_format } = params;
 
-  const response = await client.get<{ price_list_items: FreeAgentPriceListItem[] }>(
+  const { items: items, pagination } = await fetchList<FreeAgentPriceListItem>(
+    client,
     "/price_list_items",
-    { page: page.toString(), per_page: per_page.toString() }
+    "price_list_items",
+    { page: page.toString(), per_page: per_page.toString() },
+    { allPages: all_pages, maxItems: max_items }
   );
-  const items = response.data.price_list_items ?? [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
-  return formatResponse(
-    {
-      price_list_items: items,
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage,
-      },
+  const data = {
+    price_list_items: items,
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
     },
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Price List", ""];
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
@@ -52,6 +59,8 @@ export async function listPriceListItems(
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
             nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt,
           })
         );
         lines.push("");
@@ -67,12 +76,14 @@ export async function listPriceListItems(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 export async function getPriceListItem(
   client: FreeAgentApiClient,
   params: GetPriceListItemInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { price_list_item_id, response_format } = params;
   const url = price_list_item_id.startsWith("http")
     ? price_list_item_id
@@ -81,7 +92,7 @@ export async function getPriceListItem(
   const response = await client.get<{ price_list_item: FreeAgentPriceListItem }>(url);
   const item = response.data.price_list_item;
 
-  return formatResponse(
+  const text = formatResponse(
     item,
     response_format,
     () => {
@@ -94,12 +105,14 @@ export async function getPriceListItem(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { price_list_item: item } };
 }
 
 export async function createPriceListItem(
   client: FreeAgentApiClient,
   params: CreatePriceListItemInput
-): Promise<string> {
+): Promise<ToolResult> {
   const payload: Record<string, unknown> = {
     description: params.description,
     price: params.price,
@@ -115,11 +128,12 @@ export async function createPriceListItem(
   const item = response.data.price_list_item;
   const id = extractIdFromUrl(item.url);
 
-  return (
+  const text =
     `✅ Created price list item ${id}\n\n` +
     `**Description**: ${item.description}\n` +
     `**Type**: ${item.item_type}\n` +
     `**Price**: ${item.price}\n` +
-    `**URL**: ${item.url}`
-  );
+    `**URL**: ${item.url}`;
+
+  return { text, structuredContent: { price_list_item: item } };
 }
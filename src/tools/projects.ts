@@ -1,5 +1,7 @@
 import { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import { ResponseFormat } from "../constants.js";
+import type { ToolResult } from "../services/formatter.js";
 import type { FreeAgentProject } from "../types.js";
 import type { ListProjectsInput, GetProjectInput, CreateProjectInput } from "../schemas/index.js";
 
@@ -9,26 +11,44 @@ import type { ListProjectsInput, GetProjectInput, CreateProjectInput } from "../
 export async function listProjects(
   apiClient: FreeAgentApiClient,
   params: ListProjectsInput
-): Promise<string> {
-  const queryParams = new URLSearchParams();
+): Promise<ToolResult> {
+  const queryParams: Record<string, string> = {};
 
-  if (params.view) queryParams.set("view", params.view);
-  if (params.contact) queryParams.set("contact", params.contact);
-  if (params.page) queryParams.set("page", params.page.toString());
-  if (params.per_page) queryParams.set("per_page", params.per_page.toString());
+  if (params.view) queryParams.view = params.view;
+  if (params.contact) queryParams.contact = params.contact;
+  if (params.page) queryParams.page = params.page.toString();
+  if (params.per_page) queryParams.per_page = params.per_page.toString();
 
-  const url = `/projects${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-  const response = await apiClient.get<{ projects: FreeAgentProject[] }>(url);
+  const { items: projects, pagination } = await fetchList<FreeAgentProject>(
+    apiClient,
+    "/projects",
+    "projects",
+    queryParams,
+    { allPages: params.all_pages, maxItems: params.max_items }
+  );
 
-  if (!response.data.projects || response.data.projects.length === 0) {
-    return "No projects found.";
+  const data = {
+    projects,
+    pagination: {
+      page: params.page,
+      per_page: params.per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
+    },
+  };
+
+  if (projects.length === 0) {
+    return { text: "No projects found.", structuredContent: data };
   }
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify(response.data.projects, null, 2);
+    return { text: JSON.stringify(projects, null, 2), structuredContent: data };
   }
 
-  const projectList = response.data.projects
+  const projectList = projects
     .map((project: FreeAgentProject) => {
       return [
         `Project: ${project.name}`,
@@ -46,7 +66,11 @@ export async function listProjects(
     })
     .join("\n\n");
 
-  return `Found ${response.data.projects.length} project(s):\n\n${projectList}`;
+  const more = pagination.hasMore && pagination.nextPage
+    ? `\n\nMore results available - use page=${pagination.nextPage} to continue.`
+    : "";
+
+  return { text: `Found ${projects.length} project(s):\n\n${projectList}${more}`, structuredContent: data };
 }
 
 /**
@@ -55,13 +79,13 @@ export async function listProjects(
 export async function getProject(
   apiClient: FreeAgentApiClient,
   params: GetProjectInput
-): Promise<string> {
+): Promise<ToolResult> {
   const projectId = params.project_id.replace(/^.*\/projects\//, "");
   const response = await apiClient.get<{ project: FreeAgentProject }>(`/projects/${projectId}`);
   const project = response.data.project;
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify(project, null, 2);
+    return { text: JSON.stringify(project, null, 2), structuredContent: { project } };
   }
 
   const details = [
@@ -87,7 +111,7 @@ export async function getProject(
     .filter(Boolean)
     .join("\n");
 
-  return details;
+  return { text: details, structuredContent: { project } };
 }
 
 /**
@@ -96,7 +120,7 @@ export async function getProject(
 export async function createProject(
   apiClient: FreeAgentApiClient,
   params: CreateProjectInput
-): Promise<string> {
+): Promise<ToolResult> {
   const projectData: Record<string, unknown> = {
     contact: params.contact,
     name: params.name,
@@ -121,7 +145,7 @@ export async function createProject(
   const response = await apiClient.post<{ project: FreeAgentProject }>("/projects", { project: projectData });
   const project = response.data.project;
 
-  return [
+  const text = [
     `Project created successfully!`,
     `  Name: ${project.name}`,
     `  URL: ${project.url}`,
@@ -130,4 +154,6 @@ export async function createProject(
     `  Budget: ${project.budget} ${project.budget_units}`,
     `  Currency: ${project.currency}`,
   ].join("\n");
+
+  return { text, structuredContent: { project } };
 }
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FreeAgentBankTransaction } from "../types.js";
+import { proposeMatches, reconcileBankAccount, type MatchCandidate } from "./reconcile-bank-account.js";
+import { makeClient, makeCtx } from "./test-context.js";
+
+const API = "https://api.freeagent.com/v2";
+const accountUrl = `${API}/bank_accounts/7`;
+
+function tx(id: number, dated_on: string, gross_value: string, description?: string): FreeAgentBankTransaction {
+  return { url: `${API}/bank_transactions/${id}`, bank_account: accountUrl, dated_on, gross_value, description };
+}
+
+function invoice(id: number, reference: string, due_value: string, dated_on = "2026-03-01", due_on = "2026-03-31"): MatchCandidate {
+  return { kind: "invoice", url: `${API}/invoices/${id}`, reference, dated_on, due_on, due_value };
+}
+
+const bill: MatchCandidate = {
+  kind: "bill",
+  url: `${API}/bills/5`,
+  reference: "SUP-99",
+  dated_on: "2026-03-10",
+  due_on: "2026-04-10",
+  due_value: "120.00",
+};
+
+const noElicitation = makeCtx();
+
+describe("proposeMatches", () => {
+  it("scores amount, date and reference, matching money in to invoices and out to bills", () => {
+    const proposals = proposeMatches(
+      [tx(1, "2026-03-20", "500.00", "ACME LTD INV-001"), tx(2, "2026-04-01", "-120.00", "SUPPLIER CO")],
+      [invoice(9, "INV-001", "500.00")],
+      [bill],
+      30
+    );
+
+    expect(proposals).toEqual([
+      expect.objectContaining({
+        bank_transaction: `${API}/bank_transactions/1`,
+        match: expect.objectContaining({ url: `${API}/invoices/9` }),
+        confidence: 1,
+      }),
+      expect.objectContaining({
+        bank_transaction: `${API}/bank_transactions/2`,
+        match: expect.objectContaining({ kind: "bill" }),
+        confidence: 0.7,
+      }),
+    ]);
+    expect(proposals[0].reasons).toContain("reference INV-001 appears in the bank description");
+  });
+
+  it("skips amounts that differ and dates outside the window", () => {
+    const proposals = proposeMatches(
+      [tx(1, "2026-03-20", "499.99"), tx(2, "2026-06-30", "500.00")],
+      [invoice(9, "INV-001", "500.00")],
+      [],
+      30
+    );
+
+    expect(proposals).toEqual([]);
+  });
+
+  it("uses each invoice once and lowers confidence when candidates tie", () => {
+    const proposals = proposeMatches(
+      [tx(1, "2026-03-20", "500.00", "PAYMENT INV-002"), tx(2, "2026-03-21", "500.00", "PAYMENT")],
+      [invoice(9, "INV-001", "500.00"), invoice(10, "INV-002", "500.00")],
+      [],
+      30
+    );
+
+    expect(proposals.map((p) => [p.bank_transaction, p.match.url])).toEqual([
+      [`${API}/bank_transactions/1`, `${API}/invoices/10`],
+      [`${API}/bank_transactions/2`, `${API}/invoices/9`],
+    ]);
+    expect(proposals[1].confidence).toBe(0.42);
+    expect(proposals[1].reasons).toContain("1 other candidate(s) score almost as well");
+  });
+});
+
+describe("reconcileBankAccount", () => {
+  const transactions = [tx(1, "2026-03-20", "500.00", "ACME INV-001"), tx(2, "2026-03-22", "75.00", "UNKNOWN")];
+  const openInvoice = {
+    url: `${API}/invoices/9`,
+    contact: `${API}/contacts/1`,
+    reference: "INV-001",
+    dated_on: "2026-03-01",
+    due_on: "2026-03-31",
+    currency: "GBP",
+    total_value: "500.00",
+    due_value: "500.00",
+    status: "Open",
+  };
+
+  function accountClient() {
+    return makeClient({
+      get: (path) => {
+        if (path === "/bank_transactions") return { bank_transactions: transactions };
+        if (path === "/invoices") return { invoices: [openInvoice] };
+        if (path.endsWith("/bank_transactions/1")) return { bank_transaction: transactions[0] };
+      },
+      post: (_path, body) => ({
+        bank_transaction_explanation: {
+          url: `${API}/bank_transaction_explanations/300`,
+          ...(body as { bank_transaction_explanation: object }).bank_transaction_explanation,
+        },
+      }),
+    });
+  }
+
+  it("returns proposals without writing when the client cannot elicit", async () => {
+    const { client, calls } = accountClient();
+
+    const result = await reconcileBankAccount(
+      client,
+      { bank_account: "7", date_window_days: 30, min_confidence: 0.5, max_transactions: 100 },
+      noElicitation
+    );
+
+    expect(calls.find((c) => c.path === "/bank_transactions")?.params).toMatchObject({
+      bank_account: accountUrl,
+      view: "unexplained",
+    });
+    expect(calls.some((c) => c.path === "/bills")).toBe(false);
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+    expect(result.text).toContain("Nothing has been applied");
+    expect(result.structuredContent).toMatchObject({
+      bank_account: accountUrl,
+      proposals: [{ bank_transaction: `${API}/bank_transactions/1`, confidence: 1 }],
+      unmatched: [`${API}/bank_transactions/2`],
+      applied: [],
+    });
+  });
+
+  it("applies only the matches ticked in the elicitation form", async () => {
+    const { client, calls } = accountClient();
+    const elicit = vi.fn(async () => ({ action: "accept" as const, content: { tx_1: true } }));
+
+    const result = await reconcileBankAccount(
+      client,
+      { bank_account: accountUrl, date_window_days: 30, min_confidence: 0.5, max_transactions: 100 },
+      makeCtx({ clientSupportsElicitation: true, elicit })
+    );
+
+    expect(elicit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestedSchema: expect.objectContaining({
+          properties: { tx_1: expect.objectContaining({ type: "boolean", default: true }) },
+        }),
+      })
+    );
+    const posts = calls.filter((c) => c.method === "post");
+    expect(posts).toHaveLength(1);
+    expect(posts[0].body).toMatchObject({
+      bank_transaction_explanation: { bank_transaction: transactions[0].url, paid_invoice: openInvoice.url },
+    });
+    expect(result.structuredContent.applied).toEqual([
+      {
+        bank_transaction: transactions[0].url,
+        match: openInvoice.url,
+        explanation: `${API}/bank_transaction_explanations/300`,
+      },
+    ]);
+  });
+
+  it("applies approved pairs directly and rejects matches that are not invoice or bill URLs", async () => {
+    const { client, calls } = accountClient();
+    const base = { bank_account: "7", date_window_days: 30, min_confidence: 0.5, max_transactions: 100 };
+
+    const result = await reconcileBankAccount(
+      client,
+      { ...base, approve: [{ bank_transaction: "1", match: openInvoice.url }] },
+      noElicitation
+    );
+
+    expect(calls.some((c) => c.path === "/bank_transactions")).toBe(false);
+    expect(result.structuredContent.applied).toHaveLength(1);
+
+    await expect(
+      reconcileBankAccount(client, { ...base, approve: [{ bank_transaction: "1", match: "INV-001" }] }, noElicitation)
+    ).rejects.toThrow(/must be an invoice or bill URL/);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Bulk reconciliation: match a bank account's unexplained transactions to
+ * open invoices and bills.
+ *
+ * Walks the `unexplained` view of the account and scores each transaction
+ * against every open invoice (money in) or bill (money out):
+ *   - the amount must equal what is still due on the invoice or bill
+ *   - the closer the transaction date is to the dated_on → due_on range, the
+ *     higher the score; beyond `date_window_days` it is not a candidate
+ *   - the reference appearing in the bank description adds a strong boost
+ * Each invoice or bill is matched to at most one transaction, best score first.
+ *
+ * Nothing is written until the user approves. Clients with form elicitation
+ * get a checklist of the proposals; others receive the proposals and call
+ * again with `approve`. Approved matches are applied through
+ * reconcileBankTransaction, one explanation each.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { FreeAgentBankTransaction, FreeAgentBill, FreeAgentInvoice } from "../types.js";
+import type { ReconcileBankAccountInput } from "../schemas/index.js";
+import { extractIdFromUrl, type ToolResult } from "../services/formatter.js";
+import { listAll, listUpTo } from "../services/pagination.js";
+import type { ToolContext } from "./register.js";
+import { reconcileBankTransaction } from "./reconcile.js";
+
+export interface MatchCandidate {
+  kind: "invoice" | "bill";
+  url: string;
+  reference?: string;
+  dated_on?: string;
+  due_on?: string;
+  due_value: string;
+}
+
+export interface MatchProposal {
+  bank_transaction: string;
+  dated_on: string;
+  gross_value: string;
+  description?: string;
+  match: MatchCandidate;
+  confidence: number;
+  reasons: string[];
+}
+
+interface ScoredPair {
+  tx: FreeAgentBankTransaction;
+  candidate: MatchCandidate;
+  score: number;
+  reasons: string[];
+}
+
+const AMOUNT_SCORE = 0.5;
+const DATE_SCORE = 0.2;
+const REFERENCE_SCORE = 0.3;
+/** A runner-up this close to the best match makes the pick a coin toss. */
+const AMBIGUITY_MARGIN = 0.1;
+const AMBIGUITY_PENALTY = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS);
+}
+
+/** Days from `date` to the candidate's dated_on → due_on range; 0 inside it. */
+function daysOutsideTerms(date: string, candidate: MatchCandidate): number | undefined {
+  if (!candidate.dated_on) return undefined;
+  const start = candidate.dated_on;
+  const end = candidate.due_on ?? candidate.dated_on;
+  if (date >= start && date <= end) return 0;
+  return date < start ? daysBetween(date, start) : daysBetween(date, end);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function scorePair(
+  tx: FreeAgentBankTransaction,
+  candidate: MatchCandidate,
+  windowDays: number
+): ScoredPair | undefined {
+  const amount = Math.abs(parseFloat(tx.gross_value));
+  const due = parseFloat(candidate.due_value);
+  if (!Number.isFinite(amount) || !Number.isFinite(due) || Math.abs(amount - due) >= 0.005) {
+    return undefined;
+  }
+
+  const days = daysOutsideTerms(tx.dated_on, candidate);
+  if (days !== undefined && days > windowDays) return undefined;
+
+  let score = AMOUNT_SCORE;
+  const reasons = ["amount matches the outstanding balance"];
+
+  if (days !== undefined) {
+    score += DATE_SCORE * (1 - days / (windowDays + 1));
+    reasons.push(days === 0 ? "dated within its payment terms" : `${days} day(s) outside its payment terms`);
+  }
+
+  const ref = candidate.reference ? normalize(candidate.reference) : "";
+  if (ref.length >= 3 && tx.description && normalize(tx.description).includes(ref)) {
+    score += REFERENCE_SCORE;
+    reasons.push(`reference ${candidate.reference} appears in the bank description`);
+  }
+
+  return { tx, candidate, score, reasons };
+}
+
+/**
+ * Propose at most one match per transaction. Money in is matched against
+ * invoices and money out against bills. Exported for testability.
+ */
+export function proposeMatches(
+  transactions: FreeAgentBankTransaction[],
+  invoices: MatchCandidate[],
+  bills: MatchCandidate[],
+  windowDays: number
+): MatchProposal[] {
+  const pairs: ScoredPair[] = [];
+  const pairsByTx = new Map<string, ScoredPair[]>();
+  for (const tx of transactions) {
+    const candidates = parseFloat(tx.gross_value) > 0 ? invoices : bills;
+    const scored = candidates
+      .map((c) => scorePair(tx, c, windowDays))
+      .filter((p): p is ScoredPair => p !== undefined);
+    pairs.push(...scored);
+    pairsByTx.set(tx.url, scored);
+  }
+
+  pairs.sort((a, b) => b.score - a.score);
+  const usedTx = new Set<string>();
+  const usedCandidates = new Set<string>();
+  const proposals: MatchProposal[] = [];
+
+  for (const pair of pairs) {
+    if (usedTx.has(pair.tx.url) || usedCandidates.has(pair.candidate.url)) continue;
+    usedTx.add(pair.tx.url);
+    usedCandidates.add(pair.candidate.url);
+
+    const rivals = (pairsByTx.get(pair.tx.url) ?? []).filter(
+      (p) => p !== pair && pair.score - p.score < AMBIGUITY_MARGIN
+    );
+    let confidence = pair.score;
+    const reasons = [...pair.reasons];
+    if (rivals.length > 0) {
+      confidence *= AMBIGUITY_PENALTY;
+      reasons.push(`${rivals.length} other candidate(s) score almost as well`);
+    }
+
+    proposals.push({
+      bank_transaction: pair.tx.url,
+      dated_on: pair.tx.dated_on,
+      gross_value: pair.tx.gross_value,
+      description: pair.tx.description,
+      match: pair.candidate,
+      confidence: Number(confidence.toFixed(2)),
+      reasons,
+    });
+  }
+
+  return proposals.sort((a, b) => b.confidence - a.confidence);
+}
+
+function toCandidate(kind: "invoice" | "bill", doc: FreeAgentInvoice | FreeAgentBill): MatchCandidate {
+  return {
+    kind,
+    url: doc.url,
+    reference: doc.reference,
+    dated_on: doc.dated_on,
+    due_on: doc.due_on,
+    due_value: doc.due_value ?? doc.total_value,
+  };
+}
+
+function matchKind(url: string): "invoice" | "bill" | undefined {
+  if (/^https?:\/\/.+\/invoices\/\d+$/.test(url)) return "invoice";
+  if (/^https?:\/\/.+\/bills\/\d+$/.test(url)) return "bill";
+  return undefined;
+}
+
+interface ApplyOutcome {
+  applied: { bank_transaction: string; match: string; explanation: string }[];
+  failures: { bank_transaction: string; match: string; error: string }[];
+}
+
+async function applyMatches(
+  client: FreeAgentApiClient,
+  approved: { bank_transaction: string; match: string }[]
+): Promise<ApplyOutcome> {
+  const outcome: ApplyOutcome = { applied: [], failures: [] };
+  for (const { bank_transaction, match } of approved) {
+    const link = matchKind(match) === "invoice" ? { paid_invoice: match } : { paid_bill: match };
+    try {
+      const result = await reconcileBankTransaction(client, { bank_transaction_id: bank_transaction, ...link });
+      const explanation = result.structuredContent.bank_transaction_explanation as { url: string };
+      outcome.applied.push({ bank_transaction, match, explanation: explanation.url });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcome.failures.push({ bank_transaction, match, error: message });
+    }
+  }
+  return outcome;
+}
+
+function formatOutcome(outcome: ApplyOutcome): string {
+  if (outcome.applied.length === 0 && outcome.failures.length === 0) {
+    return "ℹ️ No matches were approved, so nothing was applied.";
+  }
+  const lines = [`✅ Applied ${outcome.applied.length} match(es).`];
+  for (const a of outcome.applied) {
+    lines.push(`- ${extractIdFromUrl(a.bank_transaction)} → ${a.match} (explanation ${extractIdFromUrl(a.explanation)})`);
+  }
+  if (outcome.failures.length > 0) {
+    lines.push("", `⚠️ ${outcome.failures.length} failed:`);
+    for (const f of outcome.failures) {
+      lines.push(`- ${extractIdFromUrl(f.bank_transaction)} → ${f.match}: ${f.error}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function proposalLine(p: MatchProposal): string {
+  const label = p.match.reference ?? extractIdFromUrl(p.match.url);
+  const desc = p.description ? ` "${p.description}"` : "";
+  return `${p.dated_on} ${p.gross_value}${desc} → ${p.match.kind} ${label} (${Math.round(p.confidence * 100)}%)`;
+}
+
+async function askForApproval(
+  ctx: ToolContext,
+  bankAccountUrl: string,
+  proposals: MatchProposal[]
+): Promise<MatchProposal[]> {
+  const properties: Record<string, { type: "boolean"; title: string; description: string; default: boolean }> = {};
+  for (const p of proposals) {
+    properties[`tx_${extractIdFromUrl(p.bank_transaction)}`] = {
+      type: "boolean",
+      title: proposalLine(p),
+      description: p.reasons.join("; "),
+      default: p.confidence >= 0.8,
+    };
+  }
+
+  const result = await ctx.elicit({
+    message:
+      `Found ${proposals.length} suggested match(es) for bank account ${extractIdFromUrl(bankAccountUrl)}. ` +
+      `Tick the ones to explain in FreeAgent.`,
+    requestedSchema: { type: "object", properties },
+  });
+
+  if (result.action !== "accept" || !result.content) return [];
+  const content = result.content;
+  return proposals.filter((p) => content[`tx_${extractIdFromUrl(p.bank_transaction)}`] === true);
+}
+
+export async function reconcileBankAccount(
+  client: FreeAgentApiClient,
+  params: ReconcileBankAccountInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const bankAccountUrl = params.bank_account.startsWith("http")
+    ? params.bank_account
+    : client.resourceUrl(`/bank_accounts/${params.bank_account}`);
+
+  if (params.approve) {
+    const invalid = params.approve.filter((a) => !matchKind(a.match));
+    if (invalid.length > 0) {
+      throw new Error(
+        `Each approved \`match\` must be an invoice or bill URL, as proposed by this tool. Got: ${invalid.map((a) => a.match).join(", ")}`
+      );
+    }
+    const outcome = await applyMatches(client, params.approve);
+    const structuredContent = {
+      bank_account: bankAccountUrl,
+      proposals: [],
+      unmatched: [],
+      has_more: false,
+      ...outcome,
+    };
+    return { text: formatOutcome(outcome), structuredContent };
+  }
+
+  const txParams: Record<string, string | number> = {
+    bank_account: bankAccountUrl,
+    view: "unexplained",
+    per_page: 100,
+  };
+  if (params.from_date) txParams.from_date = params.from_date;
+  if (params.to_date) txParams.to_date = params.to_date;
+
+  const { items: transactions, hasMore } = await listUpTo<FreeAgentBankTransaction>(
+    client, "/bank_transactions", "bank_transactions", txParams, params.max_transactions
+  );
+
+  const hasMoneyIn = transactions.some((tx) => parseFloat(tx.gross_value) > 0);
+  const hasMoneyOut = transactions.some((tx) => parseFloat(tx.gross_value) < 0);
+  const [invoices, bills] = await Promise.all([
+    hasMoneyIn
+      ? listAll<FreeAgentInvoice>(client, "/invoices", "invoices", { view: "open_or_overdue", per_page: 100 })
+      : [],
+    hasMoneyOut
+      ? listAll<FreeAgentBill>(client, "/bills", "bills", { view: "open", per_page: 100 })
+      : [],
+  ]);
+
+  const proposals = proposeMatches(
+    transactions,
+    invoices.map((inv) => toCandidate("invoice", inv)),
+    bills.map((bill) => toCandidate("bill", bill)),
+    params.date_window_days
+  ).filter((p) => p.confidence >= params.min_confidence);
+
+  const proposed = new Set(proposals.map((p) => p.bank_transaction));
+  const unmatched = transactions.filter((tx) => !proposed.has(tx.url)).map((tx) => tx.url);
+
+  let outcome: ApplyOutcome | undefined;
+  if (proposals.length > 0 && ctx.clientSupportsElicitation) {
+    const approved = await askForApproval(ctx, bankAccountUrl, proposals);
+    outcome = await applyMatches(
+      client,
+      approved.map((p) => ({ bank_transaction: p.bank_transaction, match: p.match.url }))
+    );
+  }
+
+  const lines: string[] = [
+    `# Bank reconciliation: account ${extractIdFromUrl(bankAccountUrl)}`,
+    "",
+    `Checked ${transactions.length} unexplained transaction(s)${hasMore ? ` (stopped at max_transactions=${params.max_transactions})` : ""}: ` +
+      `${proposals.length} matched, ${unmatched.length} unmatched.`,
+  ];
+
+  if (proposals.length > 0) {
+    lines.push("", "## Proposed matches");
+    for (const p of proposals) {
+      lines.push(`- ${proposalLine(p)} — ${p.reasons.join("; ")}`);
+      lines.push(`  bank_transaction: ${p.bank_transaction}, match: ${p.match.url}, due: ${p.match.due_value}`);
+    }
+  }
+
+  if (outcome) {
+    lines.push("", formatOutcome(outcome));
+  } else if (proposals.length > 0) {
+    lines.push(
+      "",
+      "ℹ️ Nothing has been applied. Show these to the user, then call freeagent_reconcile_bank_account again with `approve: [{ bank_transaction, match }, ...]` for the ones they accept."
+    );
+  }
+
+  const structuredContent = {
+    bank_account: bankAccountUrl,
+    proposals,
+    unmatched,
+    has_more: hasMore,
+    applied: outcome?.applied ?? [],
+    failures: outcome?.failures ?? [],
+  };
+  return { text: lines.join("\n"), structuredContent };
+}
@@ -1,33 +1,6 @@
-import { describe, it, expect, vi } from "vitest";
-import type { FreeAgentApiClient } from "../services/api-client.js";
+import { describe, it, expect } from "vitest";
 import { reconcileBankTransaction } from "./reconcile.js";
-
-interface Call {
-  method: "get" | "post";
-  path: string;
-  params?: unknown;
-  body?: unknown;
-}
-
-function makeClient(handlers: {
-  get?: (path: string, params?: unknown) => unknown;
-  post?: (path: string, body?: unknown) => unknown;
-}): { client: FreeAgentApiClient; calls: Call[] } {
-  const calls: Call[] = [];
-  const client = {
-    get: vi.fn(async (path: string, params?: unknown) => {
-      calls.push({ method: "get", path, params });
-      const data = handlers.get?.(path, params);
-      return { data, headers: {} };
-    }),
-    post: vi.fn(async (path: string, body?: unknown) => {
-      calls.push({ method: "post", path, body });
-      const data = handlers.post?.(path, body);
-      return { data, headers: {} };
-    }),
-  } as unknown as FreeAgentApiClient;
-  return { client, calls };
-}
+import { makeClient } from "./test-context.js";
 
 const baseTx = {
   url: "https://api.freeagent.com/v2/bank_transactions/42",
@@ -69,8 +42,8 @@ describe("reconcileBankTransaction", () => {
       description: "Uber to client meeting",
     });
 
-    expect(result).toContain("✅ Reconciled bank transaction 42");
-    expect(result).toContain("/categories/285");
+    expect(result.text).toContain("✅ Reconciled bank transaction 42");
+    expect(result.text).toContain("/categories/285");
 
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
@@ -213,7 +186,8 @@ describe("reconcileBankTransaction", () => {
       paid_invoice: "INV-001",
     });
 
-    expect(result).toContain("Paid invoice: " + invoiceUrl);
+    expect(result.text).toContain("Paid invoice: " + invoiceUrl);
+    expect(result.structuredContent.linked_to).toEqual({ kind: "invoice", url: invoiceUrl });
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
       bank_transaction_explanation: { paid_invoice: invoiceUrl },
@@ -269,10 +243,54 @@ describe("reconcileBankTransaction", () => {
       paid_bill: "SUP-99",
     });
 
-    expect(result).toContain("Paid bill: " + billUrl);
+    expect(result.text).toContain("Paid bill: " + billUrl);
     const post = calls.find((c) => c.method === "post");
     expect(post?.body).toMatchObject({
       bank_transaction_explanation: { paid_bill: billUrl },
     });
   });
+
+  it("returns the explanation payload without posting on a dry run", async () => {
+    const { client, calls } = makeClient({
+      get: (path) => {
+        if (path === "/bank_transactions/42") return { bank_transaction: baseTx };
+        if (path === "/categories") {
+          return {
+            admin_expenses_categories: [
+              { url: "https://api.freeagent.com/v2/categories/285", description: "Travel", nominal_code: "285" },
+            ],
+          };
+        }
+      },
+    });
+
+    const result = await reconcileBankTransaction(client, {
+      bank_transaction_id: "42",
+      category: "travel",
+      dry_run: true,
+    });
+
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+    expect(result.text).toContain("Dry run");
+    expect(result.text).toContain('category: "travel" → https://api.freeagent.com/v2/categories/285');
+    expect(result.structuredContent).toEqual({
+      linked_to: { kind: "category", url: "https://api.freeagent.com/v2/categories/285" },
+      preview: {
+        method: "POST",
+        path: "/bank_transaction_explanations",
+        body: {
+          bank_transaction_explanation: {
+            bank_transaction: baseTx.url,
+            dated_on: "2026-04-01",
+            gross_value: "-18.50",
+            category: "https://api.freeagent.com/v2/categories/285",
+          },
+        },
+        resolved: [
+          { field: "bank_transaction", hint: "42", url: baseTx.url },
+          { field: "category", hint: "travel", url: "https://api.freeagent.com/v2/categories/285" },
+        ],
+      },
+    });
+  });
 });
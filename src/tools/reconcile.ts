@@ -14,7 +14,8 @@ import type {
   FreeAgentInvoice,
 } from "../types.js";
 import type { ReconcileBankTransactionInput } from "../schemas/index.js";
-import { extractIdFromUrl } from "../services/formatter.js";
+import { extractIdFromUrl, type ToolResult } from "../services/formatter.js";
+import { formatWritePreview, type Resolution, type WritePreview } from "../services/preview.js";
 import { resolveBill, resolveCategory } from "../services/resolvers.js";
 
 async function resolveInvoice(
@@ -31,14 +32,14 @@ async function resolveInvoice(
   }
 
   // Treat as invoice reference. FreeAgent's list endpoint does not filter by
-  // reference, so we page through at most 100 invoices and match client-side.
-  const response = await client.get<{ invoices: FreeAgentInvoice[] }>(
-    "/invoices",
-    { per_page: 100, view: "recent_open_or_overdue" }
-  );
-  const matches = (response.data.invoices ?? []).filter(
-    (inv) => inv.reference === hint
-  );
+  // reference, so we walk every open or overdue invoice and match client-side.
+  const matches: FreeAgentInvoice[] = [];
+  for await (const page of client.paginate<FreeAgentInvoice>("/invoices", "invoices", {
+    per_page: 100,
+    view: "recent_open_or_overdue",
+  })) {
+    matches.push(...page.items.filter((inv) => inv.reference === hint));
+  }
 
   if (matches.length === 1) return matches[0].url;
   if (matches.length > 1) {
@@ -55,7 +56,7 @@ async function resolveInvoice(
 export async function reconcileBankTransaction(
   client: FreeAgentApiClient,
   params: ReconcileBankTransactionInput
-): Promise<string> {
+): Promise<ToolResult> {
   const {
     bank_transaction_id,
     category,
@@ -64,6 +65,9 @@ export async function reconcileBankTransaction(
     description,
     marked_for_review,
     receipt_reference,
+    ec_status,
+    sales_tax_rate,
+    dry_run,
   } = params;
 
   const linkCount = [category, paid_invoice, paid_bill].filter(Boolean).length;
@@ -95,17 +99,38 @@ export async function reconcileBankTransaction(
   if (description) payload.description = description;
   if (marked_for_review !== undefined) payload.marked_for_review = marked_for_review;
   if (receipt_reference) payload.receipt_reference = receipt_reference;
+  if (ec_status) payload.ec_status = ec_status;
+  if (sales_tax_rate) payload.sales_tax_rate = sales_tax_rate;
 
   let resolvedKind: "category" | "invoice" | "bill";
+  let resolution: Resolution;
   if (category) {
-    payload.category = await resolveCategory(client, category);
     resolvedKind = "category";
+    resolution = { field: "category", hint: category, url: await resolveCategory(client, category) };
   } else if (paid_invoice) {
-    payload.paid_invoice = await resolveInvoice(client, paid_invoice);
     resolvedKind = "invoice";
+    resolution = { field: "paid_invoice", hint: paid_invoice, url: await resolveInvoice(client, paid_invoice) };
   } else {
-    payload.paid_bill = await resolveBill(client, paid_bill!);
     resolvedKind = "bill";
+    resolution = { field: "paid_bill", hint: paid_bill!, url: await resolveBill(client, paid_bill!) };
+  }
+  payload[resolution.field] = resolution.url;
+  const linkedTo = { kind: resolvedKind, url: resolution.url };
+
+  if (dry_run) {
+    const preview: WritePreview = {
+      method: "POST",
+      path: "/bank_transaction_explanations",
+      body: { bank_transaction_explanation: payload },
+      resolved: [
+        { field: "bank_transaction", hint: bank_transaction_id, url: tx.url },
+        resolution,
+      ],
+    };
+    return {
+      text: formatWritePreview(preview),
+      structuredContent: { linked_to: linkedTo, preview },
+    };
   }
 
   const createResponse = await client.post<{
@@ -116,20 +141,27 @@ export async function reconcileBankTransaction(
 
   const exp = createResponse.data.bank_transaction_explanation;
   const explanationId = extractIdFromUrl(exp.url);
-  const linkedTo =
+  const linkedLine =
     resolvedKind === "category"
       ? `Category: ${exp.category}`
       : resolvedKind === "invoice"
         ? `Paid invoice: ${exp.paid_invoice}`
         : `Paid bill: ${exp.paid_bill}`;
 
-  return (
+  const text =
     `✅ Reconciled bank transaction ${extractIdFromUrl(tx.url)}\n\n` +
     `**Explanation ID**: ${explanationId}\n` +
     `**Date**: ${exp.dated_on}\n` +
     `**Amount**: ${exp.gross_value}\n` +
-    `${linkedTo}\n` +
+    `${linkedLine}\n` +
     (exp.description ? `**Description**: ${exp.description}\n` : "") +
-    `**URL**: ${exp.url}`
-  );
+    `**URL**: ${exp.url}`;
+
+  return {
+    text,
+    structuredContent: {
+      bank_transaction_explanation: exp,
+      linked_to: linkedTo,
+    },
+  };
 }
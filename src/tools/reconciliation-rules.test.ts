@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { MemoryRuleStore, type ReconciliationRule } from "../services/rules.js";
+import type { FreeAgentBankTransaction } from "../types.js";
+import type { ToolContext } from "./register.js";
+import {
+  saveReconciliationRule,
+  deleteReconciliationRule,
+  listReconciliationRules,
+  applyReconciliationRules,
+} from "./reconciliation-rules.js";
+import { makeClient, makeCtx } from "./test-context.js";
+
+const API = "https://api.freeagent.com/v2";
+
+function rulesCtx(rules: ReconciliationRule[] = []): ToolContext {
+  return makeCtx({ ruleStore: new MemoryRuleStore(rules) });
+}
+
+const awsRule: ReconciliationRule = {
+  name: "AWS",
+  pattern: "aws",
+  direction: "out",
+  category: "Computer Software",
+  ec_status: "Reverse Charge",
+  sales_tax_rate: "20.0",
+};
+
+describe("reconciliation rule management", () => {
+  it("saves, replaces by name, lists and deletes rules", async () => {
+    const ctx = rulesCtx();
+    const client = {} as FreeAgentApiClient;
+
+    const saved = await saveReconciliationRule(client, awsRule, ctx);
+    expect(saved.structuredContent).toEqual({ rule: awsRule, replaced: false });
+
+    const replaced = await saveReconciliationRule(client, { ...awsRule, category: "Hosting" }, ctx);
+    expect(replaced.structuredContent.replaced).toBe(true);
+    expect(await ctx.ruleStore.load()).toEqual([{ ...awsRule, category: "Hosting" }]);
+
+    const listed = await listReconciliationRules(client, { response_format: ResponseFormat.MARKDOWN }, ctx);
+    expect(listed.text).toContain('**AWS**: description contains "aws", money out → Hosting, Reverse Charge, VAT 20.0');
+
+    await deleteReconciliationRule(client, { name: "AWS" }, ctx);
+    expect(await ctx.ruleStore.load()).toEqual([]);
+    await expect(deleteReconciliationRule(client, { name: "AWS" }, ctx)).rejects.toThrow(/No rule named "AWS"/);
+  });
+
+  it("refuses to save an invalid rule", async () => {
+    const ctx = rulesCtx();
+    await expect(
+      saveReconciliationRule({} as FreeAgentApiClient, { ...awsRule, match_type: "regex", pattern: "[" }, ctx)
+    ).rejects.toThrow(/not a valid regular expression/);
+    expect(await ctx.ruleStore.load()).toEqual([]);
+  });
+});
+
+describe("applyReconciliationRules", () => {
+  const transactions: FreeAgentBankTransaction[] = [
+    { url: `${API}/bank_transactions/1`, bank_account: `${API}/bank_accounts/7`, dated_on: "2026-04-02", gross_value: "-36.00", description: "AWS EMEA" },
+    { url: `${API}/bank_transactions/2`, bank_account: `${API}/bank_accounts/7`, dated_on: "2026-04-03", gross_value: "-9.99", description: "NETFLIX" },
+  ];
+
+  function rulesClient() {
+    return makeClient({
+      get: (path) => {
+        if (path === "/bank_transactions") return { bank_transactions: transactions };
+        const tx = transactions.find((t) => t.url.endsWith(path));
+        if (tx) return { bank_transaction: tx };
+        if (path === "/categories") {
+          return { admin_expenses_categories: [{ url: `${API}/categories/365`, description: "Computer Software", nominal_code: "365" }] };
+        }
+      },
+      post: (_path, body) => ({
+        bank_transaction_explanation: {
+          url: `${API}/bank_transaction_explanations/500`,
+          ...(body as { bank_transaction_explanation: object }).bank_transaction_explanation,
+        },
+      }),
+    });
+  }
+
+  it("explains matching transactions through reconcile and reports which rule fired", async () => {
+    const { client, calls } = rulesClient();
+
+    const result = await applyReconciliationRules(
+      client,
+      { bank_account: "7", max_transactions: 100 },
+      rulesCtx([awsRule])
+    );
+
+    const posts = calls.filter((c) => c.method === "post");
+    expect(posts).toHaveLength(1);
+    expect(posts[0].body).toMatchObject({
+      bank_transaction_explanation: {
+        bank_transaction: transactions[0].url,
+        category: `${API}/categories/365`,
+        ec_status: "Reverse Charge",
+        sales_tax_rate: "20.0",
+      },
+    });
+    expect(result.structuredContent).toEqual({
+      bank_account: `${API}/bank_accounts/7`,
+      results: [{ bank_transaction: transactions[0].url, rule: "AWS", explanation: `${API}/bank_transaction_explanations/500` }],
+      unmatched: [transactions[1].url],
+      has_more: false,
+    });
+    expect(result.text).toContain("1 — rule **AWS** → explanation 500");
+  });
+
+  it("previews without posting on dry_run", async () => {
+    const { client, calls } = rulesClient();
+
+    const result = await applyReconciliationRules(
+      client,
+      { bank_account: "7", max_transactions: 100, dry_run: true },
+      rulesCtx([awsRule])
+    );
+
+    expect(calls.some((c) => c.method === "post")).toBe(false);
+    expect(result.structuredContent.results).toEqual([
+      expect.objectContaining({ rule: "AWS", preview: expect.objectContaining({ method: "POST" }) }),
+    ]);
+    expect(result.text).toContain("Dry run");
+  });
+});
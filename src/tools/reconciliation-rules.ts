@@ -0,0 +1,195 @@
+/**
+ * Reconciliation rules tools.
+ *
+ * Manage the user's stored rules (see services/rules.ts) and apply them to a
+ * bank account's unexplained transactions. Each match is explained through
+ * reconcileBankTransaction, so category resolution, VAT fields and dry runs
+ * behave exactly as they do for a single reconcile call.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { FreeAgentBankTransaction } from "../types.js";
+import type {
+  ListReconciliationRulesInput,
+  SaveReconciliationRuleInput,
+  DeleteReconciliationRuleInput,
+  ApplyReconciliationRulesInput,
+} from "../schemas/index.js";
+import { extractIdFromUrl, formatResponse, type ToolResult } from "../services/formatter.js";
+import { listUpTo } from "../services/pagination.js";
+import { findMatchingRule, validateRule, type ReconciliationRule } from "../services/rules.js";
+import type { WritePreview } from "../services/preview.js";
+import type { ToolContext } from "./register.js";
+import { reconcileBankTransaction } from "./reconcile.js";
+
+function describeRule(rule: ReconciliationRule): string {
+  const parts = [
+    rule.match_type === "regex" ? `description matches /${rule.pattern}/i` : `description contains "${rule.pattern}"`,
+  ];
+  if (rule.direction) parts.push(rule.direction === "in" ? "money in" : "money out");
+  if (rule.min_amount && rule.max_amount) parts.push(`amount ${rule.min_amount}–${rule.max_amount}`);
+  else if (rule.min_amount) parts.push(`amount ≥ ${rule.min_amount}`);
+  else if (rule.max_amount) parts.push(`amount ≤ ${rule.max_amount}`);
+
+  let target = `→ ${rule.category}`;
+  if (rule.ec_status) target += `, ${rule.ec_status}`;
+  if (rule.sales_tax_rate) target += `, VAT ${rule.sales_tax_rate}`;
+  if (rule.description) target += `, "${rule.description}"`;
+
+  return `**${rule.name}**: ${parts.join(", ")} ${target}`;
+}
+
+export async function listReconciliationRules(
+  _client: FreeAgentApiClient,
+  params: ListReconciliationRulesInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const rules = await ctx.ruleStore.load();
+  const data = { rules };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = ["# Reconciliation Rules", ""];
+    if (rules.length === 0) {
+      lines.push("No rules saved yet. Add one with freeagent_save_reconciliation_rule.");
+      return lines.join("\n");
+    }
+    lines.push("Rules are tried in this order; the first match wins.", "");
+    rules.forEach((rule, i) => lines.push(`${i + 1}. ${describeRule(rule)}`));
+    return lines.join("\n");
+  });
+
+  return { text, structuredContent: data };
+}
+
+export async function saveReconciliationRule(
+  _client: FreeAgentApiClient,
+  params: SaveReconciliationRuleInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const rule: ReconciliationRule = { ...params };
+  validateRule(rule);
+
+  const rules = await ctx.ruleStore.load();
+  const index = rules.findIndex((r) => r.name === rule.name);
+  const replaced = index >= 0;
+  if (replaced) rules[index] = rule;
+  else rules.push(rule);
+  await ctx.ruleStore.save(rules);
+
+  const text = `✅ ${replaced ? "Updated" : "Saved"} rule ${rule.name}\n\n${describeRule(rule)}`;
+  return { text, structuredContent: { rule, replaced } };
+}
+
+export async function deleteReconciliationRule(
+  _client: FreeAgentApiClient,
+  params: DeleteReconciliationRuleInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const rules = await ctx.ruleStore.load();
+  const remaining = rules.filter((r) => r.name !== params.name);
+  if (remaining.length === rules.length) {
+    throw new Error(
+      `No rule named "${params.name}". Call freeagent_list_reconciliation_rules to see saved rules.`
+    );
+  }
+  await ctx.ruleStore.save(remaining);
+
+  return { text: `✅ Deleted rule ${params.name}`, structuredContent: { deleted: params.name } };
+}
+
+interface RuleResult {
+  bank_transaction: string;
+  rule: string;
+  explanation?: string;
+  preview?: WritePreview;
+  error?: string;
+}
+
+export async function applyReconciliationRules(
+  client: FreeAgentApiClient,
+  params: ApplyReconciliationRulesInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const rules = await ctx.ruleStore.load();
+  if (rules.length === 0) {
+    throw new Error("No reconciliation rules saved. Add one with freeagent_save_reconciliation_rule first.");
+  }
+
+  const bankAccountUrl = params.bank_account.startsWith("http")
+    ? params.bank_account
+    : client.resourceUrl(`/bank_accounts/${params.bank_account}`);
+
+  const txParams: Record<string, string | number> = {
+    bank_account: bankAccountUrl,
+    view: "unexplained",
+    per_page: 100,
+  };
+  if (params.from_date) txParams.from_date = params.from_date;
+  if (params.to_date) txParams.to_date = params.to_date;
+
+  const { items: transactions, hasMore } = await listUpTo<FreeAgentBankTransaction>(
+    client, "/bank_transactions", "bank_transactions", txParams, params.max_transactions
+  );
+
+  const results: RuleResult[] = [];
+  const unmatched: string[] = [];
+  for (const tx of transactions) {
+    const rule = findMatchingRule(rules, tx);
+    if (!rule) {
+      unmatched.push(tx.url);
+      continue;
+    }
+
+    try {
+      const result = await reconcileBankTransaction(client, {
+        bank_transaction_id: tx.url,
+        category: rule.category,
+        description: rule.description,
+        ec_status: rule.ec_status,
+        sales_tax_rate: rule.sales_tax_rate,
+        dry_run: params.dry_run,
+      });
+      const { bank_transaction_explanation, preview } = result.structuredContent as {
+        bank_transaction_explanation?: { url: string };
+        preview?: WritePreview;
+      };
+      results.push({
+        bank_transaction: tx.url,
+        rule: rule.name,
+        explanation: bank_transaction_explanation?.url,
+        preview,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ bank_transaction: tx.url, rule: rule.name, error: message });
+    }
+  }
+
+  const applied = results.filter((r) => !r.error);
+  const failed = results.filter((r) => r.error);
+  const lines = [`# Reconciliation rules: account ${extractIdFromUrl(bankAccountUrl)}`, ""];
+  if (params.dry_run) lines.push("🔍 Dry run — nothing was sent to FreeAgent.", "");
+  lines.push(
+    `Checked ${transactions.length} unexplained transaction(s)${hasMore ? ` (stopped at max_transactions=${params.max_transactions})` : ""}: ` +
+      `${applied.length} ${params.dry_run ? "would be explained" : "explained"}, ${failed.length} failed, ${unmatched.length} matched no rule.`
+  );
+
+  if (applied.length > 0) {
+    lines.push("", params.dry_run ? "## Would explain" : "## Explained");
+    for (const r of applied) {
+      const outcome = r.explanation ? ` → explanation ${extractIdFromUrl(r.explanation)}` : "";
+      lines.push(`- ${extractIdFromUrl(r.bank_transaction)} — rule **${r.rule}**${outcome}`);
+    }
+  }
+  if (failed.length > 0) {
+    lines.push("", "## Failed");
+    for (const r of failed) {
+      lines.push(`- ${extractIdFromUrl(r.bank_transaction)} — rule **${r.rule}**: ${r.error}`);
+    }
+  }
+
+  return {
+    text: lines.join("\n"),
+    structuredContent: { bank_account: bankAccountUrl, results, unmatched, has_more: hasMore },
+  };
+}
@@ -37,9 +37,9 @@ describe("recurring invoice tools", () => {
       per_page: 25,
       response_format: ResponseFormat.MARKDOWN,
     });
-    expect(result).toContain("RI-001");
-    expect(result).toContain("2026-05-01");
-    expect(result).toContain("Monthly");
+    expect(result.text).toContain("RI-001");
+    expect(result.text).toContain("2026-05-01");
+    expect(result.text).toContain("Monthly");
   });
 
   it("getRecurringInvoice uses the recurring_invoice_items key when present", async () => {
@@ -60,6 +60,6 @@ describe("recurring invoice tools", () => {
       recurring_invoice_id: "5",
       response_format: ResponseFormat.MARKDOWN,
     });
-    expect(result).toContain("Retainer");
+    expect(result.text).toContain("Retainer");
   });
 });
@@ -7,6 +7,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentRecurringInvoice } from "../types.js";
 import type {
   ListRecurringInvoicesInput,
@@ -16,13 +17,14 @@ import {
   formatResponse,
   createPaginationMetadata,
   extractIdFromUrl,
+  type ToolResult,
 } from "../services/formatter.js";
 
 export async function listRecurringInvoices(
   client: FreeAgentApiClient,
   params: ListRecurringInvoicesInput
-): Promise<string> {
-  const { page, per_page, view, contact, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, view, contact, response_format } = params;
 
   const queryParams: Record<string, string> = {
     page: page.toString(),
@@ -31,29 +33,34 @@ export async function listRecurringInvoices(
   if (view) queryParams.view = view;
   if (contact) queryParams.contact = contact;
 
-  const response = await client.get<{ recurring_invoices: FreeAgentRecurringInvoice[] }>(
+  const { items: items, pagination } = await fetchList<FreeAgentRecurringInvoice>(
+    client,
     "/recurring_invoices",
-    queryParams
+    "recurring_invoices",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
   );
-  const items = response.data.recurring_invoices ?? [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
-  return formatResponse(
-    {
-      recurring_invoices: items,
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage,
-      },
+  const data = {
+    recurring_invoices: items,
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
     },
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Recurring Invoices", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
@@ -61,6 +68,8 @@ export async function listRecurringInvoices(
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
             nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt,
           })
         );
         lines.push("");
@@ -88,12 +97,14 @@ export async function listRecurringInvoices(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 export async function getRecurringInvoice(
   client: FreeAgentApiClient,
   params: GetRecurringInvoiceInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { recurring_invoice_id, response_format } = params;
   const url = recurring_invoice_id.startsWith("http")
     ? recurring_invoice_id
@@ -102,7 +113,7 @@ export async function getRecurringInvoice(
   const response = await client.get<{ recurring_invoice: FreeAgentRecurringInvoice }>(url);
   const item = response.data.recurring_invoice;
 
-  return formatResponse(
+  const text = formatResponse(
     item,
     response_format,
     () => {
@@ -126,4 +137,6 @@ export async function getRecurringInvoice(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { recurring_invoice: item } };
 }
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ElicitRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { FreeAgentApiClient } from "../services/api-client.js";
+import { MemoryRuleStore } from "../services/rules.js";
+import { MemoryAuditSink } from "../services/audit.js";
+import { MemoryOAuthStore } from "../services/oauth-store.js";
+import { registerAllTools, toolDefinitions, type RegisterOptions } from "./register.js";
+
+async function connect(
+  apiClient: FreeAgentApiClient,
+  onElicit?: (message: string) => { action: "accept" | "decline" | "cancel"; content?: Record<string, unknown> },
+  options: RegisterOptions = {}
+): Promise<Client> {
+  const server = new McpServer({ name: "freeagent-test", version: "0.0.0" });
+  registerAllTools(server, apiClient, { ruleStore: new MemoryRuleStore(), auditSink: new MemoryAuditSink(), idempotencyStore: new MemoryOAuthStore(), ...options });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client(
+    { name: "test-client", version: "0.0.0" },
+    { capabilities: onElicit ? { elicitation: { form: {} } } : {} }
+  );
+  if (onElicit) {
+    client.setRequestHandler(ElicitRequestSchema, async (request) => onElicit(request.params.message));
+  }
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("registerAllTools structured output", () => {
+  it("declares an output schema for every catalog tool", async () => {
+    const client = await connect({} as FreeAgentApiClient);
+    const { tools } = await client.listTools();
+
+    expect(tools).toHaveLength(toolDefinitions.length);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: "object" });
+    }
+  });
+
+  it("returns structuredContent next to the text content", async () => {
+    const apiClient = {
+      get: vi.fn(async () => ({
+        data: {
+          company: {
+            url: "https://api.freeagent.com/v2/company",
+            name: "Acme Ltd",
+            subdomain: "acme",
+            type: "UkLimitedCompany",
+            currency: "GBP",
+            mileage_units: "miles",
+            company_start_date: "2020-01-01",
+            freeagent_start_date: "2020-01-01",
+            first_accounting_year_end: "2020-12-31",
+            sales_tax_registration_status: "Registered",
+          },
+        },
+        headers: {},
+      })),
+    } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient);
+
+    const result = await client.callTool({ name: "freeagent_get_company", arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toEqual([
+      expect.objectContaining({ type: "text", text: expect.stringContaining("# Company: Acme Ltd") }),
+    ]);
+    expect(result.structuredContent).toMatchObject({
+      company: { name: "Acme Ltd", subdomain: "acme", mileage_units: "miles" },
+    });
+  });
+
+  it("accepts a dry-run preview in place of the created resource", async () => {
+    const apiClient = { post: vi.fn() } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient);
+
+    const result = await client.callTool({
+      name: "freeagent_create_bill",
+      arguments: {
+        contact: "https://api.freeagent.com/v2/contacts/5",
+        dated_on: "2026-04-01",
+        bill_items: [{ category: "285", price: "10.00", quantity: "1" }],
+        dry_run: true,
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(apiClient.post).not.toHaveBeenCalled();
+    expect(result.structuredContent).toMatchObject({
+      preview: { method: "POST", path: "/bills", resolved: [] },
+    });
+  });
+});
+
+describe("registerAllTools embedded resources", () => {
+  it("returns an invoice PDF as a resource content block", async () => {
+    const pdf = Buffer.from("%PDF-1.4").toString("base64");
+    const apiClient = {
+      get: vi.fn(async (path: string) => ({
+        data: path.endsWith("/pdf")
+          ? { pdf: { content: pdf } }
+          : { invoice: { url: "https://api.freeagent.com/v2/invoices/42", reference: "INV-042", status: "Sent", currency: "GBP", total_value: "10.00" } },
+        headers: {},
+      })),
+    } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient);
+
+    const result = await client.callTool({ name: "freeagent_get_invoice_pdf", arguments: { invoice_id: "42" } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toEqual([
+      expect.objectContaining({ type: "text" }),
+      {
+        type: "resource",
+        resource: { uri: "https://api.freeagent.com/v2/invoices/42/pdf", mimeType: "application/pdf", blob: pdf },
+      },
+    ]);
+  });
+});
+
+describe("registerAllTools confirmation", () => {
+  const invoice = {
+    url: "https://api.freeagent.com/v2/invoices/42",
+    contact: "https://api.freeagent.com/v2/contacts/1",
+    status: "Sent",
+    dated_on: "2026-04-01",
+    currency: "GBP",
+    total_value: "500.00",
+  };
+
+  function makeApiClient(): FreeAgentApiClient {
+    return {
+      get: vi.fn(async () => ({ data: { invoice }, headers: {} })),
+      put: vi.fn(async () => ({ data: { invoice: { ...invoice, status: "Cancelled" } }, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+  }
+
+  it("asks the user through elicitation before cancelling an invoice", async () => {
+    const apiClient = makeApiClient();
+    const onElicit = vi.fn(() => ({ action: "accept" as const, content: { confirm: true } }));
+    const client = await connect(apiClient, onElicit);
+
+    const result = await client.callTool({
+      name: "freeagent_transition_invoice",
+      arguments: { invoice_id: "42", action: "mark_as_cancelled" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(onElicit).toHaveBeenCalledWith(expect.stringContaining("Cancel this invoice"));
+    expect(apiClient.put).toHaveBeenCalledWith("/invoices/42/transitions/mark_as_cancelled");
+  });
+
+  it("does not transition when the user declines", async () => {
+    const apiClient = makeApiClient();
+    const client = await connect(apiClient, () => ({ action: "decline" }));
+
+    const result = await client.callTool({
+      name: "freeagent_transition_invoice",
+      arguments: { invoice_id: "42", action: "mark_as_cancelled" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(apiClient.put).not.toHaveBeenCalled();
+  });
+});
+
+describe("registerAllTools scopes", () => {
+  async function toolNames(scopes: string[]): Promise<string[]> {
+    const client = await connect({} as FreeAgentApiClient, undefined, { scopes });
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  it("registers only read-only tools for a freeagent:read token", async () => {
+    const names = await toolNames(["freeagent:read"]);
+
+    expect(names).toContain("freeagent_list_invoices");
+    expect(names).toContain("freeagent_list_reconciliation_rules");
+    expect(names).not.toContain("freeagent_create_invoice");
+    expect(names).not.toContain("freeagent_reconcile_bank_transaction");
+    for (const name of names) {
+      expect(toolDefinitions.find((tool) => tool.name === name)!.annotations.readOnlyHint, name).toBe(true);
+    }
+  });
+
+  it("keeps banking writes behind freeagent:banking", async () => {
+    const write = await toolNames(["freeagent:write"]);
+    expect(write).toContain("freeagent_create_invoice");
+    expect(write).not.toContain("freeagent_refund_invoice");
+    expect(write).not.toContain("freeagent_list_invoices");
+
+    const banking = await toolNames(["freeagent:banking"]);
+    expect(banking.sort()).toEqual(
+      toolDefinitions.filter((tool) => tool.scope === "freeagent:banking").map((tool) => tool.name).sort()
+    );
+    expect(banking).toContain("freeagent_reconcile_bank_account");
+  });
+
+  it("treats the legacy freeagent scope as every scope", async () => {
+    await expect(toolNames(["freeagent"])).resolves.toHaveLength(toolDefinitions.length);
+  });
+});
+
+describe("registerAllTools audit log", () => {
+  const invoice = {
+    url: "https://api.freeagent.com/v2/invoices/42",
+    contact: "https://api.freeagent.com/v2/contacts/1",
+    status: "Draft",
+    dated_on: "2026-04-01",
+    currency: "GBP",
+    total_value: "500.00",
+  };
+
+  it("records writes with the caller's client ID and lists them through freeagent_list_audit_events", async () => {
+    const auditSink = new MemoryAuditSink();
+    const apiClient = {
+      get: vi.fn(async () => ({ data: { invoice }, headers: {} })),
+      put: vi.fn(async () => ({ data: { invoice: { ...invoice, status: "Sent" } }, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient, undefined, { auditSink, clientId: "claude" });
+
+    await client.callTool({ name: "freeagent_get_invoice", arguments: { invoice_id: "42" } });
+    await client.callTool({ name: "freeagent_transition_invoice", arguments: { invoice_id: "42", action: "mark_as_sent" } });
+
+    const events = await auditSink.query({});
+    expect(events).toEqual([
+      expect.objectContaining({
+        tool: "freeagent_transition_invoice",
+        client_id: "claude",
+        outcome: "success",
+        arguments: { invoice_id: "42", action: "mark_as_sent" },
+        resource_urls: ["https://api.freeagent.com/v2/invoices/42"],
+      }),
+    ]);
+
+    const listed = await client.callTool({
+      name: "freeagent_list_audit_events",
+      arguments: { client_id: "claude", since: "2000-01-01" },
+    });
+    expect(listed.structuredContent).toEqual({ events });
+  });
+
+  it("only lists the caller's own events over HTTP", async () => {
+    const auditSink = new MemoryAuditSink();
+    const base = { timestamp: "2026-04-01T09:00:00.000Z", tool: "freeagent_create_contact", arguments: {}, outcome: "success" as const, resource_urls: [] };
+    await auditSink.append({ ...base, id: "mine", client_id: "claude" });
+    await auditSink.append({ ...base, id: "theirs", client_id: "other" });
+    const client = await connect({} as FreeAgentApiClient, undefined, { auditSink, clientId: "claude" });
+
+    const listed = await client.callTool({ name: "freeagent_list_audit_events", arguments: {} });
+    expect((listed.structuredContent as { events: { id: string }[] }).events.map((e) => e.id)).toEqual(["mine"]);
+
+    const other = await client.callTool({ name: "freeagent_list_audit_events", arguments: { client_id: "other" } });
+    expect(other.isError).toBe(true);
+    expect(JSON.stringify(other.content)).toContain("local (stdio) server");
+  });
+
+  it("records failed writes but not dry runs", async () => {
+    const auditSink = new MemoryAuditSink();
+    const apiClient = {
+      post: vi.fn(async () => {
+        throw new Error("Contact not found");
+      }),
+    } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient, undefined, { auditSink });
+    const bill = {
+      contact: "https://api.freeagent.com/v2/contacts/5",
+      dated_on: "2026-04-01",
+      bill_items: [{ category: "https://api.freeagent.com/v2/categories/285", price: "10.00", quantity: "1" }],
+    };
+
+    await client.callTool({ name: "freeagent_create_bill", arguments: { ...bill, dry_run: true } });
+    const failed = await client.callTool({ name: "freeagent_create_bill", arguments: bill });
+
+    expect(failed.isError).toBe(true);
+    expect(await auditSink.query({})).toEqual([
+      expect.objectContaining({ tool: "freeagent_create_bill", outcome: "error", error: "Contact not found", resource_urls: [] }),
+    ]);
+  });
+});
+
+describe("registerAllTools idempotency", () => {
+  it("creates once per idempotency_key and refuses a likely duplicate without one", async () => {
+    const bill = { url: "https://api.freeagent.com/v2/bills/9", contact: "https://api.freeagent.com/v2/contacts/5", dated_on: "2026-04-01", net_value: "10.00", total_value: "12.00" };
+    let existing: unknown[] = [];
+    const apiClient = {
+      get: vi.fn(async () => ({ data: { bills: existing }, headers: {} })),
+      paginate: FreeAgentApiClient.prototype.paginate,
+      parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+      post: vi.fn(async () => {
+        existing = [bill];
+        return { data: { bill }, headers: {} };
+      }),
+    } as unknown as FreeAgentApiClient;
+    const client = await connect(apiClient);
+    const args = {
+      contact: "https://api.freeagent.com/v2/contacts/5",
+      dated_on: "2026-04-01",
+      bill_items: [{ category: "285", price: "10.00", quantity: "1" }],
+    };
+
+    const first = await client.callTool({ name: "freeagent_create_bill", arguments: { ...args, idempotency_key: "retry-1" } });
+    const retry = await client.callTool({ name: "freeagent_create_bill", arguments: { ...args, idempotency_key: "retry-1" } });
+    expect(retry.structuredContent).toEqual(first.structuredContent);
+    expect(apiClient.post).toHaveBeenCalledTimes(1);
+
+    const duplicate = await client.callTool({ name: "freeagent_create_bill", arguments: args });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.content).toEqual([expect.objectContaining({ text: expect.stringContaining("looks like a duplicate") })]);
+
+    const allowed = await client.callTool({ name: "freeagent_create_bill", arguments: { ...args, allow_duplicate: true } });
+    expect(allowed.isError).toBeFalsy();
+    expect(apiClient.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -5,30 +5,50 @@
  * Used by both api/index.ts (Vercel/HTTP) and src/index.ts (stdio).
  */
 
+import type { ZodRawShape } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ElicitRequestFormParams, ElicitResult } from "@modelcontextprotocol/sdk/types.js";
 import { FreeAgentApiClient, formatErrorForLLM } from "../services/api-client.js";
+import type { ToolResult } from "../services/formatter.js";
+import { getDefaultRuleStore, type RuleStore } from "../services/rules.js";
+import { SCOPE_BANKING, type Scope } from "../services/scopes.js";
+import { getDefaultAuditSink, type AuditSink } from "../services/audit.js";
+import { getDefaultOAuthStore, type OAuthStore } from "../services/oauth-store.js";
 import { listContacts, getContact, createContact } from "./contacts.js";
-import { listInvoices, getInvoice, createInvoice } from "./invoices.js";
+import { listInvoices, getInvoice, createInvoice, getInvoicePdf, emailInvoice, summarizeInvoiceEmail } from "./invoices.js";
 import { invoiceFromTimeslips } from "./invoice-from-timeslips.js";
-import { transitionInvoice } from "./transition-invoice.js";
-import { listEstimates, getEstimate, createEstimate, transitionEstimate } from "./estimates.js";
+import { transitionInvoice, summarizeInvoiceTransition } from "./transition-invoice.js";
+import { createCreditNote, refundInvoice, writeOffInvoice, summarizeInvoiceWriteOff } from "./credit-notes.js";
+import { listEstimates, getEstimate, createEstimate, transitionEstimate, summarizeEstimateTransition } from "./estimates.js";
 import { listRecurringInvoices, getRecurringInvoice } from "./recurring-invoices.js";
 import { listPriceListItems, getPriceListItem, createPriceListItem } from "./price-list-items.js";
 import { listExpenses, getExpense, createExpense, updateExpense } from "./expenses.js";
 import { logExpense } from "./log-expense.js";
+import { findDuplicates } from "./duplicates.js";
 import { listBills, getBill, createBill } from "./bills.js";
 import { listTimeslips, getTimeslip, createTimeslip, updateTimeslip } from "./timeslips.js";
 import { listBankAccounts, getBankAccount, listBankTransactions, getBankTransaction } from "./bank-accounts.js";
 import { listBankTransactionExplanations, getBankTransactionExplanation, createBankTransactionExplanation, updateBankTransactionExplanation } from "./bank-transactions.js";
 import { reconcileBankTransaction } from "./reconcile.js";
+import { reconcileBankAccount } from "./reconcile-bank-account.js";
+import {
+  listReconciliationRules, saveReconciliationRule, deleteReconciliationRule, applyReconciliationRules,
+} from "./reconciliation-rules.js";
 import { listProjects, getProject, createProject } from "./projects.js";
 import { listTasks, getTask, createTask } from "./tasks.js";
 import { listCategories, getCategory } from "./categories.js";
 import { getCompany, listUsers } from "./company.js";
+import { getProfitAndLoss, getBalanceSheet, getTrialBalance } from "./reports.js";
+import { cashFlowForecast } from "./cash-flow.js";
+import { agedDebtors, agedCreditors } from "./aged-balances.js";
+import { listVatReturns, getVatReturn, previewVatLiability } from "./vat.js";
+import { listAuditEvents, runAudited } from "./audit.js";
+import { runIdempotent } from "./idempotency.js";
+import { undoOperations, deleteCreated, restoreUpdated, revertInvoiceTransition, type UndoSpec } from "./undo.js";
 import {
   ListContactsInputSchema, GetContactInputSchema, CreateContactInputSchema,
-  ListInvoicesInputSchema, GetInvoiceInputSchema, CreateInvoiceInputSchema, InvoiceFromTimeslipsInputSchema, TransitionInvoiceInputSchema,
+  ListInvoicesInputSchema, GetInvoiceInputSchema, GetInvoicePdfInputSchema, EmailInvoiceInputSchema, CreateInvoiceInputSchema, InvoiceFromTimeslipsInputSchema, TransitionInvoiceInputSchema,
+  CreateCreditNoteInputSchema, RefundInvoiceInputSchema, WriteOffInvoiceInputSchema,
   ListEstimatesInputSchema, GetEstimateInputSchema, CreateEstimateInputSchema, TransitionEstimateInputSchema,
   ListRecurringInvoicesInputSchema, GetRecurringInvoiceInputSchema,
   ListPriceListItemsInputSchema, GetPriceListItemInputSchema, CreatePriceListItemInputSchema,
@@ -38,18 +58,74 @@ import {
   ListBankAccountsInputSchema, GetBankAccountInputSchema, ListBankTransactionsInputSchema, GetBankTransactionInputSchema,
   ListBankTransactionExplanationsInputSchema, GetBankTransactionExplanationInputSchema,
   CreateBankTransactionExplanationInputSchema, UpdateBankTransactionExplanationInputSchema,
-  ReconcileBankTransactionInputSchema,
+  ReconcileBankTransactionInputSchema, ReconcileBankAccountInputSchema,
+  ListReconciliationRulesInputSchema, SaveReconciliationRuleInputSchema,
+  DeleteReconciliationRuleInputSchema, ApplyReconciliationRulesInputSchema,
   ListProjectsInputSchema, GetProjectInputSchema, CreateProjectInputSchema,
   ListTasksInputSchema, GetTaskInputSchema, CreateTaskInputSchema,
   ListCategoriesInputSchema, GetCategoryInputSchema,
-  GetCompanyInputSchema, ListUsersInputSchema,
+  GetCompanyInputSchema, ListUsersInputSchema, ListAuditEventsInputSchema, UndoInputSchema, FindDuplicatesInputSchema,
+  GetProfitAndLossInputSchema, GetBalanceSheetInputSchema, GetTrialBalanceInputSchema,
+  CashFlowForecastInputSchema, AgedBalancesInputSchema, ListVatReturnsInputSchema, GetVatReturnInputSchema, PreviewVatLiabilityInputSchema,
   SearchToolsInputSchema, CallToolInputSchema,
+  ContactListOutputSchema, ContactOutputSchema, InvoiceListOutputSchema, InvoiceOutputSchema,
+  EstimateListOutputSchema, EstimateOutputSchema, RecurringInvoiceListOutputSchema, RecurringInvoiceOutputSchema,
+  PriceListItemListOutputSchema, PriceListItemOutputSchema, InvoiceFromTimeslipsOutputSchema, ExpenseListOutputSchema,
+  ExpenseOutputSchema, BillListOutputSchema, BillOutputSchema, TimeslipListOutputSchema,
+  TimeslipOutputSchema, BankAccountListOutputSchema, BankAccountOutputSchema, BankTransactionListOutputSchema,
+  BankTransactionOutputSchema, BankTransactionExplanationListOutputSchema, BankTransactionExplanationOutputSchema, ReconcileBankTransactionOutputSchema,
+  ProjectListOutputSchema, ProjectOutputSchema, TaskListOutputSchema, TaskOutputSchema,
+  CategoryListOutputSchema, CategoryOutputSchema, CompanyOutputSchema, UserListOutputSchema,
+  SearchToolsOutputSchema, CallToolOutputSchema, CreateInvoiceOutputSchema, CreateBillOutputSchema,
+  LogExpenseOutputSchema, ReconcileBankAccountOutputSchema,
+  ReconciliationRuleListOutputSchema, SaveReconciliationRuleOutputSchema,
+  DeleteReconciliationRuleOutputSchema, ApplyReconciliationRulesOutputSchema,
+  CreditNoteOutputSchema, RefundInvoiceOutputSchema, InvoicePdfOutputSchema, EmailInvoiceOutputSchema,
+  AuditEventListOutputSchema, UndoOutputSchema, FindDuplicatesOutputSchema, ProfitAndLossOutputSchema,
+  BalanceSheetOutputSchema, TrialBalanceOutputSchema,
+  CashFlowForecastOutputSchema, AgedBalancesOutputSchema, VatReturnListOutputSchema, VatReturnOutputSchema, VatLiabilityPreviewOutputSchema,
 } from "../schemas/index.js";
 import { searchTools, callTool } from "./tool-search.js";
+import { confirmToolCall } from "./confirmation.js";
+import { permittedTools } from "./permissions.js";
 
 export interface ToolContext {
   clientSupportsElicitation: boolean;
   elicit: (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+  /** Where reconciliation rules are kept */
+  ruleStore: RuleStore;
+  /** Where write calls are recorded */
+  auditSink: AuditSink;
+  /** Where create results are kept for idempotency_key retries */
+  idempotencyStore: OAuthStore;
+  /** OAuth client ID of the caller, for the audit log */
+  clientId?: string;
+  /** OAuth scopes of the caller's token; undefined allows every tool */
+  scopes?: readonly string[];
+  /** Whether attachments may be read from local paths and file:// URIs */
+  allowLocalFiles?: boolean;
+}
+
+export interface RegisterOptions {
+  /** Defaults to the caller's store from getDefaultRuleStore(clientId) */
+  ruleStore?: RuleStore;
+  /** Defaults to the process-wide sink from getDefaultAuditSink() */
+  auditSink?: AuditSink;
+  /** Defaults to the process-wide store from getDefaultOAuthStore() */
+  idempotencyStore?: OAuthStore;
+  /** OAuth client ID of the caller, recorded with each write */
+  clientId?: string;
+  /**
+   * OAuth scopes of the caller's token. Only the tools they permit are
+   * registered (see permissions.ts). Undefined registers every tool, as the
+   * stdio server does.
+   */
+  scopes?: readonly string[];
+  /**
+   * Let attachments name files on this machine. Only the stdio server, which
+   * runs as the user, sets this.
+   */
+  allowLocalFiles?: boolean;
 }
 
 export interface ToolDefinition {
@@ -57,13 +133,36 @@ export interface ToolDefinition {
   title: string;
   description: string;
   inputSchema: any;
+  /** Zod shape of the structuredContent the handler returns */
+  outputSchema: ZodRawShape;
   annotations: {
     readOnlyHint: boolean;
     destructiveHint: boolean;
     idempotentHint: boolean;
     openWorldHint: boolean;
   };
-  handler: (apiClient: FreeAgentApiClient, params: any, ctx: ToolContext) => Promise<string>;
+  /**
+   * Scope needed to call the tool. Defaults to freeagent:read for read-only
+   * tools and freeagent:write for the rest.
+   */
+  scope?: Scope;
+  handler: (apiClient: FreeAgentApiClient, params: any, ctx: ToolContext) => Promise<ToolResult>;
+  /**
+   * Marks a tool as needing human confirmation. Returns a summary of what
+   * the call will change, or undefined when these params need no confirmation.
+   */
+  confirmation?(apiClient: FreeAgentApiClient, params: Record<string, unknown>): Promise<string | undefined>;
+  /**
+   * Where the resources a successful call created or changed sit in its
+   * structuredContent, recorded as the audit event's resource_urls (see
+   * urlsAtPaths in services/audit.ts). Related records the output only
+   * links to are not listed.
+   */
+  resources?: string[];
+  /** How to reverse a successful call with freeagent_undo (see undo.ts) */
+  undo?: UndoSpec;
+  /** False for tools that write their own audit events */
+  audit?: false;
 }
 
 /**
@@ -77,6 +176,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Contacts",
     description: "List all contacts in your FreeAgent account with pagination support.",
     inputSchema: ListContactsInputSchema.shape,
+    outputSchema: ContactListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listContacts,
   },
@@ -85,6 +185,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Contact Details",
     description: "Retrieve detailed information about a specific contact by ID.",
     inputSchema: GetContactInputSchema.shape,
+    outputSchema: ContactOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getContact,
   },
@@ -93,7 +194,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Contact",
     description: "Create a new contact in FreeAgent.",
     inputSchema: CreateContactInputSchema.shape,
+    outputSchema: ContactOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["contact"],
+    undo: deleteCreated("contact"),
     handler: createContact,
   },
 
@@ -103,6 +207,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Invoices",
     description: "List invoices in your FreeAgent account with filtering and pagination.",
     inputSchema: ListInvoicesInputSchema.shape,
+    outputSchema: InvoiceListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listInvoices,
   },
@@ -111,25 +216,91 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Invoice Details",
     description: "Retrieve detailed information about a specific invoice.",
     inputSchema: GetInvoiceInputSchema.shape,
+    outputSchema: InvoiceOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getInvoice,
   },
+  {
+    name: "freeagent_get_invoice_pdf",
+    title: "Get FreeAgent Invoice PDF",
+    description: "Fetch the invoice as FreeAgent renders it, returned as an embedded PDF resource the client can save or show to the user.",
+    inputSchema: GetInvoicePdfInputSchema.shape,
+    outputSchema: InvoicePdfOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: getInvoicePdf,
+  },
   {
     name: "freeagent_create_invoice",
     title: "Create FreeAgent Invoice",
     description: "Create a new invoice in FreeAgent.",
     inputSchema: CreateInvoiceInputSchema.shape,
+    outputSchema: CreateInvoiceOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["invoice"],
+    undo: deleteCreated("invoice"),
     handler: createInvoice,
   },
   {
     name: "freeagent_transition_invoice",
     title: "Transition FreeAgent Invoice",
     description:
-      "Move a FreeAgent invoice between lifecycle states: mark as sent, cancelled, draft, scheduled, or convert to a credit note. Use after freeagent_invoice_from_timeslips or freeagent_create_invoice to take a draft through to sent.",
+      "Move a FreeAgent invoice between lifecycle states: mark as sent, cancelled, draft, scheduled, or convert to a credit note. Use after freeagent_invoice_from_timeslips or freeagent_create_invoice to take a draft through to sent. Cancelling and converting to a credit note ask the user to confirm first.",
     inputSchema: TransitionInvoiceInputSchema.shape,
+    outputSchema: InvoiceOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    resources: ["invoice"],
+    undo: revertInvoiceTransition,
     handler: transitionInvoice,
+    confirmation: summarizeInvoiceTransition,
+  },
+  {
+    name: "freeagent_email_invoice",
+    title: "Email FreeAgent Invoice",
+    description:
+      "Email an invoice to the client through FreeAgent, with the PDF and a link to pay. Set `to` and optionally `cc`; give `subject` and `body` or leave both out to use FreeAgent's template. The user is shown a preview of the email and must approve it before it is sent. A draft invoice is marked as sent.",
+    inputSchema: EmailInvoiceInputSchema.shape,
+    outputSchema: EmailInvoiceOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["invoice"],
+    handler: emailInvoice,
+    confirmation: summarizeInvoiceEmail,
+  },
+  {
+    name: "freeagent_create_credit_note",
+    title: "Create FreeAgent Credit Note",
+    description:
+      "Issue a credit note against an existing invoice, for all of it or for chosen lines with optional partial quantities (e.g. credit 2 of 5 days on line 1). By default the credit is allocated against what is still due on the invoice; set `apply_to_invoice: false` to leave it unallocated for a refund.",
+    inputSchema: CreateCreditNoteInputSchema.shape,
+    outputSchema: CreditNoteOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["credit_note", "credit_note_reconciliation"],
+    undo: deleteCreated("credit_note", "credit_note_reconciliation"),
+    handler: createCreditNote,
+  },
+  {
+    name: "freeagent_refund_invoice",
+    title: "Record FreeAgent Invoice Refund",
+    description:
+      "Record money paid back to a customer by explaining an outgoing bank transaction as a refund of an invoice. The explanation links to the original invoice via `paid_invoice`. The refund cannot exceed what was paid on the invoice.",
+    inputSchema: RefundInvoiceInputSchema.shape,
+    outputSchema: RefundInvoiceOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["bank_transaction_explanation"],
+    undo: deleteCreated("bank_transaction_explanation"),
+    handler: refundInvoice,
+  },
+  {
+    name: "freeagent_write_off_invoice",
+    title: "Write Off FreeAgent Invoice",
+    description:
+      "Write off an invoice's unpaid balance as a bad debt. Issues a credit note for the outstanding amount, split by VAT rate in the same proportions as the invoice, and allocates it against the invoice. Asks the user to confirm first.",
+    inputSchema: WriteOffInvoiceInputSchema.shape,
+    outputSchema: CreditNoteOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    resources: ["credit_note", "credit_note_reconciliation"],
+    handler: writeOffInvoice,
+    confirmation: summarizeInvoiceWriteOff,
   },
   // Estimate Management
   {
@@ -137,6 +308,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Estimates",
     description: "List estimates (quotes) with filtering and pagination.",
     inputSchema: ListEstimatesInputSchema.shape,
+    outputSchema: EstimateListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listEstimates,
   },
@@ -145,6 +317,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Estimate",
     description: "Retrieve detailed information about a specific estimate by ID.",
     inputSchema: GetEstimateInputSchema.shape,
+    outputSchema: EstimateOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getEstimate,
   },
@@ -153,16 +326,22 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Estimate",
     description: "Draft a new estimate (quote) for a contact.",
     inputSchema: CreateEstimateInputSchema.shape,
+    outputSchema: EstimateOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["estimate"],
+    undo: deleteCreated("estimate"),
     handler: createEstimate,
   },
   {
     name: "freeagent_transition_estimate",
     title: "Transition FreeAgent Estimate",
-    description: "Move an estimate through its lifecycle: mark as sent, approved, rejected, cancelled, back to draft, or convert to an invoice.",
+    description: "Move an estimate through its lifecycle: mark as sent, approved, rejected, cancelled, back to draft, or convert to an invoice. Converting to an invoice asks the user to confirm first.",
     inputSchema: TransitionEstimateInputSchema.shape,
+    outputSchema: EstimateOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    resources: ["estimate"],
     handler: transitionEstimate,
+    confirmation: summarizeEstimateTransition,
   },
 
   // Recurring Invoices (read-only)
@@ -171,6 +350,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Recurring Invoices",
     description: "List recurring invoice templates with filtering and pagination.",
     inputSchema: ListRecurringInvoicesInputSchema.shape,
+    outputSchema: RecurringInvoiceListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listRecurringInvoices,
   },
@@ -179,6 +359,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Recurring Invoice",
     description: "Retrieve a specific recurring invoice template by ID.",
     inputSchema: GetRecurringInvoiceInputSchema.shape,
+    outputSchema: RecurringInvoiceOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getRecurringInvoice,
   },
@@ -189,6 +370,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Price List Items",
     description: "List price list (catalog) items available to use as invoice/estimate line items.",
     inputSchema: ListPriceListItemsInputSchema.shape,
+    outputSchema: PriceListItemListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listPriceListItems,
   },
@@ -197,6 +379,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Price List Item",
     description: "Retrieve a specific price list item by ID.",
     inputSchema: GetPriceListItemInputSchema.shape,
+    outputSchema: PriceListItemOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getPriceListItem,
   },
@@ -205,7 +388,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Price List Item",
     description: "Create a new catalog item that can be reused on invoices and estimates.",
     inputSchema: CreatePriceListItemInputSchema.shape,
+    outputSchema: PriceListItemOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["price_list_item"],
+    undo: deleteCreated("price_list_item"),
     handler: createPriceListItem,
   },
 
@@ -213,9 +399,12 @@ export const toolDefinitions: ToolDefinition[] = [
     name: "freeagent_invoice_from_timeslips",
     title: "Draft FreeAgent Invoice From Timeslips",
     description:
-      "Draft an invoice from a contact's unbilled timeslips in one call. Resolves the contact by name/ID/URL, finds active projects, collects unbilled timeslips in the given date range (defaults: first day of previous month → today), groups by task using the task or project billing rate, and posts a draft invoice. Note: the timeslips themselves are not auto-linked to the invoice.",
+      "Draft an invoice from a contact's unbilled timeslips in one call. Resolves the contact by name/ID/URL, finds active projects, collects unbilled timeslips in the given date range (defaults: first day of previous month → today), groups them into lines (per task by default; or per timeslip, day, user or project) using the task or project billing rate unless this call's `rate_overrides` applies, optionally rounds time to 6–60 minute increments, and posts a draft invoice. Note: the timeslips themselves are not auto-linked to the invoice.",
     inputSchema: InvoiceFromTimeslipsInputSchema.shape,
+    outputSchema: InvoiceFromTimeslipsOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["invoice"],
+    undo: deleteCreated("invoice"),
     handler: invoiceFromTimeslips,
   },
 
@@ -225,6 +414,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Expenses",
     description: "List expenses in your FreeAgent account with filtering and pagination.",
     inputSchema: ListExpensesInputSchema.shape,
+    outputSchema: ExpenseListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listExpenses,
   },
@@ -233,15 +423,19 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Expense Details",
     description: "Retrieve detailed information about a specific expense by ID.",
     inputSchema: GetExpenseInputSchema.shape,
+    outputSchema: ExpenseOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getExpense,
   },
   {
     name: "freeagent_create_expense",
     title: "Create FreeAgent Expense",
-    description: "Create a new expense in FreeAgent, including regular expenses or mileage claims.",
+    description: "Create a new expense in FreeAgent, including regular expenses or mileage claims. Attach a receipt by local file path or URI; the server reads and encodes it.",
     inputSchema: CreateExpenseInputSchema.shape,
+    outputSchema: ExpenseOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["expense"],
+    undo: deleteCreated("expense"),
     handler: createExpense,
   },
   {
@@ -249,7 +443,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Update FreeAgent Expense",
     description: "Update an existing expense in FreeAgent. Only provide the fields you want to change.",
     inputSchema: UpdateExpenseInputSchema.shape,
+    outputSchema: ExpenseOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    resources: ["expense"],
+    undo: restoreUpdated("expense", "/expenses", "expense_id", { miles: "mileage", mileage_vehicle_type: "vehicle_type" }),
     handler: updateExpense,
   },
   // Bill Management
@@ -258,6 +455,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Bills",
     description: "List supplier bills with filtering and pagination.",
     inputSchema: ListBillsInputSchema.shape,
+    outputSchema: BillListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listBills,
   },
@@ -266,15 +464,19 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Bill Details",
     description: "Retrieve detailed information about a specific supplier bill by ID.",
     inputSchema: GetBillInputSchema.shape,
+    outputSchema: BillOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getBill,
   },
   {
     name: "freeagent_create_bill",
     title: "Create FreeAgent Bill",
-    description: "Create a new supplier bill in FreeAgent. Used to record money owed to suppliers.",
+    description: "Create a new supplier bill in FreeAgent. Used to record money owed to suppliers. Attach the supplier's invoice by local file path or URI; the server reads and encodes it.",
     inputSchema: CreateBillInputSchema.shape,
+    outputSchema: CreateBillOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["bill"],
+    undo: deleteCreated("bill"),
     handler: createBill,
   },
 
@@ -284,9 +486,21 @@ export const toolDefinitions: ToolDefinition[] = [
     description:
       "Log a regular expense in one call. Takes a POSITIVE amount plus `kind` ('expense' or 'refund') — the tool applies the correct sign, so you never send a negative value. Accepts a category name, nominal code, or URL; accepts a user email, ID, or URL (defaults to the sole user on the account). Use freeagent_create_expense for mileage, recurring expenses, or receipt attachments.",
     inputSchema: LogExpenseInputSchema.shape,
+    outputSchema: LogExpenseOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["expense"],
+    undo: deleteCreated("expense"),
     handler: logExpense,
   },
+  {
+    name: "freeagent_find_duplicates",
+    title: "Find Duplicate Expenses and Bills",
+    description: "Scan expenses and/or bills dated in a range for suspected duplicates: records with the same user (expenses) or contact (bills) and the same amount, dated within `window_days` of each other. Returns each cluster with its records so the user can decide what to delete.",
+    inputSchema: FindDuplicatesInputSchema.shape,
+    outputSchema: FindDuplicatesOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: findDuplicates,
+  },
 
   // Timeslip Management
   {
@@ -294,6 +508,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Timeslips",
     description: "List timeslips in your FreeAgent account with filtering and pagination.",
     inputSchema: ListTimeslipsInputSchema.shape,
+    outputSchema: TimeslipListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listTimeslips,
   },
@@ -302,6 +517,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Timeslip Details",
     description: "Retrieve detailed information about a specific timeslip by ID.",
     inputSchema: GetTimeslipInputSchema.shape,
+    outputSchema: TimeslipOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getTimeslip,
   },
@@ -310,7 +526,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Timeslip",
     description: "Create a new timeslip (time tracking entry) in FreeAgent.",
     inputSchema: CreateTimeslipInputSchema.shape,
+    outputSchema: TimeslipOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["timeslip"],
+    undo: deleteCreated("timeslip"),
     handler: createTimeslip,
   },
   {
@@ -318,7 +537,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Update FreeAgent Timeslip",
     description: "Update an existing timeslip. Supports setting `billed_on_invoice` to link the timeslip to an invoice, though FreeAgent may reject external writes to that field.",
     inputSchema: UpdateTimeslipInputSchema.shape,
+    outputSchema: TimeslipOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    resources: ["timeslip"],
+    undo: restoreUpdated("timeslip", "/timeslips", "timeslip_id"),
     handler: updateTimeslip,
   },
 
@@ -328,6 +550,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Bank Accounts",
     description: "List all bank accounts in your FreeAgent account.",
     inputSchema: ListBankAccountsInputSchema.shape,
+    outputSchema: BankAccountListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listBankAccounts,
   },
@@ -336,6 +559,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Bank Account Details",
     description: "Retrieve detailed information about a specific bank account by ID.",
     inputSchema: GetBankAccountInputSchema.shape,
+    outputSchema: BankAccountOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getBankAccount,
   },
@@ -344,6 +568,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Bank Transactions",
     description: "List bank transactions for a specific bank account with pagination and filtering.",
     inputSchema: ListBankTransactionsInputSchema.shape,
+    outputSchema: BankTransactionListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listBankTransactions,
   },
@@ -352,6 +577,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Bank Transaction",
     description: "Get detailed information about a specific bank transaction including amount, description, and explanation status.",
     inputSchema: GetBankTransactionInputSchema.shape,
+    outputSchema: BankTransactionOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getBankTransaction,
   },
@@ -362,6 +588,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Bank Transaction Explanations",
     description: "List bank transaction explanations showing how transactions were categorized or linked to invoices, bills, or transfers.",
     inputSchema: ListBankTransactionExplanationsInputSchema.shape,
+    outputSchema: BankTransactionExplanationListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listBankTransactionExplanations,
   },
@@ -370,15 +597,20 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Bank Transaction Explanation",
     description: "Get detailed information about a specific bank transaction explanation including categorization, tax info, and linked entities.",
     inputSchema: GetBankTransactionExplanationInputSchema.shape,
+    outputSchema: BankTransactionExplanationOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getBankTransactionExplanation,
   },
   {
     name: "freeagent_create_bank_transaction_explanation",
     title: "Explain FreeAgent Bank Transaction",
-    description: "Create an explanation for a bank transaction by linking it to invoices, bills, or categories.",
+    description: "Create an explanation for a bank transaction by linking it to invoices, bills, or categories. Attach a receipt by local file path or URI; the server reads and encodes it.",
     inputSchema: CreateBankTransactionExplanationInputSchema.shape,
+    outputSchema: BankTransactionExplanationOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["bank_transaction_explanation"],
+    undo: deleteCreated("bank_transaction_explanation"),
     handler: createBankTransactionExplanation,
   },
   {
@@ -386,7 +618,11 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Update FreeAgent Bank Transaction Explanation",
     description: "Update an existing bank transaction explanation. Only provide the fields you want to change.",
     inputSchema: UpdateBankTransactionExplanationInputSchema.shape,
+    outputSchema: BankTransactionExplanationOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["bank_transaction_explanation"],
+    undo: restoreUpdated("bank_transaction_explanation", "/bank_transaction_explanations", "bank_transaction_explanation_id"),
     handler: updateBankTransactionExplanation,
   },
   {
@@ -395,9 +631,67 @@ export const toolDefinitions: ToolDefinition[] = [
     description:
       "Explain a bank transaction in one call. Accepts a human-friendly hint (category name like 'Travel', nominal code like '285', or invoice reference like 'INV-001') and resolves it to the correct FreeAgent URL server-side. Auto-fills date and amount from the transaction, so you do not need to call get_bank_transaction or list_categories first. Provide exactly one of `category` or `paid_invoice`.",
     inputSchema: ReconcileBankTransactionInputSchema.shape,
+    outputSchema: ReconcileBankTransactionOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["bank_transaction_explanation"],
+    undo: deleteCreated("bank_transaction_explanation"),
     handler: reconcileBankTransaction,
   },
+  {
+    name: "freeagent_reconcile_bank_account",
+    title: "Bulk Reconcile FreeAgent Bank Account",
+    description:
+      "Match a bank account's unexplained transactions against open invoices (money in) and bills (money out) by amount, date window and reference. Returns each proposed match with a confidence score and reasons. Nothing is written until the user approves: clients with elicitation show a checklist; otherwise call again with `approve` listing the accepted { bank_transaction, match } pairs.",
+    inputSchema: ReconcileBankAccountInputSchema.shape,
+    outputSchema: ReconcileBankAccountOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["applied.explanation"],
+    undo: deleteCreated("applied.explanation"),
+    handler: reconcileBankAccount,
+  },
+  {
+    name: "freeagent_list_reconciliation_rules",
+    title: "List Reconciliation Rules",
+    description: "List the saved reconciliation rules in the order they are tried. Rules map recurring bank descriptions (e.g. 'AWS', 'TfL') to a category, VAT treatment and description.",
+    inputSchema: ListReconciliationRulesInputSchema.shape,
+    outputSchema: ReconciliationRuleListOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    handler: listReconciliationRules,
+  },
+  {
+    name: "freeagent_save_reconciliation_rule",
+    title: "Save Reconciliation Rule",
+    description: "Add a reconciliation rule, or replace the rule with the same name. A rule matches bank transactions whose description contains `pattern` (or matches it as a regex), optionally limited by direction and amount range, and explains them with `category`, `ec_status`, `sales_tax_rate` and `description`.",
+    inputSchema: SaveReconciliationRuleInputSchema.shape,
+    outputSchema: SaveReconciliationRuleOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    scope: SCOPE_BANKING,
+    handler: saveReconciliationRule,
+  },
+  {
+    name: "freeagent_delete_reconciliation_rule",
+    title: "Delete Reconciliation Rule",
+    description: "Delete a saved reconciliation rule by name. Explanations already created by the rule are not touched.",
+    inputSchema: DeleteReconciliationRuleInputSchema.shape,
+    outputSchema: DeleteReconciliationRuleOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+    scope: SCOPE_BANKING,
+    handler: deleteReconciliationRule,
+  },
+  {
+    name: "freeagent_apply_reconciliation_rules",
+    title: "Apply Reconciliation Rules",
+    description: "Run the saved reconciliation rules over a bank account's unexplained transactions. Each transaction is explained by the first matching rule through the same path as freeagent_reconcile_bank_transaction, and the result reports which rule fired. Use `dry_run` to preview the explanations first.",
+    inputSchema: ApplyReconciliationRulesInputSchema.shape,
+    outputSchema: ApplyReconciliationRulesOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    scope: SCOPE_BANKING,
+    resources: ["results.explanation"],
+    undo: deleteCreated("results.explanation"),
+    handler: applyReconciliationRules,
+  },
 
   // Project Management
   {
@@ -405,6 +699,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Projects",
     description: "List all projects in your FreeAgent account with filtering and pagination.",
     inputSchema: ListProjectsInputSchema.shape,
+    outputSchema: ProjectListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listProjects,
   },
@@ -413,6 +708,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Project Details",
     description: "Retrieve detailed information about a specific project by ID.",
     inputSchema: GetProjectInputSchema.shape,
+    outputSchema: ProjectOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getProject,
   },
@@ -421,7 +717,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Project",
     description: "Create a new project in FreeAgent.",
     inputSchema: CreateProjectInputSchema.shape,
+    outputSchema: ProjectOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["project"],
+    undo: deleteCreated("project"),
     handler: createProject,
   },
 
@@ -431,6 +730,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Tasks",
     description: "List tasks in your FreeAgent account with filtering and pagination.",
     inputSchema: ListTasksInputSchema.shape,
+    outputSchema: TaskListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listTasks,
   },
@@ -439,6 +739,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Task Details",
     description: "Retrieve detailed information about a specific task by ID.",
     inputSchema: GetTaskInputSchema.shape,
+    outputSchema: TaskOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getTask,
   },
@@ -447,7 +748,10 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Create FreeAgent Task",
     description: "Create a new task within a project in FreeAgent.",
     inputSchema: CreateTaskInputSchema.shape,
+    outputSchema: TaskOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    resources: ["task"],
+    undo: deleteCreated("task"),
     handler: createTask,
   },
 
@@ -457,6 +761,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Categories",
     description: "List all categories in your FreeAgent account for expenses, invoices, and transactions.",
     inputSchema: ListCategoriesInputSchema.shape,
+    outputSchema: CategoryListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listCategories,
   },
@@ -465,6 +770,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Category Details",
     description: "Retrieve detailed information about a specific category by nominal code.",
     inputSchema: GetCategoryInputSchema.shape,
+    outputSchema: CategoryOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getCategory,
   },
@@ -475,6 +781,7 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "Get FreeAgent Company Information",
     description: "Retrieve information about your FreeAgent company account.",
     inputSchema: GetCompanyInputSchema.shape,
+    outputSchema: CompanyOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: getCompany,
   },
@@ -483,9 +790,116 @@ export const toolDefinitions: ToolDefinition[] = [
     title: "List FreeAgent Users",
     description: "List all users in your FreeAgent account.",
     inputSchema: ListUsersInputSchema.shape,
+    outputSchema: UserListOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
     handler: listUsers,
   },
+
+  // Accounting Reports
+  {
+    name: "freeagent_get_profit_and_loss",
+    title: "Get FreeAgent Profit and Loss",
+    description: "Profit and loss for a date range or accounting period: income, cost of sales and admin expenses by category, operating profit, deductions such as Corporation Tax, and retained profit. Set compare_previous to see each figure against the previous period of the same length. Defaults to the current accounting year to date.",
+    inputSchema: GetProfitAndLossInputSchema.shape,
+    outputSchema: ProfitAndLossOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: getProfitAndLoss,
+  },
+  {
+    name: "freeagent_get_balance_sheet",
+    title: "Get FreeAgent Balance Sheet",
+    description: "Balance sheet as at a date: capital assets, current assets, liabilities and owners' equity, listed by nominal code with each account's category. Use response_format 'json' to export the rows.",
+    inputSchema: GetBalanceSheetInputSchema.shape,
+    outputSchema: BalanceSheetOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: getBalanceSheet,
+  },
+  {
+    name: "freeagent_get_trial_balance",
+    title: "Get FreeAgent Trial Balance",
+    description: "Trial balance as at a date: every nominal code with a balance, as a debit or credit, with its category, plus total debits and credits. Use response_format 'json' to export the rows.",
+    inputSchema: GetTrialBalanceInputSchema.shape,
+    outputSchema: TrialBalanceOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: getTrialBalance,
+  },
+  {
+    name: "freeagent_cash_flow_forecast",
+    title: "Forecast FreeAgent Cash Flow",
+    description: "Project the bank balance over the coming weeks or months: starts from the current balances of the bank accounts, adds open invoices and the invoices active recurring invoices will raise, and subtracts open bills, each on its due date. contact_lateness_days shifts a contact's payments by how late they usually pay. Flags the weeks or months that end with a negative balance.",
+    inputSchema: CashFlowForecastInputSchema.shape,
+    outputSchema: CashFlowForecastOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: cashFlowForecast,
+  },
+  {
+    name: "freeagent_aged_debtors",
+    title: "FreeAgent Aged Debtors",
+    description: "Aged debtors: what each customer still owes on open invoices, bucketed by days past the due date (current, 1-30, 31-60, 61-90, 90+), grouped by currency and contact with totals. Each contact lists the invoices behind its figures.",
+    inputSchema: AgedBalancesInputSchema.shape,
+    outputSchema: AgedBalancesOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: agedDebtors,
+  },
+  {
+    name: "freeagent_aged_creditors",
+    title: "FreeAgent Aged Creditors",
+    description: "Aged creditors: what the company still owes each supplier on open bills, bucketed by days past the due date (current, 1-30, 31-60, 61-90, 90+), grouped by currency and contact with totals. Each contact lists the bills behind its figures.",
+    inputSchema: AgedBalancesInputSchema.shape,
+    outputSchema: AgedBalancesOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: agedCreditors,
+  },
+
+  // VAT
+  {
+    name: "freeagent_list_vat_returns",
+    title: "List FreeAgent VAT Returns",
+    description: "List the company's VAT returns, latest period first, with each period's dates, filing status, filing due date, and the payment due with its status. A return's period_ends_on identifies it for freeagent_get_vat_return.",
+    inputSchema: ListVatReturnsInputSchema.shape,
+    outputSchema: VatReturnListOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: listVatReturns,
+  },
+  {
+    name: "freeagent_get_vat_return",
+    title: "Get FreeAgent VAT Return",
+    description: "Get one VAT return by the last day of its period: filing and payment status, and the nine box figures (VAT due on sales, VAT reclaimed, net VAT, total sales and purchases, …).",
+    inputSchema: GetVatReturnInputSchema.shape,
+    outputSchema: VatReturnOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: getVatReturn,
+  },
+  {
+    name: "freeagent_preview_vat_liability",
+    title: "Preview FreeAgent VAT Liability",
+    description: "Estimate the VAT owed so far for a VAT period (default: the period that includes today) from the invoices, bills and bank transaction explanations entered up to today, using their sales tax values, rates and EC status. Returns the nine boxes and the net VAT due, and warns about bank transactions still marked for review.",
+    inputSchema: PreviewVatLiabilityInputSchema.shape,
+    outputSchema: VatLiabilityPreviewOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: previewVatLiability,
+  },
+
+  // Audit Log
+  {
+    name: "freeagent_list_audit_events",
+    title: "List Audit Events",
+    description: "List the writes made through this server, newest first: which tool was called, with what arguments (secrets redacted), the FreeAgent URLs it created or changed, which OAuth client called it and when. Failed writes are included; dry runs and reads are not. Filter by tool, client, outcome or time range.",
+    inputSchema: ListAuditEventsInputSchema.shape,
+    outputSchema: AuditEventListOutputSchema.shape,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    handler: listAuditEvents,
+  },
+  {
+    name: "freeagent_undo",
+    title: "Undo FreeAgent Changes",
+    description: "Reverse recent writes made through this server: deletes what a create added, restores the fields an update changed, or moves an invoice back to its previous status. Undoes the last `last` writes (default 1), newest first, or one `operation_id` from freeagent_list_audit_events. Writes that cannot be reversed (emails, write-offs, deletes) are skipped and reported. Each write can be undone once.",
+    inputSchema: UndoInputSchema.shape,
+    outputSchema: UndoOutputSchema.shape,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+    audit: false,
+    handler: (apiClient, params, ctx) => undoOperations(toolDefinitions, apiClient, params, ctx),
+  },
 ];
 
 /**
@@ -500,8 +914,9 @@ export const toolSearchMetaDefinitions: ToolDefinition[] = [
     description:
       "Search the FreeAgent tool catalog and return JSONSchema definitions for matching tools. Use this to discover which tool to call before invoking freeagent_call_tool. Supports 'select:name1,name2' for direct name lookup, '+required optional' to require specific keywords, or plain keywords for a ranked search.",
     inputSchema: SearchToolsInputSchema.shape,
+    outputSchema: SearchToolsOutputSchema.shape,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
-    handler: (_apiClient, params) => searchTools(toolDefinitions, params),
+    handler: (_apiClient, params, ctx) => searchTools(permittedTools(toolDefinitions, ctx.scopes), params),
   },
   {
     name: "freeagent_call_tool",
@@ -509,6 +924,7 @@ export const toolSearchMetaDefinitions: ToolDefinition[] = [
     description:
       "Invoke a FreeAgent catalog tool by name with the given arguments. Pair with freeagent_search_tools to discover tool names and input schemas — this meta-tool validates arguments against the target tool's Zod schema before dispatching.",
     inputSchema: CallToolInputSchema.shape,
+    outputSchema: CallToolOutputSchema.shape,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
     handler: (apiClient, params, ctx) => callTool(toolDefinitions, apiClient, params, ctx),
   },
@@ -532,18 +948,37 @@ export function isToolSearchMode(): boolean {
  * freeagent_search_tools and freeagent_call_tool, which dramatically reduces
  * the token footprint of tools/list for clients with many MCP servers.
  *
+ * Calls to tools that are not read-only are recorded in the audit log (see
+ * audit.ts), and creates given an idempotency_key run once per key (see
+ * idempotency.ts).
+ *
+ * With `options.scopes`, only the catalog tools those scopes permit are
+ * registered; in tool-search mode the meta-tools apply the same check to
+ * what they search and call.
+ *
  * @param server - The McpServer to register tools on
  * @param apiClient - The FreeAgent API client to use for API calls
  */
-export function registerAllTools(server: McpServer, apiClient: FreeAgentApiClient): void {
+export function registerAllTools(
+  server: McpServer,
+  apiClient: FreeAgentApiClient,
+  options: RegisterOptions = {}
+): void {
   const ctx: ToolContext = {
     get clientSupportsElicitation(): boolean {
       return Boolean(server.server.getClientCapabilities()?.elicitation);
     },
     elicit: (params) => server.server.elicitInput(params),
+    ruleStore: options.ruleStore ?? getDefaultRuleStore(options.clientId),
+    auditSink: options.auditSink ?? getDefaultAuditSink(),
+    idempotencyStore: options.idempotencyStore ?? getDefaultOAuthStore(),
+    clientId: options.clientId,
+    scopes: options.scopes,
+    allowLocalFiles: options.allowLocalFiles,
   };
 
-  const tools = isToolSearchMode() ? toolSearchMetaDefinitions : toolDefinitions;
+  const searchMode = isToolSearchMode();
+  const tools = searchMode ? toolSearchMetaDefinitions : permittedTools(toolDefinitions, options.scopes);
 
   for (const tool of tools) {
     server.registerTool(
@@ -552,12 +987,23 @@ export function registerAllTools(server: McpServer, apiClient: FreeAgentApiClien
         title: tool.title,
         description: tool.description,
         inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
         annotations: tool.annotations,
       },
       async (params: any) => {
         try {
-          const result = await tool.handler(apiClient, params, ctx);
-          return { content: [{ type: "text" as const, text: result }] };
+          await confirmToolCall(tool, apiClient, params, ctx);
+          // In tool-search mode freeagent_call_tool audits the tool it dispatches to
+          const result = searchMode
+            ? await tool.handler(apiClient, params, ctx)
+            : await runIdempotent(tool, params, ctx, () => runAudited(tool, apiClient, params, ctx));
+          return {
+            content: [
+              { type: "text" as const, text: result.text },
+              ...(result.resources ?? []).map((resource) => ({ type: "resource" as const, resource })),
+            ],
+            structuredContent: result.structuredContent,
+          };
         } catch (error) {
           return { isError: true, content: [{ type: "text" as const, text: formatErrorForLLM(error as Error) }] };
         }
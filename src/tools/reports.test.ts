@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { getBalanceSheet, getProfitAndLoss, getTrialBalance, previousPeriod } from "./reports.js";
+
+const categories = {
+  income_categories: [{ url: "https://api.freeagent.com/v2/categories/001", nominal_code: "001", description: "Sales" }],
+  cost_of_sales_categories: [{ url: "https://api.freeagent.com/v2/categories/101", nominal_code: "101", description: "Cost of sales" }],
+  admin_expenses_categories: [
+    { url: "https://api.freeagent.com/v2/categories/285", nominal_code: "285", description: "Accommodation and Meals" },
+    { url: "https://api.freeagent.com/v2/categories/365", nominal_code: "365", description: "Travel" },
+  ],
+  general_categories: [
+    { url: "https://api.freeagent.com/v2/categories/601", nominal_code: "601", description: "Computer Equipment Cost", group_description: "Fixed Assets" },
+    { url: "https://api.freeagent.com/v2/categories/750", nominal_code: "750", description: "Bank Account" },
+  ],
+};
+
+const entry = (nominal_code: string, name: string, total: number) =>
+  ({ category: `https://api.freeagent.com/v2/categories/${nominal_code}`, nominal_code, name, total });
+
+/** A client whose accounting endpoints answer per from_date (or to_date) */
+function mockClient(periods: Record<string, { summary?: object; balances?: object[] }>, sheet?: object) {
+  const get = vi.fn(async (path: string, params?: Record<string, string>) => {
+    if (path === "/company") return { data: { company: { currency: "GBP" } }, headers: {} };
+    if (path === "/categories") return { data: categories, headers: {} };
+    if (path === "/accounting/balance_sheet") return { data: { balance_sheet: sheet }, headers: {} };
+    const period = periods[params?.from_date ?? "default"];
+    if (path === "/accounting/profit_and_loss/summary") return { data: { profit_and_loss_summary: period.summary }, headers: {} };
+    if (path === "/accounting/trial_balance/summary") {
+      return { data: { trial_balance_summary: (period ?? periods[params?.to_date ?? ""]).balances }, headers: {} };
+    }
+    throw new Error(`Unexpected GET ${path}`);
+  });
+  return { client: { get } as unknown as FreeAgentApiClient, get };
+}
+
+const quarter = {
+  summary: {
+    from: "2026-04-01",
+    to: "2026-06-30",
+    income: 12000,
+    expenses: 3000,
+    operating_profit: 9000,
+    less: [{ title: "Corporation Tax", total: 1710 }],
+    retained_profit: 7290,
+  },
+  balances: [
+    entry("001", "Sales", -12000),
+    entry("101", "Cost of sales", 1000),
+    entry("285", "Accommodation and Meals", 2000),
+    entry("750", "Bank", 9000),
+    entry("365", "Travel", 0),
+  ],
+};
+
+describe("previousPeriod", () => {
+  it("steps whole months back by months and other ranges by days", () => {
+    expect(previousPeriod("2026-04-01", "2026-06-30")).toEqual({ from_date: "2026-01-01", to_date: "2026-03-31" });
+    expect(previousPeriod("2025-04-01", "2026-03-31")).toEqual({ from_date: "2024-04-01", to_date: "2025-03-31" });
+    expect(previousPeriod("2026-03-10", "2026-03-16")).toEqual({ from_date: "2026-03-03", to_date: "2026-03-09" });
+  });
+});
+
+describe("getProfitAndLoss", () => {
+  it("breaks the period down by P&L category and leaves out balance sheet categories", async () => {
+    const { client, get } = mockClient({ "2026-04-01": quarter });
+
+    const result = await getProfitAndLoss(client, {
+      from_date: "2026-04-01",
+      to_date: "2026-06-30",
+      compare_previous: false,
+      response_format: ResponseFormat.MARKDOWN,
+    });
+
+    expect(get).toHaveBeenCalledWith("/accounting/profit_and_loss/summary", { from_date: "2026-04-01", to_date: "2026-06-30" });
+    expect(result.structuredContent).toEqual({
+      currency: "GBP",
+      summary: {
+        from: "2026-04-01",
+        to: "2026-06-30",
+        income: "12000.00",
+        expenses: "3000.00",
+        operating_profit: "9000.00",
+        less: [{ title: "Corporation Tax", total: "1710.00" }],
+        retained_profit: "7290.00",
+      },
+      income: [{ category: "https://api.freeagent.com/v2/categories/001", nominal_code: "001", name: "Sales", amount: "12000.00" }],
+      cost_of_sales: [expect.objectContaining({ nominal_code: "101", amount: "1000.00" })],
+      admin_expenses: [expect.objectContaining({ nominal_code: "285", amount: "2000.00" })],
+    });
+    expect(result.text).toContain("| 001 | Sales | GBP 12000.00 |");
+    expect(result.text).toContain("- **Less Corporation Tax**: GBP 1710.00");
+    expect(result.text).not.toContain("Bank");
+  });
+
+  it("compares against the previous period, including categories only used then", async () => {
+    const { client, get } = mockClient({
+      default: quarter,
+      "2026-04-01": quarter,
+      "2026-01-01": {
+        summary: { from: "2026-01-01", to: "2026-03-31", income: 10000, expenses: 2500, operating_profit: 7500 },
+        balances: [entry("001", "Sales", -10000), entry("285", "Accommodation and Meals", 2000), entry("365", "Travel", 500)],
+      },
+    });
+
+    const result = await getProfitAndLoss(client, { compare_previous: true, response_format: ResponseFormat.MARKDOWN });
+
+    expect(get).toHaveBeenCalledWith("/accounting/profit_and_loss/summary", {});
+    expect(get).toHaveBeenCalledWith("/accounting/profit_and_loss/summary", { from_date: "2026-01-01", to_date: "2026-03-31" });
+    expect(result.structuredContent).toMatchObject({
+      income: [{ nominal_code: "001", amount: "12000.00", previous_amount: "10000.00" }],
+      admin_expenses: [
+        { nominal_code: "285", amount: "2000.00", previous_amount: "2000.00" },
+        { nominal_code: "365", amount: "0.00", previous_amount: "500.00" },
+      ],
+      previous: { from: "2026-01-01", to: "2026-03-31", income: "10000.00" },
+    });
+    expect(result.text).toContain("| 001 | Sales | GBP 12000.00 | GBP 10000.00 | +GBP 2000.00 (+20.0%) |");
+    expect(result.text).toContain("- **Income**: GBP 12000.00 (previous GBP 10000.00, +GBP 2000.00 (+20.0%))");
+  });
+
+  it("rejects an accounting period together with dates", async () => {
+    const { client } = mockClient({});
+    await expect(
+      getProfitAndLoss(client, {
+        accounting_period: "2025/26",
+        from_date: "2025-04-01",
+        compare_previous: false,
+        response_format: ResponseFormat.MARKDOWN,
+      })
+    ).rejects.toThrow("not both");
+  });
+});
+
+describe("getBalanceSheet", () => {
+  it("lists each section's accounts with their categories, and the sheet totals", async () => {
+    const { client, get } = mockClient({}, {
+      accounting_period_start_date: "2026-04-01",
+      as_at_date: "2026-06-30",
+      currency: "GBP",
+      capital_assets: { accounts: [{ nominal_code: "601", name: "Computer Equipment Cost", total: 1500 }], net_book_value: 1200 },
+      current_assets: { accounts: [{ nominal_code: "750-1", name: "Business Current Account", total: "9000.5" }], total: 9000.5 },
+      total_assets: 10200.5,
+    });
+
+    const result = await getBalanceSheet(client, { as_of_date: "2026-06-30", response_format: ResponseFormat.MARKDOWN });
+
+    expect(get).toHaveBeenCalledWith("/accounting/balance_sheet", { as_at_date: "2026-06-30" });
+    expect(result.structuredContent).toEqual({
+      as_of_date: "2026-06-30",
+      accounting_period_start_date: "2026-04-01",
+      currency: "GBP",
+      sections: [
+        {
+          key: "capital_assets",
+          title: "Capital assets",
+          rows: [{
+            nominal_code: "601",
+            name: "Computer Equipment Cost",
+            total: "1500.00",
+            category: "https://api.freeagent.com/v2/categories/601",
+            category_description: "Computer Equipment Cost",
+            category_group: "General",
+            group_description: "Fixed Assets",
+          }],
+          totals: { net_book_value: "1200.00" },
+        },
+        {
+          key: "current_assets",
+          title: "Current assets",
+          rows: [expect.objectContaining({ nominal_code: "750-1", total: "9000.50", category_description: "Bank Account" })],
+          totals: { total: "9000.50" },
+        },
+      ],
+      totals: { total_assets: "10200.50" },
+    });
+    expect(result.text).toContain("| 750-1 | Business Current Account | Bank Account | GBP 9000.50 |");
+    expect(result.text).toContain("- **Total assets**: GBP 10200.50");
+  });
+});
+
+describe("getTrialBalance", () => {
+  it("splits balances into debits and credits as at the date", async () => {
+    const { client, get } = mockClient({ "2026-06-30": quarter });
+
+    const result = await getTrialBalance(client, { as_of_date: "2026-06-30", response_format: ResponseFormat.JSON });
+
+    expect(get).toHaveBeenCalledWith("/accounting/trial_balance/summary", { to_date: "2026-06-30" });
+    expect(result.structuredContent).toMatchObject({
+      as_of_date: "2026-06-30",
+      currency: "GBP",
+      total_debits: "12000.00",
+      total_credits: "12000.00",
+    });
+    const rows = (result.structuredContent as { rows: { nominal_code: string; category_group?: string }[] }).rows;
+    expect(rows.map((r) => [r.nominal_code, r.category_group])).toEqual([
+      ["001", "Income"],
+      ["101", "Cost of Sales"],
+      ["285", "Admin Expenses"],
+      ["750", "General"],
+    ]);
+    expect(JSON.parse(result.text)).toEqual(result.structuredContent);
+  });
+});
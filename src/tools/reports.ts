@@ -0,0 +1,456 @@
+/**
+ * Accounting Report Tools
+ *
+ * Read-only reports built on FreeAgent's accounting endpoints. The profit
+ * and loss report takes its headline totals from the P&L summary and its
+ * per-category breakdown from the trial balance for the same dates, sorted
+ * into income, cost of sales and admin expenses using /categories. The
+ * balance sheet and trial balance list FreeAgent's rows by nominal code,
+ * each joined with its category from /categories.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type {
+  FreeAgentBalanceSheet,
+  FreeAgentBalanceSheetAccount,
+  FreeAgentCategory,
+  FreeAgentCompany,
+  FreeAgentProfitAndLossSummary,
+  FreeAgentTrialBalanceEntry,
+} from "../types.js";
+import type { GetBalanceSheetInput, GetProfitAndLossInput, GetTrialBalanceInput } from "../schemas/index.js";
+import {
+  addDays,
+  addMonths,
+  daysBetween,
+  formatCurrency,
+  formatResponse,
+  toAmount,
+  today,
+  toNumber,
+  truncateIfNeeded,
+  type ToolResult,
+} from "../services/formatter.js";
+
+/**
+ * The period of the same length that ends the day before `from`. Whole
+ * months (a quarter, a year) step back by months, so a quarter compares with
+ * the previous quarter whatever the month lengths; other ranges step back by
+ * days.
+ */
+export function previousPeriod(from: string, to: string): { from_date: string; to_date: string } {
+  const to_date = addDays(from, -1);
+  if (from.endsWith("-01") && addDays(to, 1).endsWith("-01")) {
+    const [fromYear, fromMonth] = from.split("-").map(Number);
+    const [toYear, toMonth] = to.split("-").map(Number);
+    const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+    return { from_date: addMonths(from, -months), to_date };
+  }
+  const days = daysBetween(from, to);
+  return { from_date: addDays(to_date, -days), to_date };
+}
+
+type PeriodQuery = { from_date?: string; to_date?: string; accounting_period?: string };
+
+function periodQuery(params: PeriodQuery): PeriodQuery {
+  if (params.accounting_period && (params.from_date || params.to_date)) {
+    throw new Error("Give either accounting_period or from_date/to_date, not both.");
+  }
+  if (params.from_date && params.to_date && params.from_date > params.to_date) {
+    throw new Error(`from_date (${params.from_date}) is after to_date (${params.to_date}).`);
+  }
+  const query: PeriodQuery = {};
+  if (params.from_date) query.from_date = params.from_date;
+  if (params.to_date) query.to_date = params.to_date;
+  if (params.accounting_period) query.accounting_period = params.accounting_period;
+  return query;
+}
+
+/** The collections /categories returns, and what reports call each */
+const CATEGORY_GROUPS = [
+  { collection: "income_categories", title: "Income" },
+  { collection: "cost_of_sales_categories", title: "Cost of Sales" },
+  { collection: "admin_expenses_categories", title: "Admin Expenses" },
+  { collection: "general_categories", title: "General" },
+] as const;
+
+interface IndexedCategory {
+  category: FreeAgentCategory;
+  collection: (typeof CATEGORY_GROUPS)[number]["collection"];
+}
+
+/** Every category, by nominal code */
+async function fetchCategoryIndex(client: FreeAgentApiClient): Promise<Map<string, IndexedCategory>> {
+  const response = await client.get<Record<string, FreeAgentCategory[] | undefined>>("/categories");
+  const index = new Map<string, IndexedCategory>();
+  for (const { collection } of CATEGORY_GROUPS) {
+    for (const category of response.data[collection] ?? []) {
+      index.set(category.nominal_code, { category, collection });
+    }
+  }
+  return index;
+}
+
+/** Sub-accounts such as a second bank account ("750-2") belong to their parent's category */
+function lookupCategory(index: Map<string, IndexedCategory>, nominalCode: string): IndexedCategory | undefined {
+  return index.get(nominalCode) ?? index.get(nominalCode.split("-")[0]);
+}
+
+async function fetchCurrency(client: FreeAgentApiClient): Promise<string> {
+  const response = await client.get<{ company: FreeAgentCompany }>("/company");
+  return response.data.company.currency || "GBP";
+}
+
+type Section = "income" | "cost_of_sales" | "admin_expenses";
+
+const SECTIONS: { key: Section; collection: string; title: string; sign: 1 | -1 }[] = [
+  // Income is a credit, so it is negative in the trial balance
+  { key: "income", collection: "income_categories", title: "Income", sign: -1 },
+  { key: "cost_of_sales", collection: "cost_of_sales_categories", title: "Cost of Sales", sign: 1 },
+  { key: "admin_expenses", collection: "admin_expenses_categories", title: "Admin Expenses", sign: 1 },
+];
+
+interface ProfitAndLossLine {
+  category: string;
+  nominal_code: string;
+  name: string;
+  amount: string;
+  previous_amount?: string;
+}
+
+interface ProfitAndLossTotals {
+  from: string;
+  to: string;
+  income: string;
+  expenses: string;
+  operating_profit: string;
+  less: { title: string; total: string }[];
+  retained_profit?: string;
+}
+
+interface PeriodFigures {
+  summary: FreeAgentProfitAndLossSummary;
+  balances: FreeAgentTrialBalanceEntry[];
+}
+
+async function fetchPeriod(client: FreeAgentApiClient, query: PeriodQuery): Promise<PeriodFigures> {
+  const summaryResponse = await client.get<{ profit_and_loss_summary: FreeAgentProfitAndLossSummary }>(
+    "/accounting/profit_and_loss/summary",
+    query
+  );
+  const summary = summaryResponse.data.profit_and_loss_summary;
+  // The trial balance only takes dates, so ask for the period the summary resolved to
+  const balanceResponse = await client.get<{ trial_balance_summary?: FreeAgentTrialBalanceEntry[] }>(
+    "/accounting/trial_balance/summary",
+    { from_date: summary.from, to_date: summary.to }
+  );
+  return { summary, balances: balanceResponse.data.trial_balance_summary ?? [] };
+}
+
+function totalsOf(summary: FreeAgentProfitAndLossSummary): ProfitAndLossTotals {
+  const totals: ProfitAndLossTotals = {
+    from: summary.from,
+    to: summary.to,
+    income: toAmount(toNumber(summary.income)),
+    expenses: toAmount(toNumber(summary.expenses)),
+    operating_profit: toAmount(toNumber(summary.operating_profit)),
+    less: (summary.less ?? []).map((l) => ({ title: l.title, total: toAmount(toNumber(l.total)) })),
+  };
+  if (summary.retained_profit !== undefined) totals.retained_profit = toAmount(toNumber(summary.retained_profit));
+  return totals;
+}
+
+/** One line per P&L category with a balance in either period, by nominal code */
+function sectionLines(
+  section: (typeof SECTIONS)[number],
+  sectionOf: Map<string, Section>,
+  current: FreeAgentTrialBalanceEntry[],
+  previous?: FreeAgentTrialBalanceEntry[]
+): ProfitAndLossLine[] {
+  const inSection = (entries: FreeAgentTrialBalanceEntry[]) =>
+    new Map(entries.filter((e) => sectionOf.get(e.nominal_code) === section.key).map((e) => [e.nominal_code, e]));
+  const now = inSection(current);
+  const before = previous ? inSection(previous) : new Map<string, FreeAgentTrialBalanceEntry>();
+
+  const codes = [...new Set([...now.keys(), ...before.keys()])].sort();
+  const lines: ProfitAndLossLine[] = [];
+  for (const code of codes) {
+    const entry = (now.get(code) ?? before.get(code))!;
+    const amount = section.sign * toNumber(now.get(code)?.total);
+    const previousAmount = section.sign * toNumber(before.get(code)?.total);
+    if (amount === 0 && previousAmount === 0) continue;
+    const line: ProfitAndLossLine = { category: entry.category, nominal_code: code, name: entry.name, amount: toAmount(amount) };
+    if (previous) line.previous_amount = toAmount(previousAmount);
+    lines.push(line);
+  }
+  return lines;
+}
+
+function formatChange(current: string, previous: string, currency: string): string {
+  const now = parseFloat(current);
+  const before = parseFloat(previous);
+  const diff = now - before;
+  const percent = before !== 0 ? ` (${diff >= 0 ? "+" : ""}${((diff / Math.abs(before)) * 100).toFixed(1)}%)` : "";
+  return `${diff >= 0 ? "+" : ""}${formatCurrency(toAmount(diff), currency)}${percent}`;
+}
+
+/**
+ * Profit and loss for a date range or accounting period, broken down by
+ * category, optionally against the previous period of the same length.
+ */
+export async function getProfitAndLoss(
+  client: FreeAgentApiClient,
+  params: GetProfitAndLossInput
+): Promise<ToolResult> {
+  const query = periodQuery(params);
+  const [currency, categories, current] = await Promise.all([
+    fetchCurrency(client),
+    fetchCategoryIndex(client),
+    fetchPeriod(client, query),
+  ]);
+  const previous = params.compare_previous
+    ? await fetchPeriod(client, previousPeriod(current.summary.from, current.summary.to))
+    : undefined;
+
+  const sectionOf = new Map<string, Section>();
+  for (const [code, { collection }] of categories) {
+    const section = SECTIONS.find((s) => s.collection === collection);
+    if (section) sectionOf.set(code, section.key);
+  }
+
+  const lines = Object.fromEntries(
+    SECTIONS.map((section) => [section.key, sectionLines(section, sectionOf, current.balances, previous?.balances)])
+  ) as Record<Section, ProfitAndLossLine[]>;
+  const summary = totalsOf(current.summary);
+  const previousSummary = previous ? totalsOf(previous.summary) : undefined;
+
+  const data: Record<string, unknown> = { currency, summary, ...lines };
+  if (previousSummary) data.previous = previousSummary;
+
+  const text = formatResponse(data, params.response_format, () => {
+    const out = [`# Profit and Loss: ${summary.from} to ${summary.to}`, ""];
+    if (previousSummary) out.push(`Compared with ${previousSummary.from} to ${previousSummary.to}.`, "");
+
+    for (const section of SECTIONS) {
+      const rows = lines[section.key];
+      if (rows.length === 0) continue;
+      out.push(`## ${section.title}`, "");
+      out.push(previousSummary ? "| Code | Category | Amount | Previous | Change |" : "| Code | Category | Amount |");
+      out.push(previousSummary ? "|------|----------|-------:|---------:|-------:|" : "|------|----------|-------:|");
+      let total = 0;
+      let previousTotal = 0;
+      for (const line of rows) {
+        total += parseFloat(line.amount);
+        const cells = [line.nominal_code, line.name, formatCurrency(line.amount, currency)];
+        if (line.previous_amount !== undefined) {
+          previousTotal += parseFloat(line.previous_amount);
+          cells.push(formatCurrency(line.previous_amount, currency), formatChange(line.amount, line.previous_amount, currency));
+        }
+        out.push(`| ${cells.join(" | ")} |`);
+      }
+      const totalCells = ["", `**Total ${section.title.toLowerCase()}**`, `**${formatCurrency(toAmount(total), currency)}**`];
+      if (previousSummary) {
+        totalCells.push(
+          `**${formatCurrency(toAmount(previousTotal), currency)}**`,
+          formatChange(toAmount(total), toAmount(previousTotal), currency)
+        );
+      }
+      out.push(`| ${totalCells.join(" | ")} |`, "");
+    }
+
+    out.push("## Summary", "");
+    const row = (label: string, pick: (t: ProfitAndLossTotals) => string | undefined) => {
+      const value = pick(summary);
+      if (value === undefined) return;
+      const before = previousSummary ? pick(previousSummary) : undefined;
+      out.push(
+        `- **${label}**: ${formatCurrency(value, currency)}` +
+          (before !== undefined ? ` (previous ${formatCurrency(before, currency)}, ${formatChange(value, before, currency)})` : "")
+      );
+    };
+    row("Income", (t) => t.income);
+    row("Expenses", (t) => t.expenses);
+    row("Operating profit", (t) => t.operating_profit);
+    for (const deduction of summary.less) {
+      row(`Less ${deduction.title}`, (t) => t.less.find((l) => l.title === deduction.title)?.total);
+    }
+    row("Retained profit", (t) => t.retained_profit);
+    return out.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
+
+interface AccountRow {
+  nominal_code: string;
+  name: string;
+  total: string;
+  /** From /categories, when the nominal code is a category */
+  category?: string;
+  category_description?: string;
+  category_group?: string;
+  group_description?: string;
+}
+
+function accountRow(
+  entry: { nominal_code: string; display_nominal_code?: string; name: string; total: number | string },
+  categories: Map<string, IndexedCategory>
+): AccountRow {
+  const nominalCode = entry.display_nominal_code ?? entry.nominal_code;
+  const row: AccountRow = { nominal_code: nominalCode, name: entry.name, total: toAmount(toNumber(entry.total)) };
+  const found = lookupCategory(categories, nominalCode);
+  if (found) {
+    row.category = found.category.url;
+    row.category_description = found.category.description;
+    row.category_group = CATEGORY_GROUPS.find((g) => g.collection === found.collection)!.title;
+    if (found.category.group_description) row.group_description = found.category.group_description;
+  }
+  return row;
+}
+
+function titleOf(key: string): string {
+  const words = key.split("_").join(" ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+interface BalanceSheetSection {
+  key: string;
+  title: string;
+  rows: AccountRow[];
+  /** The section's own figures, e.g. total or net_book_value */
+  totals: Record<string, string>;
+}
+
+const NOT_FIGURES = new Set(["accounting_period_start_date", "as_at_date", "currency"]);
+
+/**
+ * Split FreeAgent's balance sheet into sections (each object with an
+ * `accounts` list) and top-level figures such as total_assets.
+ */
+function balanceSheetParts(sheet: FreeAgentBalanceSheet, categories: Map<string, IndexedCategory>) {
+  const sections: BalanceSheetSection[] = [];
+  const totals: Record<string, string> = {};
+  for (const [key, value] of Object.entries(sheet)) {
+    if (NOT_FIGURES.has(key)) continue;
+    if (value && typeof value === "object" && Array.isArray((value as { accounts?: unknown }).accounts)) {
+      const { accounts, ...figures } = value as { accounts: FreeAgentBalanceSheetAccount[] } & Record<string, unknown>;
+      sections.push({
+        key,
+        title: titleOf(key),
+        rows: accounts.map((a) => accountRow(a, categories)),
+        totals: Object.fromEntries(
+          Object.entries(figures)
+            .filter(([, v]) => typeof v === "number" || typeof v === "string")
+            .map(([k, v]) => [k, toAmount(toNumber(v as number | string))])
+        ),
+      });
+    } else if (typeof value === "number" || typeof value === "string") {
+      totals[key] = toAmount(toNumber(value));
+    }
+  }
+  return { sections, totals };
+}
+
+/**
+ * Balance sheet as at a date, with each account joined to its category.
+ */
+export async function getBalanceSheet(
+  client: FreeAgentApiClient,
+  params: GetBalanceSheetInput
+): Promise<ToolResult> {
+  const query: Record<string, string> = {};
+  if (params.as_of_date) query.as_at_date = params.as_of_date;
+  const [sheetResponse, categories] = await Promise.all([
+    client.get<{ balance_sheet: FreeAgentBalanceSheet }>("/accounting/balance_sheet", query),
+    fetchCategoryIndex(client),
+  ]);
+  const sheet = sheetResponse.data.balance_sheet;
+  const currency = sheet.currency ?? (await fetchCurrency(client));
+  const { sections, totals } = balanceSheetParts(sheet, categories);
+
+  const data: Record<string, unknown> = { as_of_date: sheet.as_at_date, currency, sections, totals };
+  if (sheet.accounting_period_start_date) data.accounting_period_start_date = sheet.accounting_period_start_date;
+
+  const text = formatResponse(data, params.response_format, () => {
+    const out = [`# Balance Sheet as at ${sheet.as_at_date}`, ""];
+    for (const section of sections) {
+      out.push(`## ${section.title}`, "");
+      if (section.rows.length > 0) {
+        out.push("| Code | Account | Category | Amount |", "|------|---------|----------|-------:|");
+        for (const row of section.rows) {
+          out.push(`| ${row.nominal_code} | ${row.name} | ${row.category_description ?? ""} | ${formatCurrency(row.total, currency)} |`);
+        }
+        out.push("");
+      }
+      for (const [key, value] of Object.entries(section.totals)) {
+        out.push(`**${titleOf(key)}**: ${formatCurrency(value, currency)}`);
+      }
+      out.push("");
+    }
+    if (Object.keys(totals).length > 0) {
+      out.push("## Totals", "");
+      for (const [key, value] of Object.entries(totals)) {
+        out.push(`- **${titleOf(key)}**: ${formatCurrency(value, currency)}`);
+      }
+    }
+    return out.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
+
+/**
+ * Trial balance as at a date: every nominal code with a balance, as debit
+ * or credit, joined to its category.
+ */
+export async function getTrialBalance(
+  client: FreeAgentApiClient,
+  params: GetTrialBalanceInput
+): Promise<ToolResult> {
+  const query: Record<string, string> = {};
+  if (params.as_of_date) query.to_date = params.as_of_date;
+  const [balanceResponse, categories, currency] = await Promise.all([
+    client.get<{ trial_balance_summary?: FreeAgentTrialBalanceEntry[] }>("/accounting/trial_balance/summary", query),
+    fetchCategoryIndex(client),
+    fetchCurrency(client),
+  ]);
+
+  const rows = (balanceResponse.data.trial_balance_summary ?? [])
+    .map((entry) => accountRow(entry, categories))
+    .filter((row) => parseFloat(row.total) !== 0);
+  const debits = rows.reduce((sum, row) => sum + Math.max(parseFloat(row.total), 0), 0);
+  const credits = rows.reduce((sum, row) => sum + Math.max(-parseFloat(row.total), 0), 0);
+
+  const data: Record<string, unknown> = {
+    as_of_date: params.as_of_date ?? today(),
+    currency,
+    rows,
+    total_debits: toAmount(debits),
+    total_credits: toAmount(credits),
+  };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const out = [`# Trial Balance as at ${data.as_of_date}`, ""];
+    if (rows.length === 0) {
+      out.push("No balances.");
+      return out.join("\n");
+    }
+    out.push("| Code | Account | Category | Debit | Credit |", "|------|---------|----------|------:|-------:|");
+    for (const row of rows) {
+      const total = parseFloat(row.total);
+      const debit = total > 0 ? formatCurrency(row.total, currency) : "";
+      const credit = total < 0 ? formatCurrency(toAmount(-total), currency) : "";
+      const category = [row.category_group, row.category_description].filter(Boolean).join(": ");
+      out.push(`| ${row.nominal_code} | ${row.name} | ${category} | ${debit} | ${credit} |`);
+    }
+    out.push(
+      `| | **Total** | | **${formatCurrency(toAmount(debits), currency)}** | **${formatCurrency(toAmount(credits), currency)}** |`
+    );
+    if (Math.abs(debits - credits) >= 0.005) {
+      out.push("", `⚠️ Debits and credits differ by ${formatCurrency(toAmount(debits - credits), currency)}.`);
+    }
+    return out.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -1,5 +1,7 @@
 import { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import { ResponseFormat } from "../constants.js";
+import type { ToolResult } from "../services/formatter.js";
 import type { FreeAgentTask } from "../types.js";
 import type { ListTasksInput, GetTaskInput, CreateTaskInput } from "../schemas/index.js";
 
@@ -9,28 +11,46 @@ import type { ListTasksInput, GetTaskInput, CreateTaskInput } from "../schemas/i
 export async function listTasks(
   apiClient: FreeAgentApiClient,
   params: ListTasksInput
-): Promise<string> {
-  const queryParams = new URLSearchParams();
+): Promise<ToolResult> {
+  const queryParams: Record<string, string> = {};
 
-  if (params.view) queryParams.set("view", params.view);
-  if (params.project) queryParams.set("project", params.project);
-  if (params.updated_since) queryParams.set("updated_since", params.updated_since);
-  if (params.sort) queryParams.set("sort", params.sort);
-  if (params.page) queryParams.set("page", params.page.toString());
-  if (params.per_page) queryParams.set("per_page", params.per_page.toString());
+  if (params.view) queryParams.view = params.view;
+  if (params.project) queryParams.project = params.project;
+  if (params.updated_since) queryParams.updated_since = params.updated_since;
+  if (params.sort) queryParams.sort = params.sort;
+  if (params.page) queryParams.page = params.page.toString();
+  if (params.per_page) queryParams.per_page = params.per_page.toString();
 
-  const url = `/tasks${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-  const response = await apiClient.get<{ tasks: FreeAgentTask[] }>(url);
+  const { items: tasks, pagination } = await fetchList<FreeAgentTask>(
+    apiClient,
+    "/tasks",
+    "tasks",
+    queryParams,
+    { allPages: params.all_pages, maxItems: params.max_items }
+  );
 
-  if (!response.data.tasks || response.data.tasks.length === 0) {
-    return "No tasks found.";
+  const data = {
+    tasks,
+    pagination: {
+      page: params.page,
+      per_page: params.per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt,
+    },
+  };
+
+  if (tasks.length === 0) {
+    return { text: "No tasks found.", structuredContent: data };
   }
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify(response.data.tasks, null, 2);
+    return { text: JSON.stringify(tasks, null, 2), structuredContent: data };
   }
 
-  const taskList = response.data.tasks
+  const taskList = tasks
     .map((task: FreeAgentTask) => {
       return [
         `Task: ${task.name}`,
@@ -46,7 +66,11 @@ export async function listTasks(
     })
     .join("\n\n");
 
-  return `Found ${response.data.tasks.length} task(s):\n\n${taskList}`;
+  const more = pagination.hasMore && pagination.nextPage
+    ? `\n\nMore results available - use page=${pagination.nextPage} to continue.`
+    : "";
+
+  return { text: `Found ${tasks.length} task(s):\n\n${taskList}${more}`, structuredContent: data };
 }
 
 /**
@@ -55,13 +79,13 @@ export async function listTasks(
 export async function getTask(
   apiClient: FreeAgentApiClient,
   params: GetTaskInput
-): Promise<string> {
+): Promise<ToolResult> {
   const taskId = params.task_id.replace(/^.*\/tasks\//, "");
   const response = await apiClient.get<{ task: FreeAgentTask }>(`/tasks/${taskId}`);
   const task = response.data.task;
 
   if (params.response_format === ResponseFormat.JSON) {
-    return JSON.stringify(task, null, 2);
+    return { text: JSON.stringify(task, null, 2), structuredContent: { task } };
   }
 
   const details = [
@@ -81,7 +105,7 @@ export async function getTask(
     .filter(Boolean)
     .join("\n");
 
-  return details;
+  return { text: details, structuredContent: { task } };
 }
 
 /**
@@ -90,7 +114,7 @@ export async function getTask(
 export async function createTask(
   apiClient: FreeAgentApiClient,
   params: CreateTaskInput
-): Promise<string> {
+): Promise<ToolResult> {
   const taskData: Record<string, unknown> = {
     name: params.name,
     project: params.project,
@@ -104,7 +128,7 @@ export async function createTask(
   const response = await apiClient.post<{ task: FreeAgentTask }>("/tasks", { task: taskData });
   const task = response.data.task;
 
-  return [
+  const text = [
     `Task created successfully!`,
     `  Name: ${task.name}`,
     `  URL: ${task.url}`,
@@ -115,4 +139,6 @@ export async function createTask(
   ]
     .filter(Boolean)
     .join("\n");
+
+  return { text, structuredContent: { task } };
 }
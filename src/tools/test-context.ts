@@ -0,0 +1,70 @@
+/**
+ * Fixtures for tool tests: a ToolContext with no elicitation and fresh
+ * in-memory stores, so no test touches the rules file, audit log or OAuth
+ * store on disk, and a FreeAgentApiClient stub that answers from handlers
+ * and records every call.
+ */
+
+import { vi } from "vitest";
+import { FreeAgentApiClient } from "../services/api-client.js";
+import { MemoryAuditSink } from "../services/audit.js";
+import { MemoryOAuthStore } from "../services/oauth-store.js";
+import { MemoryRuleStore } from "../services/rules.js";
+import type { ToolContext } from "./register.js";
+
+export function makeCtx(overrides: Partial<ToolContext> = {}): ToolContext {
+  return {
+    clientSupportsElicitation: false,
+    elicit: async () => ({ action: "cancel" }),
+    ruleStore: new MemoryRuleStore(),
+    auditSink: new MemoryAuditSink(),
+    idempotencyStore: new MemoryOAuthStore(),
+    ...overrides,
+  };
+}
+
+export interface Call {
+  method: "get" | "post" | "put";
+  path: string;
+  params?: unknown;
+  body?: unknown;
+}
+
+export interface ClientHandlers {
+  /** Response body for a GET; an Error is thrown instead */
+  get?: (path: string, params?: unknown) => unknown;
+  post?: (path: string, body?: unknown) => unknown;
+  put?: (path: string, body?: unknown) => unknown;
+  /** Response headers for a GET, e.g. a Link header pointing at the next page */
+  headers?: (path: string, params?: unknown) => Record<string, string>;
+}
+
+/**
+ * A client whose requests are answered by `handlers` and recorded in
+ * `calls`. Pagination and resource URLs use the real client's code.
+ */
+export function makeClient(handlers: ClientHandlers): { client: FreeAgentApiClient; calls: Call[] } {
+  const calls: Call[] = [];
+  const answer = (data: unknown, headers: Record<string, string> = {}) => {
+    if (data instanceof Error) throw data;
+    return { data, headers };
+  };
+  const client = {
+    get: vi.fn(async (path: string, params?: unknown) => {
+      calls.push(params === undefined ? { method: "get", path } : { method: "get", path, params });
+      return answer(handlers.get?.(path, params), handlers.headers?.(path, params));
+    }),
+    post: vi.fn(async (path: string, body?: unknown) => {
+      calls.push({ method: "post", path, body });
+      return answer(handlers.post?.(path, body));
+    }),
+    put: vi.fn(async (path: string, body?: unknown) => {
+      calls.push(body === undefined ? { method: "put", path } : { method: "put", path, body });
+      return answer(handlers.put?.(path, body));
+    }),
+    paginate: FreeAgentApiClient.prototype.paginate,
+    parsePaginationHeaders: FreeAgentApiClient.prototype.parsePaginationHeaders,
+    resourceUrl: FreeAgentApiClient.prototype.resourceUrl,
+  } as unknown as FreeAgentApiClient;
+  return { client, calls };
+}
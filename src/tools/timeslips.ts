@@ -5,6 +5,7 @@
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { fetchList } from "../services/pagination.js";
 import type { FreeAgentTimeslip } from "../types.js";
 import type {
   ListTimeslipsInput,
@@ -15,7 +16,8 @@ import type {
 import {
   formatResponse,
   createPaginationMetadata,
-  extractIdFromUrl
+  extractIdFromUrl,
+  type ToolResult
 } from "../services/formatter.js";
 
 /**
@@ -24,8 +26,8 @@ import {
 export async function listTimeslips(
   client: FreeAgentApiClient,
   params: ListTimeslipsInput
-): Promise<string> {
-  const { page, per_page, from_date, to_date, view, user, project, response_format } = params;
+): Promise<ToolResult> {
+  const { page, per_page, all_pages, max_items, from_date, to_date, view, user, project, response_format } = params;
 
   // Build query parameters
   const queryParams: Record<string, string> = {
@@ -39,47 +41,54 @@ export async function listTimeslips(
   if (user) queryParams.user = user;
   if (project) queryParams.project = project;
 
-  const response = await client.get<{ timeslips: FreeAgentTimeslip[] }>(
+  const { items: timeslips, pagination } = await fetchList<FreeAgentTimeslip>(
+    client,
     "/timeslips",
-    queryParams
+    "timeslips",
+    queryParams,
+    { allPages: all_pages, maxItems: max_items }
   );
-  const timeslips = response.data.timeslips || [];
-  const pagination = client.parsePaginationHeaders(response.headers);
 
   // Format response
-  return formatResponse(
-    {
-      timeslips: timeslips.map((timeslip: FreeAgentTimeslip) => ({
-        url: timeslip.url,
-        user: timeslip.user,
-        project: timeslip.project,
-        task: timeslip.task,
-        dated_on: timeslip.dated_on,
-        hours: timeslip.hours,
-        comment: timeslip.comment,
-        billed_on_invoice: timeslip.billed_on_invoice,
-        attachment_count: timeslip.attachment_count
-      })),
-      pagination: {
-        page,
-        per_page,
-        total_count: pagination.totalCount,
-        has_more: pagination.hasMore,
-        next_page: pagination.nextPage
-      }
-    },
+  const data = {
+    timeslips: timeslips.map((timeslip: FreeAgentTimeslip) => ({
+      url: timeslip.url,
+      user: timeslip.user,
+      project: timeslip.project,
+      task: timeslip.task,
+      dated_on: timeslip.dated_on,
+      hours: timeslip.hours,
+      comment: timeslip.comment,
+      billed_on_invoice: timeslip.billed_on_invoice,
+      attachment_count: timeslip.attachment_count
+    })),
+    pagination: {
+      page,
+      per_page,
+      total_count: pagination.totalCount,
+      has_more: pagination.hasMore,
+      next_page: pagination.nextPage,
+      pages_fetched: pagination.pagesFetched,
+      stopped_at: pagination.stoppedAt
+    }
+  };
+
+  const text = formatResponse(
+    data,
     response_format,
     () => {
       const lines: string[] = ["# FreeAgent Timeslips", ""];
 
-      if (pagination.totalCount !== undefined) {
+      if (pagination.totalCount !== undefined || pagination.hasMore) {
         lines.push(
           createPaginationMetadata({
             page,
             perPage: per_page,
             totalCount: pagination.totalCount,
             hasMore: pagination.hasMore,
-            nextPage: pagination.nextPage
+            nextPage: pagination.nextPage,
+            pagesFetched: pagination.pagesFetched,
+            stoppedAt: pagination.stoppedAt
           })
         );
         lines.push("");
@@ -108,6 +117,8 @@ export async function listTimeslips(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: data };
 }
 
 /**
@@ -116,7 +127,7 @@ export async function listTimeslips(
 export async function getTimeslip(
   client: FreeAgentApiClient,
   params: GetTimeslipInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { timeslip_id, response_format } = params;
   const timeslipUrl = timeslip_id.startsWith('http')
     ? timeslip_id
@@ -126,7 +137,7 @@ export async function getTimeslip(
   const timeslip = response.data.timeslip;
 
   // Format response
-  return formatResponse(
+  const text = formatResponse(
     timeslip,
     response_format,
     () => {
@@ -156,6 +167,8 @@ export async function getTimeslip(
       return lines.join("\n");
     }
   );
+
+  return { text, structuredContent: { timeslip } };
 }
 
 /**
@@ -164,7 +177,7 @@ export async function getTimeslip(
 export async function createTimeslip(
   client: FreeAgentApiClient,
   params: CreateTimeslipInput
-): Promise<string> {
+): Promise<ToolResult> {
   // Build timeslip payload
   const timeslipPayload: Record<string, unknown> = {
     task: params.task,
@@ -181,12 +194,14 @@ export async function createTimeslip(
   const timeslip = response.data.timeslip;
   const timeslipId = extractIdFromUrl(timeslip.url);
 
-  return `✅ Successfully created timeslip\n\n` +
+  const text = `✅ Successfully created timeslip\n\n` +
     `**Timeslip ID**: ${timeslipId}\n` +
     `**Date**: ${timeslip.dated_on}\n` +
     `**Hours**: ${timeslip.hours}\n` +
     `**Project**: ${timeslip.project}\n` +
     `**URL**: ${timeslip.url}`;
+
+  return { text, structuredContent: { timeslip } };
 }
 
 /**
@@ -199,7 +214,7 @@ export async function createTimeslip(
 export async function updateTimeslip(
   client: FreeAgentApiClient,
   params: UpdateTimeslipInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { timeslip_id, ...updateFields } = params;
   const url = timeslip_id.startsWith("http")
     ? timeslip_id
@@ -219,9 +234,11 @@ export async function updateTimeslip(
   const timeslip = response.data.timeslip;
   const timeslipId = extractIdFromUrl(timeslip.url);
 
-  return `✅ Updated timeslip ${timeslipId}\n\n` +
+  const text = `✅ Updated timeslip ${timeslipId}\n\n` +
     `**Date**: ${timeslip.dated_on}\n` +
     `**Hours**: ${timeslip.hours}\n` +
     (timeslip.billed_on_invoice ? `**Billed on invoice**: ${timeslip.billed_on_invoice}\n` : "") +
     `**URL**: ${timeslip.url}`;
+
+  return { text, structuredContent: { timeslip } };
 }
@@ -1,23 +1,22 @@
 import { describe, it, expect, vi } from "vitest";
 import { z } from "zod";
 import { matchTools, searchTools, callTool } from "./tool-search.js";
-import type { ToolDefinition, ToolContext } from "./register.js";
+import type { ToolDefinition } from "./register.js";
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import { MemoryAuditSink } from "../services/audit.js";
 import {
   toolDefinitions,
   toolSearchMetaDefinitions,
   isToolSearchMode,
 } from "./register.js";
+import { makeCtx } from "./test-context.js";
 
 const FixtureSchema = z.object({
   id: z.string().min(1),
   count: z.number().int().min(1).default(1),
 }).strict();
 
-const mockCtx: ToolContext = {
-  clientSupportsElicitation: false,
-  elicit: async () => ({ action: "cancel" }) as never,
-};
+const mockCtx = makeCtx();
 
 function makeTool(overrides: Partial<ToolDefinition> = {}): ToolDefinition {
   return {
@@ -25,10 +24,11 @@ function makeTool(overrides: Partial<ToolDefinition> = {}): ToolDefinition {
     title: overrides.title ?? "Fixture Tool",
     description: overrides.description ?? "A fixture tool used for tests.",
     inputSchema: overrides.inputSchema ?? FixtureSchema.shape,
+    outputSchema: overrides.outputSchema ?? { id: z.string() },
     annotations: overrides.annotations ?? {
       readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false,
     },
-    handler: overrides.handler ?? (async () => "ok"),
+    handler: overrides.handler ?? (async () => ({ text: "ok", structuredContent: { id: "ok" } })),
   };
 }
 
@@ -121,7 +121,7 @@ describe("searchTools handler", () => {
   ];
 
   it("wraps matches in <functions> blocks with embedded JSONSchema", async () => {
-    const out = await searchTools(catalog, { query: "invoice", max_results: 5 });
+    const { text: out } = await searchTools(catalog, { query: "invoice", max_results: 5 });
     expect(out).toMatch(/^<functions>/);
     expect(out).toMatch(/<\/functions>$/);
     expect(out).toContain("<function>");
@@ -132,7 +132,8 @@ describe("searchTools handler", () => {
 
   it("returns a helpful message when nothing matches", async () => {
     const out = await searchTools(catalog, { query: "nothingmatcheshere", max_results: 5 });
-    expect(out).toContain("No matching tools found");
+    expect(out.text).toContain("No matching tools found");
+    expect(out.structuredContent).toEqual({ tools: [] });
   });
 
   it("supports select: queries for direct name lookup", async () => {
@@ -140,8 +141,8 @@ describe("searchTools handler", () => {
       query: "select:freeagent_get_contact",
       max_results: 5,
     });
-    expect(out).toContain("freeagent_get_contact");
-    expect(out).not.toContain("freeagent_list_invoices");
+    expect(out.text).toContain("freeagent_get_contact");
+    expect(out.text).not.toContain("freeagent_list_invoices");
   });
 
   it("returns a diagnostic when a select: query names no known tools", async () => {
@@ -149,13 +150,16 @@ describe("searchTools handler", () => {
       query: "select:freeagent_does_not_exist",
       max_results: 5,
     });
-    expect(out).toContain("No tools matched select query");
+    expect(out.text).toContain("No tools matched select query");
   });
 });
 
 describe("callTool handler", () => {
   it("validates arguments and dispatches to the named tool", async () => {
-    const handler: ToolDefinition["handler"] = vi.fn(async () => "handler-response");
+    const handler: ToolDefinition["handler"] = vi.fn(async () => ({
+      text: "handler-response",
+      structuredContent: { id: "abc" },
+    }));
     const catalog = [makeTool({ name: "freeagent_fixture", handler })];
 
     const result = await callTool(
@@ -165,7 +169,10 @@ describe("callTool handler", () => {
       mockCtx,
     );
 
-    expect(result).toBe("handler-response");
+    expect(result).toEqual({
+      text: "handler-response",
+      structuredContent: { tool: "freeagent_fixture", result: { id: "abc" } },
+    });
     expect(handler).toHaveBeenCalledTimes(1);
     expect(handler).toHaveBeenCalledWith(
       stubApiClient,
@@ -175,7 +182,7 @@ describe("callTool handler", () => {
   });
 
   it("applies Zod defaults before dispatching", async () => {
-    const handler: ToolDefinition["handler"] = vi.fn(async () => "ok");
+    const handler: ToolDefinition["handler"] = vi.fn(async () => ({ text: "ok", structuredContent: {} }));
     const catalog = [makeTool({ name: "freeagent_fixture", handler })];
 
     await callTool(
@@ -206,7 +213,7 @@ describe("callTool handler", () => {
   });
 
   it("rejects arguments that fail schema validation", async () => {
-    const handler = vi.fn(async () => "never");
+    const handler = vi.fn(async () => ({ text: "never", structuredContent: {} }));
     const catalog = [makeTool({ name: "freeagent_fixture", handler })];
 
     await expect(
@@ -219,6 +226,44 @@ describe("callTool handler", () => {
     ).rejects.toThrow(/Invalid arguments for freeagent_fixture/);
     expect(handler).not.toHaveBeenCalled();
   });
+
+  it("records writes in the audit log under the target tool's name", async () => {
+    const auditSink = new MemoryAuditSink();
+    const writeTool = makeTool({
+      name: "freeagent_fixture",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+    });
+
+    await callTool(
+      [writeTool],
+      stubApiClient,
+      { name: "freeagent_fixture", arguments: { id: "abc" } },
+      { ...mockCtx, auditSink, clientId: "claude" },
+    );
+
+    expect(await auditSink.query({})).toEqual([
+      expect.objectContaining({ tool: "freeagent_fixture", client_id: "claude", arguments: { id: "abc", count: 1 } }),
+    ]);
+  });
+
+  it("refuses tools the token's scopes do not permit", async () => {
+    const handler = vi.fn(async () => ({ text: "never", structuredContent: {} }));
+    const writeTool = makeTool({
+      name: "freeagent_fixture",
+      handler,
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+    });
+
+    await expect(
+      callTool(
+        [writeTool],
+        stubApiClient,
+        { name: "freeagent_fixture", arguments: { id: "abc" } },
+        { ...mockCtx, scopes: ["freeagent:read"] },
+      )
+    ).rejects.toThrow(/freeagent_fixture needs the freeagent:write scope/);
+    expect(handler).not.toHaveBeenCalled();
+  });
 });
 
 describe("tool-search mode wiring", () => {
@@ -252,20 +297,40 @@ describe("tool-search mode wiring", () => {
   it("search meta-tool finds real catalog entries like list_invoices", async () => {
     const searchDef = toolSearchMetaDefinitions.find((t) => t.name === "freeagent_search_tools")!;
     const out = await searchDef.handler(stubApiClient, { query: "list invoices", max_results: 3 }, mockCtx);
-    expect(out).toContain("freeagent_list_invoices");
+    expect(out.text).toContain("freeagent_list_invoices");
+  });
+
+  it("search meta-tool only finds tools the token's scopes permit", async () => {
+    const searchDef = toolSearchMetaDefinitions.find((t) => t.name === "freeagent_search_tools")!;
+    const out = await searchDef.handler(
+      stubApiClient,
+      { query: "invoice", max_results: 20 },
+      { ...mockCtx, scopes: ["freeagent:read"] },
+    );
+    const names = (out.structuredContent.tools as Array<{ name: string }>).map((t) => t.name);
+    expect(names).toContain("freeagent_list_invoices");
+    expect(names).not.toContain("freeagent_create_invoice");
+    expect(names).not.toContain("freeagent_refund_invoice");
   });
 
   it("call meta-tool routes to a real catalog tool", async () => {
     const callDef = toolSearchMetaDefinitions.find((t) => t.name === "freeagent_call_tool")!;
     const target = toolDefinitions.find((t) => t.name === "freeagent_get_company")!;
-    const spy = vi.spyOn(target, "handler").mockResolvedValue("company-response");
+    const spy = vi.spyOn(target, "handler").mockResolvedValue({
+      text: "company-response",
+      structuredContent: { company: { url: "https://api.freeagent.com/v2/company" } },
+    });
     try {
       const out = await callDef.handler(
         stubApiClient,
         { name: "freeagent_get_company", arguments: {} },
         mockCtx,
       );
-      expect(out).toBe("company-response");
+      expect(out.text).toBe("company-response");
+      expect(out.structuredContent).toEqual({
+        tool: "freeagent_get_company",
+        result: { company: { url: "https://api.freeagent.com/v2/company" } },
+      });
       expect(spy).toHaveBeenCalledTimes(1);
     } finally {
       spy.mockRestore();
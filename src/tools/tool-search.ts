@@ -10,7 +10,12 @@
 
 import { z } from "zod";
 import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { ToolResult } from "../services/formatter.js";
 import type { ToolContext, ToolDefinition } from "./register.js";
+import { confirmToolCall } from "./confirmation.js";
+import { isToolPermitted, requiredScope } from "./permissions.js";
+import { runAudited } from "./audit.js";
+import { runIdempotent } from "./idempotency.js";
 import type { SearchToolsInput, CallToolInput } from "../schemas/index.js";
 
 interface ToolMatch {
@@ -155,6 +160,19 @@ function renderToolBlock(tool: ToolDefinition): string {
   return `<function>${JSON.stringify(payload)}</function>`;
 }
 
+/**
+ * Describe a tool for the structured output of freeagent_search_tools.
+ */
+function describeTool(tool: ToolDefinition): Record<string, unknown> {
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    input_schema: z.toJSONSchema(z.object(tool.inputSchema)),
+    output_schema: z.toJSONSchema(z.object(tool.outputSchema), { io: "output" }),
+  };
+}
+
 /**
  * Handler for freeagent_search_tools. Returns matching tool schemas wrapped in
  * a <functions>…</functions> block, or a "No matching tools found" message.
@@ -162,7 +180,7 @@ function renderToolBlock(tool: ToolDefinition): string {
 export async function searchTools(
   catalog: ToolDefinition[],
   params: SearchToolsInput
-): Promise<string> {
+): Promise<ToolResult> {
   const { query, max_results } = params;
   const trimmed = query.trim();
 
@@ -171,29 +189,41 @@ export async function searchTools(
     const names = trimmed.slice("select:".length).split(",").map((s) => s.trim()).filter(Boolean);
     tools = selectTools(catalog, names);
     if (tools.length === 0) {
-      return `No tools matched select query. Available tool count: ${catalog.length}. Requested names: ${names.join(", ") || "(none)"}`;
+      return {
+        text: `No tools matched select query. Available tool count: ${catalog.length}. Requested names: ${names.join(", ") || "(none)"}`,
+        structuredContent: { tools: [] },
+      };
     }
   } else {
     tools = matchTools(catalog, trimmed, max_results);
     if (tools.length === 0) {
-      return "No matching tools found. Try different keywords or use 'select:<tool_name>' to fetch a specific tool.";
+      return {
+        text: "No matching tools found. Try different keywords or use 'select:<tool_name>' to fetch a specific tool.",
+        structuredContent: { tools: [] },
+      };
     }
   }
 
   const blocks = tools.map(renderToolBlock).join("\n");
-  return `<functions>\n${blocks}\n</functions>`;
+  return {
+    text: `<functions>\n${blocks}\n</functions>`,
+    structuredContent: { tools: tools.map(describeTool) },
+  };
 }
 
 /**
- * Handler for freeagent_call_tool. Validates arguments against the target
- * tool's Zod schema and dispatches to its handler.
+ * Handler for freeagent_call_tool. Checks the caller's scopes permit the
+ * target, validates arguments against its Zod schema, asks for confirmation
+ * if the target needs it, and dispatches to its handler, recording writes in
+ * the audit log. The target's structured output is passed through under
+ * `result`.
  */
 export async function callTool(
   catalog: ToolDefinition[],
   apiClient: FreeAgentApiClient,
   params: CallToolInput,
   ctx: ToolContext
-): Promise<string> {
+): Promise<ToolResult> {
   const { name, arguments: args } = params;
   const tool = catalog.find((t) => t.name === name);
   if (!tool) {
@@ -203,6 +233,9 @@ export async function callTool(
         `First few available: ${available}…`
     );
   }
+  if (!isToolPermitted(tool, ctx.scopes)) {
+    throw new Error(`${name} needs the ${requiredScope(tool)} scope, which this token was not granted.`);
+  }
 
   const schema = z.object(tool.inputSchema);
   const parsed = schema.safeParse(args);
@@ -213,5 +246,11 @@ export async function callTool(
     throw new Error(`Invalid arguments for ${name}:\n${issues}`);
   }
 
-  return tool.handler(apiClient, parsed.data, ctx);
+  await confirmToolCall(tool, apiClient, parsed.data, ctx);
+  const result = await runIdempotent(tool, parsed.data, ctx, () => runAudited(tool, apiClient, parsed.data, ctx));
+  return {
+    text: result.text,
+    structuredContent: { tool: name, result: result.structuredContent },
+    resources: result.resources,
+  };
 }
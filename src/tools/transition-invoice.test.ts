@@ -43,8 +43,8 @@ describe("transitionInvoice", () => {
 
     expect(calls[0].path).toBe("/invoices/42/transitions/mark_as_sent");
     expect(calls[0].body).toBeUndefined();
-    expect(result).toContain("mark_as_sent applied to invoice 42");
-    expect(result).toContain("Sent");
+    expect(result.text).toContain("mark_as_sent applied to invoice 42");
+    expect(result.text).toContain("Sent");
   });
 
   it("extracts the ID from a full URL before building the transition path", async () => {
@@ -4,30 +4,69 @@
  * Wraps PUT /v2/invoices/:id/transitions/:action with no request body.
  * Supported actions mirror FreeAgent's UI: mark_as_sent, mark_as_cancelled,
  * mark_as_draft, mark_as_scheduled, convert_to_credit_note.
+ *
+ * Cancelling and converting to a credit note change the ledger, so the tool
+ * registration asks the user to confirm them first (see confirmation.ts).
  */
 
 import type { FreeAgentApiClient } from "../services/api-client.js";
 import type { FreeAgentInvoice } from "../types.js";
 import type { TransitionInvoiceInput } from "../schemas/index.js";
-import { extractIdFromUrl } from "../services/formatter.js";
+import { extractIdFromUrl, formatCurrency, type ToolResult } from "../services/formatter.js";
+
+/** Transitions that change the ledger, and what they do in plain words. */
+const CONFIRMED_ACTIONS: Partial<Record<TransitionInvoiceInput["action"], string>> = {
+  mark_as_cancelled: "Cancel this invoice. It will no longer count as income or as money owed.",
+  convert_to_credit_note: "Convert this invoice into a credit note, reversing its value.",
+};
+
+function invoiceId(params: TransitionInvoiceInput): string {
+  return params.invoice_id.startsWith("http")
+    ? extractIdFromUrl(params.invoice_id)
+    : params.invoice_id;
+}
+
+/**
+ * Summary shown to the user before a ledger-changing transition, or
+ * undefined when the action can go ahead without asking.
+ */
+export async function summarizeInvoiceTransition(
+  client: FreeAgentApiClient,
+  params: TransitionInvoiceInput
+): Promise<string | undefined> {
+  const effect = CONFIRMED_ACTIONS[params.action];
+  if (!effect) return undefined;
+
+  const id = invoiceId(params);
+  const response = await client.get<{ invoice: FreeAgentInvoice }>(`/invoices/${id}`);
+  const invoice = response.data.invoice;
+
+  return (
+    `${effect}\n\n` +
+    `**Invoice**: ${invoice.reference || id} (ID: ${id})\n` +
+    `**Status**: ${invoice.status}\n` +
+    `**Date**: ${invoice.dated_on}\n` +
+    `**Total**: ${formatCurrency(invoice.total_value, invoice.currency)}\n` +
+    `**Contact**: ${invoice.contact}`
+  );
+}
 
 export async function transitionInvoice(
   client: FreeAgentApiClient,
   params: TransitionInvoiceInput
-): Promise<string> {
-  const id = params.invoice_id.startsWith("http")
-    ? extractIdFromUrl(params.invoice_id)
-    : params.invoice_id;
+): Promise<ToolResult> {
+  const id = invoiceId(params);
 
   const path = `/invoices/${id}/transitions/${params.action}`;
   const response = await client.put<{ invoice: FreeAgentInvoice }>(path);
   const invoice = response.data.invoice;
 
-  return (
+  const text =
     `✅ ${params.action} applied to invoice ${extractIdFromUrl(invoice.url)}\n\n` +
     `**Status**: ${invoice.status}\n` +
     `**Date**: ${invoice.dated_on}\n` +
     `**Total**: ${invoice.currency} ${invoice.total_value}\n` +
-    `**URL**: ${invoice.url}`
-  );
+    `**URL**: ${invoice.url}`;
+
+  return { text, structuredContent: { invoice } };
 }
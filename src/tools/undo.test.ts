@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { MemoryAuditSink } from "../services/audit.js";
+import { toolDefinitions, type ToolContext } from "./register.js";
+import { runAudited } from "./audit.js";
+import { undoOperations } from "./undo.js";
+import { makeCtx } from "./test-context.js";
+
+function claudeCtx(overrides: Partial<ToolContext> = {}): ToolContext {
+  return makeCtx({ clientId: "claude", ...overrides });
+}
+
+function tool(name: string) {
+  return toolDefinitions.find((t) => t.name === name)!;
+}
+
+const contact = { url: "https://api.freeagent.com/v2/contacts/7", organisation_name: "Acme Ltd" };
+const expense = {
+  url: "https://api.freeagent.com/v2/expenses/12",
+  user: "https://api.freeagent.com/v2/users/1",
+  category: "https://api.freeagent.com/v2/categories/285",
+  dated_on: "2026-04-01",
+  description: "Train to Leeds",
+  gross_value: "-42.00",
+  mileage: "30",
+};
+
+describe("undoOperations", () => {
+  it("deletes created resources, newest first, and records the reversal", async () => {
+    const apiClient = {
+      post: vi.fn(async () => ({ data: { contact }, headers: {} })),
+      delete: vi.fn(async () => ({ data: {}, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+    const ctx = claudeCtx();
+
+    await runAudited(tool("freeagent_create_contact"), apiClient, { organisation_name: "Acme Ltd" }, ctx);
+    const [created] = await ctx.auditSink.query({});
+    expect(created.undo).toEqual([
+      { method: "DELETE", path: contact.url, description: `Delete ${contact.url}` },
+    ]);
+
+    const result = await undoOperations(toolDefinitions, apiClient, { last: 1 }, ctx);
+
+    expect(apiClient.delete).toHaveBeenCalledWith(contact.url);
+    expect(result.structuredContent).toMatchObject({
+      undone: [{ operation_id: created.id, tool: "freeagent_create_contact", outcome: "success" }],
+      skipped: [],
+    });
+    expect((await ctx.auditSink.query({}))[0]).toMatchObject({
+      tool: "freeagent_undo",
+      reverses: created.id,
+      outcome: "success",
+      resource_urls: [contact.url],
+    });
+
+    // Already undone: nothing left to reverse, and asking by ID is an error
+    const again = await undoOperations(toolDefinitions, apiClient, { last: 1 }, ctx);
+    expect(again.structuredContent).toEqual({ undone: [], skipped: [] });
+    await expect(
+      undoOperations(toolDefinitions, apiClient, { operation_id: created.id, last: 1 }, ctx)
+    ).rejects.toThrow("already been undone");
+    expect(apiClient.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("deletes only the explanation a reconcile created, not the invoice it paid", async () => {
+    const invoiceUrl = "https://api.freeagent.com/v2/invoices/42";
+    const explanation = {
+      url: "https://api.freeagent.com/v2/bank_transaction_explanations/99",
+      bank_transaction: "https://api.freeagent.com/v2/bank_transactions/5",
+      dated_on: "2026-04-01",
+      gross_value: "120.00",
+      paid_invoice: invoiceUrl,
+    };
+    const apiClient = {
+      get: vi.fn(async () => ({
+        data: { bank_transaction: { url: explanation.bank_transaction, dated_on: "2026-04-01", gross_value: "120.00" } },
+        headers: {},
+      })),
+      post: vi.fn(async () => ({ data: { bank_transaction_explanation: explanation }, headers: {} })),
+      delete: vi.fn(async () => ({ data: {}, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+    const ctx = claudeCtx();
+
+    await runAudited(tool("freeagent_reconcile_bank_transaction"), apiClient, { bank_transaction_id: "5", paid_invoice: invoiceUrl }, ctx);
+    await undoOperations(toolDefinitions, apiClient, { last: 1 }, ctx);
+
+    expect(apiClient.delete).toHaveBeenCalledTimes(1);
+    expect(apiClient.delete).toHaveBeenCalledWith(explanation.url);
+  });
+
+  it("puts back the fields an update changed, under their API names", async () => {
+    const apiClient = {
+      get: vi.fn(async () => ({ data: { expense }, headers: {} })),
+      put: vi.fn(async () => ({ data: { expense: { ...expense, description: "Taxi", mileage: "45" } }, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+    const ctx = claudeCtx();
+
+    await runAudited(tool("freeagent_update_expense"), apiClient, { expense_id: "12", description: "Taxi", miles: "45" }, ctx);
+    await undoOperations(toolDefinitions, apiClient, { last: 1 }, ctx);
+
+    expect(apiClient.get).toHaveBeenCalledWith("/expenses/12");
+    expect(apiClient.put).toHaveBeenLastCalledWith(expense.url, {
+      expense: { description: "Train to Leeds", mileage: "30" },
+    });
+  });
+
+  it("moves a transitioned invoice back to its previous status", async () => {
+    const invoice = { url: "https://api.freeagent.com/v2/invoices/42", reference: "INV-042", status: "Draft" };
+    const apiClient = {
+      get: vi.fn(async () => ({ data: { invoice }, headers: {} })),
+      put: vi.fn(async () => ({ data: { invoice: { ...invoice, status: "Sent" } }, headers: {} })),
+    } as unknown as FreeAgentApiClient;
+    const ctx = claudeCtx();
+
+    await runAudited(tool("freeagent_transition_invoice"), apiClient, { invoice_id: "42", action: "mark_as_sent" }, ctx);
+    await undoOperations(toolDefinitions, apiClient, { last: 1 }, ctx);
+
+    expect(apiClient.put).toHaveBeenLastCalledWith("/invoices/42/transitions/mark_as_draft", undefined);
+  });
+
+  it("skips writes that cannot be undone and other clients' writes", async () => {
+    const auditSink = new MemoryAuditSink();
+    const base = { arguments: {}, outcome: "success" as const, resource_urls: [] };
+    await auditSink.append({ ...base, id: "mine", timestamp: "2026-04-01T09:00:00.000Z", tool: "freeagent_email_invoice", client_id: "claude" });
+    await auditSink.append({
+      ...base,
+      id: "theirs",
+      timestamp: "2026-04-01T10:00:00.000Z",
+      tool: "freeagent_create_contact",
+      client_id: "other",
+      undo: [{ method: "DELETE", path: contact.url, description: "Delete" }],
+    });
+    const apiClient = { delete: vi.fn() } as unknown as FreeAgentApiClient;
+    const ctx = claudeCtx({ auditSink });
+
+    const result = await undoOperations(toolDefinitions, apiClient, { last: 5 }, ctx);
+
+    expect(result.structuredContent).toEqual({
+      undone: [],
+      skipped: [{ operation_id: "mine", tool: "freeagent_email_invoice", reason: expect.stringContaining("cannot be undone") }],
+    });
+    await expect(
+      undoOperations(toolDefinitions, apiClient, { operation_id: "theirs", last: 1 }, ctx)
+    ).rejects.toThrow("No operation 'theirs'");
+    expect(apiClient.delete).not.toHaveBeenCalled();
+  });
+
+  it("needs the original tool's scope to undo it", async () => {
+    const auditSink = new MemoryAuditSink();
+    await auditSink.append({
+      id: "rec",
+      timestamp: "2026-04-01T09:00:00.000Z",
+      tool: "freeagent_reconcile_bank_transaction",
+      client_id: "claude",
+      arguments: {},
+      outcome: "success",
+      resource_urls: [],
+      undo: [{ method: "DELETE", path: "https://api.freeagent.com/v2/bank_transaction_explanations/3", description: "Delete" }],
+    });
+    const ctx = claudeCtx({ auditSink, scopes: ["freeagent:write"] });
+
+    await expect(
+      undoOperations(toolDefinitions, {} as FreeAgentApiClient, { operation_id: "rec", last: 1 }, ctx)
+    ).rejects.toThrow("needs the freeagent:banking scope");
+  });
+});
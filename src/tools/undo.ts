@@ -0,0 +1,245 @@
+/**
+ * Undo for recent writes.
+ *
+ * A ToolDefinition opts in with an UndoSpec. When runAudited records a
+ * successful call, the spec turns its params and result into compensating
+ * actions that are stored on the audit event: DELETE what the call created,
+ * PUT back the field values an update overwrote (captured by `snapshot`
+ * before the handler runs), or transition an invoice back to the status it
+ * had. freeagent_undo replays those actions and records each reversal as an
+ * audit event of its own, so an operation is only undone once.
+ */
+
+import crypto from "crypto";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type { FreeAgentInvoice } from "../types.js";
+import type { UndoInput, TransitionInvoiceInput } from "../schemas/index.js";
+import { urlsAtPaths, type AuditEvent, type CompensatingAction } from "../services/audit.js";
+import { extractIdFromUrl, type ToolResult } from "../services/formatter.js";
+import type { ToolContext, ToolDefinition } from "./register.js";
+import { isToolPermitted, requiredScope } from "./permissions.js";
+
+export interface UndoSpec {
+  /** Runs before the handler, to capture the state the call will overwrite */
+  snapshot?(apiClient: FreeAgentApiClient, params: Record<string, unknown>): Promise<unknown>;
+  /**
+   * Compensating actions for a successful call, in the order to run them.
+   * An empty list means this particular call cannot be undone.
+   */
+  actions(params: Record<string, unknown>, structuredContent: Record<string, unknown>, snapshot: unknown): CompensatingAction[];
+}
+
+const UNDO_TOOL = "freeagent_undo";
+
+/**
+ * Undo a create by deleting what the call made, and nothing else: related
+ * records it only links to (a contact, the invoice a credit note is
+ * against) are left alone.
+ *
+ * @param paths - Where the created resources sit in the output, in the order
+ *   they were created, e.g. "contact" or "applied.explanation" (see urlsAtPaths)
+ */
+export function deleteCreated(...paths: string[]): UndoSpec {
+  return {
+    actions: (_params, structuredContent) =>
+      urlsAtPaths(structuredContent, paths)
+        .reverse()
+        .map((url) => ({ method: "DELETE", path: url, description: `Delete ${url}` })),
+  };
+}
+
+/**
+ * Undo an update by putting back the previous values of the fields it sent.
+ *
+ * @param resourceKey - Key wrapping the resource in requests and responses, e.g. "expense"
+ * @param basePath - Collection path used when the ID param is numeric, e.g. "/expenses"
+ * @param idParam - Param holding the resource ID or URL, e.g. "expense_id"
+ * @param renames - Params whose API field has another name, e.g. { miles: "mileage" }
+ */
+export function restoreUpdated(
+  resourceKey: string,
+  basePath: string,
+  idParam: string,
+  renames: Record<string, string> = {}
+): UndoSpec {
+  return {
+    snapshot: async (apiClient, params) => {
+      const id = String(params[idParam]);
+      const response = await apiClient.get<Record<string, Record<string, unknown>>>(
+        id.startsWith("http") ? id : `${basePath}/${id}`
+      );
+      return response.data[resourceKey];
+    },
+    actions: (params, _structuredContent, snapshot) => {
+      const before = snapshot as Record<string, unknown> | undefined;
+      if (!before || typeof before.url !== "string") return [];
+
+      const fields: Record<string, unknown> = {};
+      for (const param of Object.keys(params)) {
+        if (param === idParam || params[param] === undefined) continue;
+        const field = renames[param] ?? param;
+        fields[field] = before[field] ?? before[param] ?? null;
+      }
+      if (Object.keys(fields).length === 0) return [];
+      return [{
+        method: "PUT",
+        path: before.url,
+        body: { [resourceKey]: fields },
+        description: `Restore ${Object.keys(fields).join(", ")} on ${before.url}`,
+      }];
+    },
+  };
+}
+
+/** Transition that returns an invoice to each status it can be moved back to */
+const TRANSITION_BACK_TO: Record<string, TransitionInvoiceInput["action"]> = {
+  Draft: "mark_as_draft",
+  Scheduled: "mark_as_scheduled",
+  Sent: "mark_as_sent",
+  Open: "mark_as_sent",
+  Overdue: "mark_as_sent",
+  Cancelled: "mark_as_cancelled",
+};
+
+/**
+ * Undo an invoice transition by moving the invoice back to its previous
+ * status. Converting to a credit note cannot be undone.
+ */
+export const revertInvoiceTransition: UndoSpec = {
+  snapshot: async (apiClient, params) => {
+    const id = String(params.invoice_id);
+    const response = await apiClient.get<{ invoice: FreeAgentInvoice }>(
+      `/invoices/${id.startsWith("http") ? extractIdFromUrl(id) : id}`
+    );
+    return response.data.invoice;
+  },
+  actions: (params, _structuredContent, snapshot) => {
+    const before = snapshot as FreeAgentInvoice | undefined;
+    const back = before && TRANSITION_BACK_TO[before.status];
+    if (!before || !back || params.action === "convert_to_credit_note" || params.action === back) return [];
+    return [{
+      method: "PUT",
+      path: `/invoices/${extractIdFromUrl(before.url)}/transitions/${back}`,
+      description: `Return invoice ${before.reference || extractIdFromUrl(before.url)} to ${before.status}`,
+    }];
+  },
+};
+
+async function runAction(apiClient: FreeAgentApiClient, action: CompensatingAction): Promise<void> {
+  if (action.method === "DELETE") {
+    await apiClient.delete(action.path);
+  } else {
+    await apiClient.put(action.path, action.body);
+  }
+}
+
+interface UndoOutcome {
+  operation_id: string;
+  tool: string;
+  actions: CompensatingAction[];
+  outcome: "success" | "error";
+  error?: string;
+}
+
+interface Skipped {
+  operation_id: string;
+  tool: string;
+  reason: string;
+}
+
+/**
+ * Why `event` cannot be undone by this caller, or undefined when it can.
+ */
+function undoBlocker(
+  event: AuditEvent,
+  reversed: Set<string>,
+  catalog: ToolDefinition[],
+  ctx: ToolContext
+): string | undefined {
+  if (event.tool === UNDO_TOOL) return "Undo operations cannot themselves be undone.";
+  if (event.outcome !== "success") return "The operation failed, so there is nothing to undo.";
+  if (reversed.has(event.id)) return "The operation has already been undone.";
+  if (!event.undo || event.undo.length === 0) return `${event.tool} calls cannot be undone automatically.`;
+  const tool = catalog.find((t) => t.name === event.tool);
+  if (tool && !isToolPermitted(tool, ctx.scopes)) {
+    return `Undoing ${event.tool} needs the ${requiredScope(tool)} scope, which this token was not granted.`;
+  }
+  return undefined;
+}
+
+/**
+ * Handler for freeagent_undo. Reverses a specific operation, or the caller's
+ * last N writes newest first, and records each reversal in the audit log.
+ */
+export async function undoOperations(
+  catalog: ToolDefinition[],
+  apiClient: FreeAgentApiClient,
+  params: UndoInput,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  // Without a client ID (stdio) every recorded write is the caller's
+  const history = await ctx.auditSink.query({ client_id: ctx.clientId });
+  const reversed = new Set(
+    history.filter((e) => e.tool === UNDO_TOOL && e.outcome === "success" && e.reverses).map((e) => e.reverses!)
+  );
+
+  let targets: AuditEvent[];
+  const skipped: Skipped[] = [];
+  if (params.operation_id) {
+    const event = history.find((e) => e.id === params.operation_id);
+    if (!event) {
+      throw new Error(
+        `No operation '${params.operation_id}' was recorded for this client. Use freeagent_list_audit_events to find operation IDs.`
+      );
+    }
+    const blocker = undoBlocker(event, reversed, catalog, ctx);
+    if (blocker) throw new Error(`Cannot undo ${event.tool} (${event.id}): ${blocker}`);
+    targets = [event];
+  } else {
+    targets = history
+      .filter((e) => e.tool !== UNDO_TOOL && e.outcome === "success" && !reversed.has(e.id))
+      .slice(0, params.last);
+    targets = targets.filter((event) => {
+      const reason = undoBlocker(event, reversed, catalog, ctx);
+      if (reason) skipped.push({ operation_id: event.id, tool: event.tool, reason });
+      return !reason;
+    });
+  }
+
+  const undone: UndoOutcome[] = [];
+  for (const event of targets) {
+    const actions = event.undo!;
+    const result: UndoOutcome = { operation_id: event.id, tool: event.tool, actions, outcome: "success" };
+    try {
+      for (const action of actions) await runAction(apiClient, action);
+    } catch (error) {
+      result.outcome = "error";
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    undone.push(result);
+
+    await ctx.auditSink.append({
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: UNDO_TOOL,
+      client_id: ctx.clientId,
+      arguments: { operation_id: event.id },
+      outcome: result.outcome,
+      resource_urls: actions.map((a) => a.path),
+      error: result.error,
+      reverses: event.id,
+    });
+  }
+
+  const lines = ["# Undo", ""];
+  if (undone.length === 0 && skipped.length === 0) lines.push("No recorded writes to undo.");
+  for (const u of undone) {
+    lines.push(u.outcome === "success"
+      ? `✅ Undid ${u.tool} (${u.operation_id})`
+      : `❌ Could not fully undo ${u.tool} (${u.operation_id}): ${u.error}`);
+    u.actions.forEach((a) => lines.push(`   - ${a.description}`));
+  }
+  for (const s of skipped) lines.push(`⏭️ Skipped ${s.tool} (${s.operation_id}): ${s.reason}`);
+
+  return { text: lines.join("\n"), structuredContent: { undone, skipped } };
+}
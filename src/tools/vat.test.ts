@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import { ResponseFormat } from "../constants.js";
+import { getVatReturn, listVatReturns, previewVatLiability } from "./vat.js";
+
+const vatReturns = [
+  {
+    url: "https://api.freeagent.com/v2/vat_returns/2026-03-31",
+    period_starts_on: "2026-01-01",
+    period_ends_on: "2026-03-31",
+    filing_due_on: "2026-05-07",
+    filing_status: "filed",
+    payments: [{ label: "Payment", due_on: "2026-05-07", amount_due: "1250.0", status: "paid" }],
+  },
+  {
+    url: "https://api.freeagent.com/v2/vat_returns/2026-06-30",
+    period_starts_on: "2026-04-01",
+    period_ends_on: "2026-06-30",
+    filing_due_on: "2026-08-07",
+    filing_status: "unfiled",
+  },
+];
+
+/** A client serving /company, /vat_returns and /bank_accounts, and paginating the given lists */
+function mockClient(lists: Record<string, object[]> = {}, company: object = { currency: "GBP", sales_tax_registration_status: "Registered" }) {
+  const get = vi.fn(async (path: string) => {
+    if (path === "/company") return { data: { company }, headers: {} };
+    if (path === "/vat_returns") return { data: { vat_returns: vatReturns }, headers: {} };
+    if (path === "/vat_returns/2026-03-31") {
+      return { data: { vat_return: { ...vatReturns[0], box1: "1500.0", box4: 250, box5: "1250.0" } }, headers: {} };
+    }
+    if (path === "/bank_accounts") {
+      return { data: { bank_accounts: [{ url: "https://api.freeagent.com/v2/bank_accounts/1" }] }, headers: {} };
+    }
+    throw new Error(`Unexpected GET ${path}`);
+  });
+  const paginate = vi.fn(async function* (endpoint: string, _key: string, _params: Record<string, unknown>) {
+    yield { items: lists[endpoint] ?? [], page: 1, hasMore: false };
+  });
+  return { client: { get, paginate } as unknown as FreeAgentApiClient, get, paginate };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("listVatReturns", () => {
+  it("lists returns latest first with their filing and payment status", async () => {
+    const { client } = mockClient();
+
+    const result = await listVatReturns(client, { response_format: ResponseFormat.MARKDOWN });
+
+    expect(result.structuredContent).toEqual({
+      vat_returns: [
+        {
+          url: "https://api.freeagent.com/v2/vat_returns/2026-06-30",
+          period_starts_on: "2026-04-01",
+          period_ends_on: "2026-06-30",
+          filing_status: "unfiled",
+          filing_due_on: "2026-08-07",
+        },
+        {
+          url: "https://api.freeagent.com/v2/vat_returns/2026-03-31",
+          period_starts_on: "2026-01-01",
+          period_ends_on: "2026-03-31",
+          filing_status: "filed",
+          filing_due_on: "2026-05-07",
+          payment_due_on: "2026-05-07",
+          amount_due: "1250.00",
+          payment_status: "paid",
+        },
+      ],
+    });
+    expect(result.text).toContain("- **2026-01-01 to 2026-03-31** — filed — file by 2026-05-07 — GBP 1250.00 paid, due 2026-05-07");
+  });
+});
+
+describe("getVatReturn", () => {
+  it("returns the box figures FreeAgent has for the return", async () => {
+    const { client, get } = mockClient();
+
+    const result = await getVatReturn(client, { period_ends_on: "2026-03-31", response_format: ResponseFormat.MARKDOWN });
+
+    expect(get).toHaveBeenCalledWith("/vat_returns/2026-03-31");
+    expect(result.structuredContent).toMatchObject({
+      vat_return: {
+        period_ends_on: "2026-03-31",
+        boxes: [
+          { box: 1, label: "VAT due on sales", amount: "1500.00" },
+          { box: 4, label: "VAT reclaimed on purchases", amount: "250.00" },
+          { box: 5, label: "Net VAT to pay or reclaim", amount: "1250.00" },
+        ],
+      },
+    });
+    expect(result.text).toContain("| 1 | VAT due on sales | GBP 1500.00 |");
+  });
+
+  it("rejects an identifier that is neither a date nor a URL", async () => {
+    const { client } = mockClient();
+    await expect(
+      getVatReturn(client, { period_ends_on: "Q1 2026", response_format: ResponseFormat.MARKDOWN })
+    ).rejects.toThrow("must be a date (YYYY-MM-DD) or a VAT return URL");
+  });
+});
+
+describe("previewVatLiability", () => {
+  it("adds up the boxes for the current period so far and flags explanations marked for review", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-15T12:00:00Z"));
+    const { client, paginate } = mockClient({
+      "/invoices": [
+        { url: "https://api.freeagent.com/v2/invoices/1", dated_on: "2026-04-10", status: "Open", currency: "GBP", net_value: "1000.0", sales_tax_value: "200.0", total_value: "1200.0", contact: "c" },
+        { url: "https://api.freeagent.com/v2/invoices/2", dated_on: "2026-04-12", status: "Draft", currency: "GBP", net_value: "500.0", sales_tax_value: "100.0", total_value: "600.0", contact: "c" },
+        { url: "https://api.freeagent.com/v2/invoices/3", dated_on: "2026-04-20", status: "Sent", currency: "USD", exchange_rate: "0.8", net_value: "100.0", sales_tax_value: "0.0", total_value: "100.0", contact: "c" },
+      ],
+      "/credit_notes": [
+        { url: "https://api.freeagent.com/v2/credit_notes/1", dated_on: "2026-04-18", status: "Refunded", currency: "GBP", net_value: "-100.0", sales_tax_value: "-20.0", total_value: "-120.0", contact: "c" },
+        { url: "https://api.freeagent.com/v2/credit_notes/2", dated_on: "2026-03-28", status: "Open", currency: "GBP", net_value: "-50.0", sales_tax_value: "-10.0", total_value: "-60.0", contact: "c" },
+      ],
+      "/bills": [
+        { url: "https://api.freeagent.com/v2/bills/1", dated_on: "2026-04-05", contact: "s", net_value: "500.0", sales_tax_value: "100.0", total_value: "600.0" },
+        {
+          url: "https://api.freeagent.com/v2/bills/2",
+          dated_on: "2026-05-01",
+          contact: "s",
+          ec_status: "Reverse Charge",
+          net_value: "200.0",
+          sales_tax_value: "0.0",
+          total_value: "200.0",
+          bill_items: [{ description: "Hosting", sales_tax_rate: "0.20" }],
+        },
+      ],
+      "/bank_transaction_explanations": [
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/1", bank_transaction: "t", dated_on: "2026-04-15", gross_value: "-120.0", sales_tax_rate: "0.20", description: "Printer ink", marked_for_review: true },
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/2", bank_transaction: "t", dated_on: "2026-04-25", gross_value: "1200.0", paid_invoice: "https://api.freeagent.com/v2/invoices/1" },
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/3", bank_transaction: "t", dated_on: "2026-05-02", gross_value: "60.0", sales_tax_rate: "0.20", sales_tax_value: "10.0" },
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/4", bank_transaction: "t", dated_on: "2026-04-28", gross_value: "-2500.0", category: "https://api.freeagent.com/v2/categories/401", description: "Salaries" },
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/5", bank_transaction: "t", dated_on: "2026-05-07", gross_value: "-1250.0", category: "https://api.freeagent.com/v2/categories/817", description: "VAT to HMRC" },
+        { url: "https://api.freeagent.com/v2/bank_transaction_explanations/6", bank_transaction: "t", dated_on: "2026-05-08", gross_value: "5000.0", sales_tax_rate: "0.0", sales_tax_status: "OUT_OF_SCOPE", description: "Director loan" },
+      ],
+    });
+
+    const result = await previewVatLiability(client, { response_format: ResponseFormat.MARKDOWN });
+
+    expect(paginate).toHaveBeenCalledWith("/invoices", "invoices", { view: "all", sort: "-dated_on", per_page: 100 });
+    expect(paginate).toHaveBeenCalledWith(
+      "/bank_transaction_explanations",
+      "bank_transaction_explanations",
+      expect.objectContaining({ from_date: "2026-04-01", to_date: "2026-05-15", bank_account: "https://api.freeagent.com/v2/bank_accounts/1" })
+    );
+    const data = result.structuredContent as { boxes: { box: number; amount: string }[] };
+    expect(Object.fromEntries(data.boxes.map((b) => [b.box, b.amount]))).toEqual({
+      1: "230.00",
+      2: "0.00",
+      3: "230.00",
+      4: "160.00",
+      5: "70.00",
+      6: "1030.00",
+      7: "800.00",
+      8: "0.00",
+      9: "0.00",
+    });
+    expect(result.structuredContent).toMatchObject({
+      period_starts_on: "2026-04-01",
+      period_ends_on: "2026-06-30",
+      as_of_date: "2026-05-15",
+      net_vat_due: "70.00",
+      counted: { invoices: 2, credit_notes: 1, bills: 2, explanations: 2 },
+      for_review: [{ url: "https://api.freeagent.com/v2/bank_transaction_explanations/1", dated_on: "2026-04-15", description: "Printer ink", gross_value: "-120.0" }],
+    });
+    expect(paginate).toHaveBeenCalledWith("/credit_notes", "credit_notes", { view: "all", sort: "-dated_on", per_page: 100 });
+    expect(result.text).toContain("**VAT owed so far**: GBP 70.00");
+    expect(result.text).toContain("⚠️ 1 bank transaction(s) are still marked for review");
+    expect(result.text).toContain("1 invoice(s), credit note(s) or bill(s) in other currencies were converted to GBP");
+  });
+
+  it("reads invoices newest first and stops at the first page before the period", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-15T12:00:00Z"));
+    const invoice = (id: number, dated_on: string) => ({
+      url: `https://api.freeagent.com/v2/invoices/${id}`, dated_on, status: "Open", currency: "GBP", net_value: "100.0", sales_tax_value: "20.0", total_value: "120.0", contact: "c",
+    });
+    const pages = [
+      [invoice(3, "2026-05-01"), invoice(2, "2026-04-02")],
+      [invoice(1, "2026-04-01"), invoice(0, "2026-03-31")],
+      [invoice(-1, "2026-03-01")],
+    ];
+    const { client, paginate } = mockClient();
+    let pagesRead = 0;
+    const invoicePages = async function* () {
+      for (const [i, items] of pages.entries()) {
+        pagesRead++;
+        yield { items, page: i + 1, hasMore: i < pages.length - 1 };
+      }
+    };
+    const otherLists = paginate.getMockImplementation()!;
+    paginate.mockImplementation((endpoint, key, params) =>
+      endpoint === "/invoices" ? invoicePages() : otherLists(endpoint, key, params)
+    );
+
+    const result = await previewVatLiability(client, { response_format: ResponseFormat.JSON });
+
+    expect(pagesRead).toBe(2);
+    expect(result.structuredContent).toMatchObject({ counted: { invoices: 3 } });
+    const data = result.structuredContent as { boxes: { box: number; amount: string }[] };
+    expect(data.boxes[0]).toMatchObject({ box: 1, amount: "60.00" });
+  });
+
+  it("refuses when the company is not VAT registered", async () => {
+    const { client } = mockClient({}, { currency: "GBP", sales_tax_registration_status: "Not Registered" });
+    await expect(
+      previewVatLiability(client, { from_date: "2026-04-01", to_date: "2026-06-30", response_format: ResponseFormat.MARKDOWN })
+    ).rejects.toThrow("not VAT registered");
+  });
+
+  it("needs both dates or neither", async () => {
+    const { client } = mockClient();
+    await expect(
+      previewVatLiability(client, { from_date: "2026-04-01", response_format: ResponseFormat.MARKDOWN })
+    ).rejects.toThrow("Give both from_date and to_date");
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * VAT Tools
+ *
+ * List the company's VAT returns and their box figures, and estimate the
+ * return for a period that is still open. The estimate adds up the nine
+ * boxes from the invoices, credit notes, bills and bank transaction
+ * explanations dated in the period, using each one's sales_tax_value,
+ * sales_tax_rate and ec_status, so it can be checked before FreeAgent files
+ * the return.
+ */
+
+import type { FreeAgentApiClient } from "../services/api-client.js";
+import type {
+  FreeAgentBankAccount,
+  FreeAgentBankTransactionExplanation,
+  FreeAgentBill,
+  FreeAgentCompany,
+  FreeAgentCreditNote,
+  FreeAgentInvoice,
+  FreeAgentVatReturn,
+} from "../types.js";
+import type { GetVatReturnInput, ListVatReturnsInput, PreviewVatLiabilityInput } from "../schemas/index.js";
+import {
+  formatCurrency,
+  formatResponse,
+  inCompanyCurrency,
+  toAmount,
+  today,
+  toNumber,
+  truncateIfNeeded,
+  type ToolResult,
+} from "../services/formatter.js";
+import { listAll, listDatedSince } from "../services/pagination.js";
+
+/** The boxes of a UK VAT return, with the names HMRC's MTD API gives them */
+const BOXES = [
+  { box: 1, label: "VAT due on sales", hmrc: "vatDueSales" },
+  { box: 2, label: "VAT due on acquisitions from the EU", hmrc: "vatDueAcquisitions" },
+  { box: 3, label: "Total VAT due", hmrc: "totalVatDue" },
+  { box: 4, label: "VAT reclaimed on purchases", hmrc: "vatReclaimedCurrPeriod" },
+  { box: 5, label: "Net VAT to pay or reclaim", hmrc: "netVatDue" },
+  { box: 6, label: "Total sales excluding VAT", hmrc: "totalValueSalesExVAT" },
+  { box: 7, label: "Total purchases excluding VAT", hmrc: "totalValuePurchasesExVAT" },
+  { box: 8, label: "Supplies of goods to the EU excluding VAT", hmrc: "totalValueGoodsSuppliedExVAT" },
+  { box: 9, label: "Acquisitions of goods from the EU excluding VAT", hmrc: "totalAcquisitionsExVAT" },
+] as const;
+
+type BoxNumber = (typeof BOXES)[number]["box"];
+
+interface VatBox {
+  box: BoxNumber;
+  label: string;
+  amount: string;
+}
+
+interface VatReturnSummary {
+  url: string;
+  period_starts_on: string;
+  period_ends_on: string;
+  frequency?: string;
+  filing_status?: string;
+  filing_due_on?: string;
+  filed_at?: string;
+  payment_due_on?: string;
+  amount_due?: string;
+  payment_status?: string;
+}
+
+function summarizeReturn(vatReturn: FreeAgentVatReturn): VatReturnSummary {
+  const summary: VatReturnSummary = {
+    url: vatReturn.url,
+    period_starts_on: vatReturn.period_starts_on,
+    period_ends_on: vatReturn.period_ends_on,
+  };
+  if (vatReturn.frequency) summary.frequency = vatReturn.frequency;
+  if (vatReturn.filing_status) summary.filing_status = vatReturn.filing_status;
+  if (vatReturn.filing_due_on) summary.filing_due_on = vatReturn.filing_due_on;
+  if (vatReturn.filed_at) summary.filed_at = vatReturn.filed_at;
+  const payment = vatReturn.payments?.[0];
+  if (payment?.due_on) summary.payment_due_on = payment.due_on;
+  if (payment?.amount_due !== undefined) summary.amount_due = toAmount(toNumber(payment.amount_due));
+  if (payment?.status) summary.payment_status = payment.status;
+  return summary;
+}
+
+/** The box figures on a single return, under FreeAgent's or HMRC's names */
+function returnBoxes(vatReturn: FreeAgentVatReturn): VatBox[] {
+  const boxes: VatBox[] = [];
+  for (const { box, label, hmrc } of BOXES) {
+    const value = [`box${box}`, `box_${box}`, hmrc].map((key) => vatReturn[key]).find((v) => v !== undefined && v !== null);
+    if (value !== undefined) boxes.push({ box, label, amount: toAmount(toNumber(value)) });
+  }
+  return boxes;
+}
+
+async function fetchVatReturns(client: FreeAgentApiClient): Promise<FreeAgentVatReturn[]> {
+  const response = await client.get<{ vat_returns?: FreeAgentVatReturn[] }>("/vat_returns");
+  return [...(response.data.vat_returns ?? [])].sort((a, b) => b.period_ends_on.localeCompare(a.period_ends_on));
+}
+
+function describePayment(r: VatReturnSummary, currency: string): string {
+  let payment = formatCurrency(r.amount_due!, currency);
+  if (r.payment_status) payment += ` ${r.payment_status}`;
+  if (r.payment_due_on) payment += `, due ${r.payment_due_on}`;
+  return payment;
+}
+
+function describeReturn(r: VatReturnSummary, currency: string): string {
+  const parts = [`**${r.period_starts_on} to ${r.period_ends_on}**`, r.filing_status ?? "unknown status"];
+  if (r.filing_due_on) parts.push(`file by ${r.filing_due_on}`);
+  if (r.amount_due !== undefined) parts.push(describePayment(r, currency));
+  return parts.join(" — ");
+}
+
+/**
+ * List VAT returns, latest period first, with their filing and payment
+ * status and due dates.
+ */
+export async function listVatReturns(
+  client: FreeAgentApiClient,
+  params: ListVatReturnsInput
+): Promise<ToolResult> {
+  const [returns, company] = await Promise.all([
+    fetchVatReturns(client),
+    client.get<{ company: FreeAgentCompany }>("/company"),
+  ]);
+  const currency = company.data.company.currency || "GBP";
+  const vat_returns = returns.map(summarizeReturn);
+  const data = { vat_returns };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = ["# VAT Returns", ""];
+    if (vat_returns.length === 0) {
+      lines.push("No VAT returns found. Check that the company is VAT registered in FreeAgent.");
+      return lines.join("\n");
+    }
+    for (const r of vat_returns) lines.push(`- ${describeReturn(r, currency)}`);
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
+
+/**
+ * One VAT return with its box figures.
+ */
+export async function getVatReturn(
+  client: FreeAgentApiClient,
+  params: GetVatReturnInput
+): Promise<ToolResult> {
+  const { period_ends_on, response_format } = params;
+  if (!period_ends_on.startsWith("http") && !/^\d{4}-\d{2}-\d{2}$/.test(period_ends_on)) {
+    throw new Error(`period_ends_on must be a date (YYYY-MM-DD) or a VAT return URL; got '${period_ends_on}'.`);
+  }
+  const url = period_ends_on.startsWith("http") ? period_ends_on : `/vat_returns/${period_ends_on}`;
+
+  const [response, company] = await Promise.all([
+    client.get<{ vat_return: FreeAgentVatReturn }>(url),
+    client.get<{ company: FreeAgentCompany }>("/company"),
+  ]);
+  const currency = company.data.company.currency || "GBP";
+  const vatReturn = response.data.vat_return;
+  const vat_return = { ...summarizeReturn(vatReturn), boxes: returnBoxes(vatReturn) };
+
+  const text = formatResponse({ vat_return }, response_format, () => {
+    const lines = [`# VAT Return: ${vat_return.period_starts_on} to ${vat_return.period_ends_on}`, ""];
+    lines.push(`- **Status**: ${vat_return.filing_status ?? "unknown"}`);
+    if (vat_return.filing_due_on) lines.push(`- **Filing due**: ${vat_return.filing_due_on}`);
+    if (vat_return.filed_at) lines.push(`- **Filed**: ${vat_return.filed_at}`);
+    if (vat_return.amount_due !== undefined) lines.push(`- **Payment**: ${describePayment(vat_return, currency)}`);
+    lines.push("");
+    if (vat_return.boxes.length === 0) {
+      lines.push("FreeAgent has not worked out the box figures for this return yet.");
+    } else {
+      lines.push("| Box | Description | Amount |", "|----:|-------------|-------:|");
+      for (const b of vat_return.boxes) lines.push(`| ${b.box} | ${b.label} | ${formatCurrency(b.amount, currency)} |`);
+    }
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: { vat_return } };
+}
+
+/** sales_tax_rate as a fraction; FreeAgent sometimes sends a percentage ("20.0") */
+function rateOf(rate: string | undefined): number {
+  const r = toNumber(rate);
+  return r > 1 ? r / 100 : r;
+}
+
+type Totals = Record<BoxNumber, number>;
+
+/** A sale: output VAT in box 1, its net value in box 6 (and box 8 for goods to the EU) */
+function addSale(totals: Totals, net: number, vat: number, ecStatus: string | undefined): void {
+  totals[1] += vat;
+  totals[6] += net;
+  if (ecStatus === "EC Goods") totals[8] += net;
+}
+
+/**
+ * A purchase: input VAT in box 4 and its net value in box 7. Under the
+ * reverse charge the supplier charges no VAT, so the buyer accounts for it
+ * at `rate` on both sides: in box 1 (or box 2 for goods from the EU) and
+ * again in box 4.
+ */
+function addPurchase(totals: Totals, net: number, vat: number, ecStatus: string | undefined, rate: number): void {
+  totals[7] += net;
+  if (ecStatus === "EC Goods") {
+    totals[2] += net * rate;
+    totals[4] += net * rate;
+    totals[9] += net;
+  } else if (ecStatus === "Reverse Charge" || ecStatus === "EC Services") {
+    totals[1] += net * rate;
+    totals[4] += net * rate;
+  } else {
+    totals[4] += vat;
+  }
+}
+
+/** The rate on a bill, from the first of its items that has one */
+function billRate(bill: FreeAgentBill): number {
+  return rateOf(bill.bill_items?.find((item) => item.sales_tax_rate)?.sales_tax_rate);
+}
+
+const NOT_ISSUED = new Set(["draft", "cancelled"]);
+
+/** The VAT period to preview: the dates given, or the return whose period includes today */
+async function previewPeriod(
+  client: FreeAgentApiClient,
+  params: PreviewVatLiabilityInput
+): Promise<{ from: string; to: string }> {
+  if (params.from_date && params.to_date) {
+    if (params.from_date > params.to_date) {
+      throw new Error(`from_date (${params.from_date}) is after to_date (${params.to_date}).`);
+    }
+    return { from: params.from_date, to: params.to_date };
+  }
+  if (params.from_date || params.to_date) {
+    throw new Error("Give both from_date and to_date, or neither for the VAT period that includes today.");
+  }
+  const date = today();
+  const current = (await fetchVatReturns(client)).find((r) => r.period_starts_on <= date && date <= r.period_ends_on);
+  if (!current) {
+    throw new Error("FreeAgent has no VAT return for a period that includes today. Give the period's from_date and to_date.");
+  }
+  return { from: current.period_starts_on, to: current.period_ends_on };
+}
+
+/**
+ * Estimate the VAT return for a period from the transactions entered so
+ * far. Invoices, credit notes and bills count on their dates (the invoice
+ * basis); bank transaction explanations count unless they pay an invoice,
+ * bill or expense claim, move money between accounts, or are outside the
+ * scope of VAT.
+ */
+export async function previewVatLiability(
+  client: FreeAgentApiClient,
+  params: PreviewVatLiabilityInput
+): Promise<ToolResult> {
+  const companyResponse = await client.get<{ company: FreeAgentCompany }>("/company");
+  const company = companyResponse.data.company;
+  if (/not registered/i.test(company.sales_tax_registration_status ?? "")) {
+    throw new Error(
+      `The company is not VAT registered (sales_tax_registration_status: ${company.sales_tax_registration_status}), so it has no VAT to pay.`
+    );
+  }
+  const currency = company.currency || "GBP";
+
+  const { from, to } = await previewPeriod(client, params);
+  const asOf = to < today() ? to : today();
+  if (asOf < from) {
+    throw new Error(`The period ${from} to ${to} has not started yet.`);
+  }
+  const range = { from_date: from, to_date: asOf, per_page: 100 };
+  const inRange = (d: { dated_on: string }) => d.dated_on >= from && d.dated_on <= asOf;
+
+  const [invoices, creditNotes, bills, bankAccounts] = await Promise.all([
+    listDatedSince<FreeAgentInvoice>(client, "/invoices", "invoices", from),
+    listDatedSince<FreeAgentCreditNote>(client, "/credit_notes", "credit_notes", from),
+    listAll<FreeAgentBill>(client, "/bills", "bills", { ...range, view: "all" }),
+    client.get<{ bank_accounts?: FreeAgentBankAccount[] }>("/bank_accounts"),
+  ]);
+  const explanations: FreeAgentBankTransactionExplanation[] = [];
+  for (const account of bankAccounts.data.bank_accounts ?? []) {
+    explanations.push(...(await listAll<FreeAgentBankTransactionExplanation>(
+      client, "/bank_transaction_explanations", "bank_transaction_explanations", { ...range, bank_account: account.url }
+    )));
+  }
+
+  const totals = Object.fromEntries(BOXES.map(({ box }) => [box, 0])) as Totals;
+  const counted = { invoices: 0, credit_notes: 0, bills: 0, explanations: 0 };
+  let converted = 0;
+
+  for (const invoice of invoices) {
+    if (!inRange(invoice) || NOT_ISSUED.has(invoice.status.toLowerCase())) continue;
+    if (invoice.currency && invoice.currency !== currency) converted++;
+    addSale(
+      totals,
+      inCompanyCurrency(invoice.net_value, invoice, currency),
+      inCompanyCurrency(invoice.sales_tax_value, invoice, currency),
+      invoice.ec_status
+    );
+    counted.invoices++;
+  }
+
+  // A credit note reverses part of a sale, whichever sign FreeAgent gives its values
+  for (const creditNote of creditNotes) {
+    if (!inRange(creditNote) || NOT_ISSUED.has((creditNote.status ?? "").toLowerCase())) continue;
+    if (creditNote.currency && creditNote.currency !== currency) converted++;
+    addSale(
+      totals,
+      -Math.abs(inCompanyCurrency(creditNote.net_value, creditNote, currency)),
+      -Math.abs(inCompanyCurrency(creditNote.sales_tax_value, creditNote, currency)),
+      creditNote.ec_status
+    );
+    counted.credit_notes++;
+  }
+
+  for (const bill of bills) {
+    if (!inRange(bill)) continue;
+    if (bill.currency && bill.currency !== currency) converted++;
+    const vat = inCompanyCurrency(bill.sales_tax_value, bill, currency);
+    const net = bill.net_value !== undefined
+      ? inCompanyCurrency(bill.net_value, bill, currency)
+      : inCompanyCurrency(bill.total_value, bill, currency) - vat;
+    addPurchase(totals, net, vat, bill.ec_status, billRate(bill));
+    counted.bills++;
+  }
+
+  const forReview: { url: string; dated_on: string; description?: string; gross_value: string }[] = [];
+  for (const explanation of explanations) {
+    if (!inRange(explanation)) continue;
+    if (explanation.marked_for_review) {
+      const item: (typeof forReview)[number] = { url: explanation.url, dated_on: explanation.dated_on, gross_value: explanation.gross_value };
+      if (explanation.description) item.description = explanation.description;
+      forReview.push(item);
+    }
+    // Payments and transfers carry no VAT of their own: it is on the invoice, bill or claim
+    if (explanation.paid_invoice || explanation.paid_bill || explanation.paid_user || explanation.transfer_bank_account) continue;
+    // Salaries, loans, capital, dividends and the VAT paid to HMRC are outside the scope of VAT
+    if (explanation.sales_tax_rate === undefined || /out.of.scope/i.test(explanation.sales_tax_status ?? "")) continue;
+
+    const gross = toNumber(explanation.gross_value);
+    const rate = rateOf(explanation.sales_tax_rate);
+    const vat = explanation.sales_tax_value !== undefined
+      ? Math.abs(toNumber(explanation.sales_tax_value))
+      : Math.abs(gross) * rate / (1 + rate);
+    const net = Math.abs(gross) - vat;
+    if (gross >= 0) addSale(totals, net, vat, explanation.ec_status);
+    else addPurchase(totals, net, vat, explanation.ec_status, rate);
+    counted.explanations++;
+  }
+
+  totals[3] = totals[1] + totals[2];
+  const netVatDue = totals[3] - totals[4];
+  totals[5] = Math.abs(netVatDue);
+  const boxes: VatBox[] = BOXES.map(({ box, label }) => ({ box, label, amount: toAmount(totals[box]) }));
+
+  const notes = [
+    "Invoices and bills count on their dates. If the company uses the VAT cash accounting scheme, FreeAgent counts payments instead and the return will differ.",
+    "Out-of-pocket expense claims are not included, so the VAT to reclaim may be higher.",
+  ];
+  if (converted > 0) {
+    notes.push(`${converted} invoice(s), credit note(s) or bill(s) in other currencies were converted to ${currency} at their own exchange rates.`);
+  }
+
+  const data = {
+    period_starts_on: from,
+    period_ends_on: to,
+    as_of_date: asOf,
+    currency,
+    boxes,
+    net_vat_due: toAmount(netVatDue),
+    counted,
+    for_review: forReview,
+    notes,
+  };
+
+  const text = formatResponse(data, params.response_format, () => {
+    const lines = [`# VAT Preview: ${from} to ${to}`, ""];
+    lines.push(
+      `Transactions up to ${asOf}: ${counted.invoices} invoice(s), ${counted.credit_notes} credit note(s), ${counted.bills} bill(s), ${counted.explanations} bank explanation(s).`,
+      ""
+    );
+    lines.push(
+      netVatDue >= 0
+        ? `**VAT owed so far**: ${formatCurrency(toAmount(netVatDue), currency)}`
+        : `**VAT to reclaim so far**: ${formatCurrency(toAmount(-netVatDue), currency)}`,
+      ""
+    );
+    if (forReview.length > 0) {
+      lines.push(`⚠️ ${forReview.length} bank transaction(s) are still marked for review, so these figures may change:`);
+      for (const item of forReview) {
+        lines.push(`- ${item.dated_on} ${formatCurrency(item.gross_value, currency)}${item.description ? ` ${item.description}` : ""} (${item.url})`);
+      }
+      lines.push("");
+    }
+    lines.push("| Box | Description | Amount |", "|----:|-------------|-------:|");
+    for (const b of boxes) lines.push(`| ${b.box} | ${b.label} | ${formatCurrency(b.amount, currency)} |`);
+    lines.push("", ...notes.map((note) => `_${note}_`));
+    return lines.join("\n");
+  });
+
+  return { text: truncateIfNeeded(text), structuredContent: data };
+}
@@ -51,11 +51,41 @@ export interface FreeAgentInvoice {
 }
 
 export interface FreeAgentInvoiceItem {
+  url?: string;
+  position?: number;
   item_type: string;
   description: string;
   price: string;
   quantity: string;
   sales_tax_rate?: string;
+  category?: string;
+}
+
+export interface FreeAgentCreditNote {
+  url: string;
+  contact: string;
+  credit_note_items?: FreeAgentInvoiceItem[];
+  dated_on: string;
+  reference?: string;
+  currency: string;
+  exchange_rate?: string;
+  net_value: string;
+  sales_tax_value?: string;
+  total_value: string;
+  status?: string;
+  ec_status?: string;
+  comments?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface FreeAgentCreditNoteReconciliation {
+  url: string;
+  invoice: string;
+  credit_note: string;
+  gross_value: string;
+  dated_on: string;
+  exchange_rate?: string;
 }
 
 export interface FreeAgentExpense {
@@ -236,6 +266,7 @@ export interface FreeAgentBankTransactionExplanation {
   project?: string;
   sales_tax_rate?: string;
   sales_tax_value?: string;
+  sales_tax_status?: string;
   attachment_count?: number;
   created_at?: string;
   updated_at?: string;
@@ -343,6 +374,72 @@ export interface FreeAgentPriceListItem {
   updated_at?: string;
 }
 
+/** GET /accounting/profit_and_loss/summary */
+export interface FreeAgentProfitAndLossSummary {
+  from: string;
+  to: string;
+  income: number | string;
+  expenses: number | string;
+  operating_profit: number | string;
+  /** Deductions after operating profit, e.g. Corporation Tax */
+  less?: { title: string; total: number | string }[];
+  retained_profit?: number | string;
+  retained_profit_brought_forward?: number | string;
+  retained_profit_carried_forward?: number | string;
+}
+
+/** One category in GET /accounting/trial_balance/summary; debits positive, credits negative */
+export interface FreeAgentTrialBalanceEntry {
+  category: string;
+  nominal_code: string;
+  display_nominal_code?: string;
+  name: string;
+  total: number | string;
+}
+
+export interface FreeAgentBalanceSheetAccount {
+  nominal_code: string;
+  display_nominal_code?: string;
+  name: string;
+  total: number | string;
+}
+
+/**
+ * GET /accounting/balance_sheet. Sections such as current_assets hold an
+ * `accounts` list and their own totals; other keys are figures such as
+ * total_assets.
+ */
+export interface FreeAgentBalanceSheet {
+  accounting_period_start_date?: string;
+  as_at_date: string;
+  currency?: string;
+  [key: string]: unknown;
+}
+
+export interface FreeAgentVatReturnPayment {
+  label?: string;
+  due_on?: string;
+  amount_due?: number | string;
+  status?: string;
+}
+
+/**
+ * GET /vat_returns. Each return covers one VAT period and is identified by
+ * the date the period ends; a single return also carries its box figures.
+ */
+export interface FreeAgentVatReturn {
+  url: string;
+  period_starts_on: string;
+  period_ends_on: string;
+  frequency?: string;
+  filing_due_on?: string;
+  filing_status?: string;
+  filed_at?: string;
+  filed_reference?: string;
+  payments?: FreeAgentVatReturnPayment[];
+  [key: string]: unknown;
+}
+
 export interface FreeAgentApiErrorItem {
   message?: string;
   [key: string]: unknown;